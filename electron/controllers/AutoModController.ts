@@ -2,9 +2,17 @@ import { ipcMain } from "electron";
 import log from "electron-log";
 import { autoModConfigService } from "../services/AutoModConfigService";
 import { autoModRuleService } from "../services/AutoModRuleService";
+import { autoModExpressionService } from "../services/AutoModExpressionService";
+import { autoModShadowService } from "../services/AutoModShadowService";
+import { autoModBacktestService } from "../services/AutoModBacktestService";
+import { keywordMatchService, KeywordMatchMode } from "../services/KeywordMatchService";
 import { databaseService } from "../services/DatabaseService";
-import { instanceGuardService } from "../services/InstanceGuardService";
+import { instanceGuardService, InstanceGuardHistoryQuery } from "../services/InstanceGuardService";
+import { instanceGuardScheduleService, InstanceGuardSchedule } from "../services/InstanceGuardScheduleService";
+import { validatePopulationRules, InstancePopulationRule } from "../services/InstancePopulationService";
+import { auditPolicyService, AuditPolicy } from "../services/AuditPolicyService";
 import { windowService } from "../services/WindowService";
+import { groupAuthorizationService } from "../services/GroupAuthorizationService";
 import { vrchatApiService } from "../services/VRChatApiService";
 import { autoModService } from "../services/AutoModService";
 import { autoModScannerService } from "../services/AutoModScannerService";
@@ -12,6 +20,12 @@ import { serviceEventBus } from "../services/ServiceEventBus";
 
 const logger = log.scope("AutoModController");
 
+const getKeywordErrors = (keywords: string[], matchMode: KeywordMatchMode) => {
+  return keywords
+    .map((keyword) => ({ keyword, error: keywordMatchService.validate(keyword, matchMode) }))
+    .filter((e): e is { keyword: string; error: string } => e.error !== null);
+};
+
 export const setupAutoModHandlers = () => {
   logger.info("Initializing AutoMod handlers...");
 
@@ -74,6 +88,59 @@ export const setupAutoModHandlers = () => {
   });
 
   ipcMain.handle("automod:save-rule", (_e, { groupId, rule }) => {
+    if (rule.type === "COMPOSITE") {
+      let condition: unknown = null;
+      try { condition = JSON.parse(rule.config).condition; } catch { /* Reported below */ }
+      const errors = autoModExpressionService.validate(condition);
+      if (errors.length > 0) {
+        throw new Error(`Invalid rule condition: ${errors.join("; ")}`);
+      }
+    }
+
+    if (rule.type === "KEYWORD_BLOCK") {
+      let parsed: { keywords?: string[]; matchMode?: KeywordMatchMode } = {};
+      try { parsed = JSON.parse(rule.config); } catch { /* Legacy plain-string config */ }
+      const errors = getKeywordErrors(parsed.keywords || [], parsed.matchMode || "PARTIAL");
+      if (errors.length > 0) {
+        throw new Error(`Invalid keyword pattern: ${errors.map(e => `"${e.keyword}": ${e.error}`).join("; ")}`);
+      }
+    }
+
+    if (rule.type === "INSTANCE_SCHEDULE") {
+      let schedules: InstanceGuardSchedule[] = [];
+      try { schedules = JSON.parse(rule.config).schedules || []; } catch { /* Reported below */ }
+      const errors = instanceGuardScheduleService.validate(schedules);
+      if (errors.length > 0) {
+        throw new Error(`Invalid schedule: ${errors.join("; ")}`);
+      }
+    }
+
+    if (rule.type === "INSTANCE_POPULATION") {
+      let populationRules: InstancePopulationRule[] = [];
+      try { populationRules = JSON.parse(rule.config).rules || []; } catch { /* Reported below */ }
+      const errors = validatePopulationRules(populationRules);
+      if (errors.length > 0) {
+        throw new Error(`Invalid population rule: ${errors.join("; ")}`);
+      }
+    }
+
+    if (rule.type === "AUDIT_POLICIES") {
+      let policies: AuditPolicy[] = [];
+      try { policies = JSON.parse(rule.config).policies || []; } catch { /* Reported below */ }
+      const errors = auditPolicyService.validate(policies);
+      if (errors.length > 0) {
+        throw new Error(`Invalid audit policy: ${errors.join("; ")}`);
+      }
+    }
+
+    if (rule.type === "INSTANCE_CLOSE_GRACE") {
+      let graceMinutes = 5;
+      try { graceMinutes = JSON.parse(rule.config).graceMinutes ?? 5; } catch { /* Defaults */ }
+      if (!Number.isFinite(graceMinutes) || graceMinutes < 1 || graceMinutes > 60) {
+        throw new Error("Grace period must be between 1 and 60 minutes");
+      }
+    }
+
     const config = autoModConfigService.getGroupConfig(groupId);
     const rules = config.rules;
 
@@ -93,6 +160,10 @@ export const setupAutoModHandlers = () => {
     return rule;
   });
 
+  ipcMain.handle("automod:validate-keywords", (_e, { keywords, matchMode }) => {
+    return getKeywordErrors(keywords || [], matchMode || "PARTIAL");
+  });
+
   ipcMain.handle("automod:delete-rule", (_e, { groupId, ruleId }) => {
     const config = autoModConfigService.getGroupConfig(groupId);
     const rules = config.rules;
@@ -228,6 +299,20 @@ export const setupAutoModHandlers = () => {
     return await autoModScannerService.processEvaluateMember(groupId, member);
   });
 
+  ipcMain.handle("automod:get-shadow-report", async (_e, { groupId, windowHours }) => {
+    return autoModShadowService.getReport(groupId, windowHours || 24 * 7);
+  });
+
+  ipcMain.handle("automod:backtest", async (_e, { groupId, rules }) => {
+    try {
+      const result = await autoModBacktestService.run(groupId, rules);
+      return { success: true, ...result };
+    } catch (error) {
+      logger.error("Failed to backtest rules", error);
+      return { success: false, error: String(error) };
+    }
+  });
+
   ipcMain.handle("automod:add-to-whitelist", async (_e, { groupId, ruleId, target }) => {
     return autoModRuleService.addToWhitelist(groupId, ruleId, target);
   });
@@ -243,11 +328,32 @@ export const setupAutoModHandlers = () => {
   });
 
   // ===== INSTANCE GUARD HANDLERS =====
-  ipcMain.handle("instance-guard:get-history", (_e, groupId: string) => {
-    return instanceGuardService.getHistory(groupId);
+  ipcMain.handle("instance-guard:get-history", async (_e, { groupId, query }: { groupId: string; query?: InstanceGuardHistoryQuery }) => {
+    groupAuthorizationService.validateAccess(groupId, "instance-guard:get-history");
+    try {
+      return await instanceGuardService.getHistory(groupId, query);
+    } catch (error) {
+      logger.error("Failed to load Instance Guard history", error);
+      return { events: [], total: 0 };
+    }
+  });
+
+  ipcMain.handle("instance-guard:validate-schedules", (_e, schedules: InstanceGuardSchedule[]) => {
+    return instanceGuardScheduleService.validate(schedules || []);
+  });
+
+  ipcMain.handle("instance-guard:clear-history", (_e, groupId: string) => {
+    groupAuthorizationService.validateAccess(groupId, "instance-guard:clear-history");
+    return instanceGuardService.clearHistory(groupId);
+  });
+
+  ipcMain.handle("instance-guard:get-pending", (_e, groupId: string) => {
+    groupAuthorizationService.validateAccess(groupId, "instance-guard:get-pending");
+    return instanceGuardService.getPendingCloses(groupId);
   });
 
-  ipcMain.handle("instance-guard:clear-history", () => {
-    return instanceGuardService.clearHistory();
+  ipcMain.handle("instance-guard:cancel-pending", (_e, { groupId, key }: { groupId: string; key: string }) => {
+    groupAuthorizationService.validateAccess(groupId, "instance-guard:cancel-pending");
+    return instanceGuardService.cancelPendingClose(groupId, key);
   });
 };
@@ -324,6 +324,9 @@ import { setupInstanceHandlers } from './services/InstanceService';
 import { setupOscHandlers, oscService } from './services/OscService';
 import { setupOscAnnouncementHandlers } from './services/OscAnnouncementService';
 import { setupDiscordWebhookHandlers } from './services/DiscordWebhookService';
+import { webhookQueueService } from './services/WebhookQueueService';
+import { genericWebhookService } from './services/GenericWebhookService';
+import { webhookDigestService } from './services/WebhookDigestService';
 import { setupReportHandlers } from './services/ReportService';
 import { setupUserProfileHandlers } from './services/UserProfileService';
 import { setupBulkFriendHandlers } from './services/BulkFriendService';
@@ -354,6 +357,9 @@ progress.update('OSC Announcement');
 setupOscAnnouncementHandlers();
 progress.update('Discord Webhooks');
 setupDiscordWebhookHandlers();
+webhookQueueService.initialize();
+genericWebhookService.initialize();
+webhookDigestService.initialize();
 progress.update('Report Engine');
 setupReportHandlers();
 progress.update('User Profiles');
@@ -363,7 +369,7 @@ setupBulkFriendHandlers();
 progress.update('Friendship IPC');
 setupFriendshipHandlers();
 progress.update('Player Flags');
-playerFlagService.setupHandlers();
+playerFlagService.initialize();
 
 // ...
 import { processService } from './services/ProcessService';
@@ -412,8 +418,28 @@ progress.update('Settings');
 
 import { watchlistService } from './services/WatchlistService';
 watchlistService.initialize();
+import { watchlistFeedService } from './services/WatchlistFeedService';
+watchlistFeedService.initialize();
+import { watchlistMonitorService } from './services/WatchlistMonitorService';
+watchlistMonitorService.initialize();
+import { joinLeaveSummaryService } from './services/JoinLeaveSummaryService';
+joinLeaveSummaryService.initialize();
 progress.update('Watchlist');
 
+import { evidenceService } from './services/EvidenceService';
+evidenceService.initialize();
+import { caseService } from './services/CaseService';
+caseService.initialize();
+
+import { strikeService } from './services/StrikeService';
+strikeService.initialize();
+
+import { tempBanService } from './services/TempBanService';
+tempBanService.initialize();
+
+import { auditArchiveService } from './services/AuditArchiveService';
+auditArchiveService.initialize();
+
 import { timeTrackingService } from './services/TimeTrackingService';
 timeTrackingService.initialize();
 progress.update('Time Tracking');
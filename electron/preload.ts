@@ -4,7 +4,13 @@ import type {
     GroupMember,
     PipelineEvent,
     AutoModRule,
+    KeywordMatchMode,
     InstanceGuardEvent,
+    InstanceGuardHistoryQuery,
+    InstanceGuardSchedule,
+    PendingClose,
+    AuditArchiveQuery,
+    AuditSyncStatus,
     LiveEntity,
     ScannedUser,
     AutoModUserInput,
@@ -16,10 +22,14 @@ import type {
     OscConfig,
     WatchedEntity,
     ModerationTag,
+    WatchlistImportMode,
+    WatchlistFeed,
+    WatchlistEvidenceRef,
     GroupAnnouncementConfig,
     AppSettings,
     VRChatUser,
-    ScanResult
+    ScanResult,
+    TempBan
 } from '../src/types/electron';
 
 // Expose protected methods that allow the renderer process to use
@@ -67,7 +77,7 @@ contextBridge.exposeInMainWorld('electron', {
         return () => ipcRenderer.removeListener('groups:verified', handler);
     },
 
-    banUser: (groupId: string, userId: string) => ipcRenderer.invoke('groups:ban-user', { groupId, userId }),
+    banUser: (groupId: string, userId: string, options?: { durationMs?: number; displayName?: string }) => ipcRenderer.invoke('groups:ban-user', { groupId, userId, ...options }),
     unbanUser: (groupId: string, userId: string) => ipcRenderer.invoke('groups:unban-user', { groupId, userId }),
 
     // Role Management
@@ -78,6 +88,18 @@ contextBridge.exposeInMainWorld('electron', {
     // Audit API
     getGroupAuditLogs: (groupId: string) => ipcRenderer.invoke('groups:get-audit-logs', { groupId }),
 
+    // Local audit log archive
+    auditArchive: {
+        search: (groupId: string, query: AuditArchiveQuery) => ipcRenderer.invoke('audit:search', { groupId, query }),
+        sync: (groupId: string) => ipcRenderer.invoke('audit:sync', groupId),
+        getSyncStatus: (groupId: string) => ipcRenderer.invoke('audit:get-sync-status', groupId),
+        onSyncStatus: (callback: (data: AuditSyncStatus) => void) => {
+            const handler = (_event: Electron.IpcRendererEvent, data: AuditSyncStatus) => callback(data);
+            ipcRenderer.on('audit:sync-status', handler);
+            return () => ipcRenderer.removeListener('audit:sync-status', handler);
+        },
+    },
+
     // Worlds API
     getWorld: (worldId: string) => ipcRenderer.invoke('worlds:get-details', { worldId }),
 
@@ -253,12 +275,13 @@ contextBridge.exposeInMainWorld('electron', {
         getRules: (groupId: string) => ipcRenderer.invoke('automod:get-rules', groupId),
         saveRule: (rule: AutoModRule, groupId: string) => ipcRenderer.invoke('automod:save-rule', { rule, groupId }),
         deleteRule: (ruleId: number, groupId: string) => ipcRenderer.invoke('automod:delete-rule', { ruleId, groupId }),
+        validateKeywords: (keywords: string[], matchMode: KeywordMatchMode) => ipcRenderer.invoke('automod:validate-keywords', { keywords, matchMode }),
         checkUser: (user: AutoModUserInput, groupId: string) => ipcRenderer.invoke('automod:check-user', { user, groupId }),
         getHistory: (groupId?: string) => ipcRenderer.invoke('automod:get-history', { groupId }),
         clearHistory: () => ipcRenderer.invoke('automod:clear-history'),
         addToWhitelist: (groupId: string, ruleId: number, target: { userId?: string; groupId?: string }) => ipcRenderer.invoke('automod:add-to-whitelist', { groupId, ruleId, target }),
-        onViolation: (callback: (data: { displayName: string; userId: string; action: string; reason: string; ruleId?: number; detectedGroupId?: string }) => void) => {
-            const handler = (_event: Electron.IpcRendererEvent, data: { displayName: string; userId: string; action: string; reason: string; ruleId?: number; detectedGroupId?: string }) => callback(data);
+        onViolation: (callback: (data: { displayName: string; userId: string; action: string; reason: string; ruleId?: number; detectedGroupId?: string; matchedConditions?: string[] }) => void) => {
+            const handler = (_event: Electron.IpcRendererEvent, data: { displayName: string; userId: string; action: string; reason: string; ruleId?: number; detectedGroupId?: string; matchedConditions?: string[] }) => callback(data);
             ipcRenderer.on('automod:violation', handler);
             return () => ipcRenderer.removeListener('automod:violation', handler);
         },
@@ -272,12 +295,48 @@ contextBridge.exposeInMainWorld('electron', {
         fetchMembers: (groupId: string) => ipcRenderer.invoke('automod:fetch-members', groupId),
         evaluateMember: (args: { groupId: string; member: { user: VRChatUser } }) => ipcRenderer.invoke('automod:evaluate-member', args),
         scanGroupMembers: (groupId: string) => ipcRenderer.invoke('automod:scan-group-members', groupId) as Promise<{ success: boolean; results?: ScanResult[]; error?: string }>,
+        getShadowReport: (groupId: string, windowHours: number) => ipcRenderer.invoke('automod:get-shadow-report', { groupId, windowHours }),
+        backtest: (groupId: string, rules: AutoModRule[]) => ipcRenderer.invoke('automod:backtest', { groupId, rules }),
+    },
+
+    // Temporary Ban API
+    tempBans: {
+        get: (groupId?: string) => ipcRenderer.invoke('temp-bans:get', groupId),
+        cancel: (groupId: string, userId: string) => ipcRenderer.invoke('temp-bans:cancel', { groupId, userId }),
+        retry: (groupId: string, userId: string) => ipcRenderer.invoke('temp-bans:retry', { groupId, userId }),
+        onUpdated: (callback: (data: { bans: TempBan[] }) => void) => {
+            const handler = (_event: Electron.IpcRendererEvent, data: { bans: TempBan[] }) => callback(data);
+            ipcRenderer.on('temp-bans:updated', handler);
+            return () => ipcRenderer.removeListener('temp-bans:updated', handler);
+        },
+    },
+
+    // Strike Ladder API
+    strikes: {
+        getPolicy: (groupId: string) => ipcRenderer.invoke('strikes:get-policy', groupId),
+        setPolicy: (groupId: string, policy: unknown) => ipcRenderer.invoke('strikes:set-policy', { groupId, policy }),
+        getOffenders: (groupId: string) => ipcRenderer.invoke('strikes:get-offenders', groupId),
+        getUser: (groupId: string, userId: string) => ipcRenderer.invoke('strikes:get-user', { groupId, userId }),
+        clearUser: (groupId: string, userId: string) => ipcRenderer.invoke('strikes:clear-user', { groupId, userId }),
+        onUpdated: (callback: (data: { groupId: string; userId: string }) => void) => {
+            const handler = (_event: Electron.IpcRendererEvent, data: { groupId: string; userId: string }) => callback(data);
+            ipcRenderer.on('strikes:updated', handler);
+            return () => ipcRenderer.removeListener('strikes:updated', handler);
+        },
     },
 
     // Instance Guard API
     instanceGuard: {
-        getHistory: (groupId: string) => ipcRenderer.invoke('instance-guard:get-history', groupId),
-        clearHistory: () => ipcRenderer.invoke('instance-guard:clear-history'),
+        getHistory: (groupId: string, query?: InstanceGuardHistoryQuery) => ipcRenderer.invoke('instance-guard:get-history', { groupId, query }),
+        clearHistory: (groupId: string) => ipcRenderer.invoke('instance-guard:clear-history', groupId),
+        validateSchedules: (schedules: InstanceGuardSchedule[]) => ipcRenderer.invoke('instance-guard:validate-schedules', schedules),
+        getPendingCloses: (groupId: string) => ipcRenderer.invoke('instance-guard:get-pending', groupId),
+        cancelPendingClose: (groupId: string, key: string) => ipcRenderer.invoke('instance-guard:cancel-pending', { groupId, key }),
+        onPendingUpdated: (callback: (data: PendingClose[]) => void) => {
+            const handler = (_event: Electron.IpcRendererEvent, data: unknown) => callback(data as PendingClose[]);
+            ipcRenderer.on('instance-guard:pending-updated', handler);
+            return () => ipcRenderer.removeListener('instance-guard:pending-updated', handler);
+        },
         onEvent: (callback: (data: InstanceGuardEvent) => void) => {
             const handler = (_event: Electron.IpcRendererEvent, data: unknown) => callback(data as InstanceGuardEvent);
             ipcRenderer.on('instance-guard:event', handler);
@@ -310,20 +369,60 @@ contextBridge.exposeInMainWorld('electron', {
     webhook: {
         getUrl: (groupId: string) => ipcRenderer.invoke('webhook:get-url', { groupId }),
         setUrl: (groupId: string, url: string) => ipcRenderer.invoke('webhook:set-url', { groupId, url }),
+        getRoutes: (groupId: string) => ipcRenderer.invoke('webhook:get-routes', { groupId }),
+        setRoutes: (groupId: string, routes: unknown[]) => ipcRenderer.invoke('webhook:set-routes', { groupId, routes }),
+        testRoute: (groupId: string, routeId: string) => ipcRenderer.invoke('webhook:test-route', { groupId, routeId }),
+        getTemplates: (groupId: string) => ipcRenderer.invoke('webhook:get-templates', { groupId }),
+        setTemplate: (groupId: string, category: string, template: unknown) => ipcRenderer.invoke('webhook:set-template', { groupId, category, template }),
+        previewTemplate: (groupId: string, category: string, template: unknown) => ipcRenderer.invoke('webhook:preview-template', { groupId, category, template }),
         test: (groupId: string) => ipcRenderer.invoke('webhook:test', { groupId }),
         testMock: (groupId: string) => ipcRenderer.invoke('webhook:test-mock', { groupId }),
     },
 
+    genericWebhooks: {
+        list: (groupId: string) => ipcRenderer.invoke('generic-webhooks:list', groupId),
+        save: (groupId: string, endpoint: unknown) => ipcRenderer.invoke('generic-webhooks:save', { groupId, endpoint }),
+        delete: (groupId: string, id: string) => ipcRenderer.invoke('generic-webhooks:delete', { groupId, id }),
+        rotateSecret: (groupId: string, id: string) => ipcRenderer.invoke('generic-webhooks:rotate-secret', { groupId, id }),
+        test: (groupId: string, id: string) => ipcRenderer.invoke('generic-webhooks:test', { groupId, id }),
+    },
+
+    webhookDigest: {
+        get: (groupId: string) => ipcRenderer.invoke('webhook-digest:get', groupId),
+        save: (groupId: string, settings: unknown) => ipcRenderer.invoke('webhook-digest:save', { groupId, settings }),
+        sendNow: (groupId: string) => ipcRenderer.invoke('webhook-digest:send-now', groupId),
+    },
+
+    webhookQueue: {
+        get: (groupId: string) => ipcRenderer.invoke('webhook-queue:get', groupId),
+        retry: (groupId: string, ids?: string[]) => ipcRenderer.invoke('webhook-queue:retry', { groupId, ids }),
+        discard: (groupId: string, ids?: string[]) => ipcRenderer.invoke('webhook-queue:discard', { groupId, ids }),
+        onUpdated: (callback: (data: { groupId: string }) => void) => {
+            const handler = (_event: Electron.IpcRendererEvent, data: { groupId: string }) => callback(data);
+            ipcRenderer.on('webhook-queue:updated', handler);
+            return () => ipcRenderer.removeListener('webhook-queue:updated', handler);
+        }
+    },
+
     // Watchlist API
     watchlist: {
         getEntities: () => ipcRenderer.invoke('watchlist:get-entities'),
         getEntity: (id: string) => ipcRenderer.invoke('watchlist:get-entity', id),
         saveEntity: (entity: Partial<WatchedEntity>) => ipcRenderer.invoke('watchlist:save-entity', entity),
         deleteEntity: (id: string) => ipcRenderer.invoke('watchlist:delete-entity', id),
+        getTimeline: (id: string) => ipcRenderer.invoke('watchlist:get-timeline', id),
+        addNote: (entityId: string, text: string) => ipcRenderer.invoke('watchlist:add-note', { entityId, text }),
+        linkEvidence: (entityId: string, evidence: WatchlistEvidenceRef) => ipcRenderer.invoke('watchlist:link-evidence', { entityId, evidence }),
+        onTimelineUpdated: (callback: (data: { entityId: string }) => void) => {
+            const handler = (_event: Electron.IpcRendererEvent, data: { entityId: string }) => callback(data);
+            ipcRenderer.on('watchlist:timeline-updated', handler);
+            return () => ipcRenderer.removeListener('watchlist:timeline-updated', handler);
+        },
         getTags: () => ipcRenderer.invoke('watchlist:get-tags'),
         saveTag: (tag: ModerationTag) => ipcRenderer.invoke('watchlist:save-tag', tag),
         deleteTag: (id: string) => ipcRenderer.invoke('watchlist:delete-tag', id),
-        import: (json: string) => ipcRenderer.invoke('watchlist:import', json),
+        previewImport: (json: string, mode: WatchlistImportMode) => ipcRenderer.invoke('watchlist:preview-import', { json, mode }),
+        import: (json: string, mode: WatchlistImportMode) => ipcRenderer.invoke('watchlist:import', { json, mode }),
         export: () => ipcRenderer.invoke('watchlist:export'),
         searchScannedUsers: (query: string) => ipcRenderer.invoke('watchlist:search-scanned-users', query) as Promise<ScannedUser[]>,
         getScannedUser: (userId: string) => ipcRenderer.invoke('watchlist:get-scanned-user', userId) as Promise<ScannedUser | null>,
@@ -331,6 +430,15 @@ contextBridge.exposeInMainWorld('electron', {
             const handler = (_event: Electron.IpcRendererEvent, data: { entities: WatchedEntity[]; tags: ModerationTag[] }) => callback(data);
             ipcRenderer.on('watchlist:update', handler);
             return () => ipcRenderer.removeListener('watchlist:update', handler);
+        },
+        getFeeds: () => ipcRenderer.invoke('watchlist:get-feeds'),
+        saveFeed: (feed: Pick<WatchlistFeed, 'name' | 'source' | 'enabled' | 'intervalMinutes'> & { id?: string }) => ipcRenderer.invoke('watchlist:save-feed', feed),
+        deleteFeed: (id: string) => ipcRenderer.invoke('watchlist:delete-feed', id),
+        syncFeed: (id: string) => ipcRenderer.invoke('watchlist:sync-feed', id),
+        onFeedsUpdated: (callback: (data: { feeds: WatchlistFeed[] }) => void) => {
+            const handler = (_event: Electron.IpcRendererEvent, data: { feeds: WatchlistFeed[] }) => callback(data);
+            ipcRenderer.on('watchlist:feeds-updated', handler);
+            return () => ipcRenderer.removeListener('watchlist:feeds-updated', handler);
         }
     },
 
@@ -348,7 +456,32 @@ contextBridge.exposeInMainWorld('electron', {
         getTemplates: () => ipcRenderer.invoke('report:get-templates'),
         saveTemplate: (template: unknown) => ipcRenderer.invoke('report:save-template', template),
         deleteTemplate: (id: string) => ipcRenderer.invoke('report:delete-template', id),
-        generate: (templateId: string, context: unknown) => ipcRenderer.invoke('report:generate', { templateId, context }),
+        generate: (templateId: string, context: unknown, format?: string) => ipcRenderer.invoke('report:generate', { templateId, context, format }),
+    },
+
+    cases: {
+        list: (groupId: string) => ipcRenderer.invoke('cases:list', groupId),
+        open: (input: unknown) => ipcRenderer.invoke('cases:open', input),
+        setStatus: (id: string, status: string) => ipcRenderer.invoke('cases:set-status', { id, status }),
+        assign: (id: string, assignee: unknown) => ipcRenderer.invoke('cases:assign', { id, assignee }),
+        comment: (id: string, text: string) => ipcRenderer.invoke('cases:comment', { id, text }),
+        linkEvidence: (id: string, evidenceId: string, label: string, linked: boolean) => ipcRenderer.invoke('cases:link-evidence', { id, evidenceId, label, linked }),
+        attachReport: (id: string, templateName: string, content: string) => ipcRenderer.invoke('cases:attach-report', { id, templateName, content }),
+        getSettings: (groupId: string) => ipcRenderer.invoke('cases:get-settings', groupId),
+        setSettings: (groupId: string, settings: unknown) => ipcRenderer.invoke('cases:set-settings', { groupId, settings }),
+        onUpdated: (callback: (data: { groupId: string; caseId: string }) => void) => {
+            const handler = (_event: Electron.IpcRendererEvent, data: { groupId: string; caseId: string }) => callback(data);
+            ipcRenderer.on('cases:updated', handler);
+            return () => ipcRenderer.removeListener('cases:updated', handler);
+        },
+    },
+
+    evidence: {
+        list: (filter: unknown) => ipcRenderer.invoke('evidence:list', filter),
+        pickFiles: (subject: unknown, label?: string) => ipcRenderer.invoke('evidence:pick-files', { subject, label }),
+        captureLog: (subject: unknown, userId: string, sessionId?: string, label?: string) => ipcRenderer.invoke('evidence:capture-log', { subject, userId, sessionId, label }),
+        delete: (id: string) => ipcRenderer.invoke('evidence:delete', id),
+        open: (id: string) => ipcRenderer.invoke('evidence:open', id),
     },
 
     // User Profile API (VRCX-style comprehensive profile fetching)
@@ -363,9 +496,11 @@ contextBridge.exposeInMainWorld('electron', {
 
     // Player Flags API
     playerFlags: {
-        getFlags: (userId: string) => ipcRenderer.invoke('playerFlags:getFlags', userId),
-        setFlags: (userId: string, flagIds: string[]) => ipcRenderer.invoke('playerFlags:setFlags', { userId, flagIds }),
-        getDefinitions: () => ipcRenderer.invoke('playerFlags:getDefinitions'),
+        getFlags: (userId: string, groupId?: string) => ipcRenderer.invoke('playerFlags:getFlags', { userId, groupId }),
+        setFlags: (userId: string, flagIds: string[], groupId?: string) => ipcRenderer.invoke('playerFlags:setFlags', { userId, flagIds, groupId }),
+        getDefinitions: (groupId?: string) => ipcRenderer.invoke('playerFlags:getDefinitions', groupId),
+        saveDefinitions: (groupId: string, flags: unknown[]) => ipcRenderer.invoke('playerFlags:saveDefinitions', { groupId, flags }),
+        resetDefinitions: (groupId: string) => ipcRenderer.invoke('playerFlags:resetDefinitions', groupId),
     },
 
     // Settings API
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('electron', () => ({ ipcMain: { handle: vi.fn() } }));
+vi.mock('electron-store', () => ({ default: vi.fn() }));
+vi.mock('./ServiceEventBus', () => ({ serviceEventBus: { on: vi.fn() } }));
+vi.mock('./GroupAuthorizationService', () => ({ groupAuthorizationService: {} }));
+vi.mock('./VRChatApiService', () => ({ vrchatApiService: {} }));
+vi.mock('./DatabaseService', () => ({ databaseService: {} }));
+vi.mock('./WindowService', () => ({ windowService: {} }));
+
+import { toArchiveEntry } from './AuditArchiveService';
+
+describe('toArchiveEntry', () => {
+    it('flattens nested actor and target objects', () => {
+        const entry = toArchiveEntry('grp_1', {
+            id: 'gaud_1',
+            createdAt: '2026-03-02T10:00:00Z',
+            eventType: 'group.user.unban',
+            actor: { id: 'usr_mod', displayName: 'Mod' },
+            target: { id: 'usr_target', displayName: 'Target' },
+            data: { reason: 'appeal' },
+        });
+        expect(entry).toEqual({
+            id: 'gaud_1',
+            groupId: 'grp_1',
+            createdAt: new Date('2026-03-02T10:00:00Z'),
+            eventType: 'group.user.unban',
+            actorId: 'usr_mod',
+            actorDisplayName: 'Mod',
+            targetId: 'usr_target',
+            targetDisplayName: 'Target',
+            description: undefined,
+            data: '{"reason":"appeal"}',
+        });
+    });
+
+    it('skips entries without id or timestamp', () => {
+        expect(toArchiveEntry('grp_1', { eventType: 'group.update' })).toBeNull();
+    });
+});
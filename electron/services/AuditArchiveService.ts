@@ -0,0 +1,224 @@
+import Store from 'electron-store';
+import { ipcMain } from 'electron';
+import log from 'electron-log';
+import { serviceEventBus } from './ServiceEventBus';
+import { groupAuthorizationService } from './GroupAuthorizationService';
+import { vrchatApiService } from './VRChatApiService';
+import { databaseService } from './DatabaseService';
+import { windowService } from './WindowService';
+
+const logger = log.scope('AuditArchiveService');
+
+const SYNC_INTERVAL = 10 * 60 * 1000;
+const PAGE_SIZE = 100;
+const MAX_PAGES_PER_RUN = 50; // Large groups finish their backfill over several runs
+const PAGE_DELAY_MS = 1500;
+
+export interface ArchivedAuditLogEntry {
+  id: string;
+  groupId: string;
+  createdAt: Date;
+  eventType: string;
+  actorId?: string;
+  actorDisplayName?: string;
+  targetId?: string;
+  targetDisplayName?: string;
+  description?: string;
+  data?: string;
+}
+
+export interface AuditArchiveQuery {
+  actor?: string;
+  target?: string;
+  eventType?: string;
+  from?: number;
+  to?: number;
+  text?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditSyncState {
+  lastSyncAt?: number;
+  backfillComplete: boolean;
+  backfillOffset: number; // How far back the previous runs got
+  lastError?: string;
+}
+
+interface AuditArchiveStoreSchema {
+  groups: Record<string, AuditSyncState>;
+}
+
+/**
+ * Normalizes a raw VRChat audit log entry. Older payloads nest actor and target objects
+ * instead of the flat id/displayName fields.
+ */
+export const toArchiveEntry = (groupId: string, raw: Record<string, unknown>): ArchivedAuditLogEntry | null => {
+  const id = raw.id as string | undefined;
+  const createdAt = (raw.created_at || raw.createdAt) as string | undefined;
+  if (!id || !createdAt) return null;
+  const actor = raw.actor as { id?: string; displayName?: string } | undefined;
+  const target = raw.target as { id?: string; displayName?: string } | undefined;
+  return {
+    id,
+    groupId,
+    createdAt: new Date(createdAt),
+    eventType: (raw.eventType as string) || 'unknown',
+    actorId: (raw.actorId as string) || actor?.id,
+    actorDisplayName: (raw.actorDisplayName as string) || actor?.displayName,
+    targetId: (raw.targetId as string) || target?.id,
+    targetDisplayName: (raw.targetDisplayName as string) || target?.displayName,
+    description: raw.description as string | undefined,
+    data: raw.data ? JSON.stringify(raw.data) : undefined
+  };
+};
+
+class AuditArchiveService {
+  private store: Store<AuditArchiveStoreSchema>;
+  private interval: NodeJS.Timeout | null = null;
+  private syncing = new Map<string, Promise<AuditSyncState>>();
+
+  constructor() {
+    this.store = new Store<AuditArchiveStoreSchema>({
+      name: 'audit-archive',
+      defaults: {
+        groups: {}
+      }
+    });
+  }
+
+  public initialize() {
+    logger.info('Initializing AuditArchiveService');
+
+    serviceEventBus.on('groups-updated', () => {
+      this.syncAll().catch(err => logger.error('Audit log sync failed', err));
+    });
+
+    if (this.interval) clearInterval(this.interval);
+    this.interval = setInterval(() => {
+      this.syncAll().catch(err => logger.error('Audit log sync failed', err));
+    }, SYNC_INTERVAL);
+
+    this.setupHandlers();
+  }
+
+  public getState(groupId: string): AuditSyncState {
+    return this.store.get('groups')[groupId] || { backfillComplete: false, backfillOffset: 0 };
+  }
+
+  private setState(groupId: string, state: AuditSyncState) {
+    const groups = this.store.get('groups');
+    groups[groupId] = state;
+    this.store.set('groups', groups);
+  }
+
+  /**
+   * Archive entries that were fetched elsewhere (e.g. the Audit Log view), returns how many were new.
+   */
+  public async archive(groupId: string, rawEntries: unknown[]): Promise<number> {
+    const entries = rawEntries
+      .map(raw => toArchiveEntry(groupId, raw as Record<string, unknown>))
+      .filter((e): e is ArchivedAuditLogEntry => e !== null);
+    return databaseService.archiveAuditLogEntries(entries);
+  }
+
+  public async syncAll() {
+    for (const groupId of groupAuthorizationService.getAllowedGroupIds()) {
+      await this.syncGroup(groupId);
+    }
+  }
+
+  /**
+   * Pages from the newest entry backwards. Once the pages reach already archived entries the
+   * sync either stops (backfill done) or jumps to where the previous backfill left off.
+   * Calls made while a sync is running wait for that sync.
+   */
+  public syncGroup(groupId: string): Promise<AuditSyncState> {
+    const running = this.syncing.get(groupId);
+    if (running) return running;
+
+    const sync = this.runSync(groupId);
+    this.syncing.set(groupId, sync);
+    sync.then(() => this.syncing.delete(groupId), () => this.syncing.delete(groupId));
+    return sync;
+  }
+
+  private async runSync(groupId: string): Promise<AuditSyncState> {
+    const state = { ...this.getState(groupId) };
+    delete state.lastError;
+    let offset = 0;
+    let archived = 0;
+
+    try {
+      for (let page = 0; page < MAX_PAGES_PER_RUN; page++) {
+        const result = await vrchatApiService.getGroupAuditLogs(groupId, PAGE_SIZE, offset);
+        if (!result.success || !result.data) {
+          state.lastError = result.error || 'Failed to fetch audit logs';
+          break;
+        }
+
+        const entries = result.data;
+        const inserted = await this.archive(groupId, entries);
+        archived += inserted;
+        offset += entries.length;
+
+        if (entries.length < PAGE_SIZE) {
+          state.backfillComplete = true;
+          state.backfillOffset = offset;
+          break;
+        }
+        if (inserted < entries.length) {
+          if (state.backfillComplete) break;
+          offset = Math.max(offset, state.backfillOffset);
+        }
+        if (!state.backfillComplete) state.backfillOffset = Math.max(state.backfillOffset, offset);
+
+        windowService.broadcast('audit:sync-status', { groupId, syncing: true, archived, ...state });
+        await new Promise(r => setTimeout(r, PAGE_DELAY_MS));
+      }
+
+      if (archived > 0) logger.info(`Archived ${archived} audit log entries for ${groupId}`);
+      state.lastSyncAt = Date.now();
+    } catch (error) {
+      state.lastError = error instanceof Error ? error.message : String(error);
+      logger.error(`Audit log sync failed for ${groupId}:`, error);
+    }
+
+    this.setState(groupId, state);
+    windowService.broadcast('audit:sync-status', { groupId, syncing: false, archived, ...state });
+    return state;
+  }
+
+  public async search(groupId: string, query: AuditArchiveQuery) {
+    const { entries, total } = await databaseService.searchAuditLogEntries({
+      groupId,
+      actor: query.actor?.trim() || undefined,
+      target: query.target?.trim() || undefined,
+      eventType: query.eventType?.trim() || undefined,
+      from: query.from ? new Date(query.from) : undefined,
+      to: query.to ? new Date(query.to) : undefined,
+      text: query.text?.trim() || undefined,
+      limit: query.limit,
+      offset: query.offset
+    });
+    return { entries, total };
+  }
+
+  private setupHandlers() {
+    ipcMain.handle('audit:search', async (_, { groupId, query }: { groupId: string; query: AuditArchiveQuery }) => {
+      groupAuthorizationService.validateAccess(groupId, 'audit:search');
+      return this.search(groupId, query || {});
+    });
+    ipcMain.handle('audit:sync', async (_, groupId: string) => {
+      groupAuthorizationService.validateAccess(groupId, 'audit:sync');
+      return this.syncGroup(groupId);
+    });
+    ipcMain.handle('audit:get-sync-status', async (_, groupId: string) => {
+      groupAuthorizationService.validateAccess(groupId, 'audit:get-sync-status');
+      const stats = await databaseService.getAuditLogArchiveStats(groupId);
+      return { ...this.getState(groupId), syncing: this.syncing.has(groupId), count: stats.count, oldest: stats.oldest?.getTime() };
+    });
+  }
+}
+
+export const auditArchiveService = new AuditArchiveService();
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('./VRChatApiService', () => ({ vrchatApiService: {} }));
+vi.mock('./DatabaseService', () => ({ databaseService: {} }));
+vi.mock('./DiscordWebhookService', () => ({ discordWebhookService: {} }));
+
+import { matchAuditPolicies, auditPolicyService, type AuditPolicy } from './AuditPolicyService';
+import type { VRCAuditLogEntry } from './VRChatApiService';
+
+const policy = (overrides: Partial<AuditPolicy> = {}): AuditPolicy => ({
+    id: 'audit_1',
+    name: 'Ban permission grants',
+    enabled: true,
+    createdAt: 0,
+    events: ['ROLE_ASSIGN'],
+    exemptOwner: true,
+    exemptSelf: false,
+    exemptActorIds: [],
+    rolePermissions: ['group-bans-manage'],
+    officeHours: null,
+    action: 'ALERT',
+    ...overrides,
+});
+
+const roleAssign = (overrides: Partial<VRCAuditLogEntry> = {}): VRCAuditLogEntry => ({
+    id: 'gaud_1',
+    // 2026-10-16 is a Friday
+    created_at: '2026-10-16T12:00:00Z',
+    eventType: 'group.member.role.assign',
+    actorId: 'usr_mod',
+    actorDisplayName: 'Mod',
+    targetId: 'usr_target',
+    data: { roleId: 'grol_admin' },
+    ...overrides,
+});
+
+const context = {
+    ownerId: 'usr_owner',
+    roles: [
+        { id: 'grol_admin', name: 'Admin', permissions: ['group-bans-manage', 'group-members-manage'] },
+        { id: 'grol_greeter', name: 'Greeter', permissions: ['group-invites-manage'] },
+    ],
+};
+
+describe('matchAuditPolicies', () => {
+    it('alerts when a non-owner grants a role with a watched permission', () => {
+        const [match] = matchAuditPolicies([policy()], roleAssign(), context);
+        expect(match.roleId).toBe('grol_admin');
+        expect(match.reason).toContain('grants group-bans-manage');
+
+        expect(matchAuditPolicies([policy()], roleAssign({ actorId: 'usr_owner' }), context)).toEqual([]);
+        expect(matchAuditPolicies([policy()], roleAssign({ data: { roleId: 'grol_greeter' } }), context)).toEqual([]);
+    });
+
+    it('only matches outside office hours when configured', () => {
+        const officeHours = { days: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00', timezone: 'UTC' };
+        const afterHours = policy({ rolePermissions: [], officeHours, action: 'REVERT' });
+        expect(matchAuditPolicies([afterHours], roleAssign(), context)).toEqual([]);
+        expect(matchAuditPolicies([afterHours], roleAssign({ created_at: '2026-10-16T22:00:00Z' }), context)[0].reason).toContain('outside office hours');
+    });
+
+    it('ignores entries from before the policy was created and unrelated events', () => {
+        const created = Date.parse('2026-10-17T00:00:00Z');
+        expect(matchAuditPolicies([policy({ createdAt: created })], roleAssign(), context)).toEqual([]);
+        expect(matchAuditPolicies([policy()], roleAssign({ eventType: 'group.user.join' }), context)).toEqual([]);
+    });
+});
+
+describe('auditPolicyService.validate', () => {
+    it('rejects reverting events that cannot be undone', () => {
+        const errors = auditPolicyService.validate([policy({ events: ['ROLE_ASSIGN', 'SETTINGS_EDIT'], action: 'REVERT' })]);
+        expect(errors).toEqual(['Ban permission grants: only role assignments and bans can be reverted']);
+    });
+});
@@ -0,0 +1,212 @@
+import log from "electron-log";
+import { vrchatApiService, VRCAuditLogEntry, VRCGroupRole } from "./VRChatApiService";
+import { databaseService } from "./DatabaseService";
+import { discordWebhookService } from "./DiscordWebhookService";
+import { isScheduleActive, instanceGuardScheduleService, ScheduleWindow } from "./InstanceGuardScheduleService";
+
+const logger = log.scope("AuditPolicyService");
+
+// ============================================
+// AUDIT LOG POLICIES - react to moderator actions in the group audit log
+// ============================================
+
+export type AuditPolicyEvent = "ROLE_ASSIGN" | "MEMBER_REMOVE" | "BAN" | "SETTINGS_EDIT";
+export type AuditPolicyAction = "ALERT" | "REVERT";
+
+export interface AuditPolicy {
+    id: string;
+    name: string;
+    enabled: boolean;
+    createdAt: number; // Audit entries from before the policy existed are ignored
+    events: AuditPolicyEvent[];
+    exemptOwner: boolean;
+    exemptSelf: boolean; // Actions taken by this app's account (AutoMod bans, manual role edits)
+    exemptActorIds: string[];
+    rolePermissions: string[]; // ROLE_ASSIGN only: match roles granting any of these, empty = any role
+    officeHours: Omit<ScheduleWindow, "enabled"> | null; // Only match actions outside this window
+    action: AuditPolicyAction;
+}
+
+export interface AuditPolicyContext {
+    ownerId?: string;
+    selfId?: string | null;
+    roles: VRCGroupRole[];
+}
+
+export interface AuditPolicyMatch {
+    policy: AuditPolicy;
+    event: AuditPolicyEvent;
+    roleId?: string;
+    reason: string;
+}
+
+// VRChat audit log event types per policy event
+export const AUDIT_EVENT_TYPES: Record<AuditPolicyEvent, string[]> = {
+    ROLE_ASSIGN: ["group.member.role.assign", "group.role.assign"],
+    MEMBER_REMOVE: ["group.member.remove", "group.user.kick"],
+    BAN: ["group.user.ban"],
+    SETTINGS_EDIT: ["group.update", "group.role.create", "group.role.update", "group.role.delete"],
+};
+
+// Only these can be undone through the API, the rest is alert-only
+const REVERTIBLE_EVENTS: AuditPolicyEvent[] = ["ROLE_ASSIGN", "BAN"];
+
+export const getAuditPolicyEvent = (eventType?: string): AuditPolicyEvent | null => {
+    if (!eventType) return null;
+    const match = (Object.keys(AUDIT_EVENT_TYPES) as AuditPolicyEvent[]).find(e => AUDIT_EVENT_TYPES[e].includes(eventType));
+    return match ?? null;
+};
+
+/**
+ * Role ID of a role assignment entry. The payload shape differs between event versions,
+ * so fall back to a role ID mentioned in the description.
+ */
+export const getAssignedRoleId = (entry: VRCAuditLogEntry): string | undefined => {
+    const data = (entry.data || {}) as { roleId?: unknown; role?: { id?: unknown }; groupRoleId?: unknown };
+    const candidate = data.roleId ?? data.groupRoleId ?? data.role?.id;
+    if (typeof candidate === "string") return candidate;
+    return entry.description?.match(/grol_[0-9a-f-]+/)?.[0];
+};
+
+const describeEvent = (event: AuditPolicyEvent): string => {
+    switch (event) {
+        case "ROLE_ASSIGN": return "assigned a role";
+        case "MEMBER_REMOVE": return "removed a member";
+        case "BAN": return "banned a user";
+        case "SETTINGS_EDIT": return "edited group settings";
+    }
+};
+
+/**
+ * Policies the audit entry violates. Pure, so the engine can be tested without the API.
+ */
+export const matchAuditPolicies = (policies: AuditPolicy[], entry: VRCAuditLogEntry, context: AuditPolicyContext): AuditPolicyMatch[] => {
+    const event = getAuditPolicyEvent(entry.eventType);
+    if (!event) return [];
+
+    const createdAt = new Date(entry.created_at);
+    const actorId = entry.actorId;
+    const roleId = event === "ROLE_ASSIGN" ? getAssignedRoleId(entry) : undefined;
+    const role = roleId ? context.roles.find(r => r.id === roleId) : undefined;
+    const matches: AuditPolicyMatch[] = [];
+
+    for (const policy of policies) {
+        if (!policy.enabled || !policy.events.includes(event)) continue;
+        if (createdAt.getTime() < policy.createdAt) continue;
+        if (actorId && policy.exemptOwner && actorId === context.ownerId) continue;
+        if (actorId && policy.exemptSelf && actorId === context.selfId) continue;
+        if (actorId && policy.exemptActorIds.includes(actorId)) continue;
+
+        const reasons: string[] = [];
+        if (event === "ROLE_ASSIGN" && policy.rolePermissions.length > 0) {
+            const permissions = role?.permissions || [];
+            const granted = permissions.includes("*")
+                ? policy.rolePermissions
+                : policy.rolePermissions.filter(p => permissions.includes(p));
+            if (granted.length === 0) continue;
+            reasons.push(`role "${role?.name}" grants ${granted.join(", ")}`);
+        }
+        if (policy.officeHours) {
+            if (isScheduleActive({ ...policy.officeHours, enabled: true }, createdAt)) continue;
+            reasons.push("outside office hours");
+        }
+
+        const actor = entry.actorDisplayName || actorId || "Unknown";
+        matches.push({
+            policy,
+            event,
+            roleId,
+            reason: `${actor} ${describeEvent(event)}${reasons.length > 0 ? ` (${reasons.join(", ")})` : ""}`
+        });
+    }
+    return matches;
+};
+
+export const auditPolicyService = {
+    /**
+     * Returns human-readable problems with a policy list, empty when it can be saved.
+     */
+    validate: (policies: AuditPolicy[]): string[] => {
+        const errors: string[] = [];
+        for (const policy of policies) {
+            const label = policy.name?.trim() || "Unnamed policy";
+            const problems: string[] = [];
+            if (!policy.name?.trim()) problems.push("name is required");
+            if (!Array.isArray(policy.events) || policy.events.length === 0) problems.push("select at least one event");
+            else if (policy.events.some(e => !AUDIT_EVENT_TYPES[e])) problems.push("unknown event");
+            if (policy.action !== "ALERT" && policy.action !== "REVERT") problems.push("unknown action");
+            if (policy.action === "REVERT" && policy.events?.some(e => !REVERTIBLE_EVENTS.includes(e))) {
+                problems.push("only role assignments and bans can be reverted");
+            }
+            if (policy.officeHours) {
+                const [hoursError] = instanceGuardScheduleService.validate([
+                    { ...policy.officeHours, id: policy.id, name: "office hours", enabled: true, policy: "ALLOW_ONLY", worlds: [] }
+                ]);
+                if (hoursError) problems.push(hoursError);
+            }
+            if (problems.length > 0) errors.push(`${label}: ${problems.join(", ")}`);
+        }
+        return errors;
+    },
+
+    // Alert and, where the policy asks for it, undo the action
+    enforce: async (groupId: string, entry: VRCAuditLogEntry, match: AuditPolicyMatch): Promise<void> => {
+        const { policy, event } = match;
+        let reverted = false;
+        let revertError: string | undefined;
+
+        if (policy.action === "REVERT" && entry.targetId) {
+            const result = event === "ROLE_ASSIGN" && match.roleId
+                ? await vrchatApiService.removeMemberRole(groupId, entry.targetId, match.roleId)
+                : event === "BAN"
+                    ? await vrchatApiService.unbanUser(groupId, entry.targetId)
+                    : null;
+            reverted = !!result?.success;
+            revertError = result ? result.error : "Nothing to revert";
+        }
+
+        logger.warn(`[AuditPolicy] "${policy.name}" triggered in ${groupId}: ${match.reason}${policy.action === "REVERT" ? ` - reverted: ${reverted}` : ""}`);
+
+        try {
+            await databaseService.createAutoModLog({
+                timestamp: new Date(),
+                userId: entry.actorId || "unknown",
+                user: entry.actorDisplayName || "Unknown",
+                groupId,
+                action: reverted ? "AUDIT_REVERTED" : "AUDIT_ALERT",
+                reason: `[Audit Policy] ${policy.name}: ${match.reason}`,
+                module: "PermissionGuard",
+                details: JSON.stringify({
+                    policyId: policy.id,
+                    auditLogId: entry.id,
+                    eventType: entry.eventType,
+                    targetId: entry.targetId,
+                    roleId: match.roleId,
+                    revertError
+                })
+            });
+        } catch (error) {
+            logger.error("[AuditPolicy] Failed to persist action:", error);
+        }
+
+        const fields = [
+            { name: "Actor", value: `${entry.actorDisplayName || "Unknown"} (${entry.actorId || "?"})`, inline: true },
+            { name: "Event", value: entry.eventType || event, inline: true }
+        ];
+        if (entry.targetId) fields.push({ name: "Target", value: entry.targetId, inline: true });
+        if (policy.action === "REVERT") {
+            fields.push({ name: "Reverted", value: reverted ? "Yes" : `No${revertError ? ` (${revertError})` : ""}`, inline: false });
+        }
+
+        discordWebhookService.sendEvent(groupId, {
+            title: reverted ? "↩️ Audit Policy: Action Reverted" : "🚨 Audit Policy Alert",
+            description: `**Policy**: ${policy.name}\n${match.reason}${entry.description ? `\n> ${entry.description}` : ""}`,
+            type: "WARNING",
+            category: "AUDIT",
+            fields,
+            actor: entry.actorId ? { id: entry.actorId, displayName: entry.actorDisplayName || entry.actorId } : undefined,
+            rule: { id: policy.id, name: policy.name },
+            reason: match.reason
+        }).catch(e => logger.error("Webhook failed", e));
+    }
+};
@@ -750,6 +750,17 @@ export function getCurrentUserId(): string | null {
   return currentUser?.id as string | null;
 }
 
+// Helper to get current user's display name
+export function getCurrentUserDisplayName(): string | null {
+  return (currentUser?.displayName as string | undefined) || null;
+}
+
+// Webhook actor for actions taken by the logged in user
+export function getCurrentActor(): { id: string; displayName: string } | undefined {
+  const id = currentUser?.id as string | undefined;
+  return id ? { id, displayName: getCurrentUserDisplayName() || id } : undefined;
+}
+
 // Helper to serialize cookies in the format the VRChat SDK uses
 function serializeCookieForHeader(cookie: { name: string; value: string }): string {
   return `${cookie.name}=${cookie.value}`;
@@ -0,0 +1,136 @@
+import log from "electron-log";
+import { databaseService } from "./DatabaseService";
+import { fetchUser } from "./UserService";
+import { AutoModRule, autoModConfigService } from "./AutoModConfigService";
+import { autoModRuleService, RuleEvaluation } from "./AutoModRuleService";
+import { SHADOW_MODULE } from "./AutoModShadowService";
+
+const logger = log.scope("AutoModBacktestService");
+
+const DEFAULT_LIMIT = 200;
+
+export type BacktestChangeType = "NEWLY_REJECTED" | "NEWLY_ALLOWED" | "RULE_CHANGED";
+
+export interface BacktestVerdict {
+    action: RuleEvaluation["action"];
+    ruleName?: string;
+    reason?: string;
+}
+
+export interface BacktestChange {
+    userId: string;
+    displayName: string;
+    source: "SCANNED_USER" | "AUTOMOD_LOG";
+    change: BacktestChangeType;
+    before: BacktestVerdict;
+    after: BacktestVerdict;
+}
+
+export interface BacktestResult {
+    evaluated: number;
+    profilesMissing: number;
+    changes: BacktestChange[];
+}
+
+interface Candidate {
+    userId: string;
+    displayName: string;
+    source: BacktestChange["source"];
+}
+
+const toVerdict = (evaluation: RuleEvaluation): BacktestVerdict => ({
+    action: evaluation.action,
+    ruleName: evaluation.ruleName,
+    reason: evaluation.reason
+});
+
+export const classifyChange = (before: BacktestVerdict, after: BacktestVerdict): BacktestChangeType | null => {
+    if (before.action === "ALLOW" && after.action !== "ALLOW") return "NEWLY_REJECTED";
+    if (before.action !== "ALLOW" && after.action === "ALLOW") return "NEWLY_ALLOWED";
+    if (before.action !== after.action || before.ruleName !== after.ruleName) return "RULE_CHANGED";
+    return null;
+};
+
+export const autoModBacktestService = {
+    /**
+     * Re-runs stored users through the saved rules and a draft rule set and reports verdicts that differ.
+     * Candidates are the group's ScannedUser rows plus users from past AutoModLog entries.
+     */
+    async run(groupId: string, draftRules: AutoModRule[], limit = DEFAULT_LIMIT): Promise<BacktestResult> {
+        const savedConfig = autoModConfigService.getGroupConfig(groupId);
+        const draftConfig = { ...savedConfig, rules: draftRules };
+
+        const candidates = new Map<string, Candidate>();
+        try {
+            const logs = await databaseService.getAutoModLogs(groupId) as { userId: string; user: string; module: string }[];
+            for (const entry of logs) {
+                if (candidates.size >= limit) break;
+                if (entry.module === SHADOW_MODULE || !entry.userId?.startsWith("usr_")) continue;
+                if (!candidates.has(entry.userId)) {
+                    candidates.set(entry.userId, { userId: entry.userId, displayName: entry.user, source: "AUTOMOD_LOG" });
+                }
+            }
+        } catch (error) {
+            logger.warn("[Backtest] Failed to load AutoMod history:", error);
+        }
+
+        if (candidates.size < limit) {
+            const scanned = await databaseService.getScannedUsersForGroup(groupId, limit);
+            for (const user of scanned) {
+                if (candidates.size >= limit) break;
+                if (!candidates.has(user.id)) {
+                    candidates.set(user.id, { userId: user.id, displayName: user.displayName, source: "SCANNED_USER" });
+                }
+            }
+        }
+
+        logger.info(`[Backtest] Replaying ${candidates.size} users for group ${groupId}`);
+
+        const changes: BacktestChange[] = [];
+        let profilesMissing = 0;
+
+        for (const candidate of candidates.values()) {
+            let profile: Parameters<typeof autoModRuleService.evaluateUser>[0] = {
+                id: candidate.userId,
+                displayName: candidate.displayName
+            };
+            let allowMissingData = false;
+
+            try {
+                const fetched = await fetchUser(candidate.userId);
+                profile = {
+                    id: candidate.userId,
+                    displayName: fetched.displayName || candidate.displayName,
+                    tags: fetched.tags,
+                    bio: fetched.bio,
+                    status: fetched.status,
+                    statusDescription: fetched.statusDescription,
+                    pronouns: fetched.pronouns,
+                    ageVerificationStatus: fetched.ageVerificationStatus,
+                };
+            } catch (e) {
+                // Fall back to the stored name only; rules that need missing fields are skipped
+                logger.debug(`[Backtest] Could not fetch ${candidate.userId}: ${e}`);
+                profilesMissing++;
+                allowMissingData = true;
+            }
+
+            const before = toVerdict(await autoModRuleService.evaluateUser(profile, { allowMissingData, config: savedConfig }, groupId));
+            const after = toVerdict(await autoModRuleService.evaluateUser(profile, { allowMissingData, config: draftConfig }, groupId));
+
+            const change = classifyChange(before, after);
+            if (change) {
+                changes.push({
+                    userId: candidate.userId,
+                    displayName: profile.displayName,
+                    source: candidate.source,
+                    change,
+                    before,
+                    after
+                });
+            }
+        }
+
+        return { evaluated: candidates.size, profilesMissing, changes };
+    }
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-store', () => ({ default: vi.fn() }));
+
+import { isEnforcedJoinRule, type AutoModRule } from './AutoModConfigService';
+
+const rule = (overrides: Partial<AutoModRule>): AutoModRule => ({
+    id: 1,
+    name: 'Rule',
+    enabled: true,
+    type: 'KEYWORD_BLOCK',
+    config: '{}',
+    actionType: 'REJECT',
+    ...overrides,
+});
+
+describe('isEnforcedJoinRule', () => {
+    it('accepts enabled live join rules', () => {
+        expect(isEnforcedJoinRule(rule({}))).toBe(true);
+        expect(isEnforcedJoinRule(rule({ type: 'COMPOSITE' }))).toBe(true);
+    });
+
+    it('skips disabled and shadow rules', () => {
+        expect(isEnforcedJoinRule(rule({ enabled: false }))).toBe(false);
+        expect(isEnforcedJoinRule(rule({ shadow: true }))).toBe(false);
+    });
+
+    it('skips rules that only configure Instance Guard or Permission Guard', () => {
+        expect(isEnforcedJoinRule(rule({ type: 'CLOSE_ALL_INSTANCES' }))).toBe(false);
+        expect(isEnforcedJoinRule(rule({ type: 'AUDIT_POLICIES' }))).toBe(false);
+    });
+});
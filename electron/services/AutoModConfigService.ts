@@ -13,11 +13,26 @@ export interface AutoModRule {
   actionType: AutoModActionType;
   createdAt?: string;
 
+  // Shadow rules are evaluated and logged but never enforced
+  shadow?: boolean;
+
   // Exemptions
   whitelistedUserIds?: string[];
   whitelistedGroupIds?: string[];
 }
 
+// Rule types that only hold Instance Guard and Permission Guard settings, they never judge join requests
+export const CONFIG_ONLY_RULE_TYPES: AutoModRuleType[] = [
+  "INSTANCE_18_GUARD", "INSTANCE_PERMISSION_GUARD", "CLOSE_ALL_INSTANCES", "INSTANCE_SCHEDULE",
+  "INSTANCE_POPULATION", "INSTANCE_CLOSE_GRACE", "AUDIT_POLICIES"
+];
+
+/**
+ * Whether a rule can reject or block a join request. Shadow rules only observe.
+ */
+export const isEnforcedJoinRule = (rule: AutoModRule): boolean =>
+  rule.enabled && !rule.shadow && !CONFIG_ONLY_RULE_TYPES.includes(rule.type);
+
 export interface GroupConfig {
   rules: AutoModRule[];
   enableAutoProcess: boolean;
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { autoModExpressionService, RuleCondition } from './AutoModExpressionService';
+
+const baseUser = {
+    id: 'usr_test',
+    displayName: 'Test User',
+    tags: ['system_trust_basic'],
+    bio: 'I love badgers',
+    ageVerificationStatus: 'none',
+};
+
+const noGroups = { getUserGroups: async () => [] };
+
+describe('AutoModExpressionService', () => {
+
+    it('matches an AND of trust, age and keyword and reports every fired leaf', async () => {
+        const condition: RuleCondition = {
+            op: 'AND',
+            conditions: [
+                { op: 'TRUST_BELOW', rank: 'trusted' },
+                { op: 'AGE_UNVERIFIED' },
+                { op: 'KEYWORD', keywords: ['badger'], fields: ['bio'] },
+            ],
+        };
+
+        const result = await autoModExpressionService.evaluate(condition, baseUser, noGroups);
+
+        expect(result.matched).toBe(true);
+        expect(result.fired).toHaveLength(3);
+        expect(result.fired[2]).toContain('badger');
+    });
+
+    it('fails an AND when one child does not match', async () => {
+        const condition: RuleCondition = {
+            op: 'AND',
+            conditions: [
+                { op: 'TRUST_BELOW', rank: 'trusted' },
+                { op: 'KEYWORD', keywords: ['badger'], fields: ['bio'], matchMode: 'WHOLE_WORD' },
+            ],
+        };
+
+        const result = await autoModExpressionService.evaluate(condition, baseUser, noGroups);
+
+        expect(result.matched).toBe(false);
+        expect(result.fired).toEqual([]);
+    });
+
+    it('reports only the first matching branch of an OR', async () => {
+        const condition: RuleCondition = {
+            op: 'OR',
+            conditions: [
+                { op: 'KEYWORD', keywords: ['raid'], fields: ['bio'] },
+                { op: 'AGE_UNVERIFIED' },
+                { op: 'TRUST_BELOW', rank: 'trusted' },
+            ],
+        };
+
+        const result = await autoModExpressionService.evaluate(condition, baseUser, noGroups);
+
+        expect(result.matched).toBe(true);
+        expect(result.fired).toEqual(['Not age verified (Found: none)']);
+    });
+
+    it('inverts with NOT and only fetches groups when needed', async () => {
+        const getUserGroups = vi.fn(async () => [{ groupId: 'grp_friends', name: 'Friends' }]);
+        const condition: RuleCondition = {
+            op: 'AND',
+            conditions: [
+                { op: 'TRUST_BELOW', rank: 'known' },
+                { op: 'NOT', condition: { op: 'IN_GROUP', groupIds: ['grp_friends'] } },
+            ],
+        };
+
+        const verified = { ...baseUser, tags: ['system_trust_veteran'] };
+        expect((await autoModExpressionService.evaluate(condition, verified, { getUserGroups })).matched).toBe(false);
+        expect(getUserGroups).not.toHaveBeenCalled();
+
+        expect((await autoModExpressionService.evaluate(condition, baseUser, { getUserGroups })).matched).toBe(false);
+        expect(getUserGroups).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects malformed condition trees', () => {
+        expect(autoModExpressionService.validate({ op: 'AND', conditions: [] })).toHaveLength(1);
+        expect(autoModExpressionService.validate({ op: 'TRUST_BELOW', rank: 'admin' })).toHaveLength(1);
+        expect(autoModExpressionService.validate({ op: 'KEYWORD', keywords: [' '], fields: ['bio'] })).toHaveLength(1);
+        expect(autoModExpressionService.validate({ op: 'XOR' })).toHaveLength(1);
+        expect(autoModExpressionService.validate({ op: 'NOT', condition: { op: 'AGE_UNVERIFIED' } })).toEqual([]);
+    });
+});
@@ -0,0 +1,239 @@
+import { keywordMatchService, KeywordMatchMode } from "./KeywordMatchService";
+
+// ============================================
+// TYPES - Composable Rule Conditions
+// ============================================
+
+export type TrustRank = "visitor" | "basic" | "known" | "trusted" | "veteran" | "legend";
+export type KeywordField = "displayName" | "bio" | "status" | "pronouns";
+
+export type RuleCondition =
+    | { op: "AND"; conditions: RuleCondition[] }
+    | { op: "OR"; conditions: RuleCondition[] }
+    | { op: "NOT"; condition: RuleCondition }
+    | { op: "TRUST_BELOW"; rank: TrustRank }
+    | { op: "AGE_UNVERIFIED" }
+    | { op: "KEYWORD"; keywords: string[]; fields: KeywordField[]; matchMode?: KeywordMatchMode }
+    | { op: "IN_GROUP"; groupIds: string[] };
+
+export interface ConditionUser {
+    id: string;
+    displayName: string;
+    tags?: string[];
+    bio?: string;
+    status?: string;
+    statusDescription?: string;
+    pronouns?: string;
+    ageVerificationStatus?: string;
+}
+
+export interface ConditionContext {
+    // Lazily resolved so group lookups only happen when an IN_GROUP leaf is reached
+    getUserGroups: () => Promise<{ groupId: string; name: string }[]>;
+    allowMissingData?: boolean;
+}
+
+export interface ConditionResult {
+    matched: boolean;
+    // Human readable description of the leaf conditions that decided the outcome
+    fired: string[];
+}
+
+// Ordered lowest to highest, matches VRChat system_trust_* tags
+const TRUST_LEVELS: TrustRank[] = ["visitor", "basic", "known", "trusted", "veteran", "legend"];
+const TRUST_LABELS: Record<TrustRank, string> = {
+    visitor: "Visitor",
+    basic: "New User",
+    known: "User",
+    trusted: "Known",
+    veteran: "Trusted",
+    legend: "Legend",
+};
+const FIELD_LABELS: Record<KeywordField, string> = {
+    displayName: "Display Name",
+    bio: "Bio",
+    status: "Status",
+    pronouns: "Pronouns",
+};
+const MATCH_MODES: KeywordMatchMode[] = ["PARTIAL", "WHOLE_WORD", "REGEX", "NORMALIZED"];
+const MAX_DEPTH = 8;
+
+const getTrustIndex = (tags: string[]): number => {
+    let index = 0;
+    TRUST_LEVELS.forEach((level, i) => {
+        if (i > 0 && tags.includes(`system_trust_${level}`)) index = i;
+    });
+    return index;
+};
+
+const getFieldText = (user: ConditionUser, field: KeywordField): string[] => {
+    switch (field) {
+        case "displayName": return [user.displayName];
+        case "bio": return [user.bio || ""];
+        case "status": return [user.status || "", user.statusDescription || ""];
+        case "pronouns": return [user.pronouns || ""];
+    }
+};
+
+const describeCondition = (condition: RuleCondition): string => {
+    switch (condition.op) {
+        case "AND":
+            return condition.conditions.map(c => `(${describeCondition(c)})`).join(" AND ");
+        case "OR":
+            return condition.conditions.map(c => `(${describeCondition(c)})`).join(" OR ");
+        case "NOT":
+            return `NOT (${describeCondition(condition.condition)})`;
+        case "TRUST_BELOW":
+            return `Trust rank below ${TRUST_LABELS[condition.rank] || condition.rank}`;
+        case "AGE_UNVERIFIED":
+            return "No 18+ age verification";
+        case "KEYWORD":
+            return `${condition.fields.map(f => FIELD_LABELS[f] || f).join("/")} contains ${condition.keywords.map(k => `"${k}"`).join(", ")}`;
+        case "IN_GROUP":
+            return `Member of ${condition.groupIds.length} listed group(s)`;
+    }
+};
+
+const evaluateCondition = async (
+    condition: RuleCondition,
+    user: ConditionUser,
+    context: ConditionContext,
+): Promise<ConditionResult> => {
+    switch (condition.op) {
+        case "AND": {
+            if (condition.conditions.length === 0) return { matched: false, fired: [] };
+            const fired: string[] = [];
+            for (const child of condition.conditions) {
+                const result = await evaluateCondition(child, user, context);
+                // Short-circuit: an AND fails on its first unmatched child
+                if (!result.matched) return { matched: false, fired: [] };
+                fired.push(...result.fired);
+            }
+            return { matched: true, fired };
+        }
+        case "OR": {
+            for (const child of condition.conditions) {
+                const result = await evaluateCondition(child, user, context);
+                if (result.matched) return result;
+            }
+            return { matched: false, fired: [] };
+        }
+        case "NOT": {
+            const result = await evaluateCondition(condition.condition, user, context);
+            return result.matched
+                ? { matched: false, fired: [] }
+                : { matched: true, fired: [describeCondition(condition)] };
+        }
+        case "TRUST_BELOW": {
+            const tags = user.tags || [];
+            if (context.allowMissingData && tags.length === 0) return { matched: false, fired: [] };
+            const required = TRUST_LEVELS.indexOf(condition.rank);
+            if (required <= 0) return { matched: false, fired: [] };
+            const actual = getTrustIndex(tags);
+            return actual < required
+                ? { matched: true, fired: [`Trust rank ${TRUST_LABELS[TRUST_LEVELS[actual]]} is below ${TRUST_LABELS[condition.rank]}`] }
+                : { matched: false, fired: [] };
+        }
+        case "AGE_UNVERIFIED": {
+            if (user.ageVerificationStatus === undefined) {
+                return context.allowMissingData
+                    ? { matched: false, fired: [] }
+                    : { matched: true, fired: ["Age verification status unknown"] };
+            }
+            const status = (user.ageVerificationStatus || "").toLowerCase();
+            // "hidden" means the user chose not to display it, which VRChat only allows for verified accounts
+            if (user.ageVerificationStatus === "18+" || status === "hidden") return { matched: false, fired: [] };
+            return { matched: true, fired: [`Not age verified (Found: ${user.ageVerificationStatus || "none"})`] };
+        }
+        case "KEYWORD": {
+            for (const field of condition.fields) {
+                for (const text of getFieldText(user, field)) {
+                    if (!text) continue;
+                    for (const keyword of condition.keywords) {
+                        const matcher = keywordMatchService.createMatcher(keyword, condition.matchMode);
+                        if (matcher?.(text)) {
+                            return { matched: true, fired: [`Keyword "${keyword.trim()}" found in ${FIELD_LABELS[field]}`] };
+                        }
+                    }
+                }
+            }
+            return { matched: false, fired: [] };
+        }
+        case "IN_GROUP": {
+            if (condition.groupIds.length === 0) return { matched: false, fired: [] };
+            const groups = await context.getUserGroups();
+            const hit = groups.find(g => condition.groupIds.includes(g.groupId));
+            return hit
+                ? { matched: true, fired: [`Member of group: ${hit.name}`] }
+                : { matched: false, fired: [] };
+        }
+    }
+};
+
+const validateCondition = (condition: unknown, path: string, depth: number, errors: string[]) => {
+    if (depth > MAX_DEPTH) {
+        errors.push(`${path}: nesting is deeper than ${MAX_DEPTH} levels`);
+        return;
+    }
+    if (!condition || typeof condition !== "object") {
+        errors.push(`${path}: condition must be an object`);
+        return;
+    }
+    const c = condition as Record<string, unknown>;
+    switch (c.op) {
+        case "AND":
+        case "OR":
+            if (!Array.isArray(c.conditions) || c.conditions.length === 0) {
+                errors.push(`${path}: ${c.op} needs at least one condition`);
+                return;
+            }
+            c.conditions.forEach((child, i) => validateCondition(child, `${path}.${c.op}[${i}]`, depth + 1, errors));
+            return;
+        case "NOT":
+            validateCondition(c.condition, `${path}.NOT`, depth + 1, errors);
+            return;
+        case "TRUST_BELOW":
+            if (!TRUST_LEVELS.includes(c.rank as TrustRank)) errors.push(`${path}: unknown trust rank "${String(c.rank)}"`);
+            return;
+        case "AGE_UNVERIFIED":
+            return;
+        case "KEYWORD":
+            if (!Array.isArray(c.keywords) || !c.keywords.some(k => typeof k === "string" && k.trim())) {
+                errors.push(`${path}: KEYWORD needs at least one keyword`);
+            }
+            if (!Array.isArray(c.fields) || c.fields.length === 0 || !c.fields.every(f => f in FIELD_LABELS)) {
+                errors.push(`${path}: KEYWORD needs at least one valid field`);
+            }
+            if (c.matchMode !== undefined && !MATCH_MODES.includes(c.matchMode as KeywordMatchMode)) {
+                errors.push(`${path}: unknown match mode "${String(c.matchMode)}"`);
+            } else if (Array.isArray(c.keywords)) {
+                for (const keyword of c.keywords) {
+                    const problem = typeof keyword === "string" ? keywordMatchService.validate(keyword, c.matchMode as KeywordMatchMode) : null;
+                    if (problem) errors.push(`${path}: invalid pattern "${keyword}": ${problem}`);
+                }
+            }
+            return;
+        case "IN_GROUP":
+            if (!Array.isArray(c.groupIds) || c.groupIds.length === 0) errors.push(`${path}: IN_GROUP needs at least one group ID`);
+            return;
+        default:
+            errors.push(`${path}: unknown operator "${String(c.op)}"`);
+    }
+};
+
+export const autoModExpressionService = {
+    evaluate: (condition: RuleCondition, user: ConditionUser, context: ConditionContext): Promise<ConditionResult> => {
+        return evaluateCondition(condition, user, context);
+    },
+
+    describe: (condition: RuleCondition): string => describeCondition(condition),
+
+    /**
+     * Returns a list of problems with the condition tree, empty when it is valid.
+     */
+    validate: (condition: unknown): string[] => {
+        const errors: string[] = [];
+        validateCondition(condition, "root", 0, errors);
+        return errors;
+    },
+};
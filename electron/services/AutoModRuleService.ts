@@ -1,7 +1,10 @@
 import log from "electron-log";
 import { LRUCache } from "lru-cache";
 import { userProfileService } from "./UserProfileService";
-import { AutoModRule, autoModConfigService } from "./AutoModConfigService";
+import { AutoModRule, GroupConfig, autoModConfigService } from "./AutoModConfigService";
+import { autoModExpressionService, RuleCondition } from "./AutoModExpressionService";
+import { keywordMatchService, KeywordMatchMode, KeywordMatcher, normalizeText } from "./KeywordMatchService";
+import { playerFlagService } from "./PlayerFlagService";
 
 const logger = log.scope("AutoModRuleService");
 
@@ -17,6 +20,23 @@ export interface ScanResult {
     ruleId?: number;
 }
 
+export interface ShadowMatch {
+    ruleId: number;
+    ruleName: string;
+    action: AutoModActionType;
+    reason: string;
+    matchedConditions?: string[];
+}
+
+export interface RuleEvaluation {
+    action: AutoModActionType;
+    reason?: string;
+    ruleName?: string;
+    ruleId?: number;
+    matchedConditions?: string[];
+    shadowMatches?: ShadowMatch[];
+}
+
 interface ParsedRule {
     keywords: string[];
     whitelist: string[];
@@ -26,11 +46,13 @@ interface ParsedRule {
     scanStatus: boolean;
     scanPronouns: boolean;
     scanGroups: boolean;
-    matchMode: "PARTIAL" | "WHOLE_WORD";
-    regexes: RegExp[]; // Pre-compiled regexes for WHOLE_WORD mode
+    matchMode: KeywordMatchMode;
+    matchers: (KeywordMatcher | null)[]; // Pre-compiled per keyword, aligned with keywords (null = empty/invalid)
     compiledWhitelist: RegExp[]; // Pre-compiled whitelist (if needed, or just strings)
 }
 
+const MATCH_MODES: KeywordMatchMode[] = ["PARTIAL", "WHOLE_WORD", "REGEX", "NORMALIZED"];
+
 // Cache for parsed rules to avoid re-parsing JSON and re-compiling Regex on every user evaluation
 const ruleCache = new LRUCache<string, ParsedRule>({
     max: 100,
@@ -50,26 +72,22 @@ export const autoModRuleService = {
             ageVerified?: boolean;
             ageVerificationStatus?: string;
         },
-        options: { allowMissingData?: boolean } = {},
+        options: { allowMissingData?: boolean; config?: GroupConfig } = {},
         groupId: string
-    ): Promise<{
-        action: AutoModActionType;
-        reason?: string;
-        ruleName?: string;
-        ruleId?: number;
-    }> => {
+    ): Promise<RuleEvaluation> => {
         try {
-            const config = autoModConfigService.getGroupConfig(groupId);
+            // A draft config can be passed in to evaluate unsaved rules (backtesting)
+            const config = options.config ?? autoModConfigService.getGroupConfig(groupId);
             const rules = config.rules.filter((r) => r.enabled);
 
             if (rules.length === 0) {
                 return { action: "ALLOW" };
             }
 
-            // Helper to escape regex special characters
-            const escapeRegExp = (string: string) => {
-                return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-            };
+            const exemptFlag = await playerFlagService.isAutoModExempt(groupId, user.id);
+            if (exemptFlag) {
+                return { action: "ALLOW", reason: `Exempt: flagged ${exemptFlag.label}` };
+            }
 
             const getParsedRule = (rule: AutoModRule): ParsedRule => {
                 const cacheKey = `${rule.id}-${rule.config}`; // Simple cache key
@@ -83,7 +101,7 @@ export const autoModRuleService = {
                 let scanStatus = true;
                 let scanPronouns = false;
                 let scanGroups = false;
-                let matchMode: "PARTIAL" | "WHOLE_WORD" = "PARTIAL";
+                let matchMode: KeywordMatchMode = "PARTIAL";
 
                 try {
                     const parsed = JSON.parse(rule.config);
@@ -96,7 +114,7 @@ export const autoModRuleService = {
                         scanStatus = parsed.scanStatus !== false;
                         scanPronouns = parsed.scanPronouns === true;
                         scanGroups = parsed.scanGroups === true;
-                        if (parsed.matchMode === "WHOLE_WORD") matchMode = "WHOLE_WORD";
+                        if (MATCH_MODES.includes(parsed.matchMode)) matchMode = parsed.matchMode;
                     } else if (Array.isArray(parsed)) {
                         keywords = parsed;
                     } else if (typeof parsed === "string") {
@@ -106,19 +124,12 @@ export const autoModRuleService = {
                     keywords = rule.config ? [rule.config] : [];
                 }
 
-                // Pre-compile Regexes for WHOLE_WORD mode
-                const regexes: RegExp[] = [];
-                if (matchMode === "WHOLE_WORD") {
-                    for (const kw of keywords) {
-                        if (!kw.trim()) continue;
-                        try {
-                            regexes.push(new RegExp(`\\b${escapeRegExp(kw.trim())}\\b`, "i"));
-                        } catch {
-                            // Ignore invalid regex
-                            regexes.push(new RegExp(escapeRegExp(kw.trim()), "i")); // Fallback
-                        }
-                    }
-                }
+                // Pre-compile matchers, invalid REGEX patterns are skipped
+                const matchers = keywords.map(kw => {
+                    const matcher = keywordMatchService.createMatcher(kw, matchMode);
+                    if (!matcher && kw.trim()) logger.warn(`[AutoMod] Ignoring invalid keyword pattern in ${rule.name}: ${kw}`);
+                    return matcher;
+                });
 
                 const parsedRule: ParsedRule = {
                     keywords,
@@ -130,7 +141,7 @@ export const autoModRuleService = {
                     scanPronouns,
                     scanGroups,
                     matchMode,
-                    regexes,
+                    matchers,
                     compiledWhitelist: []
                 };
 
@@ -138,15 +149,21 @@ export const autoModRuleService = {
                 return parsedRule;
             };
 
+            // The first live match decides the verdict, shadow rules keep being evaluated after it
+            let verdict: RuleEvaluation | null = null;
+            const shadowMatches: ShadowMatch[] = [];
+
             for (const rule of rules) {
                 if (!rule.id) logger.warn(`[AutoMod] Rule has no ID: ${rule.name}`); // DEBUG
+                if (verdict && !rule.shadow) continue;
                 let matches = false;
                 let reason = "";
+                let matchedConditions: string[] | undefined;
 
                 if (rule.type === "KEYWORD_BLOCK") {
                     const {
                         keywords, whitelist, whitelistedUserIds, whitelistedGroupIds,
-                        scanBio, scanStatus, scanPronouns, scanGroups, matchMode, regexes
+                        scanBio, scanStatus, scanPronouns, scanGroups, matchMode, matchers
                     } = getParsedRule(rule);
 
                     // 1. CHECK USER WHITELIST (Exemptions)
@@ -173,29 +190,18 @@ export const autoModRuleService = {
                     const checkText = (text: string | undefined, contextName: string): boolean => {
                         if (!text) return false;
                         const lower = text.toLowerCase();
+                        // In NORMALIZED mode the safelist is compared after folding too
+                        const isSafelisted = matchMode === "NORMALIZED"
+                            ? (w: string) => normalizeText(text).includes(normalizeText(w.trim()))
+                            : (w: string) => lower.includes(w.toLowerCase().trim());
 
                         for (let i = 0; i < keywords.length; i++) {
-                            const kw = keywords[i];
-                            const safeKw = kw.trim();
-                            if (!safeKw) continue;
-
-                            let hasMatch = false;
-
-                            if (matchMode === "WHOLE_WORD") {
-                                // Use pre-compiled regex
-                                if (regexes[i]) {
-                                    hasMatch = regexes[i].test(text);
-                                } else {
-                                    // Should be cached, but safe fallback
-                                    hasMatch = lower.includes(safeKw.toLowerCase());
-                                }
-                            } else {
-                                // Loose Mode
-                                hasMatch = lower.includes(safeKw.toLowerCase());
-                            }
+                            const safeKw = keywords[i].trim();
+                            const matcher = matchers[i];
+                            if (!safeKw || !matcher) continue;
 
-                            if (hasMatch) {
-                                const isWhitelisted = whitelist.some(w => lower.includes(w.toLowerCase().trim()));
+                            if (matcher(text)) {
+                                const isWhitelisted = whitelist.some(w => w.trim() && isSafelisted(w));
                                 if (!isWhitelisted) {
                                     matches = true;
                                     reason = `Keyword "${safeKw}" found in ${contextName}`;
@@ -273,20 +279,68 @@ export const autoModRuleService = {
                             logger.warn(`[AutoMod] Failed to fetch groups: ${e}`);
                         }
                     }
+                } else if (rule.type === "COMPOSITE") {
+                    let condition: RuleCondition | null = null;
+                    try { condition = JSON.parse(rule.config).condition ?? null; } catch { /* Ignore parse error */ }
+
+                    if (!condition || autoModExpressionService.validate(condition).length > 0) {
+                        logger.warn(`[AutoMod] Skipping composite rule with invalid condition: ${rule.name}`);
+                        continue;
+                    }
+
+                    if (rule.whitelistedUserIds?.includes(user.id)) continue;
+
+                    let userGroups: { groupId: string; name: string }[] | null = null;
+                    const getUserGroups = async () => {
+                        if (!userGroups) {
+                            try {
+                                userGroups = await userProfileService.getUserGroups(user.id);
+                            } catch (e) {
+                                logger.warn(`[AutoMod] Failed to fetch groups for ${user.displayName}: ${e}`);
+                                userGroups = [];
+                            }
+                        }
+                        return userGroups;
+                    };
+
+                    if (rule.whitelistedGroupIds?.length) {
+                        const groups = await getUserGroups();
+                        if (groups.some(g => rule.whitelistedGroupIds!.includes(g.groupId))) continue;
+                    }
+
+                    const result = await autoModExpressionService.evaluate(condition, user, {
+                        getUserGroups,
+                        allowMissingData: options.allowMissingData
+                    });
+                    if (result.matched) {
+                        matches = true;
+                        matchedConditions = result.fired;
+                        reason = result.fired.join(" AND ");
+                    }
                 }
 
-                if (matches) {
+                if (matches && rule.shadow) {
+                    logger.info(`[AutoMod] User ${user.displayName} matched shadow rule: ${rule.name}`);
+                    shadowMatches.push({
+                        ruleId: rule.id,
+                        ruleName: rule.name,
+                        action: rule.actionType,
+                        reason,
+                        matchedConditions
+                    });
+                } else if (matches) {
                     logger.info(`[AutoMod] User ${user.displayName} matched rule: ${rule.name}`);
-                    return {
+                    verdict = {
                         action: rule.actionType,
                         reason,
                         ruleName: rule.name,
-                        ruleId: rule.id
+                        ruleId: rule.id,
+                        matchedConditions
                     };
                 }
             }
 
-            return { action: "ALLOW" };
+            return { ...(verdict ?? { action: "ALLOW" }), shadowMatches };
         } catch (error) {
             logger.error("[AutoMod] Error checking user:", error);
             return { action: "ALLOW" };
@@ -4,7 +4,10 @@ import { fetchUser } from "./UserService";
 import { databaseService } from "./DatabaseService";
 import { autoModConfigService } from "./AutoModConfigService";
 import { autoModRuleService, ScanResult } from "./AutoModRuleService";
+import { autoModShadowService } from "./AutoModShadowService";
 import { groupAuthorizationService } from "./GroupAuthorizationService";
+import { serviceEventBus } from "./ServiceEventBus";
+import { vrchatApiService } from "./VRChatApiService";
 
 const logger = log.scope("AutoModScannerService");
 
@@ -63,6 +66,16 @@ const persistAction = async (entry: {
             module: entry.module,
             details: JSON.stringify(entry.details || {})
         });
+
+        serviceEventBus.emit("moderation-action", {
+            groupId: entry.groupId,
+            userId: entry.userId,
+            displayName: entry.user,
+            source: "AUTOMOD",
+            action: entry.action,
+            reason: entry.reason,
+            timestamp: entry.timestamp.toISOString()
+        });
     } catch (error) {
         logger.error("[AutoModScanner] Failed to persist action:", error);
     }
@@ -136,6 +149,8 @@ export const autoModScannerService = {
             ageVerificationStatus: user.ageVerificationStatus,
         }, {}, groupId);
 
+        await autoModShadowService.recordShadowMatches(groupId, user, evaluation, "AutoMod Scan");
+
         const config = autoModConfigService.getGroupConfig(groupId);
         const isBanned =
             config.enableAutoBan &&
@@ -231,6 +246,8 @@ export const autoModScannerService = {
                         ageVerificationStatus: user.ageVerificationStatus,
                     }, {}, groupId);
 
+                    await autoModShadowService.recordShadowMatches(groupId, user, evaluation, "AutoMod Scan");
+
                     if (evaluation.action !== "ALLOW") {
                         let finalAction: "BANNED" | "VIOLATION" = "VIOLATION";
 
@@ -240,11 +257,8 @@ export const autoModScannerService = {
                                 evaluation.action === "AUTO_BLOCK")
                         ) {
                             try {
-                                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                                await (client as any).banGroupMember({
-                                    path: { groupId },
-                                    body: { userId: user.id },
-                                });
+                                const banResult = await vrchatApiService.banUser(groupId, user.id);
+                                if (!banResult.success) throw new Error(banResult.error);
                                 logger.info(
                                     `[AutoModScanner] [SCAN] Auto-Banned ${user.displayName}: ${evaluation.reason}`,
                                 );
@@ -258,7 +272,7 @@ export const autoModScannerService = {
                                     action: "AUTO_BAN",
                                     reason: evaluation.reason || "Failed AutoMod Scan",
                                     module: "AutoMod Scan",
-                                    details: { ruleName: evaluation.ruleName },
+                                    details: { ruleName: evaluation.ruleName, matchedConditions: evaluation.matchedConditions },
                                     skipBroadcast: true
                                 });
                             } catch (e) {
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+const mocks = vi.hoisted(() => ({
+    respondGroupJoinRequest: vi.fn(),
+    evaluateUser: vi.fn(),
+    recordShadowMatches: vi.fn(async () => undefined),
+    rules: [] as unknown[]
+}));
+
+vi.mock('electron-store', () => ({ default: vi.fn() }));
+vi.mock('./AuthService', () => ({ getVRChatClient: () => ({ respondGroupJoinRequest: mocks.respondGroupJoinRequest }) }));
+vi.mock('./DatabaseService', () => ({ databaseService: { createAutoModLog: vi.fn(async () => undefined) } }));
+vi.mock('./GroupAuthorizationService', () => ({ groupAuthorizationService: { isGroupAllowed: () => true } }));
+vi.mock('./UserService', () => ({ fetchUser: vi.fn(async () => null) }));
+vi.mock('./WindowService', () => ({ windowService: { broadcast: vi.fn() } }));
+vi.mock('./DiscordWebhookService', () => ({ discordWebhookService: { sendEvent: vi.fn(async () => undefined) }, GROUP_GUARD_ACTOR: { id: 'system', displayName: 'Group Guard' } }));
+vi.mock('./WatchlistService', () => ({ watchlistService: { getEntity: () => undefined } }));
+vi.mock('./AutoModConfigService', async (importOriginal) => ({
+    ...await importOriginal<typeof import('./AutoModConfigService')>(),
+    autoModConfigService: { getGroupConfig: () => ({ rules: mocks.rules, enableAutoProcess: true, enableAutoBan: false }) }
+}));
+vi.mock('./AutoModRuleService', () => ({ autoModRuleService: { evaluateUser: mocks.evaluateUser } }));
+vi.mock('./AutoModShadowService', () => ({ autoModShadowService: { recordShadowMatches: mocks.recordShadowMatches } }));
+vi.mock('./InstanceGuardService', () => ({ instanceGuardService: {} }));
+vi.mock('./PermissionGuardService', () => ({ permissionGuardService: {} }));
+vi.mock('./ServiceEventBus', () => ({ serviceEventBus: { on: vi.fn(), emit: vi.fn() } }));
+
+import { processJoinRequest } from './AutoModService';
+
+const rule = (overrides: Record<string, unknown>) => ({
+    id: 1, name: 'Rule', enabled: true, type: 'KEYWORD_BLOCK', config: '{}', actionType: 'REJECT', ...overrides
+});
+
+describe('processJoinRequest', () => {
+    it('records shadow matches without accepting or rejecting when only shadow rules exist', async () => {
+        mocks.rules = [rule({ shadow: true }), rule({ id: 2, type: 'CLOSE_ALL_INSTANCES' })];
+        const evaluation = { action: 'ALLOW', shadowMatches: [{ ruleId: 1, ruleName: 'Rule', action: 'REJECT', reason: 'matched' }] };
+        mocks.evaluateUser.mockResolvedValue(evaluation);
+
+        const result = await processJoinRequest('grp_1', 'usr_shadow', 'Trial', { tags: [] });
+
+        expect(result).toEqual({ processed: true, action: 'skip', reason: 'Shadow rules only' });
+        expect(mocks.recordShadowMatches).toHaveBeenCalledWith('grp_1', { id: 'usr_shadow', displayName: 'Trial' }, evaluation, 'Gatekeeper');
+        expect(mocks.respondGroupJoinRequest).not.toHaveBeenCalled();
+    });
+
+    it('skips without evaluating when only settings rules exist', async () => {
+        mocks.rules = [rule({ type: 'CLOSE_ALL_INSTANCES' })];
+        mocks.evaluateUser.mockClear();
+
+        const result = await processJoinRequest('grp_1', 'usr_other', 'Other', { tags: [] });
+
+        expect(result.reason).toBe('No enabled rules');
+        expect(mocks.evaluateUser).not.toHaveBeenCalled();
+    });
+});
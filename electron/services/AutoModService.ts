@@ -4,12 +4,14 @@ import { databaseService } from "./DatabaseService";
 import { groupAuthorizationService } from "./GroupAuthorizationService";
 import { fetchUser } from "./UserService";
 import { windowService } from "./WindowService";
-import { discordWebhookService } from "./DiscordWebhookService";
+import { discordWebhookService, GROUP_GUARD_ACTOR } from "./DiscordWebhookService";
 import { watchlistService } from "./WatchlistService";
-import { autoModConfigService } from "./AutoModConfigService";
+import { autoModConfigService, isEnforcedJoinRule, CONFIG_ONLY_RULE_TYPES } from "./AutoModConfigService";
 import { autoModRuleService } from "./AutoModRuleService";
+import { autoModShadowService } from "./AutoModShadowService";
 import { instanceGuardService } from "./InstanceGuardService";
 import { permissionGuardService } from "./PermissionGuardService";
+import { serviceEventBus } from "./ServiceEventBus";
 
 const logger = log.scope("AutoModService");
 
@@ -54,6 +56,18 @@ const persistAction = async (entry: {
       details: JSON.stringify(entry.details || {})
     });
 
+    if (entry.action !== "AUTO_ACCEPT") {
+      serviceEventBus.emit("moderation-action", {
+        groupId: entry.groupId,
+        userId: entry.userId,
+        displayName: entry.user,
+        source: "AUTOMOD",
+        action: entry.action,
+        reason: entry.reason,
+        timestamp: entry.timestamp.toISOString()
+      });
+    }
+
     if (!entry.skipBroadcast) {
         windowService.broadcast("automod:violation", {
         userId: entry.userId,
@@ -61,6 +75,7 @@ const persistAction = async (entry: {
         action: entry.action,
         reason: entry.reason,
         ruleName: (entry.details?.ruleName as string),
+        matchedConditions: (entry.details?.matchedConditions as string[] | undefined),
         timestamp: entry.timestamp.toISOString()
     });
     }
@@ -108,9 +123,11 @@ export const processJoinRequest = async (
   }
   
   const config = autoModConfigService.getGroupConfig(groupId);
-  const rules = config.rules.filter((r) => r.enabled);
-  if (rules.length === 0) {
-    logger.debug("[AutoMod] No enabled rules, skipping auto-processing");
+  // Shadow rules are still evaluated on their own so they can be trialled before any live rule exists
+  const enforced = config.rules.some(isEnforcedJoinRule);
+  const shadowOnly = !enforced && config.rules.some(r => r.enabled && r.shadow && !CONFIG_ONLY_RULE_TYPES.includes(r.type));
+  if (!enforced && !shadowOnly) {
+    logger.debug("[AutoMod] No enforced join rules, skipping auto-processing");
     return { processed: false, action: "skip", reason: "No enabled rules" };
   }
 
@@ -170,13 +187,20 @@ export const processJoinRequest = async (
           action: "REJECT",
           reason: `Watchlist: ${watched.displayName} (Priority: ${watched.priority})`,
           ruleName: "Watchlist",
+          shadowMatches: evaluation.shadowMatches,
         };
       }
     }
+
+    await autoModShadowService.recordShadowMatches(groupId, { id: userId, displayName }, evaluation, "Gatekeeper");
     
     processedRequests.add(cacheKey);
     pruneProcessedCache();
 
+    if (shadowOnly) {
+      return { processed: true, action: "skip", reason: "Shadow rules only" };
+    }
+
     if (evaluation.action === "ALLOW") {
        // Check if Auto-Processing is enabled
        const autoProcessEnabled = config.enableAutoProcess;
@@ -220,6 +244,7 @@ export const processJoinRequest = async (
           ruleName: evaluation.ruleName,
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           ruleId: (evaluation as any).ruleId, 
+          matchedConditions: evaluation.matchedConditions,
           detectedGroupId: groupId 
       });
 
@@ -231,6 +256,7 @@ export const processJoinRequest = async (
               title: "AutoMod Alert: REJECT (Action Skipped)",
               description: `**User**: ${displayName} (${userId})\n**Reason**: ${evaluation.reason || "No reason provided"}`,
               type: "ERROR",
+              category: "AUTOMOD",
               fields: [
                   { name: "Action Taken", value: "REJECT (Prevented by Auto-Process OFF)", inline: true },
                   { name: "Location", value: "Current Group Instance", inline: true },
@@ -241,6 +267,9 @@ export const processJoinRequest = async (
                     },
               ],
               targetUser: { displayName, id: userId },
+              actor: GROUP_GUARD_ACTOR,
+              rule: evaluation.ruleName ? { name: evaluation.ruleName } : undefined,
+              reason: evaluation.reason,
               footer: "Group Guard AutoMod"
           });
 
@@ -265,7 +294,7 @@ export const processJoinRequest = async (
           action: evaluation.action,
           reason: evaluation.reason || "Failed AutoMod filter",
           module: "Gatekeeper",
-          details: { evaluation, ruleName: evaluation.ruleName },
+          details: { evaluation, ruleName: evaluation.ruleName, matchedConditions: evaluation.matchedConditions },
           skipBroadcast: true
         });
 
@@ -273,6 +302,7 @@ export const processJoinRequest = async (
           title: "AutoMod Gatekeeper",
           description: `**User Rejected**: ${displayName} (${userId})\n**Reason**: ${evaluation.reason || "No reason provided"}`,
           type: "ERROR",
+          category: "AUTOMOD",
           fields: [
             { name: "Request Type", value: "Join Request", inline: true },
             {
@@ -287,6 +317,9 @@ export const processJoinRequest = async (
             },
           ],
           targetUser: { displayName, id: userId },
+          actor: GROUP_GUARD_ACTOR,
+          rule: evaluation.ruleName ? { name: evaluation.ruleName } : undefined,
+          reason: evaluation.reason,
         });
 
         return { processed: true, action: "reject", reason: evaluation.reason };
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('./DatabaseService', () => ({
+    databaseService: {
+        createAutoModLog: vi.fn(),
+        getAutoModLogsSince: vi.fn(),
+    },
+}));
+
+vi.mock('./AutoModConfigService', () => ({
+    autoModConfigService: {
+        getGroupConfig: vi.fn(() => ({ rules: [] })),
+    },
+}));
+
+import { buildShadowReport, SHADOW_MODULE } from './AutoModShadowService';
+import type { AutoModRule } from './AutoModConfigService';
+
+const shadowRule: AutoModRule = {
+    id: 7,
+    name: 'New keywords',
+    enabled: true,
+    shadow: true,
+    type: 'KEYWORD_BLOCK',
+    config: '{}',
+    actionType: 'REJECT',
+    createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+const liveRule: AutoModRule = { ...shadowRule, id: 8, name: 'Age gate', shadow: false };
+
+const shadowLog = (userId: string, liveAction: string) => ({
+    timestamp: '2026-01-02T00:00:00.000Z',
+    user: userId,
+    userId,
+    action: 'SHADOW_REJECT',
+    reason: 'Keyword "x" found in Bio',
+    module: SHADOW_MODULE,
+    details: JSON.stringify({ ruleId: 7, liveAction }),
+});
+
+describe('AutoModShadowService.buildShadowReport', () => {
+
+    it('splits shadow hits into agreements and shadow-only verdicts', () => {
+        const report = buildShadowReport('grp_test', new Date('2026-01-01'), [shadowRule, liveRule], [
+            shadowLog('usr_a', 'REJECT'),
+            shadowLog('usr_b', 'ALLOW'),
+        ]);
+
+        expect(report.rules).toHaveLength(1);
+        expect(report.rules[0].shadowHits).toBe(2);
+        expect(report.rules[0].agreed).toBe(1);
+        expect(report.rules[0].shadowOnly.map(u => u.userId)).toEqual(['usr_b']);
+    });
+
+    it('lists live actions the shadow rule missed, once per user', () => {
+        const live = (userId: string, timestamp: string) => ({
+            timestamp, user: userId, userId, action: 'REJECT', reason: 'Age', module: 'Gatekeeper', details: '{}'
+        });
+
+        const report = buildShadowReport('grp_test', new Date('2025-12-01'), [shadowRule], [
+            shadowLog('usr_a', 'REJECT'),
+            live('usr_a', '2026-01-02T00:00:00.000Z'),
+            live('usr_c', '2026-01-03T00:00:00.000Z'),
+            live('usr_c', '2026-01-04T00:00:00.000Z'),
+            live('usr_old', '2025-12-15T00:00:00.000Z'),
+        ]);
+
+        expect(report.rules[0].liveOnly.map(u => u.userId)).toEqual(['usr_c']);
+    });
+});
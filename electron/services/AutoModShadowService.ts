@@ -0,0 +1,167 @@
+import log from "electron-log";
+import { databaseService } from "./DatabaseService";
+import { AutoModRule, autoModConfigService } from "./AutoModConfigService";
+import type { RuleEvaluation } from "./AutoModRuleService";
+
+const logger = log.scope("AutoModShadowService");
+
+export const SHADOW_MODULE = "Shadow";
+
+// Live AutoModLog actions that count as "enforced" when diffing against shadow verdicts
+const LIVE_ACTIONS = ["REJECT", "AUTO_BLOCK", "NOTIFY_ONLY", "AUTO_BAN"];
+
+interface StoredLog {
+    timestamp: Date | string;
+    user: string;
+    userId: string;
+    action: string;
+    reason: string;
+    module: string;
+    details?: string | null;
+}
+
+export interface ShadowReportUser {
+    userId: string;
+    displayName: string;
+    timestamp: string;
+    reason: string;
+    liveAction?: string;
+}
+
+export interface ShadowRuleReport {
+    ruleId: number;
+    ruleName: string;
+    shadowHits: number;
+    /** Shadow rule fired and the live rules also took action */
+    agreed: number;
+    /** Shadow rule fired but the live verdict was ALLOW - candidates for false positives */
+    shadowOnly: ShadowReportUser[];
+    /** Live rules took action but the shadow rule did not fire */
+    liveOnly: ShadowReportUser[];
+}
+
+export interface ShadowReport {
+    groupId: string;
+    since: string;
+    rules: ShadowRuleReport[];
+}
+
+const parseDetails = (entry: StoredLog): Record<string, unknown> => {
+    if (!entry.details) return {};
+    try {
+        return JSON.parse(entry.details) || {};
+    } catch {
+        return {};
+    }
+};
+
+const toIso = (value: Date | string) => new Date(value).toISOString();
+
+/**
+ * Compares shadow verdicts with live verdicts for each shadow rule.
+ * Users are matched by ID; a rule only counts live actions logged after it was created.
+ */
+export const buildShadowReport = (
+    groupId: string,
+    since: Date,
+    rules: AutoModRule[],
+    logs: StoredLog[]
+): ShadowReport => {
+    const shadowLogs = logs.filter(l => l.module === SHADOW_MODULE);
+    const liveLogs = logs.filter(l => l.module !== SHADOW_MODULE && LIVE_ACTIONS.includes(l.action));
+
+    const reports = rules.filter(r => r.shadow).map((rule): ShadowRuleReport => {
+        const hits = shadowLogs.filter(l => parseDetails(l).ruleId === rule.id);
+        const hitUserIds = new Set(hits.map(h => h.userId));
+        const liveUserIds = new Set(liveLogs.map(l => l.userId));
+
+        let agreed = 0;
+        const shadowOnly: ShadowReportUser[] = [];
+        for (const hit of hits) {
+            const liveAction = parseDetails(hit).liveAction as string | undefined;
+            const liveActed = liveAction ? liveAction !== "ALLOW" : liveUserIds.has(hit.userId);
+            if (liveActed) {
+                agreed++;
+            } else {
+                shadowOnly.push({
+                    userId: hit.userId,
+                    displayName: hit.user,
+                    timestamp: toIso(hit.timestamp),
+                    reason: hit.reason,
+                    liveAction
+                });
+            }
+        }
+
+        const ruleStart = rule.createdAt ? new Date(rule.createdAt).getTime() : 0;
+        const liveOnly: ShadowReportUser[] = [];
+        const seen = new Set<string>();
+        for (const live of liveLogs) {
+            if (hitUserIds.has(live.userId) || seen.has(live.userId)) continue;
+            if (new Date(live.timestamp).getTime() < ruleStart) continue;
+            seen.add(live.userId);
+            liveOnly.push({
+                userId: live.userId,
+                displayName: live.user,
+                timestamp: toIso(live.timestamp),
+                reason: live.reason,
+                liveAction: live.action
+            });
+        }
+
+        return {
+            ruleId: rule.id,
+            ruleName: rule.name,
+            shadowHits: hits.length,
+            agreed,
+            shadowOnly,
+            liveOnly
+        };
+    });
+
+    return { groupId, since: since.toISOString(), rules: reports };
+};
+
+export const autoModShadowService = {
+    /**
+     * Logs what each matching shadow rule would have done, together with the live verdict.
+     */
+    async recordShadowMatches(
+        groupId: string,
+        user: { id: string; displayName: string },
+        evaluation: RuleEvaluation,
+        source: string
+    ) {
+        for (const match of evaluation.shadowMatches || []) {
+            try {
+                await databaseService.createAutoModLog({
+                    timestamp: new Date(),
+                    user: user.displayName,
+                    userId: user.id,
+                    groupId,
+                    action: `SHADOW_${match.action}`,
+                    reason: match.reason || "Matched shadow rule",
+                    module: SHADOW_MODULE,
+                    details: JSON.stringify({
+                        shadow: true,
+                        source,
+                        ruleId: match.ruleId,
+                        ruleName: match.ruleName,
+                        matchedConditions: match.matchedConditions,
+                        liveAction: evaluation.action,
+                        liveRuleName: evaluation.ruleName
+                    })
+                });
+            } catch (error) {
+                logger.error("[AutoMod] Failed to persist shadow verdict:", error);
+            }
+        }
+    },
+
+    async getReport(groupId: string, windowHours: number): Promise<ShadowReport> {
+        const since = new Date(Date.now() - windowHours * 60 * 60 * 1000);
+        const rules = autoModConfigService.getGroupConfig(groupId).rules;
+        const logs = await databaseService.getAutoModLogsSince(groupId, since);
+        return buildShadowReport(groupId, since, rules, logs);
+    }
+};
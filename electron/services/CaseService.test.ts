@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('electron', () => ({ ipcMain: { handle: vi.fn() } }));
+vi.mock('electron-store', () => ({ default: vi.fn() }));
+vi.mock('./ServiceEventBus', () => ({ serviceEventBus: { on: vi.fn() } }));
+vi.mock('./LogWatcherService', () => ({ logWatcherService: { on: vi.fn() } }));
+vi.mock('./InstanceLoggerService', () => ({ instanceLoggerService: {} }));
+vi.mock('./GroupAuthorizationService', () => ({ groupAuthorizationService: {} }));
+vi.mock('./WindowService', () => ({ windowService: { broadcast: vi.fn() } }));
+vi.mock('./AuthService', () => ({ getCurrentUserId: () => null, getCurrentUserDisplayName: () => null }));
+
+import { findActiveCase, type ModerationCase } from './CaseService';
+
+const makeCase = (overrides: Partial<ModerationCase>): ModerationCase => ({
+    id: 'case-1',
+    number: 1,
+    groupId: 'grp_a',
+    title: 'Test',
+    status: 'OPEN',
+    sources: [],
+    evidenceIds: [],
+    reports: [],
+    activity: [],
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides
+});
+
+describe('findActiveCase', () => {
+    it('matches by user ID within the group and skips closed cases', () => {
+        const cases = [
+            makeCase({ id: 'closed', status: 'CLOSED', target: { userId: 'usr_1', displayName: 'Mallory' } }),
+            makeCase({ id: 'other-group', groupId: 'grp_b', target: { userId: 'usr_1', displayName: 'Mallory' } }),
+            makeCase({ id: 'active', status: 'INVESTIGATING', target: { userId: 'usr_1', displayName: 'Mallory' } })
+        ];
+        expect(findActiveCase(cases, 'grp_a', { userId: 'usr_1', displayName: 'Mal' })?.id).toBe('active');
+        expect(findActiveCase(cases, 'grp_a', { userId: 'usr_2', displayName: 'Mallory' })).toBeUndefined();
+    });
+
+    it('falls back to the display name for unresolved targets', () => {
+        const cases = [makeCase({ target: { displayName: 'Mallory' } })];
+        expect(findActiveCase(cases, 'grp_a', { displayName: 'Mallory' })?.id).toBe('case-1');
+        expect(findActiveCase(cases, 'grp_a')).toBeUndefined();
+    });
+});
@@ -0,0 +1,356 @@
+import Store from 'electron-store';
+import { ipcMain } from 'electron';
+import log from 'electron-log';
+import { serviceEventBus } from './ServiceEventBus';
+import { logWatcherService } from './LogWatcherService';
+import { instanceLoggerService } from './InstanceLoggerService';
+import { groupAuthorizationService } from './GroupAuthorizationService';
+import { windowService } from './WindowService';
+import { getCurrentUserId, getCurrentUserDisplayName } from './AuthService';
+
+const logger = log.scope('CaseService');
+
+export type CaseStatus = 'OPEN' | 'INVESTIGATING' | 'ACTIONED' | 'CLOSED';
+export type CaseSourceType = 'AUTOMOD' | 'WATCHLIST' | 'VOTE_KICK' | 'MANUAL';
+export type CaseActivityType = 'OPENED' | 'SOURCE' | 'STATUS' | 'ASSIGNED' | 'COMMENT' | 'ACTION' | 'EVIDENCE' | 'REPORT';
+
+const STATUSES: CaseStatus[] = ['OPEN', 'INVESTIGATING', 'ACTIONED', 'CLOSED'];
+
+export type AutoCaseSource = Exclude<CaseSourceType, 'MANUAL'>;
+
+export interface CaseTarget {
+  userId?: string; // Vote kicks only know the display name when the player wasn't resolved
+  displayName: string;
+}
+
+export interface CaseSource {
+  type: CaseSourceType;
+  refId?: string; // AutoModLog id or watchlist entity id
+  summary: string;
+  timestamp: number;
+}
+
+export interface CaseActivity {
+  id: string;
+  type: CaseActivityType;
+  text: string;
+  timestamp: number;
+  authorId?: string;
+  authorName?: string;
+}
+
+export interface CaseReport {
+  id: string;
+  templateName: string;
+  content: string;
+  createdAt: number;
+  authorName?: string;
+}
+
+export interface ModerationCase {
+  id: string;
+  number: number; // Per group, what moderators refer to in chat
+  groupId: string;
+  title: string;
+  status: CaseStatus;
+  target?: CaseTarget;
+  assignee?: { id: string; displayName: string };
+  sources: CaseSource[];
+  evidenceIds: string[]; // Evidence locker items
+  reports: CaseReport[];
+  activity: CaseActivity[]; // Append-only: comments, status changes and actions taken
+  createdAt: number;
+  updatedAt: number;
+  closedAt?: number;
+}
+
+export interface CaseSettings {
+  autoOpen: Record<AutoCaseSource, boolean>;
+}
+
+export interface OpenCaseInput {
+  groupId: string;
+  title?: string;
+  target?: CaseTarget;
+  source: Omit<CaseSource, 'timestamp'>;
+}
+
+interface CaseStoreSchema {
+  cases: ModerationCase[];
+  nextNumber: Record<string, number>;
+  settings: Record<string, CaseSettings>;
+}
+
+const DEFAULT_SETTINGS: CaseSettings = {
+  autoOpen: { AUTOMOD: false, WATCHLIST: false, VOTE_KICK: false }
+};
+
+const SOURCE_LABELS: Record<CaseSourceType, string> = {
+  AUTOMOD: 'AutoMod',
+  WATCHLIST: 'Watchlist',
+  VOTE_KICK: 'Vote kick',
+  MANUAL: 'Manual'
+};
+
+/**
+ * The case still being worked on for a user, so repeat events land on one case instead of opening new ones.
+ */
+export const findActiveCase = (cases: ModerationCase[], groupId: string, target?: CaseTarget): ModerationCase | undefined => {
+  if (!target) return undefined;
+  return cases.find(c =>
+    c.groupId === groupId &&
+    c.status !== 'CLOSED' &&
+    !!c.target &&
+    (target.userId ? c.target.userId === target.userId : c.target.displayName === target.displayName)
+  );
+};
+
+const describeSource = (source: Pick<CaseSource, 'type' | 'summary'>) => `${SOURCE_LABELS[source.type]}: ${source.summary}`;
+
+class CaseService {
+  private store: Store<CaseStoreSchema>;
+
+  constructor() {
+    this.store = new Store<CaseStoreSchema>({
+      name: 'moderation-cases',
+      defaults: {
+        cases: [],
+        nextNumber: {},
+        settings: {}
+      }
+    });
+  }
+
+  public initialize() {
+    logger.info('Initializing CaseService');
+
+    // Actions against a user with an active case become part of its record
+    serviceEventBus.on('moderation-action', (event) => {
+      const target = { userId: event.userId, displayName: event.displayName || event.userId };
+      if (event.source === 'AUTOMOD' && this.autoOpen(event.groupId, target, { type: 'AUTOMOD', summary: event.reason || event.action })) return;
+      this.recordAction(event.groupId, target, `${event.action}${event.reason ? ` - ${event.reason}` : ''}`);
+    });
+
+    serviceEventBus.on('watchlist-hit', (event) => {
+      const target = { userId: event.userId, displayName: event.displayName };
+      this.autoOpen(event.groupId, target, { type: 'WATCHLIST', refId: event.entityId, summary: event.reason });
+    });
+
+    logWatcherService.on('vote-kick', (event: { target: string; initiator: string; isBackfill?: boolean }) => {
+      const groupId = instanceLoggerService.getCurrentGroupId();
+      if (event.isBackfill || !groupId) return;
+      const player = logWatcherService.getPlayers().find(p => p.displayName === event.target);
+      const target = { userId: player?.userId, displayName: event.target };
+      const summary = `Vote kick started by ${event.initiator}`;
+      if (!this.autoOpen(groupId, target, { type: 'VOTE_KICK', summary })) this.recordAction(groupId, target, summary);
+    });
+
+    this.setupHandlers();
+  }
+
+  // ============================================
+  // SETTINGS
+  // ============================================
+
+  public getSettings(groupId: string): CaseSettings {
+    const stored = this.store.get('settings')[groupId];
+    return { autoOpen: { ...DEFAULT_SETTINGS.autoOpen, ...stored?.autoOpen } };
+  }
+
+  public setSettings(groupId: string, settings: CaseSettings): CaseSettings {
+    const all = this.store.get('settings');
+    all[groupId] = { autoOpen: { ...this.getSettings(groupId).autoOpen, ...settings.autoOpen } };
+    this.store.set('settings', all);
+    return all[groupId];
+  }
+
+  // ============================================
+  // CASES
+  // ============================================
+
+  public getCases(groupId: string): ModerationCase[] {
+    return this.store.get('cases')
+      .filter(c => c.groupId === groupId)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  public getCase(id: string): ModerationCase | undefined {
+    return this.store.get('cases').find(c => c.id === id);
+  }
+
+  private activity(type: CaseActivityType, text: string): CaseActivity {
+    const timestamp = Date.now();
+    return {
+      id: `act_${timestamp}_${Math.random().toString(36).slice(2, 8)}`,
+      type,
+      text,
+      timestamp,
+      authorId: getCurrentUserId() || undefined,
+      authorName: getCurrentUserDisplayName() || undefined
+    };
+  }
+
+  private updateCase(id: string, update: (c: ModerationCase) => ModerationCase | void): ModerationCase {
+    const cases = this.store.get('cases');
+    const index = cases.findIndex(c => c.id === id);
+    if (index === -1) throw new Error(`Case ${id} not found`);
+    const updated = update(cases[index]) || cases[index];
+    updated.updatedAt = Date.now();
+    cases[index] = updated;
+    this.store.set('cases', cases);
+    windowService.broadcast('cases:updated', { groupId: updated.groupId, caseId: updated.id });
+    return updated;
+  }
+
+  /**
+   * Opens a case, or adds the source to the user's active case when there is one.
+   */
+  public openCase(input: OpenCaseInput): ModerationCase {
+    const source: CaseSource = { ...input.source, summary: input.source.summary?.trim() || SOURCE_LABELS[input.source.type], timestamp: Date.now() };
+    const displayName = input.target?.displayName?.trim() || input.target?.userId;
+    const target = displayName ? { userId: input.target?.userId || undefined, displayName } : undefined;
+    if (!target && !input.title?.trim()) throw new Error('A case needs a target user or a title');
+
+    const existing = findActiveCase(this.store.get('cases'), input.groupId, target);
+    if (existing) {
+      return this.updateCase(existing.id, c => {
+        c.sources.push(source);
+        c.activity.push(this.activity('SOURCE', describeSource(source)));
+      });
+    }
+
+    const numbers = this.store.get('nextNumber');
+    const number = numbers[input.groupId] || 1;
+    numbers[input.groupId] = number + 1;
+    this.store.set('nextNumber', numbers);
+
+    const now = Date.now();
+    const created: ModerationCase = {
+      id: `case_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      number,
+      groupId: input.groupId,
+      title: input.title?.trim() || `${SOURCE_LABELS[source.type]}: ${target?.displayName}`,
+      status: 'OPEN',
+      target,
+      sources: [source],
+      evidenceIds: [],
+      reports: [],
+      activity: [this.activity('OPENED', describeSource(source))],
+      createdAt: now,
+      updatedAt: now
+    };
+    this.store.set('cases', [...this.store.get('cases'), created]);
+    windowService.broadcast('cases:updated', { groupId: created.groupId, caseId: created.id });
+    logger.info(`Opened case #${number} in ${input.groupId}: ${created.title}`);
+    return created;
+  }
+
+  /**
+   * Opens or updates a case when the group has auto-open on for this source. Returns whether it did.
+   */
+  private autoOpen(groupId: string, target: CaseTarget, source: Omit<CaseSource, 'timestamp'> & { type: AutoCaseSource }): boolean {
+    if (!this.getSettings(groupId).autoOpen[source.type]) return false;
+    try {
+      this.openCase({ groupId, target, source });
+      return true;
+    } catch (err) {
+      logger.error('Failed to open case', err);
+      return false;
+    }
+  }
+
+  private recordAction(groupId: string, target: CaseTarget, text: string) {
+    const active = findActiveCase(this.store.get('cases'), groupId, target);
+    if (!active) return;
+    this.updateCase(active.id, c => {
+      c.activity.push(this.activity('ACTION', text));
+    });
+  }
+
+  public setStatus(id: string, status: CaseStatus): ModerationCase {
+    if (!STATUSES.includes(status)) throw new Error(`Unknown status: ${status}`);
+    return this.updateCase(id, c => {
+      if (c.status === status) return;
+      c.activity.push(this.activity('STATUS', `${c.status} → ${status}`));
+      c.status = status;
+      c.closedAt = status === 'CLOSED' ? Date.now() : undefined;
+    });
+  }
+
+  public assign(id: string, assignee: { id: string; displayName: string } | null): ModerationCase {
+    return this.updateCase(id, c => {
+      if (c.assignee?.id === assignee?.id) return;
+      c.activity.push(this.activity('ASSIGNED', assignee ? `Assigned to ${assignee.displayName}` : 'Unassigned'));
+      c.assignee = assignee || undefined;
+    });
+  }
+
+  public addComment(id: string, text: string): ModerationCase {
+    const comment = text?.trim();
+    if (!comment) throw new Error('Comment is empty');
+    return this.updateCase(id, c => {
+      c.activity.push(this.activity('COMMENT', comment));
+    });
+  }
+
+  public linkEvidence(id: string, evidenceId: string, label: string, linked: boolean): ModerationCase {
+    return this.updateCase(id, c => {
+      if (c.evidenceIds.includes(evidenceId) === linked) return;
+      c.evidenceIds = linked ? [...c.evidenceIds, evidenceId] : c.evidenceIds.filter(e => e !== evidenceId);
+      c.activity.push(this.activity('EVIDENCE', `${linked ? 'Linked' : 'Unlinked'} evidence: ${label}`));
+    });
+  }
+
+  public attachReport(id: string, templateName: string, content: string): ModerationCase {
+    if (!content?.trim()) throw new Error('Report is empty');
+    return this.updateCase(id, c => {
+      const now = Date.now();
+      c.reports.push({ id: `rep_${now}`, templateName, content, createdAt: now, authorName: getCurrentUserDisplayName() || undefined });
+      c.activity.push(this.activity('REPORT', `Attached report: ${templateName}`));
+    });
+  }
+
+  private validateCaseAccess(id: string, action: string) {
+    const found = this.getCase(id);
+    if (!found) throw new Error(`Case ${id} not found`);
+    groupAuthorizationService.validateAccess(found.groupId, action);
+  }
+
+  private setupHandlers() {
+    ipcMain.handle('cases:list', (_, groupId: string) => {
+      groupAuthorizationService.validateAccess(groupId, 'cases:list');
+      return this.getCases(groupId);
+    });
+    ipcMain.handle('cases:open', (_, input: OpenCaseInput) => {
+      groupAuthorizationService.validateAccess(input.groupId, 'cases:open');
+      return this.openCase(input);
+    });
+    ipcMain.handle('cases:set-status', (_, { id, status }: { id: string; status: CaseStatus }) => {
+      this.validateCaseAccess(id, 'cases:set-status');
+      return this.setStatus(id, status);
+    });
+    ipcMain.handle('cases:assign', (_, { id, assignee }: { id: string; assignee: { id: string; displayName: string } | null }) => {
+      this.validateCaseAccess(id, 'cases:assign');
+      return this.assign(id, assignee);
+    });
+    ipcMain.handle('cases:comment', (_, { id, text }: { id: string; text: string }) => {
+      this.validateCaseAccess(id, 'cases:comment');
+      return this.addComment(id, text);
+    });
+    ipcMain.handle('cases:link-evidence', (_, { id, evidenceId, label, linked }: { id: string; evidenceId: string; label: string; linked: boolean }) => {
+      this.validateCaseAccess(id, 'cases:link-evidence');
+      return this.linkEvidence(id, evidenceId, label, linked);
+    });
+    ipcMain.handle('cases:attach-report', (_, { id, templateName, content }: { id: string; templateName: string; content: string }) => {
+      this.validateCaseAccess(id, 'cases:attach-report');
+      return this.attachReport(id, templateName, content);
+    });
+    ipcMain.handle('cases:get-settings', (_, groupId: string) => this.getSettings(groupId));
+    ipcMain.handle('cases:set-settings', (_, { groupId, settings }: { groupId: string; settings: CaseSettings }) => {
+      groupAuthorizationService.validateAccess(groupId, 'cases:set-settings');
+      return this.setSettings(groupId, settings);
+    });
+  }
+}
+
+export const caseService = new CaseService();
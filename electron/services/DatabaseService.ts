@@ -98,6 +98,87 @@ class DatabaseService {
                     // Ignore if column already exists
                 }
 
+                // AUTO-MIGRATION: Ensure InstanceGuardEvent table exists (history used to be in-memory only)
+                await this.prisma.$executeRawUnsafe(`
+                    CREATE TABLE IF NOT EXISTS "InstanceGuardEvent" (
+                        "id" TEXT NOT NULL PRIMARY KEY,
+                        "timestamp" DATETIME NOT NULL,
+                        "action" TEXT NOT NULL,
+                        "groupId" TEXT NOT NULL,
+                        "worldId" TEXT NOT NULL,
+                        "worldName" TEXT NOT NULL,
+                        "instanceId" TEXT NOT NULL,
+                        "reason" TEXT,
+                        "closedBy" TEXT,
+                        "wasAgeGated" BOOLEAN,
+                        "userCount" INTEGER,
+                        "ownerId" TEXT,
+                        "ownerName" TEXT,
+                        "worldThumbnailUrl" TEXT,
+                        "worldAuthorName" TEXT,
+                        "worldCapacity" INTEGER,
+                        "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+                    )`);
+                await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "InstanceGuardEvent_groupId_timestamp_idx" ON "InstanceGuardEvent"("groupId", "timestamp")`);
+                await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "InstanceGuardEvent_worldId_idx" ON "InstanceGuardEvent"("worldId")`);
+                await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "InstanceGuardEvent_ownerId_idx" ON "InstanceGuardEvent"("ownerId")`);
+                await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "InstanceGuardEvent_action_idx" ON "InstanceGuardEvent"("action")`);
+
+                // AUTO-MIGRATION: Ensure AuditLogEntry archive table exists
+                await this.prisma.$executeRawUnsafe(`
+                    CREATE TABLE IF NOT EXISTS "AuditLogEntry" (
+                        "id" TEXT NOT NULL PRIMARY KEY,
+                        "groupId" TEXT NOT NULL,
+                        "createdAt" DATETIME NOT NULL,
+                        "eventType" TEXT NOT NULL,
+                        "actorId" TEXT,
+                        "actorDisplayName" TEXT,
+                        "targetId" TEXT,
+                        "targetDisplayName" TEXT,
+                        "description" TEXT,
+                        "data" TEXT,
+                        "archivedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+                    )`);
+                await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "AuditLogEntry_groupId_createdAt_idx" ON "AuditLogEntry"("groupId", "createdAt")`);
+                await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "AuditLogEntry_actorId_idx" ON "AuditLogEntry"("actorId")`);
+                await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "AuditLogEntry_targetId_idx" ON "AuditLogEntry"("targetId")`);
+                await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "AuditLogEntry_eventType_idx" ON "AuditLogEntry"("eventType")`);
+
+                // AUTO-MIGRATION: Ensure per-group player flag table exists
+                await this.prisma.$executeRawUnsafe(`
+                    CREATE TABLE IF NOT EXISTS "GroupPlayerFlags" (
+                        "groupId" TEXT NOT NULL,
+                        "userId" TEXT NOT NULL,
+                        "flags" TEXT NOT NULL,
+                        "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                        PRIMARY KEY ("groupId", "userId")
+                    )`);
+                await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "GroupPlayerFlags_userId_idx" ON "GroupPlayerFlags"("userId")`);
+
+                // AUTO-MIGRATION: Ensure evidence locker table exists
+                await this.prisma.$executeRawUnsafe(`
+                    CREATE TABLE IF NOT EXISTS "EvidenceItem" (
+                        "id" TEXT NOT NULL PRIMARY KEY,
+                        "groupId" TEXT,
+                        "subjectType" TEXT NOT NULL,
+                        "subjectId" TEXT NOT NULL,
+                        "targetUserId" TEXT,
+                        "kind" TEXT NOT NULL,
+                        "label" TEXT NOT NULL,
+                        "fileName" TEXT,
+                        "storedName" TEXT,
+                        "sha256" TEXT,
+                        "size" INTEGER,
+                        "excerpt" TEXT,
+                        "sessionId" TEXT,
+                        "createdById" TEXT,
+                        "createdByName" TEXT,
+                        "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+                    )`);
+                await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "EvidenceItem_subjectType_subjectId_idx" ON "EvidenceItem"("subjectType", "subjectId")`);
+                await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "EvidenceItem_targetUserId_idx" ON "EvidenceItem"("targetUserId")`);
+                await this.prisma.$executeRawUnsafe(`CREATE INDEX IF NOT EXISTS "EvidenceItem_sha256_idx" ON "EvidenceItem"("sha256")`);
+
                 this.isInitialized = true;
                 logger.info('Database initialized successfully.');
             } catch (error) {
@@ -200,6 +281,236 @@ class DatabaseService {
         });
     }
 
+    public async getAutoModLogsSince(groupId: string, since: Date) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return (this.getClient() as any).autoModLog.findMany({
+            where: { groupId, timestamp: { gte: since } },
+            orderBy: { timestamp: 'desc' }
+        });
+    }
+
+    // ========================================
+    // INSTANCE GUARD HISTORY
+    // ========================================
+
+    public async createInstanceGuardEvent(data: {
+        id: string, timestamp: Date, action: string, groupId: string,
+        worldId: string, worldName: string, instanceId: string,
+        reason?: string, closedBy?: string, wasAgeGated?: boolean, userCount?: number,
+        ownerId?: string, ownerName?: string, worldThumbnailUrl?: string,
+        worldAuthorName?: string, worldCapacity?: number
+    }) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return (this.getClient() as any).instanceGuardEvent.create({ data });
+    }
+
+    public async getInstanceGuardEvents(filter: {
+        groupId?: string, world?: string, owner?: string, actions?: string[],
+        limit?: number, offset?: number
+    }) {
+        const where: Record<string, unknown> = {};
+        if (filter.groupId) where.groupId = filter.groupId;
+        if (filter.actions?.length) where.action = { in: filter.actions };
+
+        // World and owner accept either an exact ID or part of the name
+        const and: Record<string, unknown>[] = [];
+        if (filter.world) {
+            and.push({ OR: [{ worldId: filter.world }, { worldName: { contains: filter.world } }] });
+        }
+        if (filter.owner) {
+            and.push({ OR: [{ ownerId: filter.owner }, { ownerName: { contains: filter.owner } }] });
+        }
+        if (and.length) where.AND = and;
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const client = this.getClient() as any;
+        const [events, total] = await Promise.all([
+            client.instanceGuardEvent.findMany({
+                where,
+                orderBy: { timestamp: 'desc' },
+                take: filter.limit ?? 50,
+                skip: filter.offset ?? 0
+            }),
+            client.instanceGuardEvent.count({ where })
+        ]);
+        return { events, total };
+    }
+
+    public async getInstanceGuardEventsSince(since: Date) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return (this.getClient() as any).instanceGuardEvent.findMany({
+            where: { timestamp: { gte: since } },
+            orderBy: { timestamp: 'desc' }
+        });
+    }
+
+    public async pruneInstanceGuardEvents(before: Date): Promise<{ count: number }> {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return (this.getClient() as any).instanceGuardEvent.deleteMany({
+            where: { timestamp: { lt: before } }
+        });
+    }
+
+    public async clearInstanceGuardEvents(groupId?: string) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return (this.getClient() as any).instanceGuardEvent.deleteMany({
+            where: groupId ? { groupId } : undefined
+        });
+    }
+
+    // ========================================
+    // AUDIT LOG ARCHIVE
+    // ========================================
+
+    /**
+     * Stores audit log entries, skipping ids that are already archived. Returns how many were new.
+     */
+    public async archiveAuditLogEntries(entries: {
+        id: string, groupId: string, createdAt: Date, eventType: string,
+        actorId?: string, actorDisplayName?: string, targetId?: string, targetDisplayName?: string,
+        description?: string, data?: string
+    }[]) {
+        if (entries.length === 0) return 0;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const client = this.getClient() as any;
+        const existing: { id: string }[] = await client.auditLogEntry.findMany({
+            where: { id: { in: entries.map(e => e.id) } },
+            select: { id: true }
+        });
+        const known = new Set(existing.map(e => e.id));
+        const fresh = entries.filter(e => !known.has(e.id));
+        if (fresh.length > 0) {
+            await client.$transaction(fresh.map(data => client.auditLogEntry.create({ data })));
+        }
+        return fresh.length;
+    }
+
+    public async searchAuditLogEntries(filter: {
+        groupId: string, actor?: string, target?: string, eventType?: string,
+        from?: Date, to?: Date, text?: string, limit?: number, offset?: number
+    }) {
+        const and: Record<string, unknown>[] = [{ groupId: filter.groupId }];
+
+        // Actor and target accept either an exact ID or part of the display name
+        if (filter.actor) {
+            and.push({ OR: [{ actorId: filter.actor }, { actorDisplayName: { contains: filter.actor } }] });
+        }
+        if (filter.target) {
+            and.push({ OR: [{ targetId: filter.target }, { targetDisplayName: { contains: filter.target } }] });
+        }
+        if (filter.eventType) and.push({ eventType: { contains: filter.eventType } });
+        if (filter.from || filter.to) {
+            and.push({ createdAt: { ...(filter.from ? { gte: filter.from } : {}), ...(filter.to ? { lte: filter.to } : {}) } });
+        }
+
+        // Every word of the free text has to appear in one of the text columns
+        const words = (filter.text || '').split(/\s+/).filter(Boolean);
+        for (const word of words) {
+            and.push({
+                OR: ['description', 'actorDisplayName', 'targetDisplayName', 'eventType', 'actorId', 'targetId', 'data']
+                    .map(column => ({ [column]: { contains: word } }))
+            });
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const client = this.getClient() as any;
+        const where = { AND: and };
+        const [entries, total] = await Promise.all([
+            client.auditLogEntry.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                take: filter.limit ?? 100,
+                skip: filter.offset ?? 0
+            }),
+            client.auditLogEntry.count({ where })
+        ]);
+        return { entries, total };
+    }
+
+    public async getAuditLogEntriesSince(groupId: string, since: Date, eventTypes: string[]) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return (this.getClient() as any).auditLogEntry.findMany({
+            where: { groupId, eventType: { in: eventTypes }, createdAt: { gte: since } },
+            orderBy: { createdAt: 'desc' }
+        });
+    }
+
+    public async getAuditLogArchiveStats(groupId: string) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const client = this.getClient() as any;
+        const [count, oldest] = await Promise.all([
+            client.auditLogEntry.count({ where: { groupId } }),
+            client.auditLogEntry.findFirst({ where: { groupId }, orderBy: { createdAt: 'asc' }, select: { createdAt: true } })
+        ]);
+        return { count: count as number, oldest: oldest?.createdAt as Date | undefined };
+    }
+
+    // ========================================
+    // EVIDENCE LOCKER
+    // ========================================
+
+    public async createEvidenceItem(data: {
+        id: string, groupId?: string, subjectType: string, subjectId: string, targetUserId?: string,
+        kind: string, label: string, fileName?: string, storedName?: string, sha256?: string, size?: number,
+        excerpt?: string, sessionId?: string, createdById?: string, createdByName?: string, createdAt: Date
+    }) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return (this.getClient() as any).evidenceItem.create({ data });
+    }
+
+    public async getEvidenceItems(filter: {
+        ids?: string[], subjectType?: string, subjectId?: string, targetUserId?: string, groupId?: string
+    }) {
+        const where: Record<string, unknown> = {};
+        if (filter.ids) where.id = { in: filter.ids };
+        if (filter.subjectType) where.subjectType = filter.subjectType;
+        if (filter.subjectId) where.subjectId = filter.subjectId;
+        if (filter.targetUserId) where.targetUserId = filter.targetUserId;
+        if (filter.groupId) where.groupId = filter.groupId;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return (this.getClient() as any).evidenceItem.findMany({ where, orderBy: { createdAt: 'desc' } });
+    }
+
+    public async deleteEvidenceItem(id: string) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return (this.getClient() as any).evidenceItem.delete({ where: { id } });
+    }
+
+    public async countEvidenceItemsBySha(sha256: string): Promise<number> {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return (this.getClient() as any).evidenceItem.count({ where: { sha256 } });
+    }
+
+    /**
+     * Log rows for one user in a session, the user's latest session when none is given.
+     * Some events only carry a display name, so names the user had in that session match too.
+     */
+    public async getUserSessionLogEntries(userId: string, sessionId?: string) {
+        const client = this.getClient();
+        const targetSessionId = sessionId || (await client.logEntry.findFirst({
+            where: { actorUserId: userId },
+            orderBy: { timestamp: 'desc' },
+            select: { sessionId: true }
+        }))?.sessionId;
+        if (!targetSessionId) return null;
+
+        const session = await client.session.findUnique({ where: { sessionId: targetSessionId } });
+        const named = await client.logEntry.findMany({
+            where: { sessionId: targetSessionId, actorUserId: userId },
+            select: { actorDisplayName: true },
+            distinct: ['actorDisplayName']
+        });
+        const names = named.map(n => n.actorDisplayName).filter((n): n is string => !!n);
+        const entries = await client.logEntry.findMany({
+            where: {
+                sessionId: targetSessionId,
+                OR: [{ actorUserId: userId }, ...(names.length ? [{ actorDisplayName: { in: names } }] : [])]
+            },
+            orderBy: { timestamp: 'asc' }
+        });
+        return { session, entries };
+    }
+
     public async clearAutoModLogs() {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         return (this.getClient() as any).autoModLog.deleteMany({});
@@ -326,6 +637,28 @@ class DatabaseService {
         }
     }
 
+    public async getScannedUsersForGroup(groupId: string, limit: number = 200) {
+        try {
+            const results = await this.getClient().$queryRaw`
+              SELECT id, displayName, rank, groupId, lastSeenAt
+              FROM ScannedUser
+              WHERE groupId = ${groupId}
+              ORDER BY lastSeenAt DESC
+              LIMIT ${limit}
+          ` as {
+                id: string;
+                displayName: string;
+                rank: string | null;
+                groupId: string | null;
+                lastSeenAt: string;
+            }[];
+            return results;
+        } catch (error) {
+            logger.error('Failed to get scanned users for group:', error);
+            return [];
+        }
+    }
+
     public async getRecentScannedUsers(limit: number = 50) {
         try {
             const results = await this.getClient().$queryRaw`
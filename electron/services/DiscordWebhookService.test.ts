@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('electron', () => ({ ipcMain: { handle: vi.fn() }, safeStorage: { isEncryptionAvailable: () => false } }));
+vi.mock('electron-store', () => ({ default: vi.fn() }));
+vi.mock('cross-fetch', () => ({ default: vi.fn() }));
+vi.mock('./WebhookQueueService', () => ({ webhookQueueService: { enqueue: vi.fn(), registerSender: vi.fn() }, classifyResponse: vi.fn() }));
+vi.mock('./ServiceEventBus', () => ({ serviceEventBus: { emit: vi.fn() } }));
+
+import { resolveWebhookRoutes, type WebhookRoute } from './DiscordWebhookService';
+
+const route = (overrides: Partial<WebhookRoute>): WebhookRoute => ({
+    id: 'r1',
+    name: 'Mod Log',
+    url: 'https://discord.com/api/webhooks/1/a',
+    enabled: true,
+    categories: ['BAN'],
+    minSeverity: 'INFO',
+    ...overrides
+});
+
+describe('resolveWebhookRoutes', () => {
+    it('sends to matching routes at or above their minimum severity', () => {
+        const routes = [route({ id: 'bans' }), route({ id: 'automod', categories: ['AUTOMOD', 'BAN'], minSeverity: 'ERROR' })];
+        expect(resolveWebhookRoutes(routes, 'BAN', 'ERROR').routes.map(r => r.id)).toEqual(['bans', 'automod']);
+        expect(resolveWebhookRoutes(routes, 'BAN', 'WARNING').routes.map(r => r.id)).toEqual(['bans']);
+    });
+
+    it('only falls back to the default webhook when no route claims the category', () => {
+        const routes = [route({ categories: ['MEMBERSHIP'], enabled: false })];
+        expect(resolveWebhookRoutes(routes, 'MEMBERSHIP', 'ERROR')).toEqual({ routes: [], useDefault: false });
+        expect(resolveWebhookRoutes(routes, 'KICK', 'WARNING')).toEqual({ routes: [], useDefault: true });
+    });
+
+    it('never sends join/leave summaries to the default webhook', () => {
+        expect(resolveWebhookRoutes([], 'JOIN_LEAVE', 'INFO')).toEqual({ routes: [], useDefault: false });
+    });
+});
@@ -2,31 +2,128 @@ import Store from 'electron-store';
 import { ipcMain, safeStorage } from 'electron';
 import log from 'electron-log';
 import fetch from 'cross-fetch'; // or use native fetch if node version > 18 (Electron 39 is node 20+)
+import crypto from 'crypto';
+import { serviceEventBus } from './ServiceEventBus';
+import { webhookQueueService, classifyResponse, QueuedWebhook, DeliveryResult } from './WebhookQueueService';
+import { applyEmbedTemplate, validateEmbedTemplate, SAMPLE_EVENTS, WebhookEmbedTemplate } from './WebhookEmbedTemplateService';
 
 const logger = log.scope('DiscordWebhookService');
 
+export type WebhookEventType = 'SUCCESS' | 'WARNING' | 'ERROR' | 'INFO';
+
+export type WebhookEventCategory =
+    | 'BAN'
+    | 'KICK'
+    | 'AUTOMOD'
+    | 'INSTANCE_GUARD'
+    | 'WATCHLIST'
+    | 'MEMBERSHIP' // Join requests and role changes
+    | 'JOIN_LEAVE' // Who joined and left a group instance during a visit
+    | 'AUDIT'
+    | 'GENERAL';
+
+export const WEBHOOK_EVENT_CATEGORIES: WebhookEventCategory[] = ['BAN', 'KICK', 'AUTOMOD', 'INSTANCE_GUARD', 'WATCHLIST', 'MEMBERSHIP', 'JOIN_LEAVE', 'AUDIT', 'GENERAL'];
+
+// Too chatty for the default webhook, only sent to routes that ask for them
+const ROUTE_ONLY_CATEGORIES: WebhookEventCategory[] = ['JOIN_LEAVE'];
+
+// Lowest to highest, a route's minimum severity drops everything before it
+const SEVERITY_ORDER: WebhookEventType[] = ['INFO', 'SUCCESS', 'WARNING', 'ERROR'];
+
+/**
+ * Sends a set of event categories to their own Discord channel.
+ * Categories listed on any route no longer go to the group's default webhook.
+ */
+export interface WebhookRoute {
+    id: string;
+    name: string;
+    url: string; // Encrypted in the store, plain when handed to the renderer
+    enabled: boolean;
+    categories: WebhookEventCategory[];
+    minSeverity: WebhookEventType;
+}
+
 interface WebhookConfigStore {
     webhooks: { [groupId: string]: string };
+    routes: { [groupId: string]: WebhookRoute[] };
+    templates: { [groupId: string]: { [category: string]: WebhookEmbedTemplate } };
 }
 
+const DELIVERY_TIMEOUT = 15 * 1000;
+
 const store = new Store<WebhookConfigStore>({
     name: 'discord-webhooks',
     defaults: {
-        webhooks: {}
+        webhooks: {},
+        routes: {},
+        templates: {}
     }
 });
 
+/**
+ * Picks the routes an event goes to, and whether it falls through to the default webhook
+ * because no route claims its category. Route-only categories never fall through.
+ */
+export const resolveWebhookRoutes = (
+    routes: WebhookRoute[],
+    category: WebhookEventCategory,
+    type: WebhookEventType
+): { routes: WebhookRoute[]; useDefault: boolean } => {
+    const claiming = routes.filter(r => r.categories.includes(category));
+    return {
+        routes: claiming.filter(r => r.enabled && SEVERITY_ORDER.indexOf(type) >= SEVERITY_ORDER.indexOf(r.minSeverity)),
+        useDefault: claiming.length === 0 && !ROUTE_ONLY_CATEGORIES.includes(category)
+    };
+};
+
+/**
+ * Webhook URLs and signing secrets are stored encrypted with the OS keychain when available.
+ */
+export const encryptWebhookSecret = (value: string): string => {
+    if (safeStorage.isEncryptionAvailable()) {
+        return safeStorage.encryptString(value).toString('base64');
+    }
+    // Fallback to base64 (less secure, but prevents plain text storage)
+    logger.warn('safeStorage not available, using fallback encryption for webhook');
+    return Buffer.from(value).toString('base64');
+};
+
+export const decryptWebhookSecret = (encrypted: string): string => {
+    if (safeStorage.isEncryptionAvailable()) {
+        try {
+            return safeStorage.decryptString(Buffer.from(encrypted, 'base64'));
+        } catch {
+            // If decryption fails, try base64 fallback
+            return Buffer.from(encrypted, 'base64').toString('utf-8');
+        }
+    }
+    return Buffer.from(encrypted, 'base64').toString('utf-8');
+};
+
+// Actor for actions Group Guard takes on its own (AutoMod, Instance Guard, temp bans, strikes)
+export const GROUP_GUARD_ACTOR = { id: 'system', displayName: 'Group Guard' };
+
 export interface WebhookEventData {
     title: string;
     description?: string;
-    type: 'SUCCESS' | 'WARNING' | 'ERROR' | 'INFO';
+    type: WebhookEventType;
+    category?: WebhookEventCategory; // Defaults to GENERAL
     fields?: { name: string; value: string; inline?: boolean }[];
     targetUser?: { displayName: string; id: string; avatarUrl?: string };
     actor?: { displayName: string; id: string; avatarUrl?: string };
+    // Context for embed templates, not shown in the default layout
+    rule?: { id?: string; name: string };
+    world?: { id: string; name: string };
+    instance?: { id: string; name?: string };
+    reason?: string;
     footer?: string;
+    actionRequired?: boolean; // A moderator has to step in, never held back for a digest
 }
 
-interface DiscordEmbed {
+// Returns false to keep an event out of Discord, e.g. while a digest replaces per-event embeds
+export type WebhookEventFilter = (groupId: string, data: WebhookEventData) => boolean;
+
+export interface DiscordEmbed {
     title: string;
     description?: string;
     url?: string;
@@ -42,25 +139,20 @@ interface DiscordEmbed {
 }
 
 export class DiscordWebhookService {
+    private eventFilters: WebhookEventFilter[] = [];
 
     constructor() {}
 
+    public registerEventFilter(filter: WebhookEventFilter) {
+        this.eventFilters.push(filter);
+    }
+
     public getWebhook(groupId: string): string | undefined {
         const encryptedUrl = store.get(`webhooks.${groupId}`);
         if (!encryptedUrl) return undefined;
         
         try {
-            if (safeStorage.isEncryptionAvailable()) {
-                try {
-                    const encrypted = Buffer.from(encryptedUrl as string, 'base64');
-                    return safeStorage.decryptString(encrypted);
-                } catch {
-                     // If decryption fails, try base64 fallback
-                     return Buffer.from(encryptedUrl as string, 'base64').toString('utf-8');
-                }
-            } else {
-                return Buffer.from(encryptedUrl as string, 'base64').toString('utf-8');
-            }
+            return decryptWebhookSecret(encryptedUrl as string);
         } catch (e) {
             logger.error(`Failed to decrypt webhook for group ${groupId}`, e);
             return undefined;
@@ -72,22 +164,75 @@ export class DiscordWebhookService {
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             store.delete(`webhooks.${groupId}` as any);
         } else {
-             let encryptedUrl: string;
-             // Use safeStorage if available (uses OS keychain/credential manager)
-             if (safeStorage.isEncryptionAvailable()) {
-                 const encrypted = safeStorage.encryptString(url.trim());
-                 encryptedUrl = encrypted.toString('base64');
-             } else {
-                 // Fallback to base64 (less secure, but prevents plain text storage)
-                 encryptedUrl = Buffer.from(url.trim()).toString('base64');
-                 logger.warn('safeStorage not available, using fallback encryption for webhook');
-             }
-            store.set(`webhooks.${groupId}`, encryptedUrl);
+            store.set(`webhooks.${groupId}`, encryptWebhookSecret(url.trim()));
+        }
+    }
+
+    public getRoutes(groupId: string): WebhookRoute[] {
+        const routes = (store.get(`routes.${groupId}`) || []) as WebhookRoute[];
+        return routes.map(route => {
+            try {
+                return { ...route, url: decryptWebhookSecret(route.url) };
+            } catch (e) {
+                logger.error(`Failed to decrypt webhook route ${route.name} for group ${groupId}`, e);
+                return { ...route, url: '' };
+            }
+        });
+    }
+
+    public setRoutes(groupId: string, routes: WebhookRoute[]): WebhookRoute[] {
+        routes.forEach((route, i) => {
+            if (!route.name?.trim()) throw new Error(`Route ${i + 1} needs a name`);
+            if (!/^https:\/\//i.test(route.url?.trim() || '')) throw new Error(`Route "${route.name}" needs an https:// webhook URL`);
+            if (!route.categories?.length) throw new Error(`Route "${route.name}" needs at least one event type`);
+            if (!route.categories.every(c => WEBHOOK_EVENT_CATEGORIES.includes(c))) throw new Error(`Route "${route.name}" has an unknown event type`);
+            if (!SEVERITY_ORDER.includes(route.minSeverity)) throw new Error(`Route "${route.name}" has an unknown minimum severity`);
+        });
+
+        store.set(`routes.${groupId}`, routes.map(route => ({
+            id: route.id || crypto.randomUUID(),
+            name: route.name.trim(),
+            url: encryptWebhookSecret(route.url.trim()),
+            enabled: route.enabled !== false,
+            categories: route.categories,
+            minSeverity: route.minSeverity
+        })));
+        return this.getRoutes(groupId);
+    }
+
+    public getEmbedTemplates(groupId: string): { [category: string]: WebhookEmbedTemplate } {
+        return (store.get(`templates.${groupId}`) || {}) as { [category: string]: WebhookEmbedTemplate };
+    }
+
+    /**
+     * Saves the embed template for an event type, or removes it when template is null.
+     */
+    public setEmbedTemplate(groupId: string, category: WebhookEventCategory, template: WebhookEmbedTemplate | null) {
+        if (!WEBHOOK_EVENT_CATEGORIES.includes(category)) throw new Error(`Unknown event type ${category}`);
+        const templates = this.getEmbedTemplates(groupId);
+        if (template) {
+            const error = validateEmbedTemplate(template);
+            if (error) throw new Error(`Template is invalid: ${error}`);
+            templates[category] = template;
+        } else {
+            delete templates[category];
         }
+        store.set(`templates.${groupId}`, templates);
+        return templates;
+    }
+
+    /**
+     * Renders a template, saved or not, against a sample event of its type.
+     */
+    public previewEmbedTemplate(groupId: string, category: WebhookEventCategory, template: WebhookEmbedTemplate): DiscordEmbed {
+        const error = validateEmbedTemplate(template);
+        if (error) throw new Error(`Template is invalid: ${error}`);
+        return this.buildEmbed(groupId, SAMPLE_EVENTS[category] || SAMPLE_EVENTS.GENERAL, { ...template, enabled: true });
     }
 
+    // Test and simulation events only go to Discord, never onto the event bus
     public async sendTestMessage(groupId: string) {
-        await this.sendEvent(groupId, {
+        await this.sendToDiscord(groupId, {
             title: 'Webhook Test',
             description: 'Your Group Guard webhook is configured correctly!',
             type: 'SUCCESS',
@@ -100,7 +245,7 @@ export class DiscordWebhookService {
     }
 
     public async sendMockBan(groupId: string) {
-        await this.sendEvent(groupId, {
+        await this.sendToDiscord(groupId, {
             title: '🚫 User Banned (Simulation)',
             description: 'This is a **simulation** of a ban event. No actual user was banned.',
             type: 'ERROR',
@@ -118,15 +263,31 @@ export class DiscordWebhookService {
         });
     }
 
-    public async sendEvent(groupId: string, data: WebhookEventData) {
-        const url = this.getWebhook(groupId);
-        if (!url) {
-            logger.warn(`No webhook URL configured for group ${groupId}, skipping event: ${data.title}`);
-            return;
+    /**
+     * Destinations for an event: its routes, or the default webhook when no route claims the category.
+     */
+    private getEventDestinations(groupId: string, data: WebhookEventData): { routeId?: string; label: string; url: string }[] {
+        const resolved = resolveWebhookRoutes(this.getRoutes(groupId), data.category || 'GENERAL', data.type);
+        const destinations: { routeId?: string; label: string; url: string }[] = resolved.routes
+            .filter(r => r.url)
+            .map(r => ({ routeId: r.id, label: r.name, url: r.url }));
+        if (resolved.useDefault) {
+            const defaultUrl = this.getWebhook(groupId);
+            if (defaultUrl) destinations.push({ label: 'Default webhook', url: defaultUrl });
         }
+        // Two routes pointing at the same channel should not post twice
+        return destinations.filter((d, i) => destinations.findIndex(other => other.url === d.url) === i);
+    }
 
-        logger.info(`Sending webhook event for group ${groupId}:`, JSON.stringify(data, null, 2));
+    private resolveUrl(groupId: string, routeId?: string): string | undefined {
+        if (!routeId) return this.getWebhook(groupId);
+        return this.getRoutes(groupId).find(r => r.id === routeId)?.url || undefined;
+    }
 
+    /**
+     * The embed for an event: the default layout, with the group's template for the event type applied over it.
+     */
+    public buildEmbed(groupId: string, data: WebhookEventData, template = this.getEmbedTemplates(groupId)[data.category || 'GENERAL']): DiscordEmbed {
         // Map type to color
         const colors: Record<string, number> = {
             'SUCCESS': 0x57F287, // Green
@@ -162,15 +323,105 @@ export class DiscordWebhookService {
             };
         }
 
+        if (!template?.enabled) return embed;
+        try {
+            return applyEmbedTemplate(embed, template, data);
+        } catch (e) {
+            logger.error(`Embed template for ${data.category || 'GENERAL'} failed in group ${groupId}, using the default layout`, e);
+            return embed;
+        }
+    }
+
+    public async sendEvent(groupId: string, data: WebhookEventData) {
+        // Other outputs (generic HTTP webhooks) pick the event up from the bus, whether or not Discord is set up
+        serviceEventBus.emit('webhook-event', { groupId, event: data, timestamp: new Date().toISOString() });
+        await this.sendToDiscord(groupId, data);
+    }
+
+    private async sendToDiscord(groupId: string, data: WebhookEventData) {
+        if (this.eventFilters.some(filter => !filter(groupId, data))) {
+            logger.info(`Webhook event filtered for group ${groupId}: ${data.title}`);
+            return;
+        }
+
+        const destinations = this.getEventDestinations(groupId, data);
+        if (destinations.length === 0) {
+            logger.warn(`No webhook route for group ${groupId} (${data.category || 'GENERAL'}/${data.type}), skipping event: ${data.title}`);
+            return;
+        }
+
+        logger.info(`Sending webhook event for group ${groupId}:`, JSON.stringify(data, null, 2));
+
+        const embed = this.buildEmbed(groupId, data);
+
         logger.info('Constructed Embed:', JSON.stringify(embed, null, 2));
 
+        // Delivered by the queue, which retries and keeps failures as dead letters
+        for (const destination of destinations) {
+            webhookQueueService.enqueue({
+                kind: 'discord',
+                groupId,
+                routeId: destination.routeId,
+                destinationLabel: destination.label,
+                title: data.title,
+                body: { embeds: [embed] }
+            });
+        }
+    }
+
+    /**
+     * Queues a prebuilt embed for a route, or the default webhook when no route is given.
+     */
+    public queueEmbed(groupId: string, embed: DiscordEmbed, routeId?: string) {
+        const route = routeId ? this.getRoutes(groupId).find(r => r.id === routeId) : undefined;
+        if (routeId ? !route?.url : !this.getWebhook(groupId)) throw new Error('Webhook destination is not configured');
+        return webhookQueueService.enqueue({
+            kind: 'discord',
+            groupId,
+            routeId,
+            destinationLabel: route?.name || 'Default webhook',
+            title: embed.title,
+            body: { embeds: [embed] }
+        });
+    }
+
+    /**
+     * Sender for queued Discord webhooks. The URL is looked up again so a route fixed after a failure is used on retry.
+     */
+    public async deliver(item: QueuedWebhook): Promise<DeliveryResult> {
+        const url = this.resolveUrl(item.groupId, item.routeId);
+        if (!url) return { ok: false, error: `${item.destinationLabel} is no longer configured`, permanent: true };
+
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT);
         try {
-            await this.postToDiscord(url, { embeds: [embed] });
-        } catch (e) {
-            logger.error(`Failed to send event to webhook for group ${groupId}`, e);
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(item.body),
+                signal: controller.signal
+            });
+            return classifyResponse(response.status, response.headers.get('retry-after'), response.ok ? undefined : await response.text());
+        } finally {
+            clearTimeout(timeout);
         }
     }
 
+    public async sendRouteTest(groupId: string, routeId: string) {
+        const route = this.getRoutes(groupId).find(r => r.id === routeId);
+        if (!route?.url) throw new Error('Webhook route not found');
+        await this.postToDiscord(route.url, {
+            embeds: [{
+                title: 'Webhook Route Test',
+                description: `Route **${route.name}** is configured correctly.`,
+                color: 0x57F287,
+                fields: [{ name: 'Event Types', value: route.categories.join(', '), inline: false }],
+                footer: { text: 'Group Guard System' },
+                timestamp: new Date().toISOString()
+            }]
+        });
+    }
+
     private async postToDiscord(url: string, body: Record<string, unknown>) {
         try {
             const response = await fetch(url, {
@@ -193,6 +444,8 @@ export class DiscordWebhookService {
 export const discordWebhookService = new DiscordWebhookService();
 
 export function setupDiscordWebhookHandlers() {
+    webhookQueueService.registerSender('discord', item => discordWebhookService.deliver(item));
+
     ipcMain.handle('webhook:get-url', (_e, { groupId }: { groupId: string }) => {
         return discordWebhookService.getWebhook(groupId) || '';
     });
@@ -202,6 +455,31 @@ export function setupDiscordWebhookHandlers() {
         return true;
     });
 
+    ipcMain.handle('webhook:get-routes', (_e, { groupId }: { groupId: string }) => {
+        return discordWebhookService.getRoutes(groupId);
+    });
+
+    ipcMain.handle('webhook:set-routes', (_e, { groupId, routes }: { groupId: string, routes: WebhookRoute[] }) => {
+        return discordWebhookService.setRoutes(groupId, routes);
+    });
+
+    ipcMain.handle('webhook:get-templates', (_e, { groupId }: { groupId: string }) => {
+        return discordWebhookService.getEmbedTemplates(groupId);
+    });
+
+    ipcMain.handle('webhook:set-template', (_e, { groupId, category, template }: { groupId: string, category: WebhookEventCategory, template: WebhookEmbedTemplate | null }) => {
+        return discordWebhookService.setEmbedTemplate(groupId, category, template);
+    });
+
+    ipcMain.handle('webhook:preview-template', (_e, { groupId, category, template }: { groupId: string, category: WebhookEventCategory, template: WebhookEmbedTemplate }) => {
+        return discordWebhookService.previewEmbedTemplate(groupId, category, template);
+    });
+
+    ipcMain.handle('webhook:test-route', async (_e, { groupId, routeId }: { groupId: string, routeId: string }) => {
+        await discordWebhookService.sendRouteTest(groupId, routeId);
+        return true;
+    });
+
     ipcMain.handle('webhook:test', async (_e, { groupId }: { groupId: string }) => {
         await discordWebhookService.sendTestMessage(groupId);
         return true;
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('electron', () => ({ app: {}, BrowserWindow: {}, dialog: {}, shell: {}, ipcMain: { handle: vi.fn() } }));
+vi.mock('./DatabaseService', () => ({ databaseService: {} }));
+vi.mock('./StorageService', () => ({ storageService: {} }));
+vi.mock('./GroupAuthorizationService', () => ({ groupAuthorizationService: {} }));
+vi.mock('./WatchlistService', () => ({ watchlistService: {} }));
+vi.mock('./AuthService', () => ({ getCurrentUserId: () => null, getCurrentUserDisplayName: () => null }));
+
+import { toEvidenceLogLine, formatEvidenceForReport, isEvidenceMediaFile } from './EvidenceService';
+
+describe('toEvidenceLogLine', () => {
+    it('describes joins and keeps useful details', () => {
+        expect(toEvidenceLogLine({ timestamp: '2024-01-01T10:00:00.000Z', type: 'PLAYER_JOIN', actorDisplayName: 'Mallory', details: '{}' }))
+            .toEqual({ timestamp: '2024-01-01T10:00:00.000Z', type: 'PLAYER_JOIN', text: 'Mallory joined the instance' });
+        expect(toEvidenceLogLine({ timestamp: '2024-01-01T10:00:00.000Z', type: 'AVATAR_SWITCH', actorDisplayName: 'Mallory', details: '{"avatarName":"Crasher"}' }).text)
+            .toBe('Mallory avatar switch: Crasher');
+        expect(toEvidenceLogLine({ timestamp: '2024-01-01T10:00:00.000Z', type: 'PLAYER_LEFT', details: 'not json' }).text)
+            .toBe('Unknown left the instance');
+    });
+});
+
+describe('formatEvidenceForReport', () => {
+    it('lists files with their hash and log excerpts line by line', () => {
+        expect(formatEvidenceForReport({ kind: 'FILE', label: 'Crash screenshot', fileName: 'VRChat_1.png', sha256: 'abc123', createdAt: '' }))
+            .toBe('Crash screenshot (VRChat_1.png, SHA-256 abc123)');
+
+        const excerpt = formatEvidenceForReport({
+            kind: 'LOG_EXCERPT',
+            label: 'Log excerpt',
+            createdAt: '',
+            excerpt: [{ timestamp: '2024-01-01T10:00:00.000Z', type: 'PLAYER_JOIN', text: 'Mallory joined the instance' }]
+        });
+        expect(excerpt.split('\n')).toHaveLength(2);
+        expect(excerpt).toMatch(/^Log excerpt \(1 log line\)\n {4}\[.+\] Mallory joined the instance$/);
+    });
+});
+
+describe('isEvidenceMediaFile', () => {
+    it('accepts screenshots and clips only', () => {
+        expect(isEvidenceMediaFile('C:\\Pictures\\VRChat_1.PNG')).toBe(true);
+        expect(isEvidenceMediaFile('clip.mp4')).toBe(true);
+        expect(isEvidenceMediaFile('payload.exe')).toBe(false);
+        expect(isEvidenceMediaFile('shortcut.lnk')).toBe(false);
+        expect(isEvidenceMediaFile('no-extension')).toBe(false);
+    });
+});
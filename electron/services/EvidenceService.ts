@@ -0,0 +1,328 @@
+import { app, BrowserWindow, dialog, ipcMain, shell } from 'electron';
+import log from 'electron-log';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { databaseService } from './DatabaseService';
+import { storageService } from './StorageService';
+import { groupAuthorizationService } from './GroupAuthorizationService';
+import { watchlistService } from './WatchlistService';
+import { getCurrentUserId, getCurrentUserDisplayName } from './AuthService';
+
+const logger = log.scope('EvidenceService');
+
+export type EvidenceSubjectType = 'BAN' | 'KICK' | 'FLAG' | 'WATCHLIST';
+export type EvidenceKind = 'FILE' | 'LOG_EXCERPT';
+
+const SUBJECT_TYPES: EvidenceSubjectType[] = ['BAN', 'KICK', 'FLAG', 'WATCHLIST'];
+
+/**
+ * What a piece of evidence backs up. Bans, kicks and flags are keyed by the target user ID,
+ * watchlist entries by the entity ID.
+ */
+export interface EvidenceSubject {
+  type: EvidenceSubjectType;
+  id: string;
+  targetUserId?: string;
+  groupId?: string;
+}
+
+export interface EvidenceLogLine {
+  timestamp: string;
+  type: string;
+  text: string;
+}
+
+export interface EvidenceItem {
+  id: string;
+  groupId?: string;
+  subjectType: EvidenceSubjectType;
+  subjectId: string;
+  targetUserId?: string;
+  kind: EvidenceKind;
+  label: string;
+  fileName?: string;
+  storedName?: string;
+  sha256?: string;
+  size?: number;
+  excerpt?: EvidenceLogLine[];
+  sessionId?: string;
+  createdById?: string;
+  createdByName?: string;
+  createdAt: string;
+}
+
+export interface EvidenceFilter {
+  ids?: string[];
+  subject?: Pick<EvidenceSubject, 'type' | 'id'>;
+  targetUserId?: string;
+  groupId?: string;
+}
+
+interface EvidenceRow extends Omit<EvidenceItem, 'excerpt' | 'createdAt' | 'subjectType' | 'kind'> {
+  subjectType: string;
+  kind: string;
+  excerpt?: string | null;
+  createdAt: Date;
+}
+
+// Only media is accepted, opening an attachment hands it to the OS default program
+const EVIDENCE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'gif', 'mp4', 'webm', 'mkv', 'mov'];
+
+const EVIDENCE_FILTERS = [
+  { name: 'Screenshots and clips', extensions: EVIDENCE_EXTENSIONS }
+];
+
+export const isEvidenceMediaFile = (fileName: string): boolean =>
+  EVIDENCE_EXTENSIONS.includes(path.extname(fileName).slice(1).toLowerCase());
+
+const describeLogType = (type: string) => {
+  switch (type) {
+    case 'PLAYER_JOIN': return 'joined the instance';
+    case 'PLAYER_LEFT': return 'left the instance';
+    default: return type.toLowerCase().replace(/_/g, ' ');
+  }
+};
+
+/**
+ * Turns a stored LogEntry row into a readable excerpt line.
+ */
+export const toEvidenceLogLine = (entry: { timestamp: Date | string; type: string; actorDisplayName?: string | null; details?: string | null }): EvidenceLogLine => {
+  let extra = '';
+  try {
+    const details = entry.details ? JSON.parse(entry.details) : {};
+    extra = details.avatarName || details.reason || details.message || '';
+  } catch {
+    // Details are free-form, a line without them is still useful
+  }
+  const actor = entry.actorDisplayName || 'Unknown';
+  return {
+    timestamp: new Date(entry.timestamp).toISOString(),
+    type: entry.type,
+    text: `${actor} ${describeLogType(entry.type)}${extra ? `: ${extra}` : ''}`
+  };
+};
+
+/**
+ * Lines a report lists for a piece of evidence. Files include their hash so the copy
+ * handed to VRChat or another team can be checked against ours.
+ */
+export const formatEvidenceForReport = (item: Pick<EvidenceItem, 'kind' | 'label' | 'fileName' | 'sha256' | 'excerpt' | 'createdAt'>): string => {
+  if (item.kind === 'FILE') {
+    return `${item.label} (${item.fileName || 'file'}, SHA-256 ${item.sha256 || 'unknown'})`;
+  }
+  const lines = (item.excerpt || []).map(l => `    [${new Date(l.timestamp).toLocaleTimeString()}] ${l.text}`);
+  return [`${item.label} (${lines.length} log ${lines.length === 1 ? 'line' : 'lines'})`, ...lines].join('\n');
+};
+
+const toItem = (row: EvidenceRow): EvidenceItem => ({
+  ...row,
+  subjectType: row.subjectType as EvidenceSubjectType,
+  kind: row.kind as EvidenceKind,
+  groupId: row.groupId || undefined,
+  targetUserId: row.targetUserId || undefined,
+  fileName: row.fileName || undefined,
+  storedName: row.storedName || undefined,
+  sha256: row.sha256 || undefined,
+  size: row.size ?? undefined,
+  sessionId: row.sessionId || undefined,
+  createdById: row.createdById || undefined,
+  createdByName: row.createdByName || undefined,
+  excerpt: row.excerpt ? JSON.parse(row.excerpt) : undefined,
+  createdAt: row.createdAt.toISOString()
+});
+
+const hashFile = (filePath: string): Promise<string> => new Promise((resolve, reject) => {
+  const hash = crypto.createHash('sha256');
+  fs.createReadStream(filePath)
+    .on('data', chunk => hash.update(chunk))
+    .on('end', () => resolve(hash.digest('hex')))
+    .on('error', reject);
+});
+
+class EvidenceService {
+  public initialize() {
+    logger.info('Initializing EvidenceService');
+    this.setupHandlers();
+  }
+
+  public getEvidenceDir(): string {
+    return path.join(storageService.getDataDir(), 'evidence');
+  }
+
+  private getVRChatPicturesDir(): string {
+    const dir = path.join(app.getPath('pictures'), 'VRChat');
+    return fs.existsSync(dir) ? dir : app.getPath('pictures');
+  }
+
+  private validateSubject(subject: EvidenceSubject) {
+    if (!subject || !SUBJECT_TYPES.includes(subject.type)) throw new Error(`Unknown evidence subject: ${subject?.type}`);
+    if (!subject.id?.trim()) throw new Error('Evidence subject ID is required');
+    if (subject.groupId) groupAuthorizationService.validateAccess(subject.groupId, 'evidence:attach');
+  }
+
+  private async createItem(subject: EvidenceSubject, data: Partial<EvidenceRow> & { kind: EvidenceKind; label: string }): Promise<EvidenceItem> {
+    const row = await databaseService.createEvidenceItem({
+      id: crypto.randomUUID(),
+      groupId: subject.groupId,
+      subjectType: subject.type,
+      subjectId: subject.id,
+      targetUserId: subject.targetUserId,
+      createdById: getCurrentUserId() || undefined,
+      createdByName: getCurrentUserDisplayName() || undefined,
+      createdAt: new Date(),
+      ...data,
+      excerpt: data.excerpt || undefined
+    });
+    const item = toItem(row);
+
+    // Watchlist entries keep their evidence on the shared timeline too
+    if (subject.type === 'WATCHLIST') {
+      try {
+        watchlistService.linkEvidence(subject.id, { kind: 'LOCKER', refId: item.id, label: item.label });
+      } catch (err) {
+        logger.warn('Failed to add evidence to watchlist timeline', err);
+      }
+    }
+    return item;
+  }
+
+  /**
+   * Copies files into the evidence folder, named by content hash so the same screenshot
+   * attached twice is stored once.
+   */
+  public async attachFiles(subject: EvidenceSubject, filePaths: string[], label?: string): Promise<EvidenceItem[]> {
+    this.validateSubject(subject);
+    const rejected = filePaths.filter(f => !isEvidenceMediaFile(f));
+    if (rejected.length > 0) throw new Error(`Only screenshots and clips can be attached: ${rejected.map(f => path.basename(f)).join(', ')}`);
+    const dir = this.getEvidenceDir();
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    const items: EvidenceItem[] = [];
+    for (const filePath of filePaths) {
+      const sha256 = await hashFile(filePath);
+      const storedName = `${sha256}${path.extname(filePath).toLowerCase()}`;
+      const storedPath = path.join(dir, storedName);
+      if (!fs.existsSync(storedPath)) await fs.promises.copyFile(filePath, storedPath);
+      const { size } = await fs.promises.stat(storedPath);
+
+      const fileName = path.basename(filePath);
+      items.push(await this.createItem(subject, {
+        kind: 'FILE',
+        label: label?.trim() || fileName,
+        fileName,
+        storedName,
+        sha256,
+        size
+      }));
+    }
+    logger.info(`Attached ${items.length} file(s) to ${subject.type} ${subject.id}`);
+    return items;
+  }
+
+  public async pickAndAttachFiles(window: BrowserWindow | null, subject: EvidenceSubject, label?: string): Promise<EvidenceItem[]> {
+    const options: Electron.OpenDialogOptions = {
+      title: 'Attach Evidence',
+      defaultPath: this.getVRChatPicturesDir(),
+      properties: ['openFile', 'multiSelections'],
+      filters: EVIDENCE_FILTERS
+    };
+    const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+    if (result.canceled || result.filePaths.length === 0) return [];
+    return this.attachFiles(subject, result.filePaths, label);
+  }
+
+  /**
+   * Captures the user's log rows from a session, their most recent one when no session is given.
+   */
+  public async captureLogExcerpt(subject: EvidenceSubject, userId: string, sessionId?: string, label?: string): Promise<EvidenceItem> {
+    this.validateSubject(subject);
+    const result = await databaseService.getUserSessionLogEntries(userId, sessionId);
+    if (!result || result.entries.length === 0) throw new Error('No log entries found for this user');
+
+    const { session, entries } = result;
+    const where = session?.worldName || session?.worldId || 'unknown world';
+    const when = session ? new Date(session.startTime).toLocaleString() : '';
+    return this.createItem(subject, {
+      kind: 'LOG_EXCERPT',
+      label: label?.trim() || `Log excerpt: ${where}${when ? ` (${when})` : ''}`,
+      excerpt: JSON.stringify(entries.map(toEvidenceLogLine)),
+      sessionId: entries[0].sessionId
+    });
+  }
+
+  public async getEvidence(filter: EvidenceFilter): Promise<EvidenceItem[]> {
+    const rows: EvidenceRow[] = await databaseService.getEvidenceItems({
+      ids: filter.ids,
+      subjectType: filter.subject?.type,
+      subjectId: filter.subject?.id,
+      targetUserId: filter.targetUserId,
+      groupId: filter.groupId
+    });
+    return rows.map(toItem);
+  }
+
+  public async deleteEvidence(id: string): Promise<boolean> {
+    const [item] = await this.getEvidence({ ids: [id] });
+    if (!item) return false;
+    if (item.groupId) groupAuthorizationService.validateAccess(item.groupId, 'evidence:delete');
+    await databaseService.deleteEvidenceItem(id);
+
+    // Other items may point at the same file
+    if (item.sha256 && item.storedName && await databaseService.countEvidenceItemsBySha(item.sha256) === 0) {
+      await fs.promises.rm(path.join(this.getEvidenceDir(), item.storedName), { force: true });
+    }
+    return true;
+  }
+
+  public async openEvidence(id: string): Promise<boolean> {
+    const [item] = await this.getEvidence({ ids: [id] });
+    if (!item?.storedName) return false;
+    if (item.groupId) groupAuthorizationService.validateAccess(item.groupId, 'evidence:open');
+    const filePath = path.join(this.getEvidenceDir(), item.storedName);
+    if (!fs.existsSync(filePath)) throw new Error('Evidence file is missing from the data directory');
+
+    // Attachments from before the media-only rule are shown, never run
+    if (!isEvidenceMediaFile(item.storedName)) {
+      shell.showItemInFolder(filePath);
+      return true;
+    }
+    const error = await shell.openPath(filePath);
+    if (error) throw new Error(error);
+    return true;
+  }
+
+  /**
+   * Evidence the renderer may see: the requested group must be allowed, and items of
+   * other groups are dropped from group-less queries.
+   */
+  public async listEvidence(filter: EvidenceFilter): Promise<EvidenceItem[]> {
+    if (filter.groupId) groupAuthorizationService.validateAccess(filter.groupId, 'evidence:list');
+    const items = await this.getEvidence(filter);
+    return items.filter(i => !i.groupId || groupAuthorizationService.isGroupAllowed(i.groupId));
+  }
+
+  /**
+   * Report lines for the given evidence IDs, in the order they were picked.
+   */
+  public async getReportLines(ids: string[]): Promise<string[]> {
+    if (ids.length === 0) return [];
+    const items = await this.getEvidence({ ids });
+    const byId = new Map(items.map(i => [i.id, i]));
+    return ids.map(id => byId.get(id)).filter((i): i is EvidenceItem => !!i).map(formatEvidenceForReport);
+  }
+
+  private setupHandlers() {
+    ipcMain.handle('evidence:list', (_, filter) => this.listEvidence(filter || {}));
+    ipcMain.handle('evidence:pick-files', (event, { subject, label }: { subject: EvidenceSubject; label?: string }) =>
+      this.pickAndAttachFiles(BrowserWindow.fromWebContents(event.sender), subject, label)
+    );
+    ipcMain.handle('evidence:capture-log', (_, { subject, userId, sessionId, label }: { subject: EvidenceSubject; userId: string; sessionId?: string; label?: string }) =>
+      this.captureLogExcerpt(subject, userId, sessionId, label)
+    );
+    ipcMain.handle('evidence:delete', (_, id: string) => this.deleteEvidence(id));
+    ipcMain.handle('evidence:open', (_, id: string) => this.openEvidence(id));
+  }
+}
+
+export const evidenceService = new EvidenceService();
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import crypto from 'crypto';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('electron', () => ({ ipcMain: { handle: vi.fn() } }));
+vi.mock('electron-store', () => ({ default: vi.fn() }));
+vi.mock('cross-fetch', () => ({ default: vi.fn() }));
+vi.mock('./ServiceEventBus', () => ({ serviceEventBus: { on: vi.fn() } }));
+vi.mock('./WebhookQueueService', () => ({ webhookQueueService: { enqueue: vi.fn(), registerSender: vi.fn() }, classifyResponse: vi.fn() }));
+vi.mock('./DiscordWebhookService', () => ({
+    encryptWebhookSecret: (value: string) => value,
+    decryptWebhookSecret: (value: string) => value,
+    WEBHOOK_EVENT_CATEGORIES: ['BAN', 'KICK', 'AUTOMOD', 'INSTANCE_GUARD', 'WATCHLIST', 'MEMBERSHIP', 'JOIN_LEAVE', 'AUDIT', 'GENERAL']
+}));
+
+import { buildModerationEventPayload, signPayload, WEBHOOK_SCHEMA, WEBHOOK_SCHEMA_VERSION } from './GenericWebhookService';
+
+describe('buildModerationEventPayload', () => {
+    it('maps an event onto the versioned schema', () => {
+        const payload = buildModerationEventPayload('grp_1', {
+            title: 'User Banned',
+            description: '**Someone** was banned',
+            type: 'WARNING',
+            category: 'BAN',
+            targetUser: { id: 'usr_1', displayName: 'Someone' },
+            actor: { id: 'system', displayName: 'Group Guard', avatarUrl: 'https://example.com/a.png' },
+            rule: { name: 'Strike Ladder' },
+            world: { id: 'wrld_1', name: 'Lobby' },
+            instance: { id: '1~group' },
+            reason: 'Spam',
+            fields: [{ name: 'Reason', value: '`Spam`' }]
+        }, '2026-01-01T00:00:00.000Z', 'evt_1');
+
+        expect(payload).toEqual({
+            schema: WEBHOOK_SCHEMA,
+            version: WEBHOOK_SCHEMA_VERSION,
+            id: 'evt_1',
+            type: 'ban',
+            severity: 'warning',
+            occurredAt: '2026-01-01T00:00:00.000Z',
+            groupId: 'grp_1',
+            title: 'User Banned',
+            summary: 'Someone was banned',
+            target: { id: 'usr_1', displayName: 'Someone' },
+            actor: { id: 'system', displayName: 'Group Guard' },
+            rule: { id: null, name: 'Strike Ladder' },
+            world: { id: 'wrld_1', name: 'Lobby' },
+            instance: { id: '1~group', name: null },
+            reason: 'Spam',
+            details: { Reason: 'Spam' }
+        });
+    });
+
+    it('falls back to the general type and null context', () => {
+        const payload = buildModerationEventPayload('grp_1', { title: 'Hi', description: '', type: 'INFO' }, 'now');
+        expect(payload.type).toBe('general');
+        expect([payload.rule, payload.world, payload.instance, payload.reason]).toEqual([null, null, null, null]);
+    });
+});
+
+describe('signPayload', () => {
+    it('signs the timestamp and body with HMAC-SHA256', () => {
+        const expected = crypto.createHmac('sha256', 'secret').update('1700000000.{"a":1}').digest('hex');
+        expect(signPayload('secret', '1700000000', '{"a":1}')).toBe(`sha256=${expected}`);
+    });
+
+    it('changes when the timestamp changes', () => {
+        expect(signPayload('secret', '1', 'body')).not.toBe(signPayload('secret', '2', 'body'));
+    });
+});
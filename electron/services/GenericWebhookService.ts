@@ -0,0 +1,250 @@
+import Store from 'electron-store';
+import { ipcMain } from 'electron';
+import log from 'electron-log';
+import fetch from 'cross-fetch';
+import crypto from 'crypto';
+import { serviceEventBus } from './ServiceEventBus';
+import { webhookQueueService, classifyResponse, QueuedWebhook, DeliveryResult } from './WebhookQueueService';
+import { markdownToText } from './ReportTemplateService';
+import {
+    encryptWebhookSecret,
+    decryptWebhookSecret,
+    WEBHOOK_EVENT_CATEGORIES,
+    WebhookEventCategory,
+    WebhookEventData
+} from './DiscordWebhookService';
+
+const logger = log.scope('GenericWebhookService');
+
+export const WEBHOOK_SCHEMA = 'group-guard.moderation-event';
+export const WEBHOOK_SCHEMA_VERSION = 1;
+export const SIGNATURE_HEADER = 'X-GroupGuard-Signature';
+export const TIMESTAMP_HEADER = 'X-GroupGuard-Timestamp';
+
+const DELIVERY_TIMEOUT = 15 * 1000;
+
+/**
+ * Version 1 of the JSON body sent to generic webhooks. Documented in DEVELOPER.md, bump
+ * WEBHOOK_SCHEMA_VERSION for anything that isn't an added optional field.
+ */
+export interface ModerationEventPayload {
+    schema: typeof WEBHOOK_SCHEMA;
+    version: number;
+    id: string;
+    type: string; // Lowercase event category, e.g. "ban" or "instance_guard"
+    severity: 'info' | 'success' | 'warning' | 'error';
+    occurredAt: string;
+    groupId: string;
+    title: string;
+    summary: string;
+    target: { id: string; displayName: string } | null;
+    actor: { id: string; displayName: string } | null;
+    rule: { id: string | null; name: string } | null;
+    world: { id: string; name: string } | null;
+    instance: { id: string; name: string | null } | null;
+    reason: string | null;
+    details: Record<string, string>;
+}
+
+export interface GenericWebhookEndpoint {
+    id: string;
+    name: string;
+    url: string; // Encrypted in the store, like the secret
+    secret: string;
+    enabled: boolean;
+    categories: WebhookEventCategory[];
+    createdAt: number;
+}
+
+interface GenericWebhookStoreSchema {
+    endpoints: { [groupId: string]: GenericWebhookEndpoint[] };
+}
+
+/**
+ * Builds the versioned payload for an event. Markdown from the Discord embed text is stripped.
+ */
+export const buildModerationEventPayload = (groupId: string, event: WebhookEventData, occurredAt: string, id: string = crypto.randomUUID()): ModerationEventPayload => ({
+    schema: WEBHOOK_SCHEMA,
+    version: WEBHOOK_SCHEMA_VERSION,
+    id,
+    type: (event.category || 'GENERAL').toLowerCase(),
+    severity: event.type.toLowerCase() as ModerationEventPayload['severity'],
+    occurredAt,
+    groupId,
+    title: event.title,
+    summary: markdownToText(event.description || ''),
+    target: event.targetUser ? { id: event.targetUser.id, displayName: event.targetUser.displayName } : null,
+    actor: event.actor ? { id: event.actor.id, displayName: event.actor.displayName } : null,
+    rule: event.rule ? { id: event.rule.id || null, name: event.rule.name } : null,
+    world: event.world ? { id: event.world.id, name: event.world.name } : null,
+    instance: event.instance ? { id: event.instance.id, name: event.instance.name || null } : null,
+    reason: event.reason || null,
+    details: (event.fields || []).reduce<Record<string, string>>((details, field) => {
+        details[field.name] = markdownToText(field.value);
+        return details;
+    }, {})
+});
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", sent as "sha256=<hex>". Including the timestamp lets
+ * receivers reject replayed deliveries.
+ */
+export const signPayload = (secret: string, timestamp: string, body: string): string =>
+    `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+class GenericWebhookService {
+    private store: Store<GenericWebhookStoreSchema>;
+
+    constructor() {
+        this.store = new Store<GenericWebhookStoreSchema>({
+            name: 'generic-webhooks',
+            defaults: {
+                endpoints: {}
+            }
+        });
+    }
+
+    public initialize() {
+        logger.info('Initializing GenericWebhookService');
+        webhookQueueService.registerSender('http', item => this.deliver(item));
+        serviceEventBus.on('webhook-event', ({ groupId, event, timestamp }) => this.publish(groupId, event, timestamp));
+        this.setupHandlers();
+    }
+
+    public getEndpoints(groupId: string): GenericWebhookEndpoint[] {
+        const endpoints = (this.store.get(`endpoints.${groupId}`) || []) as GenericWebhookEndpoint[];
+        return endpoints.map(endpoint => ({
+            ...endpoint,
+            url: decryptWebhookSecret(endpoint.url),
+            secret: decryptWebhookSecret(endpoint.secret)
+        }));
+    }
+
+    private setEndpoints(groupId: string, endpoints: GenericWebhookEndpoint[]) {
+        this.store.set(`endpoints.${groupId}`, endpoints.map(endpoint => ({
+            ...endpoint,
+            url: encryptWebhookSecret(endpoint.url),
+            secret: encryptWebhookSecret(endpoint.secret)
+        })));
+    }
+
+    /**
+     * Creates or updates an endpoint. New endpoints get a random signing secret.
+     */
+    public saveEndpoint(groupId: string, input: Pick<GenericWebhookEndpoint, 'name' | 'url' | 'enabled' | 'categories'> & { id?: string }): GenericWebhookEndpoint {
+        if (!input.name?.trim()) throw new Error('Endpoint needs a name');
+        if (!/^https?:\/\//i.test(input.url?.trim() || '')) throw new Error('Endpoint URL must start with http:// or https://');
+        if (!input.categories?.length) throw new Error('Pick at least one event type');
+        if (!input.categories.every(c => WEBHOOK_EVENT_CATEGORIES.includes(c))) throw new Error('Unknown event type');
+
+        const endpoints = this.getEndpoints(groupId);
+        const existing = endpoints.find(e => e.id === input.id);
+        const endpoint: GenericWebhookEndpoint = {
+            id: existing?.id || crypto.randomUUID(),
+            secret: existing?.secret || crypto.randomBytes(32).toString('hex'),
+            createdAt: existing?.createdAt || Date.now(),
+            name: input.name.trim(),
+            url: input.url.trim(),
+            enabled: input.enabled !== false,
+            categories: input.categories
+        };
+        this.setEndpoints(groupId, existing ? endpoints.map(e => e.id === endpoint.id ? endpoint : e) : [...endpoints, endpoint]);
+        return endpoint;
+    }
+
+    public deleteEndpoint(groupId: string, id: string): boolean {
+        const endpoints = this.getEndpoints(groupId);
+        const remaining = endpoints.filter(e => e.id !== id);
+        this.setEndpoints(groupId, remaining);
+        return remaining.length !== endpoints.length;
+    }
+
+    public rotateSecret(groupId: string, id: string): GenericWebhookEndpoint {
+        const endpoint = this.getEndpoints(groupId).find(e => e.id === id);
+        if (!endpoint) throw new Error('Endpoint not found');
+        const rotated = { ...endpoint, secret: crypto.randomBytes(32).toString('hex') };
+        this.setEndpoints(groupId, this.getEndpoints(groupId).map(e => e.id === id ? rotated : e));
+        return rotated;
+    }
+
+    private publish(groupId: string, event: WebhookEventData, occurredAt: string) {
+        const category = event.category || 'GENERAL';
+        const endpoints = this.getEndpoints(groupId).filter(e => e.enabled && e.categories.includes(category));
+        if (endpoints.length === 0) return;
+
+        // One payload per event so every endpoint sees the same event ID
+        const payload = buildModerationEventPayload(groupId, event, occurredAt);
+        for (const endpoint of endpoints) {
+            webhookQueueService.enqueue({
+                kind: 'http',
+                groupId,
+                routeId: endpoint.id,
+                destinationLabel: endpoint.name,
+                title: event.title,
+                body: payload as unknown as Record<string, unknown>
+            });
+        }
+    }
+
+    private async post(endpoint: GenericWebhookEndpoint, payload: ModerationEventPayload | Record<string, unknown>, deliveryId: string): Promise<DeliveryResult> {
+        const body = JSON.stringify(payload);
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT);
+        try {
+            const response = await fetch(endpoint.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'VRChat-Group-Guard',
+                    'X-GroupGuard-Event': String(payload.type),
+                    'X-GroupGuard-Delivery': deliveryId,
+                    [TIMESTAMP_HEADER]: timestamp,
+                    [SIGNATURE_HEADER]: signPayload(endpoint.secret, timestamp, body)
+                },
+                body,
+                signal: controller.signal
+            });
+            return classifyResponse(response.status, response.headers.get('retry-after'), response.ok ? undefined : await response.text());
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
+    /**
+     * Sender for queued deliveries. Signed at send time so the timestamp is fresh on every retry.
+     */
+    private async deliver(item: QueuedWebhook): Promise<DeliveryResult> {
+        const endpoint = this.getEndpoints(item.groupId).find(e => e.id === item.routeId);
+        if (!endpoint) return { ok: false, error: `${item.destinationLabel} was deleted`, permanent: true };
+        return this.post(endpoint, item.body, item.id);
+    }
+
+    public async sendTest(groupId: string, id: string): Promise<DeliveryResult> {
+        const endpoint = this.getEndpoints(groupId).find(e => e.id === id);
+        if (!endpoint) throw new Error('Endpoint not found');
+        const payload = buildModerationEventPayload(groupId, {
+            title: 'Webhook Test',
+            description: 'Your Group Guard endpoint is configured correctly.',
+            type: 'INFO',
+            category: 'GENERAL'
+        }, new Date().toISOString());
+        try {
+            return await this.post(endpoint, payload, payload.id);
+        } catch (err) {
+            return { ok: false, error: err instanceof Error ? err.message : String(err) };
+        }
+    }
+
+    private setupHandlers() {
+        ipcMain.handle('generic-webhooks:list', (_, groupId: string) => this.getEndpoints(groupId));
+        ipcMain.handle('generic-webhooks:save', (_, { groupId, endpoint }: { groupId: string; endpoint: Pick<GenericWebhookEndpoint, 'name' | 'url' | 'enabled' | 'categories'> & { id?: string } }) =>
+            this.saveEndpoint(groupId, endpoint)
+        );
+        ipcMain.handle('generic-webhooks:delete', (_, { groupId, id }: { groupId: string; id: string }) => this.deleteEndpoint(groupId, id));
+        ipcMain.handle('generic-webhooks:rotate-secret', (_, { groupId, id }: { groupId: string; id: string }) => this.rotateSecret(groupId, id));
+        ipcMain.handle('generic-webhooks:test', (_, { groupId, id }: { groupId: string; id: string }) => this.sendTest(groupId, id));
+    }
+}
+
+export const genericWebhookService = new GenericWebhookService();
@@ -1,7 +1,7 @@
 import { ipcMain } from 'electron';
 import log from 'electron-log';
 const logger = log.scope('GroupService');
-import { getVRChatClient, getCurrentUserId, getAuthCookieStringAsync } from './AuthService';
+import { getVRChatClient, getCurrentUserId, getCurrentActor, getAuthCookieStringAsync } from './AuthService';
 import { vrchatApiService } from './VRChatApiService';
 import { databaseService } from './DatabaseService';
 import { groupAuthorizationService } from './GroupAuthorizationService';
@@ -9,6 +9,8 @@ import { networkService } from './NetworkService';
 import { discordWebhookService } from './DiscordWebhookService';
 import { serviceEventBus } from './ServiceEventBus';
 import { windowService } from './WindowService';
+import { tempBanService } from './TempBanService';
+import { auditArchiveService } from './AuditArchiveService';
 
 export function setupGroupHandlers() {
 
@@ -355,6 +357,8 @@ export function setupGroupHandlers() {
                 });
                 if (!response.error) {
                     const rawLogs = extractArray(response.data);
+                    auditArchiveService.archive(groupId, rawLogs)
+                        .catch(e => logger.warn('Failed to archive audit logs', e));
                     setLogs = rawLogs.map((l: unknown) => {
                         const log = l as Record<string, unknown>;
                         return {
@@ -507,8 +511,8 @@ export function setupGroupHandlers() {
         });
     });
 
-    // Ban a user from a group
-    ipcMain.handle('groups:ban-user', async (_event, { groupId, userId }: { groupId: string; userId: string }) => {
+    // Ban a user from a group (durationMs schedules an automatic unban)
+    ipcMain.handle('groups:ban-user', async (_event, { groupId, userId, durationMs, displayName }: { groupId: string; userId: string; durationMs?: number; displayName?: string }) => {
         // SECURITY: Validate group access first
         const authCheck = groupAuthorizationService.validateAccessSafe(groupId, 'groups:ban-user');
         if (!authCheck.allowed) {
@@ -525,16 +529,28 @@ export function setupGroupHandlers() {
                 body: { userId }
             });
 
+            const expiresAt = durationMs && durationMs > 0 ? Date.now() + durationMs : null;
+            if (expiresAt) {
+                tempBanService.schedule({ groupId, userId, displayName, expiresAt });
+            } else {
+                // A permanent ban replaces any pending temporary one
+                tempBanService.cancel(groupId, userId);
+            }
+
             discordWebhookService.sendEvent(
                 groupId,
                 {
-                    title: '🚫 User Banned (Manual)',
+                    title: expiresAt ? '⏳ User Temporarily Banned (Manual)' : '🚫 User Banned (Manual)',
                     description: `User ${userId} was manually banned via the Group Guard Dashboard.`,
                     type: 'ERROR',
+                    category: 'BAN',
                     fields: [
                         { name: 'User', value: `[${userId}](https://vrchat.com/home/user/${userId})`, inline: true },
-                        { name: 'Admin', value: getCurrentUserId() || 'Unknown', inline: true }
-                    ]
+                        { name: 'Admin', value: getCurrentUserId() || 'Unknown', inline: true },
+                        ...(expiresAt ? [{ name: 'Expires', value: new Date(expiresAt).toLocaleString(), inline: true }] : [])
+                    ],
+                    targetUser: { displayName: displayName || userId, id: userId },
+                    actor: getCurrentActor()
                 }
             ).catch(e => logger.error('Webhook failed', e));
 
@@ -583,16 +599,20 @@ export function setupGroupHandlers() {
 
         return networkService.executeWithFallback(strategies, `groups:unban-user:${groupId}:${userId}`).then(res => {
             if (res.success) {
+                tempBanService.cancel(groupId, userId);
+
                 discordWebhookService.sendEvent(
                     groupId,
                     {
                         title: '🔓 User Unbanned (Manual)',
                         description: `User ${userId} was manually unbanned via the Group Guard Dashboard.`,
                         type: 'SUCCESS',
+                        category: 'BAN',
                         fields: [
                             { name: 'User', value: `[${userId}](https://vrchat.com/home/user/${userId})`, inline: true },
                             { name: 'Admin', value: getCurrentUserId() || 'Unknown', inline: true }
-                        ]
+                        ],
+                        actor: getCurrentActor()
                     }
                 ).catch(e => logger.error('Webhook failed', e));
 
@@ -706,11 +726,13 @@ export function setupGroupHandlers() {
                         title: '👮 Role Added',
                         description: `Role added to user ${userId}.`,
                         type: 'WARNING',
+                        category: 'MEMBERSHIP',
                         fields: [
                             { name: 'User', value: `[${userId}](https://vrchat.com/home/user/${userId})`, inline: true },
                             { name: 'Role ID', value: roleId, inline: true },
                             { name: 'Admin', value: getCurrentUserId() || 'Unknown', inline: true }
-                        ]
+                        ],
+                        actor: getCurrentActor()
                     }
                 ).catch(e => logger.error('Webhook failed', e));
                 return { success: true };
@@ -865,11 +887,13 @@ export function setupGroupHandlers() {
                         title: isAccept ? '✅ Join Request Accepted' : '❌ Join Request Denied',
                         description: `Join request ${isAccept ? 'accepted' : 'denied'} by admin.`,
                         type: isAccept ? 'SUCCESS' : 'ERROR',
+                        category: 'MEMBERSHIP',
                         fields: [
                             { name: 'User', value: `[${userId}](https://vrchat.com/home/user/${userId})`, inline: true },
                             { name: 'Action', value: action.toUpperCase(), inline: true },
                             { name: 'Admin', value: getCurrentUserId() || 'Unknown', inline: true }
-                        ]
+                        ],
+                        actor: getCurrentActor()
                     }
                 ).catch(e => logger.error('Webhook failed', e));
 
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+    isScheduleActive,
+    evaluateSchedule,
+    instanceGuardScheduleService,
+    type InstanceGuardSchedule,
+} from './InstanceGuardScheduleService';
+
+const schedule = (overrides: Partial<InstanceGuardSchedule> = {}): InstanceGuardSchedule => ({
+    id: 'sched_1',
+    name: 'Friday Event',
+    enabled: true,
+    days: [5],
+    startTime: '18:00',
+    endTime: '23:00',
+    timezone: 'UTC',
+    policy: 'ALLOW_ONLY',
+    worlds: ['wrld_event'],
+    ...overrides,
+});
+
+// 2026-10-16 is a Friday
+const at = (iso: string) => new Date(iso);
+
+describe('isScheduleActive', () => {
+    it('is active inside the window on a listed day', () => {
+        expect(isScheduleActive(schedule(), at('2026-10-16T19:30:00Z'))).toBe(true);
+        expect(isScheduleActive(schedule(), at('2026-10-16T23:00:00Z'))).toBe(false);
+        expect(isScheduleActive(schedule(), at('2026-10-15T19:30:00Z'))).toBe(false);
+    });
+
+    it('evaluates the window in the schedule timezone', () => {
+        const berlin = schedule({ timezone: 'Europe/Berlin' });
+        // 17:30 UTC is 19:30 in Berlin (CEST)
+        expect(isScheduleActive(berlin, at('2026-10-16T17:30:00Z'))).toBe(true);
+        expect(isScheduleActive(berlin, at('2026-10-16T21:30:00Z'))).toBe(false);
+    });
+
+    it('carries overnight windows into the next day', () => {
+        const overnight = schedule({ startTime: '22:00', endTime: '02:00' });
+        expect(isScheduleActive(overnight, at('2026-10-16T23:00:00Z'))).toBe(true);
+        expect(isScheduleActive(overnight, at('2026-10-17T01:00:00Z'))).toBe(true);
+        expect(isScheduleActive(overnight, at('2026-10-17T23:00:00Z'))).toBe(false);
+    });
+});
+
+describe('evaluateSchedule', () => {
+    it('closes unlisted worlds for allow-only schedules', () => {
+        expect(evaluateSchedule(schedule(), 'wrld_event', 'Event')?.close).toBe(false);
+        expect(evaluateSchedule(schedule(), 'wrld_other', 'Other')?.close).toBe(true);
+    });
+
+    it('defers to the regular rules for unlisted worlds in deny schedules', () => {
+        const deny = schedule({ policy: 'DENY' });
+        expect(evaluateSchedule(deny, 'wrld_event', 'Event')?.close).toBe(true);
+        expect(evaluateSchedule(deny, 'wrld_other', 'Other')).toBeNull();
+    });
+});
+
+describe('instanceGuardScheduleService.validate', () => {
+    it('reports malformed schedules', () => {
+        const errors = instanceGuardScheduleService.validate([schedule({ startTime: '25:00', timezone: 'Mars/Base', days: [] })]);
+        expect(errors[0]).toContain('invalid start time');
+        expect(errors[0]).toContain('unknown timezone');
+        expect(errors[0]).toContain('select at least one day');
+    });
+
+    it('detects overlaps across timezones', () => {
+        const now = at('2026-10-16T12:00:00Z');
+        const utc = schedule();
+        const berlin = schedule({ id: 'sched_2', name: 'Berlin', timezone: 'Europe/Berlin', startTime: '00:30', endTime: '02:00', days: [6] });
+        // Saturday 00:30-02:00 Berlin is Friday 22:30-00:00 UTC, overlapping 18:00-23:00 UTC
+        expect(instanceGuardScheduleService.validate([utc, berlin], now)).toEqual(['"Friday Event" overlaps with "Berlin"']);
+        expect(instanceGuardScheduleService.validate([utc, { ...berlin, startTime: '01:00' }], now)).toEqual([]);
+    });
+});
@@ -0,0 +1,171 @@
+// ============================================
+// INSTANCE GUARD SCHEDULES - time-windowed world allow/deny policies
+// ============================================
+
+export type InstanceSchedulePolicy = "ALLOW_ONLY" | "DENY";
+
+export interface InstanceGuardSchedule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    days: number[]; // 0 = Sunday ... 6 = Saturday, in the schedule's timezone
+    startTime: string; // "HH:MM"
+    endTime: string; // "HH:MM", earlier than startTime means the window runs past midnight
+    timezone: string; // IANA name, e.g. "UTC" or "Europe/Berlin"
+    policy: InstanceSchedulePolicy; // ALLOW_ONLY closes every world not listed, DENY closes listed worlds
+    worlds: string[];
+}
+
+export interface ScheduleDecision {
+    close: boolean;
+    reason?: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const parseTime = (value: string): number | null => {
+    const match = TIME_PATTERN.exec(value);
+    return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+};
+
+const isValidTimezone = (timezone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Weekday and minute-of-day of an instant as seen in the given timezone.
+ */
+const getZonedTime = (date: Date, timezone: string): { day: number; minutes: number } => {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+    }).formatToParts(date);
+    const get = (type: string) => parts.find(p => p.type === type)?.value ?? "0";
+    return { day: WEEKDAYS[get("weekday")] ?? 0, minutes: parseInt(get("hour"), 10) * 60 + parseInt(get("minute"), 10) };
+};
+
+/**
+ * Current UTC offset of a timezone in minutes (positive east of UTC).
+ */
+const getOffsetMinutes = (timezone: string, at: Date): number => {
+    const local = getZonedTime(at, timezone);
+    const utc = getZonedTime(at, "UTC");
+    let diff = (local.day - utc.day) * MINUTES_PER_DAY + (local.minutes - utc.minutes);
+    // Wrap Saturday/Sunday boundaries back into +-1 day
+    if (diff > MINUTES_PER_WEEK / 2) diff -= MINUTES_PER_WEEK;
+    if (diff < -MINUTES_PER_WEEK / 2) diff += MINUTES_PER_WEEK;
+    return diff;
+};
+
+// The time window part of a schedule, also used for office hours in audit log policies
+export type ScheduleWindow = Pick<InstanceGuardSchedule, "enabled" | "days" | "startTime" | "endTime" | "timezone">;
+
+export const isScheduleActive = (schedule: ScheduleWindow, now: Date = new Date()): boolean => {
+    if (!schedule.enabled) return false;
+    const start = parseTime(schedule.startTime);
+    const end = parseTime(schedule.endTime);
+    if (start === null || end === null || start === end) return false;
+
+    const { day, minutes } = getZonedTime(now, schedule.timezone);
+    if (start < end) {
+        return schedule.days.includes(day) && minutes >= start && minutes < end;
+    }
+    // Overnight window: the evening part belongs to today, the morning part to yesterday's entry
+    const previousDay = (day + 6) % 7;
+    return (schedule.days.includes(day) && minutes >= start) || (schedule.days.includes(previousDay) && minutes < end);
+};
+
+/**
+ * First enabled schedule whose window contains `now`, in list order.
+ */
+export const getActiveSchedule = (schedules: InstanceGuardSchedule[], now: Date = new Date()): InstanceGuardSchedule | null =>
+    schedules.find(s => isScheduleActive(s, now)) ?? null;
+
+/**
+ * Whether the active schedule closes an instance of the given world. Returns null when the
+ * schedule has no opinion and the regular guard rules decide.
+ */
+export const evaluateSchedule = (schedule: InstanceGuardSchedule, worldId: string, worldName: string): ScheduleDecision | null => {
+    const listed = schedule.worlds.includes(worldId);
+    if (schedule.policy === "ALLOW_ONLY") {
+        return listed
+            ? { close: false }
+            : { close: true, reason: `World "${worldName}" is not allowed during schedule "${schedule.name}"` };
+    }
+    return listed ? { close: true, reason: `World "${worldName}" is blocked during schedule "${schedule.name}"` } : null;
+};
+
+/**
+ * Weekly windows of a schedule in UTC minutes-of-week, using the timezone's current offset.
+ */
+const toUtcWindows = (schedule: InstanceGuardSchedule, at: Date): [number, number][] => {
+    const start = parseTime(schedule.startTime)!;
+    const end = parseTime(schedule.endTime)!;
+    const length = end > start ? end - start : MINUTES_PER_DAY - start + end;
+    const offset = getOffsetMinutes(schedule.timezone, at);
+    return schedule.days.map(day => {
+        const from = (((day * MINUTES_PER_DAY + start - offset) % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+        return [from, from + length];
+    });
+};
+
+const windowsOverlap = (a: [number, number], b: [number, number]): boolean => {
+    // Compare against b shifted by a week in both directions to handle wrap-around
+    return [-MINUTES_PER_WEEK, 0, MINUTES_PER_WEEK].some(shift => a[0] < b[1] + shift && b[0] + shift < a[1]);
+};
+
+export const instanceGuardScheduleService = {
+    /**
+     * Returns human-readable problems with a schedule list, empty when it can be saved.
+     */
+    validate: (schedules: InstanceGuardSchedule[], now: Date = new Date()): string[] => {
+        const errors: string[] = [];
+        const valid: InstanceGuardSchedule[] = [];
+
+        for (const schedule of schedules) {
+            const label = schedule.name?.trim() || "Unnamed schedule";
+            const problems: string[] = [];
+            if (!schedule.name?.trim()) problems.push("name is required");
+            if (!Array.isArray(schedule.days) || schedule.days.length === 0) problems.push("select at least one day");
+            else if (schedule.days.some(d => !Number.isInteger(d) || d < 0 || d > 6)) problems.push("days must be between 0 and 6");
+            const start = parseTime(schedule.startTime);
+            const end = parseTime(schedule.endTime);
+            if (start === null) problems.push(`invalid start time "${schedule.startTime}"`);
+            if (end === null) problems.push(`invalid end time "${schedule.endTime}"`);
+            if (start !== null && start === end) problems.push("start and end time must differ");
+            if (!isValidTimezone(schedule.timezone)) problems.push(`unknown timezone "${schedule.timezone}"`);
+            if (schedule.policy !== "ALLOW_ONLY" && schedule.policy !== "DENY") problems.push("unknown policy");
+            if (schedule.policy === "DENY" && (!schedule.worlds || schedule.worlds.length === 0)) problems.push("a deny schedule needs at least one world");
+
+            if (problems.length > 0) {
+                errors.push(`${label}: ${problems.join(", ")}`);
+            } else if (schedule.enabled) {
+                valid.push(schedule);
+            }
+        }
+
+        // Only one policy can be active at a time, so enabled windows must not overlap
+        for (let i = 0; i < valid.length; i++) {
+            for (let j = i + 1; j < valid.length; j++) {
+                const a = toUtcWindows(valid[i], now);
+                const b = toUtcWindows(valid[j], now);
+                if (a.some(wa => b.some(wb => windowsOverlap(wa, wb)))) {
+                    errors.push(`"${valid[i].name}" overlaps with "${valid[j].name}"`);
+                }
+            }
+        }
+
+        return errors;
+    },
+};
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+const mocks = vi.hoisted(() => ({
+    rules: [] as { type: string; enabled: boolean; config?: string }[],
+    instances: [] as Record<string, unknown>[]
+}));
+
+vi.mock('./VRChatApiService', () => ({
+    vrchatApiService: {
+        getGroupInstances: vi.fn(async () => ({ success: true, data: mocks.instances })),
+        getUser: vi.fn(async () => ({ success: false })),
+        getInstance: vi.fn(async () => ({ success: false })),
+        closeInstance: vi.fn(async () => ({ success: true }))
+    }
+}));
+vi.mock('./WindowService', () => ({ windowService: { broadcast: vi.fn() } }));
+vi.mock('./GroupAuthorizationService', () => ({ groupAuthorizationService: { getAllowedGroupIds: () => ['grp_1'] } }));
+vi.mock('./AutoModConfigService', () => ({ autoModConfigService: { getGroupConfig: () => ({ rules: mocks.rules }) } }));
+vi.mock('./DatabaseService', () => ({
+    databaseService: {
+        getInstanceGuardEventsSince: vi.fn(async () => []),
+        createInstanceGuardEvent: vi.fn(async () => undefined),
+        createAutoModLog: vi.fn(async () => undefined),
+        pruneInstanceGuardEvents: vi.fn(async () => ({ count: 0 }))
+    }
+}));
+vi.mock('./DiscordWebhookService', () => ({ discordWebhookService: { sendEvent: vi.fn(async () => undefined) }, GROUP_GUARD_ACTOR: { id: 'system', displayName: 'Group Guard' } }));
+vi.mock('./AuthService', () => ({ getVRChatClient: vi.fn() }));
+vi.mock('./InviteService', () => ({ inviteService: { sendInvite: vi.fn() } }));
+
+import { instanceGuardService } from './InstanceGuardService';
+
+const closeAll = (whitelistedWorlds: string[] = []) => ({ type: 'CLOSE_ALL_INSTANCES', enabled: true, config: JSON.stringify({ whitelistedWorlds }) });
+const grace = { type: 'INSTANCE_CLOSE_GRACE', enabled: true, config: JSON.stringify({ graceMinutes: 5, notifyOwner: false }) };
+
+describe('processInstanceGuard pending closes', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-10-16T12:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('drops the pending close once the world is whitelisted', async () => {
+        mocks.instances = [{ worldId: 'wrld_a', instanceId: '1~group', world: { name: 'A' } }];
+        mocks.rules = [closeAll(), grace];
+        await instanceGuardService.processInstanceGuard();
+        expect(instanceGuardService.getPendingCloses('grp_1')).toHaveLength(1);
+
+        mocks.rules = [closeAll(['wrld_a']), grace];
+        await instanceGuardService.processInstanceGuard();
+        expect(instanceGuardService.getPendingCloses('grp_1')).toHaveLength(0);
+    });
+
+    it('only cancels a pending close for its own group', async () => {
+        mocks.instances = [{ worldId: 'wrld_e', instanceId: '5~group', world: { name: 'E' } }];
+        mocks.rules = [closeAll(), grace];
+        await instanceGuardService.processInstanceGuard();
+        const [pending] = instanceGuardService.getPendingCloses('grp_1');
+
+        expect(instanceGuardService.cancelPendingClose('grp_other', pending.key)).toBe(false);
+        expect(instanceGuardService.cancelPendingClose('grp_1', pending.key)).toBe(true);
+        expect(instanceGuardService.getPendingCloses('grp_1')).toHaveLength(0);
+    });
+
+    it('drops the pending close once a schedule allows the world', async () => {
+        mocks.instances = [{ worldId: 'wrld_b', instanceId: '2~group', world: { name: 'B' } }];
+        mocks.rules = [closeAll(), grace];
+        await instanceGuardService.processInstanceGuard();
+        expect(instanceGuardService.getPendingCloses('grp_1')).toHaveLength(1);
+
+        const schedule = {
+            id: 's1', name: 'Event', enabled: true, days: [0, 1, 2, 3, 4, 5, 6], startTime: '00:00', endTime: '23:59',
+            timezone: 'UTC', policy: 'ALLOW_ONLY', worlds: ['wrld_b']
+        };
+        mocks.rules = [closeAll(), grace, { type: 'INSTANCE_SCHEDULE', enabled: true, config: JSON.stringify({ schedules: [schedule] }) }];
+        await instanceGuardService.processInstanceGuard();
+        expect(instanceGuardService.getPendingCloses('grp_1')).toHaveLength(0);
+    });
+});
+
+describe('processInstanceGuard population warnings', () => {
+    it('warns again about an instance id only after the instance ended', async () => {
+        const { discordWebhookService } = await import('./DiscordWebhookService');
+        const warn = { type: 'INSTANCE_POPULATION', enabled: true, config: JSON.stringify({ rules: [{ id: 'busy', name: 'Busy', enabled: true, metric: 'USERS', operator: 'GTE', value: 1, minAgeMinutes: 0, accessTypes: [], regions: [], action: 'WARN' }] }) };
+        const busy = { worldId: 'wrld_c', instanceId: '3~group', world: { name: 'C' }, n_users: 5 };
+        mocks.rules = [warn];
+        const sendEvent = vi.mocked(discordWebhookService.sendEvent);
+        sendEvent.mockClear();
+
+        mocks.instances = [busy];
+        await instanceGuardService.processInstanceGuard();
+        await instanceGuardService.processInstanceGuard();
+        expect(sendEvent).toHaveBeenCalledTimes(1);
+
+        mocks.instances = [];
+        await instanceGuardService.processInstanceGuard();
+        mocks.instances = [busy];
+        await instanceGuardService.processInstanceGuard();
+        expect(sendEvent).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('processInstanceGuard closes', () => {
+    it('posts an Instance Guard webhook when an instance is closed', async () => {
+        const { discordWebhookService } = await import('./DiscordWebhookService');
+        const sendEvent = vi.mocked(discordWebhookService.sendEvent);
+        sendEvent.mockClear();
+        mocks.instances = [{ worldId: 'wrld_d', instanceId: '4~group', world: { name: 'D' }, n_users: 3 }];
+        mocks.rules = [closeAll()];
+
+        await instanceGuardService.processInstanceGuard();
+
+        expect(sendEvent).toHaveBeenCalledWith('grp_1', expect.objectContaining({
+            title: '🔒 Instance Closed',
+            category: 'INSTANCE_GUARD',
+            actor: { id: 'system', displayName: 'Group Guard' },
+            world: { id: 'wrld_d', name: 'D' },
+            instance: { id: '4~group' }
+        }));
+    });
+});
+
+describe('pruneHistory', () => {
+    it('deletes events past the retention window at most once an hour', async () => {
+        const { databaseService } = await import('./DatabaseService');
+        const prune = vi.mocked(databaseService.pruneInstanceGuardEvents);
+        prune.mockClear();
+        const now = new Date('2027-01-01T00:00:00Z').getTime();
+
+        await instanceGuardService.pruneHistory(now);
+        await instanceGuardService.pruneHistory(now + 60 * 1000);
+        expect(prune).toHaveBeenCalledTimes(1);
+        expect(prune).toHaveBeenCalledWith(new Date(now - 90 * 24 * 60 * 60 * 1000));
+
+        await instanceGuardService.pruneHistory(now + 61 * 60 * 1000);
+        expect(prune).toHaveBeenCalledTimes(2);
+    });
+});
@@ -4,14 +4,19 @@ import { windowService } from "./WindowService";
 import { groupAuthorizationService } from "./GroupAuthorizationService";
 import { autoModConfigService } from "./AutoModConfigService";
 import { databaseService } from "./DatabaseService";
+import { getActiveSchedule, evaluateSchedule, InstanceGuardSchedule } from "./InstanceGuardScheduleService";
+import { evaluatePopulationRules, getInstanceMetrics, InstancePopulationRule, PopulationMatch } from "./InstancePopulationService";
+import { discordWebhookService, GROUP_GUARD_ACTOR } from "./DiscordWebhookService";
+import { getVRChatClient } from "./AuthService";
+import { inviteService } from "./InviteService";
 
 const logger = log.scope("InstanceGuardService");
 
-// Instance Guard event history (in-memory, persists for session)
+// Instance Guard event history (persisted to the InstanceGuardEvent table)
 export interface InstanceGuardEvent {
   id: string;
   timestamp: number;
-  action: 'OPENED' | 'CLOSED' | 'AUTO_CLOSED' | 'INSTANCE_CLOSED';
+  action: 'OPENED' | 'CLOSED' | 'AUTO_CLOSED' | 'INSTANCE_CLOSED' | 'WARNED' | 'PENDING_CLOSE';
   worldId: string;
   worldName: string;
   instanceId: string;
@@ -29,8 +34,40 @@ export interface InstanceGuardEvent {
   worldCapacity?: number;
 }
 
-const instanceGuardHistory: InstanceGuardEvent[] = [];
-const INSTANCE_HISTORY_MAX_SIZE = 200;
+export interface InstanceGuardHistoryQuery {
+  world?: string; // World ID or part of the world name
+  owner?: string; // Owner user ID or part of the display name
+  actions?: InstanceGuardEvent['action'][];
+  limit?: number;
+  offset?: number;
+}
+
+// Close decided by Instance Guard, waiting out the grace period before it is carried out
+export interface PendingClose {
+  key: string; // "groupId:worldId:instanceId"
+  groupId: string;
+  worldId: string;
+  worldName: string;
+  instanceId: string;
+  ownerId?: string;
+  ownerName?: string;
+  reason: string;
+  createdAt: number;
+  closeAt: number;
+}
+
+// Config of the INSTANCE_CLOSE_GRACE rule
+interface CloseGraceConfig {
+  graceMinutes?: number;
+  notifyOwner?: boolean;
+}
+
+const DEFAULT_HISTORY_PAGE_SIZE = 50;
+const DEFAULT_GRACE_MINUTES = 5;
+const KNOWN_INSTANCES_RESTORE_WINDOW = 24 * 60 * 60 * 1000; // Instances rarely outlive a day
+const HISTORY_RETENTION = 90 * 24 * 60 * 60 * 1000; // Long enough to spot repeat offenders over several weeks
+const HISTORY_PRUNE_INTERVAL = 60 * 60 * 1000;
+let lastHistoryPrune = 0;
 
 // Track instances that have already been closed to prevent spam
 // Key format: "groupId:worldId:instanceId"
@@ -38,9 +75,46 @@ const closedInstancesCache = new Set<string>();
 const CLOSED_INSTANCES_CACHE_TTL = 30 * 60 * 1000; // 30 minutes
 const closedInstancesTimestamps = new Map<string, number>();
 
-// Track known instances to detect new ones (for OPENED events)
+// Track known instances to detect new ones (for OPENED events), value is when it was first seen
 // Key format: "groupId:worldId:instanceId"
-const knownInstancesCache = new Set<string>();
+const knownInstancesCache = new Map<string, number>();
+
+// Population warnings already sent, key format: "groupId:worldId:instanceId:ruleId"
+const warnedInstancesCache = new Set<string>();
+let cachesRestored = false;
+
+// Closes waiting for their grace period, and instances a moderator spared until they end
+const pendingCloses = new Map<string, PendingClose>();
+const cancelledCloses = new Set<string>();
+
+const broadcastPendingCloses = () => {
+    windowService.broadcast('instance-guard:pending-updated', Array.from(pendingCloses.values()));
+};
+
+// An instance that no longer breaks any rule keeps no announced close
+const clearPendingClose = (key: string) => {
+    if (pendingCloses.delete(key)) broadcastPendingCloses();
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const toEvent = (row: any): InstanceGuardEvent => ({
+    id: row.id,
+    timestamp: new Date(row.timestamp).getTime(),
+    action: row.action,
+    worldId: row.worldId,
+    worldName: row.worldName,
+    instanceId: row.instanceId,
+    groupId: row.groupId,
+    reason: row.reason ?? undefined,
+    closedBy: row.closedBy ?? undefined,
+    wasAgeGated: row.wasAgeGated ?? undefined,
+    userCount: row.userCount ?? undefined,
+    ownerId: row.ownerId ?? undefined,
+    ownerName: row.ownerName ?? undefined,
+    worldThumbnailUrl: row.worldThumbnailUrl ?? undefined,
+    worldAuthorName: row.worldAuthorName ?? undefined,
+    worldCapacity: row.worldCapacity ?? undefined
+});
 
 const persistAction = async (entry: {
     timestamp: Date;
@@ -82,23 +156,166 @@ export const instanceGuardService = {
         }
     },
 
-    getHistory: (groupId?: string) => {
-        if (!groupId) return instanceGuardHistory;
-        return instanceGuardHistory.filter(e => e.groupId === groupId);
+    // Rebuild the dedupe caches from stored history so a restart does not re-log or re-close instances
+    restoreCaches: async () => {
+        if (cachesRestored) return;
+        cachesRestored = true;
+        try {
+            const now = Date.now();
+            const rows = await databaseService.getInstanceGuardEventsSince(new Date(now - KNOWN_INSTANCES_RESTORE_WINDOW));
+            for (const event of (rows as unknown[]).map(toEvent)) {
+                const key = `${event.groupId}:${event.worldId}:${event.instanceId}`;
+                // Rows are newest first, keep overwriting so the oldest sighting wins
+                knownInstancesCache.set(key, event.timestamp);
+                if ((event.action === 'AUTO_CLOSED' || event.action === 'INSTANCE_CLOSED') && now - event.timestamp < CLOSED_INSTANCES_CACHE_TTL) {
+                    closedInstancesCache.add(key);
+                    closedInstancesTimestamps.set(key, event.timestamp);
+                }
+            }
+            logger.info(`[InstanceGuard] Restored ${knownInstancesCache.size} known and ${closedInstancesCache.size} closed instances from history`);
+        } catch (error) {
+            cachesRestored = false;
+            logger.warn("[InstanceGuard] Failed to restore caches from history:", error);
+        }
     },
 
-    clearHistory: () => {
-        instanceGuardHistory.length = 0;
+    getHistory: async (groupId?: string, query: InstanceGuardHistoryQuery = {}): Promise<{ events: InstanceGuardEvent[]; total: number }> => {
+        const { events, total } = await databaseService.getInstanceGuardEvents({
+            groupId,
+            world: query.world?.trim() || undefined,
+            owner: query.owner?.trim() || undefined,
+            actions: query.actions,
+            limit: query.limit ?? DEFAULT_HISTORY_PAGE_SIZE,
+            offset: query.offset ?? 0
+        });
+        return { events: (events as unknown[]).map(toEvent), total };
+    },
+
+    clearHistory: async (groupId: string) => {
+        await databaseService.clearInstanceGuardEvents(groupId);
         return true;
     },
 
+    // Drop history past the retention window, at most once per interval
+    pruneHistory: async (now = Date.now()) => {
+        if (now - lastHistoryPrune < HISTORY_PRUNE_INTERVAL) return;
+        lastHistoryPrune = now;
+        try {
+            const { count } = await databaseService.pruneInstanceGuardEvents(new Date(now - HISTORY_RETENTION));
+            if (count > 0) logger.info(`[InstanceGuard] Pruned ${count} history events older than the retention window`);
+        } catch (error) {
+            logger.warn("[InstanceGuard] Failed to prune history:", error);
+        }
+    },
+
     // Add an event to history (used by Permission Guard too)
     addEvent: (event: InstanceGuardEvent) => {
-        instanceGuardHistory.unshift(event);
-        if (instanceGuardHistory.length > INSTANCE_HISTORY_MAX_SIZE) {
-            instanceGuardHistory.pop();
-        }
         windowService.broadcast('instance-guard:event', event);
+        databaseService.createInstanceGuardEvent({ ...event, timestamp: new Date(event.timestamp) })
+            .catch(err => logger.error("[InstanceGuard] Failed to persist event:", err));
+    },
+
+    // Record a population warning once per instance and rule
+    warnPopulation: (instanceKey: string, match: PopulationMatch, instance: Pick<InstanceGuardEvent, 'groupId' | 'worldId' | 'worldName' | 'instanceId' | 'ownerId' | 'userCount' | 'worldThumbnailUrl' | 'worldAuthorName' | 'worldCapacity'>) => {
+        const warnKey = `${instanceKey}:${match.rule.id}`;
+        if (warnedInstancesCache.has(warnKey)) return;
+        warnedInstancesCache.add(warnKey);
+
+        logger.info(`[InstanceGuard] Population warning for ${instance.worldName}: ${match.reason}`);
+        instanceGuardService.addEvent({
+            id: `ig_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            timestamp: Date.now(),
+            action: 'WARNED',
+            reason: match.reason,
+            ...instance
+        });
+
+        discordWebhookService.sendEvent(instance.groupId, {
+            title: '⚠️ Instance Population Warning',
+            description: `**World**: ${instance.worldName}\n**Reason**: ${match.reason}`,
+            type: 'WARNING',
+            category: 'INSTANCE_GUARD',
+            actor: GROUP_GUARD_ACTOR,
+            fields: [
+                { name: 'Users', value: String(instance.userCount ?? 0), inline: true },
+                { name: 'Capacity', value: String(instance.worldCapacity ?? 'Unknown'), inline: true }
+            ],
+            rule: { id: match.rule.id, name: match.rule.name },
+            world: { id: instance.worldId, name: instance.worldName },
+            instance: { id: instance.instanceId },
+            reason: match.reason
+        }).catch(e => logger.error('Webhook failed', e));
+    },
+
+    getPendingCloses: (groupId?: string): PendingClose[] =>
+        Array.from(pendingCloses.values()).filter(p => !groupId || p.groupId === groupId),
+
+    // Moderator override: the instance is left open until it ends
+    cancelPendingClose: (groupId: string, key: string): boolean => {
+        const pending = pendingCloses.get(key);
+        if (!pending || pending.groupId !== groupId) return false;
+        pendingCloses.delete(key);
+        cancelledCloses.add(key);
+        logger.info(`[InstanceGuard] Pending close of ${pending.worldName} (${key}) cancelled by moderator`);
+        persistAction({
+            timestamp: new Date(),
+            user: 'System',
+            userId: 'system',
+            groupId: pending.groupId,
+            action: 'CLOSE_CANCELLED',
+            reason: pending.reason,
+            module: 'InstanceGuard',
+            details: { worldId: pending.worldId, instanceId: pending.instanceId, worldName: pending.worldName }
+        });
+        broadcastPendingCloses();
+        return true;
+    },
+
+    // Announce an upcoming close: history event, owner invite message and webhook
+    startPendingClose: async (pending: PendingClose, notifyOwner: boolean, event: Pick<InstanceGuardEvent, 'wasAgeGated' | 'userCount' | 'worldThumbnailUrl' | 'worldAuthorName' | 'worldCapacity'>) => {
+        pendingCloses.set(pending.key, pending);
+        broadcastPendingCloses();
+
+        const minutes = Math.round((pending.closeAt - pending.createdAt) / 60000);
+        logger.warn(`[InstanceGuard] Instance ${pending.worldName} will close in ${minutes} min - Reason: ${pending.reason}`);
+
+        instanceGuardService.addEvent({
+            id: `ig_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            timestamp: pending.createdAt,
+            action: 'PENDING_CLOSE',
+            worldId: pending.worldId,
+            worldName: pending.worldName,
+            instanceId: pending.instanceId,
+            groupId: pending.groupId,
+            reason: pending.reason,
+            ownerId: pending.ownerId,
+            ownerName: pending.ownerName,
+            ...event
+        });
+
+        if (notifyOwner && pending.ownerId?.startsWith('usr_')) {
+            try {
+                // Invite messages are capped at 64 characters, the reason goes to the webhook and history
+                await inviteService.sendInvite(getVRChatClient(), pending.ownerId, `${pending.worldId}:${pending.instanceId}`, `Instance closing in ${minutes} min (group rules)`);
+            } catch (e) {
+                logger.warn(`[InstanceGuard] Failed to notify owner ${pending.ownerId} of pending close:`, e);
+            }
+        }
+
+        discordWebhookService.sendEvent(pending.groupId, {
+            title: '⏳ Instance Closing Soon',
+            description: `**World**: ${pending.worldName}\n**Reason**: ${pending.reason}`,
+            type: 'WARNING',
+            category: 'INSTANCE_GUARD',
+            actor: GROUP_GUARD_ACTOR,
+            fields: [
+                { name: 'Closes', value: `<t:${Math.floor(pending.closeAt / 1000)}:R>`, inline: true },
+                { name: 'Owner', value: pending.ownerName || pending.ownerId || 'Unknown', inline: true }
+            ],
+            world: { id: pending.worldId, name: pending.worldName },
+            instance: { id: pending.instanceId },
+            reason: pending.reason
+        }).catch(e => logger.error('Webhook failed', e));
     },
 
     isClosed: (key: string) => closedInstancesCache.has(key),
@@ -116,7 +333,9 @@ export const instanceGuardService = {
             return { totalClosed: 0, groupsChecked: 0 };
         }
 
+        await instanceGuardService.restoreCaches();
         instanceGuardService.pruneClosedInstancesCache();
+        await instanceGuardService.pruneHistory();
 
         let totalClosed = 0;
         let groupsChecked = 0;
@@ -127,11 +346,27 @@ export const instanceGuardService = {
                 const config = autoModConfigService.getGroupConfig(groupId);
                 const instanceGuardRule = config.rules.find(r => r.type === 'INSTANCE_18_GUARD' && r.enabled);
                 const closeAllRule = config.rules.find(r => r.type === 'CLOSE_ALL_INSTANCES' && r.enabled);
+                const scheduleRule = config.rules.find(r => r.type === 'INSTANCE_SCHEDULE' && r.enabled);
 
-                if (!instanceGuardRule && !closeAllRule) {
+                // A schedule whose window is open right now overrides the static world lists
+                let activeSchedule: InstanceGuardSchedule | null = null;
+                if (scheduleRule) {
+                    const schedules: InstanceGuardSchedule[] = JSON.parse(scheduleRule.config || '{}').schedules || [];
+                    activeSchedule = getActiveSchedule(schedules);
+                }
+
+                const populationRule = config.rules.find(r => r.type === 'INSTANCE_POPULATION' && r.enabled);
+                const populationRules: InstancePopulationRule[] = populationRule ? JSON.parse(populationRule.config || '{}').rules || [] : [];
+
+                if (!instanceGuardRule && !closeAllRule && !activeSchedule && populationRules.length === 0) {
                     continue; // Skip groups without any rule enabled
                 }
 
+                // Optional warn-before-close: closes are announced and carried out after the grace period
+                const graceRule = config.rules.find(r => r.type === 'INSTANCE_CLOSE_GRACE' && r.enabled);
+                const graceConfig: CloseGraceConfig = graceRule ? JSON.parse(graceRule.config || '{}') : {};
+                const graceMs = graceRule ? (graceConfig.graceMinutes ?? DEFAULT_GRACE_MINUTES) * 60 * 1000 : 0;
+
                 groupsChecked++;
 
                 // Get configuration from whichever rule is enabled
@@ -159,6 +394,7 @@ export const instanceGuardService = {
                 }
 
                 const instances = result.data;
+                const seenKeys = new Set<string>();
                 logger.debug(`[InstanceGuard] Checking ${instances.length} instances for group ${groupId}`);
 
                 for (const instance of instances) {
@@ -177,13 +413,14 @@ export const instanceGuardService = {
 
                     // Create a unique key for this instance
                     const instanceKey = `${groupId}:${worldId}:${instanceId}`;
+                    seenKeys.add(instanceKey);
 
                     // Check if this is a NEW instance we haven't seen before
                     const isNewInstance = !knownInstancesCache.has(instanceKey) && !closedInstancesCache.has(instanceKey);
 
                     if (isNewInstance) {
                         // Mark as known
-                        knownInstancesCache.add(instanceKey);
+                        knownInstancesCache.set(instanceKey, Date.now());
 
                         // Fetch owner name if we have an ownerId
                         let ownerName: string | undefined;
@@ -228,15 +465,42 @@ export const instanceGuardService = {
                         continue;
                     }
 
+                    // Population rules: warnings are sent once, closes respect the world whitelist
+                    let populationClose: PopulationMatch | null = null;
+                    if (populationRules.length > 0) {
+                        const metrics = getInstanceMetrics(instance, knownInstancesCache.get(instanceKey) ?? Date.now());
+                        const match = evaluatePopulationRules(populationRules, metrics);
+                        if (match?.rule.action === 'WARN') {
+                            instanceGuardService.warnPopulation(instanceKey, match, {
+                                groupId, worldId, worldName, instanceId, ownerId,
+                                userCount: metrics.userCount, worldThumbnailUrl, worldAuthorName, worldCapacity
+                            });
+                        } else if (match && !whitelistedWorlds.includes(worldId)) {
+                            populationClose = match;
+                        }
+                    }
+
+                    const scheduleDecision = activeSchedule ? evaluateSchedule(activeSchedule, worldId, worldName) : null;
+                    if (scheduleDecision && !scheduleDecision.close && !populationClose) {
+                        logger.debug(`[InstanceGuard] ${worldName} is allowed by schedule "${activeSchedule?.name}"`);
+                        clearPendingClose(instanceKey);
+                        continue;
+                    }
+                    if (!scheduleDecision && !populationClose && !instanceGuardRule && !closeAllRule) {
+                        clearPendingClose(instanceKey);
+                        continue; // Schedule and population rules have no opinion and no static rule is enabled
+                    }
+
                     // Check blacklist first (always close blacklisted worlds)
                     const isBlacklisted = blacklistedWorlds.includes(worldId);
 
                     // Check whitelist (allow whitelisted worlds even if not 18+)
                     const isWhitelisted = whitelistedWorlds.includes(worldId);
 
-                    // Important: Skip ALL processing for whitelisted worlds - they should never be closed
-                    if (isWhitelisted) {
+                    // Important: Skip ALL processing for whitelisted worlds - they should never be closed (unless a schedule says so)
+                    if (isWhitelisted && !scheduleDecision) {
                         logger.info(`[InstanceGuard] SKIPPING whitelisted world: ${worldName} (${worldId}) - will never be closed`);
+                        clearPendingClose(instanceKey);
                         continue; // Skip to next instance
                     }
 
@@ -246,7 +510,7 @@ export const instanceGuardService = {
                     }
 
                     // ALWAYS fetch complete instance data when using 18+ Guard logic
-                    if (useAgeGateLogic && !isBlacklisted) {
+                    if (useAgeGateLogic && !isBlacklisted && !scheduleDecision && !populationClose) {
                         try {
                             logger.debug(`[InstanceGuard] Fetching complete instance data for age gate check: ${worldName}`);
                             const instId = instance.instanceId || instance.name;
@@ -292,7 +556,13 @@ export const instanceGuardService = {
                     const logPrefix = `[InstanceGuard] Checking ${worldName} (${instanceKey}):`;
                     logger.info(`${logPrefix} whitelisted=${isWhitelisted}, blacklisted=${isBlacklisted}, ruleType=${useAgeGateLogic ? '18+ Guard' : 'Close All'}`);
 
-                    if (isBlacklisted) {
+                    if (scheduleDecision?.close) {
+                        shouldClose = true;
+                        closeReason = scheduleDecision.reason || `Closed by schedule "${activeSchedule?.name}"`;
+                    } else if (populationClose) {
+                        shouldClose = true;
+                        closeReason = `Instance population rule: ${populationClose.reason}`;
+                    } else if (isBlacklisted) {
                         shouldClose = true;
                         closeReason = `World "${worldName}" is blacklisted`;
                     } else if (!isWhitelisted) {
@@ -314,6 +584,37 @@ export const instanceGuardService = {
                         }
                     }
 
+                    if (shouldClose && cancelledCloses.has(instanceKey)) {
+                        logger.debug(`[InstanceGuard] Close of ${worldName} was cancelled by a moderator, leaving it open`);
+                        continue;
+                    }
+
+                    const pending = pendingCloses.get(instanceKey);
+                    if (!shouldClose && pending) {
+                        // The instance no longer breaks any rule (e.g. population recovered)
+                        clearPendingClose(instanceKey);
+                    } else if (shouldClose && graceMs > 0) {
+                        if (!pending) {
+                            let ownerName: string | undefined;
+                            if (ownerId && ownerId.startsWith('usr_')) {
+                                const ownerResult = await vrchatApiService.getUser(ownerId).catch(() => null);
+                                ownerName = ownerResult?.success ? ownerResult.data?.displayName : undefined;
+                            }
+                            const now = Date.now();
+                            await instanceGuardService.startPendingClose({
+                                key: instanceKey, groupId, worldId, worldName, instanceId, ownerId, ownerName,
+                                reason: closeReason, createdAt: now, closeAt: now + graceMs
+                            }, graceConfig.notifyOwner !== false, {
+                                wasAgeGated: instance.ageGate === true || instance.world?.ageGate === true,
+                                userCount: instance.n_users || instance.userCount,
+                                worldThumbnailUrl, worldAuthorName, worldCapacity
+                            });
+                            continue;
+                        }
+                        if (Date.now() < pending.closeAt) continue;
+                    }
+                    if (shouldClose) clearPendingClose(instanceKey);
+
                     if (shouldClose) {
                         logger.warn(`[InstanceGuard] Closing instance: ${worldName} (${worldId}:${instanceId}) - Reason: ${closeReason}`);
 
@@ -341,7 +642,9 @@ export const instanceGuardService = {
                                         worldName,
                                         wasAgeGated: instance.ageGate === true || instance.world?.ageGate === true,
                                         wasBlacklisted: isBlacklisted,
-                                        ruleName: '18+ Instance Guard'
+                                        ruleName: scheduleDecision?.close
+                                            ? `Schedule: ${activeSchedule?.name}`
+                                            : populationClose ? `Population: ${populationClose.rule.name}` : '18+ Instance Guard'
                                     },
                                     skipBroadcast: true
                                 });
@@ -381,6 +684,21 @@ export const instanceGuardService = {
 
                                 instanceGuardService.addEvent(eventEntry);
                                 logger.info(`[InstanceGuard] Successfully closed instance: ${worldName}`);
+
+                                discordWebhookService.sendEvent(groupId, {
+                                    title: '🔒 Instance Closed',
+                                    description: `**World**: ${worldName}\n**Reason**: ${closeReason}`,
+                                    type: 'ERROR',
+                                    category: 'INSTANCE_GUARD',
+                                    actor: GROUP_GUARD_ACTOR,
+                                    fields: [
+                                        { name: 'Users', value: String(eventEntry.userCount ?? 0), inline: true },
+                                        { name: 'Owner', value: ownerName || ownerId || 'Unknown', inline: true }
+                                    ],
+                                    world: { id: worldId, name: worldName },
+                                    instance: { id: instanceId },
+                                    reason: closeReason
+                                }).catch(e => logger.error('Webhook failed', e));
                             } else {
                                 // If the close failed, also add to cache to prevent spamming retries
                                 instanceGuardService.markClosed(instanceKey);
@@ -393,6 +711,24 @@ export const instanceGuardService = {
                         }
                     }
                 }
+
+                // Forget pending and cancelled closes and population warnings of instances that ended on their own
+                let pendingChanged = false;
+                for (const key of Array.from(pendingCloses.keys())) {
+                    if (key.startsWith(`${groupId}:`) && !seenKeys.has(key)) {
+                        pendingCloses.delete(key);
+                        pendingChanged = true;
+                    }
+                }
+                for (const key of Array.from(cancelledCloses)) {
+                    if (key.startsWith(`${groupId}:`) && !seenKeys.has(key)) cancelledCloses.delete(key);
+                }
+                // Warning keys are the instance key followed by the rule id
+                const liveKeys = Array.from(seenKeys);
+                for (const key of Array.from(warnedInstancesCache)) {
+                    if (key.startsWith(`${groupId}:`) && !liveKeys.some(k => key.startsWith(`${k}:`))) warnedInstancesCache.delete(key);
+                }
+                if (pendingChanged) broadcastPendingCloses();
             } catch {
                 logger.error(`[InstanceGuard] Error processing group ${groupId}`);
             }
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { evaluatePopulationRules, getInstanceMetrics, type InstancePopulationRule } from './InstancePopulationService';
+
+const rule = (overrides: Partial<InstancePopulationRule> = {}): InstancePopulationRule => ({
+    id: 'pop_1',
+    name: 'Ghost instances',
+    enabled: true,
+    metric: 'USERS',
+    operator: 'LT',
+    value: 2,
+    minAgeMinutes: 30,
+    accessTypes: ['public'],
+    regions: [],
+    action: 'CLOSE',
+    ...overrides,
+});
+
+describe('getInstanceMetrics', () => {
+    it('reads access type and region from the location tags', () => {
+        const metrics = getInstanceMetrics(
+            { n_users: 3, capacity: 40, location: 'wrld_1:123~group(grp_1)~groupAccessType(public)~region(eu)' },
+            0,
+            45 * 60000
+        );
+        expect(metrics).toEqual({ userCount: 3, capacity: 40, accessType: 'public', region: 'eu', ageMinutes: 45 });
+    });
+});
+
+describe('evaluatePopulationRules', () => {
+    const metrics = { userCount: 1, capacity: 40, accessType: 'public', region: 'us', ageMinutes: 45 };
+
+    it('matches near-empty instances after the grace period', () => {
+        expect(evaluatePopulationRules([rule()], metrics)?.rule.id).toBe('pop_1');
+        expect(evaluatePopulationRules([rule()], { ...metrics, ageMinutes: 10 })).toBeNull();
+    });
+
+    it('respects access type and region filters', () => {
+        expect(evaluatePopulationRules([rule()], { ...metrics, accessType: 'members' })).toBeNull();
+        expect(evaluatePopulationRules([rule({ regions: ['eu'] })], metrics)).toBeNull();
+    });
+
+    it('computes capacity percentage and prefers close rules over warnings', () => {
+        const warn = rule({ id: 'warn', metric: 'CAPACITY_PERCENT', operator: 'GTE', value: 90, minAgeMinutes: 0, accessTypes: [], action: 'WARN' });
+        const full = { ...metrics, userCount: 38 };
+        expect(evaluatePopulationRules([warn], full)?.reason).toContain('95% full');
+        expect(evaluatePopulationRules([warn, rule({ value: 50 })], full)?.rule.action).toBe('CLOSE');
+    });
+});
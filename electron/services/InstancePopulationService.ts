@@ -0,0 +1,109 @@
+// ============================================
+// INSTANCE POPULATION RULES - act on user count and capacity of group instances
+// ============================================
+
+export type PopulationMetric = "USERS" | "CAPACITY_PERCENT";
+export type PopulationOperator = "LT" | "GTE";
+export type PopulationAction = "CLOSE" | "WARN";
+
+export interface InstancePopulationRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    metric: PopulationMetric;
+    operator: PopulationOperator;
+    value: number;
+    minAgeMinutes: number; // Grace period after the instance was first seen
+    accessTypes: string[]; // groupAccessType values (public, plus, members), empty = all
+    regions: string[]; // us, use, eu, jp, empty = all
+    action: PopulationAction;
+}
+
+export interface InstanceMetrics {
+    userCount: number;
+    capacity: number | null;
+    accessType: string | null;
+    region: string | null;
+    ageMinutes: number;
+}
+
+export interface PopulationMatch {
+    rule: InstancePopulationRule;
+    reason: string;
+}
+
+const LOCATION_TAG = (tag: string) => new RegExp(`~${tag}\\(([^)]+)\\)`);
+
+/**
+ * Pulls the metrics population rules look at out of a group instance. Access type and region
+ * fall back to the location tags when the API omits the dedicated fields.
+ */
+export const getInstanceMetrics = (
+    instance: { n_users?: number; userCount?: number; capacity?: number; world?: { capacity?: number }; groupAccessType?: string; region?: unknown; location?: string },
+    firstSeenAt: number,
+    now: number = Date.now()
+): InstanceMetrics => {
+    const location = instance.location || "";
+    const region = typeof instance.region === "string" ? instance.region : LOCATION_TAG("region").exec(location)?.[1];
+    return {
+        userCount: instance.n_users ?? instance.userCount ?? 0,
+        capacity: instance.capacity || instance.world?.capacity || null,
+        accessType: instance.groupAccessType || LOCATION_TAG("groupAccessType").exec(location)?.[1] || null,
+        region: region || null,
+        ageMinutes: Math.max(0, (now - firstSeenAt) / 60000),
+    };
+};
+
+const describeRule = (rule: InstancePopulationRule, actual: number): string => {
+    const comparison = rule.operator === "LT" ? "below" : "at or above";
+    return rule.metric === "USERS"
+        ? `${actual} users, ${comparison} ${rule.value} (${rule.name})`
+        : `${actual}% full, ${comparison} ${rule.value}% (${rule.name})`;
+};
+
+/**
+ * Returns the first enabled rule the instance matches. CLOSE rules are checked before WARN
+ * rules so a warning never hides a close.
+ */
+export const evaluatePopulationRules = (rules: InstancePopulationRule[], metrics: InstanceMetrics): PopulationMatch | null => {
+    const ordered = [...rules].sort((a, b) => (a.action === b.action ? 0 : a.action === "CLOSE" ? -1 : 1));
+
+    for (const rule of ordered) {
+        if (!rule.enabled) continue;
+        if (metrics.ageMinutes < (rule.minAgeMinutes || 0)) continue;
+        if (rule.accessTypes.length > 0 && (!metrics.accessType || !rule.accessTypes.includes(metrics.accessType))) continue;
+        if (rule.regions.length > 0 && (!metrics.region || !rule.regions.includes(metrics.region))) continue;
+
+        let actual: number;
+        if (rule.metric === "USERS") {
+            actual = metrics.userCount;
+        } else {
+            if (!metrics.capacity) continue;
+            actual = Math.round((metrics.userCount / metrics.capacity) * 100);
+        }
+
+        const matches = rule.operator === "LT" ? actual < rule.value : actual >= rule.value;
+        if (matches) return { rule, reason: describeRule(rule, actual) };
+    }
+    return null;
+};
+
+/**
+ * Returns human-readable problems with a population rule list, empty when it can be saved.
+ */
+export const validatePopulationRules = (rules: InstancePopulationRule[]): string[] => {
+    const errors: string[] = [];
+    for (const rule of rules) {
+        const label = rule.name?.trim() || "Unnamed rule";
+        const problems: string[] = [];
+        if (!rule.name?.trim()) problems.push("name is required");
+        if (rule.metric !== "USERS" && rule.metric !== "CAPACITY_PERCENT") problems.push("unknown metric");
+        if (rule.operator !== "LT" && rule.operator !== "GTE") problems.push("unknown operator");
+        if (rule.action !== "CLOSE" && rule.action !== "WARN") problems.push("unknown action");
+        if (typeof rule.value !== "number" || !Number.isFinite(rule.value) || rule.value < 0) problems.push("value must be a positive number");
+        else if (rule.metric === "CAPACITY_PERCENT" && rule.value > 100) problems.push("capacity percentage cannot exceed 100");
+        if (typeof rule.minAgeMinutes !== "number" || rule.minAgeMinutes < 0) problems.push("minimum age must be zero or more minutes");
+        if (problems.length > 0) errors.push(`${label}: ${problems.join(", ")}`);
+    }
+    return errors;
+};
@@ -12,12 +12,14 @@ import { ipcMain } from 'electron';
 import log from 'electron-log';
 const logger = log.scope('InstanceService');
 
-import { getVRChatClient, getCurrentUserId } from './AuthService';
+import { getVRChatClient, getCurrentUserId, getCurrentActor } from './AuthService';
 import { instanceLoggerService } from './InstanceLoggerService';
 import { logWatcherService } from './LogWatcherService';
 import { groupAuthorizationService } from './GroupAuthorizationService';
 import { networkService } from './NetworkService';
-import { discordWebhookService } from './DiscordWebhookService';
+import { discordWebhookService, GROUP_GUARD_ACTOR, WebhookEventData } from './DiscordWebhookService';
+import { serviceEventBus } from './ServiceEventBus';
+import { watchlistMonitorService } from './WatchlistMonitorService';
 
 import {
     clearRecruitmentCache,
@@ -41,6 +43,132 @@ export { clearRecruitmentCache };
 // Re-export LiveEntity type
 export type { LiveEntity };
 
+// ============================================
+// MODERATION ACTIONS
+// ============================================
+
+// Where a kick happened, as context for webhook embed templates
+const getKickContext = (userId: string, actor: WebhookEventData['actor']) => {
+    const worldId = instanceLoggerService.getCurrentWorldId();
+    const instanceId = instanceLoggerService.getCurrentInstanceId();
+    const player = logWatcherService.getPlayers().find(p => p.userId === userId);
+    return {
+        targetUser: { displayName: player?.displayName || userId, id: userId },
+        actor,
+        world: worldId ? { id: worldId, name: instanceLoggerService.getCurrentWorldName() || worldId } : undefined,
+        instance: instanceId ? { id: instanceId } : undefined
+    };
+};
+
+/**
+ * Kick a user from the current group instance. Shared by the IPC handler and flag auto-actions,
+ * the actor defaults to the logged in user.
+ */
+export async function kickUserFromInstance(groupId: string, userId: string, actor: WebhookEventData['actor'] = getCurrentActor()): Promise<{ success: boolean; error?: string }> {
+    const client = getVRChatClient();
+    if (!client) return { success: false, error: "Not authenticated" };
+
+    return networkService.execute(async () => {
+        logger.info(`[InstanceService] Kicking ${userId} from group ${groupId} (Ban + Unban sequence)`);
+
+        try {
+            // Strategy 1: Native Kick API
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            if (typeof (client as any).kickGroupMember === 'function') {
+                logger.info(`[InstanceService] Attempting native kick for ${userId}...`);
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const result = await (client as any).kickGroupMember({
+                    path: { groupId, userId }
+                });
+
+                if (result.error) throw result.error;
+                logger.info(`[InstanceService] Successfully kicked ${userId} using native API`);
+
+                // Webhook for native kick
+                // Webhook for native kick
+                discordWebhookService.sendEvent(
+                    groupId,
+                    {
+                        title: '🥾 User Kicked',
+                        description: `User ${userId} was kicked from the instance.`,
+                        type: 'WARNING',
+                        category: 'KICK',
+                        fields: [
+                            { name: 'User', value: `[${userId}](https://vrchat.com/home/user/${userId})`, inline: true },
+                            { name: 'Method', value: 'Native API', inline: true },
+                            { name: 'Instance', value: instanceLoggerService.getCurrentInstanceId() || 'Unknown', inline: false }
+                        ],
+                        ...getKickContext(userId, actor)
+                    }
+                ).catch(e => logger.error('Webhook failed', e));
+
+                return { success: true };
+            }
+
+            throw new Error('Native kick method missing, falling back to legacy sequence');
+
+        } catch (nativeError) {
+            logger.warn(`[InstanceService] Native kick failed (${(nativeError as Error).message}), falling back to Ban+Unban sequence`);
+
+            // Strategy 2: Legacy Ban + Unban Sequence
+
+            // 1. BAN (Remove from group)
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const banResult = await (client as any).banGroupMember({
+                path: { groupId },
+                body: { userId }
+            });
+
+            if (banResult.error) throw new Error(`Kick failed (Ban stage): ${(banResult.error as { message?: string }).message}`);
+
+            // 2. WAIT (Short delay to ensure consistency)
+            await new Promise(r => setTimeout(r, 500));
+
+            // 3. UNBAN (Clear the ban so they can rejoin if they want, effective 'Kick')
+            try {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                await (client as any).unbanGroupMember({ path: { groupId, userId } });
+                logger.info(`[InstanceService] Unban complete for ${userId} (Kick sequence finished)`);
+            } catch (e) {
+                logger.warn(`[InstanceService] Failed to cleanup ban for ${userId} during kick. User remains banned.`, e);
+            }
+
+            // Webhook for legacy kick
+            // Webhook for legacy kick
+            discordWebhookService.sendEvent(
+                groupId,
+                {
+                    title: '🥾 User Kicked',
+                    description: `User ${userId} was kicked from the instance (Soft Kick).`,
+                    type: 'WARNING',
+                    category: 'KICK',
+                    fields: [
+                        { name: 'User', value: `[${userId}](https://vrchat.com/home/user/${userId})`, inline: true },
+                        { name: 'Method', value: 'Ban+Unban Sequence', inline: true },
+                        { name: 'Instance', value: instanceLoggerService.getCurrentInstanceId() || 'Unknown', inline: false }
+                    ],
+                    ...getKickContext(userId, actor)
+                }
+            ).catch(e => logger.error('Webhook failed', e));
+
+            return { success: true };
+        }
+    }, `instance:kick-user:${userId}`).then(res => {
+        if (res.success) {
+            serviceEventBus.emit('moderation-action', {
+                groupId,
+                userId,
+                source: 'KICK',
+                action: 'KICK',
+                reason: 'Kicked from instance',
+                timestamp: new Date().toISOString()
+            });
+            return { success: true };
+        }
+        return { success: false, error: res.error };
+    });
+}
+
 // ============================================
 // IPC HANDLERS
 // ============================================
@@ -48,6 +176,14 @@ export type { LiveEntity };
 export function setupInstanceHandlers() {
     logger.info('Setting up Instance handlers...');
 
+    // Player flags with a KICK consequence, raised by PlayerFlagService
+    serviceEventBus.on('player-flag-action', ({ groupId, userId, flagLabel }) => {
+        logger.info(`[InstanceService] Auto-kicking ${userId} flagged "${flagLabel}"`);
+        kickUserFromInstance(groupId, userId, GROUP_GUARD_ACTOR)
+            .then(res => { if (!res.success) logger.warn(`[InstanceService] Flag auto-kick failed for ${userId}: ${res.error}`); })
+            .catch(e => logger.error('Flag auto-kick failed', e));
+    });
+
     // SCAN SECTOR
     ipcMain.handle('instance:scan-sector', async (_event, { groupId }: { groupId?: string }) => {
         try {
@@ -56,6 +192,8 @@ export function setupInstanceHandlers() {
                 logger.info(`[InstanceService] scan-sector found ${players.length} players from LogWatcher.`);
             }
 
+            watchlistMonitorService.checkPlayers(players, groupId);
+
             const results: LiveEntity[] = [];
 
             for (const p of players) {
@@ -169,10 +307,12 @@ export function setupInstanceHandlers() {
                     title: '🔓 Member Unbanned',
                     description: `User ${userId} was unbanned from the group.`,
                     type: 'SUCCESS',
+                    category: 'BAN',
                     fields: [
                         { name: 'User', value: `[${userId}](https://vrchat.com/home/user/${userId})`, inline: true },
                         { name: 'Admin', value: getCurrentUserId() || 'Unknown', inline: true }
-                    ]
+                    ],
+                    actor: getCurrentActor()
                 }
             );
 
@@ -195,94 +335,7 @@ export function setupInstanceHandlers() {
         const authCheck = groupAuthorizationService.validateAccessSafe(groupId, 'instance:kick-user');
         if (!authCheck.allowed) return { success: false, error: authCheck.error };
 
-        const client = getVRChatClient();
-        if (!client) return { success: false, error: "Not authenticated" };
-
-        return networkService.execute(async () => {
-            logger.info(`[InstanceService] Kicking ${userId} from group ${groupId} (Ban + Unban sequence)`);
-
-            try {
-                // Strategy 1: Native Kick API
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                if (typeof (client as any).kickGroupMember === 'function') {
-                    logger.info(`[InstanceService] Attempting native kick for ${userId}...`);
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    const result = await (client as any).kickGroupMember({
-                        path: { groupId, userId }
-                    });
-
-                    if (result.error) throw result.error;
-                    logger.info(`[InstanceService] Successfully kicked ${userId} using native API`);
-
-                    // Webhook for native kick
-                    // Webhook for native kick
-                    discordWebhookService.sendEvent(
-                        groupId,
-                        {
-                            title: '🥾 User Kicked',
-                            description: `User ${userId} was kicked from the instance.`,
-                            type: 'WARNING',
-                            fields: [
-                                { name: 'User', value: `[${userId}](https://vrchat.com/home/user/${userId})`, inline: true },
-                                { name: 'Method', value: 'Native API', inline: true },
-                                { name: 'Instance', value: instanceLoggerService.getCurrentInstanceId() || 'Unknown', inline: false }
-                            ]
-                        }
-                    ).catch(e => logger.error('Webhook failed', e));
-
-                    return { success: true };
-                }
-
-                throw new Error('Native kick method missing, falling back to legacy sequence');
-
-            } catch (nativeError) {
-                logger.warn(`[InstanceService] Native kick failed (${(nativeError as Error).message}), falling back to Ban+Unban sequence`);
-
-                // Strategy 2: Legacy Ban + Unban Sequence
-
-                // 1. BAN (Remove from group)
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const banResult = await (client as any).banGroupMember({
-                    path: { groupId },
-                    body: { userId }
-                });
-
-                if (banResult.error) throw new Error(`Kick failed (Ban stage): ${(banResult.error as { message?: string }).message}`);
-
-                // 2. WAIT (Short delay to ensure consistency)
-                await new Promise(r => setTimeout(r, 500));
-
-                // 3. UNBAN (Clear the ban so they can rejoin if they want, effective 'Kick')
-                try {
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    await (client as any).unbanGroupMember({ path: { groupId, userId } });
-                    logger.info(`[InstanceService] Unban complete for ${userId} (Kick sequence finished)`);
-                } catch (e) {
-                    logger.warn(`[InstanceService] Failed to cleanup ban for ${userId} during kick. User remains banned.`, e);
-                }
-
-                // Webhook for legacy kick
-                // Webhook for legacy kick
-                discordWebhookService.sendEvent(
-                    groupId,
-                    {
-                        title: '🥾 User Kicked',
-                        description: `User ${userId} was kicked from the instance (Soft Kick).`,
-                        type: 'WARNING',
-                        fields: [
-                            { name: 'User', value: `[${userId}](https://vrchat.com/home/user/${userId})`, inline: true },
-                            { name: 'Method', value: 'Ban+Unban Sequence', inline: true },
-                            { name: 'Instance', value: instanceLoggerService.getCurrentInstanceId() || 'Unknown', inline: false }
-                        ]
-                    }
-                ).catch(e => logger.error('Webhook failed', e));
-
-                return { success: true };
-            }
-        }, `instance:kick-user:${userId}`).then(res => {
-            if (res.success) return { success: true };
-            return { success: false, error: res.error };
-        });
+        return kickUserFromInstance(groupId, userId);
     });
 
     // CLOSE INSTANCE - Using SDK closeInstance method
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+vi.mock('./ServiceEventBus', () => ({ serviceEventBus: { on: vi.fn() } }));
+vi.mock('./LogWatcherService', () => ({ logWatcherService: { on: vi.fn() } }));
+vi.mock('./GroupAuthorizationService', () => ({ groupAuthorizationService: { isGroupAllowed: () => true } }));
+vi.mock('./DiscordWebhookService', () => ({ discordWebhookService: { sendEvent: vi.fn() } }));
+
+import { buildJoinLeaveSummary, type JoinLeaveVisit } from './JoinLeaveSummaryService';
+
+const visit = (joined: [string, string][], left: [string, string][]): JoinLeaveVisit => ({
+    groupId: 'grp_1',
+    worldId: 'wrld_1',
+    instanceId: '1~group(grp_1)',
+    worldName: 'The Great Pug',
+    startedAt: 0,
+    joined: new Map(joined),
+    left: new Map(left)
+});
+
+describe('buildJoinLeaveSummary', () => {
+    it('lists who joined and left during the visit', () => {
+        const summary = buildJoinLeaveSummary(visit([['usr_a', 'Alice'], ['usr_b', 'Bob']], [['usr_b', 'Bob']]), 45 * 60000);
+        expect(summary).toMatchObject({
+            category: 'JOIN_LEAVE',
+            description: '**World**: The Great Pug\n2 joined and 1 left over 45 min',
+            fields: [
+                { name: 'Joined (2)', value: 'Alice, Bob' },
+                { name: 'Left (1)', value: 'Bob' }
+            ]
+        });
+    });
+
+    it('counts names past the field limit', () => {
+        const joined = Array.from({ length: 25 }, (_, i): [string, string] => [`usr_${i}`, `P${i}`]);
+        const summary = buildJoinLeaveSummary(visit(joined, []), 60000);
+        expect(summary?.fields).toHaveLength(1);
+        expect(summary?.fields?.[0].value).toMatch(/P19 …and 5 more$/);
+    });
+
+    it('skips visits where nobody came or went', () => {
+        expect(buildJoinLeaveSummary(visit([], []), 60000)).toBeNull();
+    });
+});
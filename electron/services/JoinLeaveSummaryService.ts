@@ -0,0 +1,108 @@
+import log from 'electron-log';
+import { serviceEventBus } from './ServiceEventBus';
+import { logWatcherService, LocationEvent, PlayerJoinedEvent } from './LogWatcherService';
+import { groupAuthorizationService } from './GroupAuthorizationService';
+import { discordWebhookService, WebhookEventData } from './DiscordWebhookService';
+
+const logger = log.scope('JoinLeaveSummaryService');
+
+// Names listed per field, the rest are counted
+const MAX_NAMES = 20;
+
+const GROUP_LOCATION = /~group\((grp_[a-zA-Z0-9_-]+)\)/i;
+
+/**
+ * One stay in a group instance. Players are keyed by user ID when the log has one, so a
+ * rejoin under the same name counts once.
+ */
+export interface JoinLeaveVisit {
+    groupId: string;
+    worldId: string;
+    instanceId: string;
+    worldName?: string;
+    startedAt: number;
+    joined: Map<string, string>;
+    left: Map<string, string>;
+}
+
+const listNames = (names: string[]) => names.length > MAX_NAMES
+    ? `${names.slice(0, MAX_NAMES).join(', ')} …and ${names.length - MAX_NAMES} more`
+    : names.join(', ');
+
+/**
+ * The webhook event for a finished visit, or null when nobody came or went.
+ */
+export const buildJoinLeaveSummary = (visit: JoinLeaveVisit, endedAt: number): WebhookEventData | null => {
+    if (visit.joined.size === 0 && visit.left.size === 0) return null;
+
+    const joined = Array.from(visit.joined.values());
+    const left = Array.from(visit.left.values());
+    const minutes = Math.max(1, Math.round((endedAt - visit.startedAt) / 60000));
+    const worldName = visit.worldName || visit.worldId;
+
+    return {
+        title: '👥 Instance Join/Leave Summary',
+        description: `**World**: ${worldName}\n${joined.length} joined and ${left.length} left over ${minutes} min`,
+        type: 'INFO',
+        category: 'JOIN_LEAVE',
+        fields: [
+            ...(joined.length > 0 ? [{ name: `Joined (${joined.length})`, value: listNames(joined), inline: false }] : []),
+            ...(left.length > 0 ? [{ name: `Left (${left.length})`, value: listNames(left), inline: false }] : [])
+        ],
+        world: { id: visit.worldId, name: worldName },
+        instance: { id: visit.instanceId }
+    };
+};
+
+class JoinLeaveSummaryService {
+    private visit: JoinLeaveVisit | null = null;
+
+    public initialize() {
+        logger.info('Initializing JoinLeaveSummaryService');
+
+        logWatcherService.on('location', (event: LocationEvent) => {
+            this.flush();
+            this.start(event);
+        });
+        logWatcherService.on('world-name', (event: { name: string }) => {
+            if (this.visit) this.visit.worldName = event.name;
+        });
+        logWatcherService.on('game-closed', () => this.flush());
+
+        serviceEventBus.on('player-joined', (event: PlayerJoinedEvent) => this.record('joined', event));
+        serviceEventBus.on('player-left', (event: PlayerJoinedEvent) => this.record('left', event));
+    }
+
+    private start(event: LocationEvent) {
+        const groupId = event.location?.match(GROUP_LOCATION)?.[1].toLowerCase();
+        if (!groupId || !groupAuthorizationService.isGroupAllowed(groupId)) return;
+
+        this.visit = {
+            groupId,
+            worldId: event.worldId,
+            instanceId: event.instanceId || '',
+            worldName: event.worldName,
+            startedAt: Date.now(),
+            joined: new Map(),
+            left: new Map()
+        };
+    }
+
+    private record(kind: 'joined' | 'left', event: PlayerJoinedEvent) {
+        if (!this.visit || event.isBackfill) return;
+        this.visit[kind].set(event.userId || event.displayName, event.displayName);
+    }
+
+    // Post the summary of the visit that just ended
+    private flush() {
+        const visit = this.visit;
+        this.visit = null;
+        if (!visit) return;
+
+        const summary = buildJoinLeaveSummary(visit, Date.now());
+        if (!summary) return;
+        discordWebhookService.sendEvent(visit.groupId, summary).catch(e => logger.error('Webhook failed', e));
+    }
+}
+
+export const joinLeaveSummaryService = new JoinLeaveSummaryService();
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { keywordMatchService, normalizeText } from './KeywordMatchService';
+
+describe('KeywordMatchService', () => {
+
+    it('folds leetspeak, homoglyphs, zero-width characters and repeated letters', () => {
+        expect(normalizeText('h4te')).toBe('hate');
+        expect(normalizeText('HAAATE')).toBe('hate');
+        expect(normalizeText('h\u200Bate')).toBe('hate'); // Zero-width space
+        expect(normalizeText('hаte')).toBe('hate'); // Cyrillic a
+        expect(normalizeText('ｈａｔｅ')).toBe('hate'); // Fullwidth
+        expect(normalizeText('häte')).toBe('hate'); // Diacritic
+    });
+
+    it('matches evasions in NORMALIZED mode but not in PARTIAL mode', () => {
+        const normalized = keywordMatchService.createMatcher('hate', 'NORMALIZED')!;
+        const partial = keywordMatchService.createMatcher('hate', 'PARTIAL')!;
+
+        expect(normalized('I h4aate everyone')).toBe(true);
+        expect(partial('I h4aate everyone')).toBe(false);
+        expect(normalized('I love everyone')).toBe(false);
+    });
+
+    it('does not match inside other words in NORMALIZED mode', () => {
+        const matcher = keywordMatchService.createMatcher('ass', 'NORMALIZED')!;
+        expect(matcher('it was fine')).toBe(false);
+        expect(matcher('she has one')).toBe(false);
+        expect(matcher('first class')).toBe(false);
+        expect(matcher('you @$$')).toBe(true);
+        expect(matcher('you aaasss')).toBe(true);
+        expect(matcher('you as')).toBe(false);
+        expect(keywordMatchService.createMatcher('hate', 'NORMALIZED')!('I hate!')).toBe(true);
+    });
+
+    it('respects word boundaries in WHOLE_WORD mode', () => {
+        const matcher = keywordMatchService.createMatcher('bad', 'WHOLE_WORD')!;
+        expect(matcher('so bad')).toBe(true);
+        expect(matcher('badger')).toBe(false);
+    });
+
+    it('compiles REGEX keywords and reports invalid patterns', () => {
+        const matcher = keywordMatchService.createMatcher('^free\\s*robux', 'REGEX')!;
+        expect(matcher('FREE robux here')).toBe(true);
+        expect(matcher('get free robux')).toBe(false);
+
+        expect(keywordMatchService.validate('(unclosed', 'REGEX')).toBeTruthy();
+        expect(keywordMatchService.createMatcher('(unclosed', 'REGEX')).toBeNull();
+        expect(keywordMatchService.validate('(unclosed', 'PARTIAL')).toBeNull();
+    });
+});
@@ -0,0 +1,122 @@
+// ============================================
+// KEYWORD MATCHING - shared by KEYWORD_BLOCK rules and KEYWORD conditions
+// ============================================
+
+export type KeywordMatchMode = "PARTIAL" | "WHOLE_WORD" | "REGEX" | "NORMALIZED";
+
+export type KeywordMatcher = (text: string) => boolean;
+
+const MAX_PATTERN_LENGTH = 300;
+
+// Zero-width and invisible formatting characters commonly inserted to split words (combining marks are stripped separately)
+const INVISIBLE_CHARS = /[\u00AD\u061C\u115F\u1160\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\u206A-\u206F\u3164\uFEFF\uFFA0]/g;
+const COMBINING_MARKS = /\p{M}/gu;
+
+// Cyrillic / Greek / misc lookalikes that NFKC does not fold to Latin
+const CONFUSABLES: Record<string, string> = {
+    "а": "a", "в": "b", "с": "c", "ԁ": "d", "е": "e", "ё": "e", "һ": "h", "н": "h", "і": "i", "ї": "i",
+    "ј": "j", "к": "k", "ӏ": "l", "м": "m", "п": "n", "о": "o", "р": "p", "ԛ": "q", "г": "r", "ѕ": "s",
+    "т": "t", "ц": "u", "ѵ": "v", "ԝ": "w", "х": "x", "у": "y", "з": "3",
+    "α": "a", "β": "b", "ϲ": "c", "ε": "e", "η": "n", "ι": "i", "κ": "k", "ν": "v", "ο": "o", "ρ": "p",
+    "τ": "t", "υ": "u", "χ": "x", "γ": "y", "ω": "w",
+    "ɑ": "a", "ɡ": "g", "ı": "i", "ȷ": "j", "ℓ": "l", "ø": "o", "ß": "ss", "æ": "ae", "œ": "oe",
+};
+
+const LEETSPEAK: Record<string, string> = {
+    "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "6": "g", "7": "t", "8": "b", "9": "g",
+    "@": "a", "$": "s", "!": "i", "|": "l", "€": "e", "£": "l", "¥": "y",
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Folds homoglyphs, leetspeak, diacritics and invisible characters, keeping repeated letters.
+// With symbolsAsPunctuation, "@", "$", "!" and friends stay separators so "hate!" still ends a word.
+const foldText = (text: string, symbolsAsPunctuation = false): string => {
+    const folded = text
+        .normalize("NFKD")
+        .replace(INVISIBLE_CHARS, "")
+        .replace(COMBINING_MARKS, "")
+        .toLowerCase();
+
+    let result = "";
+    for (const char of folded) {
+        if (symbolsAsPunctuation && LEETSPEAK[char] && !/[0-9]/.test(char)) result += " ";
+        else result += CONFUSABLES[char] ?? LEETSPEAK[char] ?? char;
+    }
+    return result;
+};
+
+/**
+ * Folds text into a canonical form so evasions like "n1gg", "ｈａｔｅ", "hаte" (Cyrillic а)
+ * or "haaaate" compare equal to the plain keyword.
+ */
+export const normalizeText = (text: string): string => {
+    let result = "";
+    for (const char of foldText(text)) {
+        // Collapse repeated letters ("haaate" -> "hate")
+        if (result.length > 0 && result[result.length - 1] === char) continue;
+        result += char;
+    }
+    return result;
+};
+
+/**
+ * Pattern for a NORMALIZED keyword, matched against folded text. Each run of a letter may be
+ * stretched but not shortened, so "ass" matches "aaasss" but not "was", and the keyword has to
+ * stand as a whole word so "class" does not match either.
+ */
+const buildNormalizedPattern = (keyword: string): RegExp => {
+    const folded = foldText(keyword);
+    let pattern = "";
+    for (let i = 0; i < folded.length;) {
+        let end = i + 1;
+        while (end < folded.length && folded[end] === folded[i]) end++;
+        pattern += `${escapeRegExp(folded[i])}{${end - i},}`;
+        i = end;
+    }
+    return new RegExp(`(?<![\\p{L}\\p{N}])${pattern}(?![\\p{L}\\p{N}])`, "u");
+};
+
+export const keywordMatchService = {
+    /**
+     * Returns a problem description for a keyword in the given mode, or null when it can be used.
+     */
+    validate: (keyword: string, mode: KeywordMatchMode): string | null => {
+        if (mode !== "REGEX") return null;
+        if (keyword.length > MAX_PATTERN_LENGTH) return `Pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+        try {
+            new RegExp(keyword, "iu");
+            return null;
+        } catch (e) {
+            return e instanceof Error ? e.message : String(e);
+        }
+    },
+
+    /**
+     * Builds a matcher for a single keyword. Returns null for empty keywords and invalid patterns.
+     */
+    createMatcher: (keyword: string, mode: KeywordMatchMode = "PARTIAL"): KeywordMatcher | null => {
+        const kw = mode === "REGEX" ? keyword : keyword.trim();
+        if (!kw.trim()) return null;
+
+        switch (mode) {
+            case "REGEX": {
+                if (keywordMatchService.validate(kw, mode)) return null;
+                const regex = new RegExp(kw, "iu");
+                return (text) => regex.test(text);
+            }
+            case "NORMALIZED": {
+                const regex = buildNormalizedPattern(kw);
+                return (text) => regex.test(foldText(text)) || regex.test(foldText(text, true));
+            }
+            case "WHOLE_WORD": {
+                const regex = new RegExp(`\\b${escapeRegExp(kw)}\\b`, "i");
+                return (text) => regex.test(text);
+            }
+            default: {
+                const lower = kw.toLowerCase();
+                return (text) => text.toLowerCase().includes(lower);
+            }
+        }
+    },
+};
@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('electron', () => ({ app: { getPath: () => '/tmp' } }));
+vi.mock('./VRChatApiService', () => ({ vrchatApiService: {} }));
+vi.mock('./AuthService', () => ({ getVRChatClient: vi.fn(), getCurrentUserId: vi.fn() }));
+vi.mock('./GroupAuthorizationService', () => ({ groupAuthorizationService: {} }));
+vi.mock('./AutoModConfigService', () => ({ autoModConfigService: {} }));
+vi.mock('./InstanceGuardService', () => ({ instanceGuardService: {} }));
+vi.mock('./DatabaseService', () => ({ databaseService: {} }));
+vi.mock('./WindowService', () => ({ windowService: {} }));
+vi.mock('./AuditPolicyService', () => ({ auditPolicyService: {}, matchAuditPolicies: vi.fn() }));
+
+import { isAuditLogProcessed, markAuditLogProcessed } from './PermissionGuardService';
+
+describe('processed audit log IDs', () => {
+    it('keeps each group\'s latest page when many groups are polled', () => {
+        for (let g = 0; g < 12; g++) {
+            for (let i = 0; i < 100; i++) markAuditLogProcessed(`grp_${g}`, `gaud_${i}`);
+        }
+        expect(isAuditLogProcessed('grp_0', 'gaud_0')).toBe(true);
+        expect(isAuditLogProcessed('grp_0', 'gaud_99')).toBe(true);
+        expect(isAuditLogProcessed('grp_1', 'gaud_missing')).toBe(false);
+    });
+
+    it('forgets a group\'s oldest IDs past the per-group cap', () => {
+        for (let i = 0; i < 501; i++) markAuditLogProcessed('grp_busy', `gaud_${i}`);
+        expect(isAuditLogProcessed('grp_busy', 'gaud_0')).toBe(false);
+        expect(isAuditLogProcessed('grp_busy', 'gaud_1')).toBe(true);
+        expect(isAuditLogProcessed('grp_busy', 'gaud_500')).toBe(true);
+    });
+});
@@ -4,12 +4,13 @@ import fs from "fs";
 import { app } from "electron";
 import { LRUCache } from "lru-cache";
 import { vrchatApiService, VRCGroupRole } from "./VRChatApiService";
-import { getVRChatClient } from "./AuthService";
+import { getVRChatClient, getCurrentUserId } from "./AuthService";
 import { groupAuthorizationService } from "./GroupAuthorizationService";
 import { autoModConfigService } from "./AutoModConfigService";
 import { instanceGuardService, InstanceGuardEvent } from "./InstanceGuardService";
 import { databaseService } from "./DatabaseService";
 import { windowService } from "./WindowService";
+import { auditPolicyService, matchAuditPolicies, AuditPolicy } from "./AuditPolicyService";
 
 const logger = log.scope("PermissionGuardService");
 
@@ -20,14 +21,19 @@ const INSTANCE_CREATE_PERMISSIONS = [
     "group-instance-restricted-create"
 ];
 
-// Cache for processed audit logs
-const processedAuditLogIds = new Set<string>();
-const PROCESSED_AUDIT_LOG_CACHE_SIZE = 1000;
+// Processed audit log IDs per group, oldest first. The cap stays well above the policy page size
+// so entries still on the latest page are never forgotten and enforced twice.
+const processedAuditLogIds = new Map<string, Set<string>>();
+const PROCESSED_AUDIT_LOGS_PER_GROUP = 500;
 
 // Persistence file
 const PROCESSED_LOGS_FILE = path.join(app.getPath('userData'), 'permission-guard-processed-logs.json');
 let processedLogsLoaded = false;
 
+// Policies need the full page so role edits are not pushed out by joins and leaves
+const INSTANCE_GUARD_AUDIT_LOG_COUNT = 20;
+const POLICY_AUDIT_LOG_COUNT = 100;
+
 // Rate limit backoff
 let permissionGuardPausedUntil = 0;
 const RATE_LIMIT_PAUSE_MS = 30 * 60 * 1000; // 30 minutes
@@ -65,13 +71,34 @@ const persistAction = async (entry: {
     }
 };
 
+export const isAuditLogProcessed = (groupId: string, logId: string): boolean =>
+    processedAuditLogIds.get(groupId)?.has(logId) === true;
+
+export const markAuditLogProcessed = (groupId: string, logId: string) => {
+    let ids = processedAuditLogIds.get(groupId);
+    if (!ids) {
+        ids = new Set<string>();
+        processedAuditLogIds.set(groupId, ids);
+    }
+    ids.add(logId);
+    // Sets iterate in insertion order, drop the oldest
+    for (const id of Array.from(ids)) {
+        if (ids.size <= PROCESSED_AUDIT_LOGS_PER_GROUP) break;
+        ids.delete(id);
+    }
+};
+
 const loadProcessedAuditLogs = () => {
     if (processedLogsLoaded) return;
     try {
         if (fs.existsSync(PROCESSED_LOGS_FILE)) {
             const data = JSON.parse(fs.readFileSync(PROCESSED_LOGS_FILE, 'utf-8'));
             if (Array.isArray(data)) {
-                data.forEach(id => processedAuditLogIds.add(id));
+                // Stored as "groupId:logId"
+                data.forEach((key: string) => {
+                    const separator = key.indexOf(':');
+                    if (separator > 0) markAuditLogProcessed(key.slice(0, separator), key.slice(separator + 1));
+                });
                 logger.debug(`[PermissionGuard] Loaded ${data.length} processed log IDs from disk`);
             }
         }
@@ -83,20 +110,14 @@ const loadProcessedAuditLogs = () => {
 
 const saveProcessedAuditLogs = () => {
     try {
-        const entries = Array.from(processedAuditLogIds).slice(-PROCESSED_AUDIT_LOG_CACHE_SIZE);
+        const entries: string[] = [];
+        processedAuditLogIds.forEach((ids, groupId) => ids.forEach(id => entries.push(`${groupId}:${id}`)));
         fs.writeFileSync(PROCESSED_LOGS_FILE, JSON.stringify(entries), 'utf-8');
     } catch (err) {
         logger.warn(`[PermissionGuard] Failed to save processed logs to disk:`, err);
     }
 };
 
-const pruneProcessedAuditLogs = () => {
-    if (processedAuditLogIds.size > PROCESSED_AUDIT_LOG_CACHE_SIZE) {
-        const entries = Array.from(processedAuditLogIds);
-        entries.slice(0, PROCESSED_AUDIT_LOG_CACHE_SIZE / 2).forEach(e => processedAuditLogIds.delete(e));
-    }
-};
-
 export const permissionGuardService = {
     checkPermissions: async (): Promise<{
         totalClosed: number;
@@ -157,15 +178,19 @@ export const permissionGuardService = {
 
         for (const groupId of authorizedGroups) {
             try {
-                // Check if INSTANCE_PERMISSION_GUARD is enabled
+                // Check if INSTANCE_PERMISSION_GUARD or audit log policies are enabled
                 const config = autoModConfigService.getGroupConfig(groupId);
                 const sniperRule = config.rules.find(r => r.type === 'INSTANCE_PERMISSION_GUARD' && r.enabled);
+                const policyRule = config.rules.find(r => r.type === 'AUDIT_POLICIES' && r.enabled);
+                const policies: AuditPolicy[] = policyRule
+                    ? (JSON.parse(policyRule.config || '{}').policies || []).filter((p: AuditPolicy) => p.enabled)
+                    : [];
 
-                if (!sniperRule) continue;
+                if (!sniperRule && policies.length === 0) continue;
                 groupsChecked++;
 
                 // 1. Fetch Audit Logs
-                const logsResult = await vrchatApiService.getGroupAuditLogs(groupId, 20);
+                const logsResult = await vrchatApiService.getGroupAuditLogs(groupId, policies.length > 0 ? POLICY_AUDIT_LOG_COUNT : INSTANCE_GUARD_AUDIT_LOG_COUNT);
                 if (!logsResult.success || !logsResult.data) {
                     // Check for 429 rate limit
                     if (logsResult.error?.includes('429') || logsResult.error?.toLowerCase().includes('rate limit')) {
@@ -177,16 +202,16 @@ export const permissionGuardService = {
                 }
 
                 const logs = logsResult.data;
+                const newLogs = logs.filter(log => !isAuditLogProcessed(groupId, log.id));
 
                 // 2. Filter for new 'group.instance.create' events
-                const creationEvents = logs.filter(log =>
-                    log.eventType === "group.instance.create" &&
-                    !processedAuditLogIds.has(`${groupId}:${log.id}`)
-                );
+                const creationEvents = sniperRule ? newLogs.filter(log => log.eventType === "group.instance.create") : [];
 
-                if (creationEvents.length === 0) continue;
+                if (creationEvents.length === 0 && (policies.length === 0 || newLogs.length === 0)) continue;
 
-                logger.info(`[PermissionGuard] Found ${creationEvents.length} new instance creation events for group ${groupId}`);
+                if (creationEvents.length > 0) {
+                    logger.info(`[PermissionGuard] Found ${creationEvents.length} new instance creation events for group ${groupId}`);
+                }
 
                 // 3. Ensure we have group roles loaded
                 let groupRoles = groupRolesCache.get(groupId)?.roles;
@@ -194,17 +219,35 @@ export const permissionGuardService = {
                     const rolesResult = await vrchatApiService.getGroupRoles(groupId);
                     if (rolesResult.success && rolesResult.data) {
                         groupRoles = rolesResult.data;
+                        groupRolesCache.set(groupId, { roles: groupRoles, timestamp: Date.now() });
                     } else {
                         logger.warn(`[PermissionGuard] Failed to fetch roles for ${groupId}, skipping check.`);
                         continue;
                     }
                 }
 
-                // 4. Process each event
+                // 4. Audit log policies (role grants, removals, bans, settings edits)
+                if (policies.length > 0) {
+                    let ownerId: string | undefined;
+                    if (policies.some(p => p.exemptOwner)) {
+                        const groupResult = await vrchatApiService.getGroupDetails(groupId, false, { includeRoles: false });
+                        ownerId = groupResult.success ? groupResult.data?.ownerId : undefined;
+                    }
+                    const context = { ownerId, selfId: getCurrentUserId(), roles: groupRoles };
+
+                    // Oldest first so alerts arrive in the order things happened
+                    for (const logItem of [...newLogs].reverse()) {
+                        if (logItem.eventType === "group.instance.create") continue;
+                        markAuditLogProcessed(groupId, logItem.id);
+                        for (const match of matchAuditPolicies(policies, logItem, context)) {
+                            await auditPolicyService.enforce(groupId, logItem, match);
+                        }
+                    }
+                }
+
+                // 5. Process each instance creation event
                 for (const logItem of creationEvents) {
-                    const logKey = `${groupId}:${logItem.id}`;
-                    processedAuditLogIds.add(logKey); // Mark as processed immediately
-                    pruneProcessedAuditLogs();
+                    markAuditLogProcessed(groupId, logItem.id); // Mark as processed immediately
 
                     const actorId = logItem.actorId;
                     const targetId = logItem.targetId; // This contains worldId:instanceId
@@ -220,7 +263,7 @@ export const permissionGuardService = {
 
                     logger.debug(`[PermissionGuard] Checking instance created by ${logItem.actorDisplayName} (${actorId})`);
 
-                    // 5. Check User Roles
+                    // 6. Check User Roles
                     try {
                         const client = getVRChatClient();
                         if (!client) continue;
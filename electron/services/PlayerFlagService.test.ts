@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('electron', () => ({ ipcMain: { handle: vi.fn() } }));
+vi.mock('electron-store', () => ({ default: vi.fn() }));
+vi.mock('./DatabaseService', () => ({ databaseService: {} }));
+vi.mock('./ServiceEventBus', () => ({ serviceEventBus: { on: vi.fn(), emit: vi.fn() } }));
+vi.mock('./InstanceLoggerService', () => ({ instanceLoggerService: {} }));
+vi.mock('./LogWatcherService', () => ({ logWatcherService: {} }));
+vi.mock('./GroupAuthorizationService', () => ({ groupAuthorizationService: {} }));
+
+import { validateFlagDefinitions, PRESET_FLAGS, type PlayerFlag } from './PlayerFlagService';
+
+const flag = (overrides: Partial<PlayerFlag> = {}): PlayerFlag => ({
+    id: 'crasher',
+    label: 'Crasher',
+    description: '',
+    type: 'negative',
+    severity: 'high',
+    color: '#ff0000',
+    autoAction: 'KICK',
+    ...overrides,
+});
+
+describe('validateFlagDefinitions', () => {
+    it('accepts the preset flags', () => {
+        expect(validateFlagDefinitions(PRESET_FLAGS)).toEqual([]);
+    });
+
+    it('reports every problem per flag', () => {
+        expect(validateFlagDefinitions([
+            flag(),
+            flag({ label: ' ', color: 'red' }),
+            flag({ id: 'vouched', label: 'Vouched', type: 'positive', severity: 'none' as PlayerFlag['severity'] }),
+        ])).toEqual([
+            'crasher: duplicate id, label is required, color must be a hex color',
+            'Vouched: unknown severity, positive flags cannot kick',
+        ]);
+    });
+});
@@ -1,60 +1,181 @@
+import Store from 'electron-store';
 import { ipcMain } from 'electron';
 import log from 'electron-log';
 import { databaseService } from './DatabaseService';
+import { serviceEventBus } from './ServiceEventBus';
+import { instanceLoggerService } from './InstanceLoggerService';
+import { logWatcherService } from './LogWatcherService';
+import { groupAuthorizationService } from './GroupAuthorizationService';
 
 const logger = log.scope('PlayerFlagService');
 
+export type PlayerFlagSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+// KICK: kicked on sight in the group's instances. EXEMPT_AUTOMOD: AutoMod rules always allow the user.
+export type PlayerFlagAutoAction = 'NONE' | 'KICK' | 'EXEMPT_AUTOMOD';
+
 export interface PlayerFlag {
     id: string;
     label: string;
     description: string;
     type: 'negative' | 'positive';
+    severity: PlayerFlagSeverity;
     color: string;
+    autoAction?: PlayerFlagAutoAction;
 }
 
+interface PlayerFlagStoreSchema {
+    definitions: Record<string, PlayerFlag[]>; // Per group, groups without an entry use PRESET_FLAGS
+}
+
+const SEVERITIES: PlayerFlagSeverity[] = ['low', 'medium', 'high', 'critical'];
+const AUTO_ACTIONS: PlayerFlagAutoAction[] = ['NONE', 'KICK', 'EXEMPT_AUTOMOD'];
+
 export const PRESET_FLAGS: PlayerFlag[] = [
     // Negative Flags
-    { id: 'nsfw', label: 'NSFW', description: 'Displays inappropriate content', type: 'negative', color: '#ff4444' },
-    { id: 'trolling', label: 'Trolling', description: 'Intentionally annoying others', type: 'negative', color: '#ff4444' },
-    { id: 'hate-speech', label: 'Hate Speech', description: 'Uses offensive/discriminatory language', type: 'negative', color: '#ff4444' },
-    { id: 'threatening', label: 'Threatening', description: 'Makes threats against others', type: 'negative', color: '#ff4444' },
-    { id: 'extremist', label: 'Extremist', description: 'Promotes extremist beliefs', type: 'negative', color: '#ff4444' },
-    { id: 'child-safety', label: 'Child Safety', description: 'Threats against children', type: 'negative', color: '#ff0000' },
-    { id: 'abusive', label: 'Abusive', description: 'Verbally or emotionally abusive', type: 'negative', color: '#ff4444' },
-    { id: 'crasher', label: 'Crasher', description: 'Uses malicious avatars to crash clients', type: 'negative', color: '#ff0000' },
-    { id: 'doxxer', label: 'Doxxer', description: 'Reveals private information about others', type: 'negative', color: '#ff0000' },
-    { id: 'exploit-bug-abuse', label: 'Exploit/Bug Abuse', description: 'Abuses game exploits or bugs', type: 'negative', color: '#ff4444' },
-    { id: 'earrape', label: 'Earrape', description: 'Uses excessively loud/harmful audio', type: 'negative', color: '#ff4444' },
-    { id: 'stalking', label: 'Stalking', description: 'Follows users maliciously across instances', type: 'negative', color: '#ff6b6b' },
-    { id: 'ripped-avatar', label: 'Ripped Assets', description: 'Uses stolen/ripped avatar or world assets', type: 'negative', color: '#ff6b6b' },
-    { id: 'impersonation', label: 'Impersonation', description: 'Pretends to be staff or another user', type: 'negative', color: '#ff4444' },
-    { id: 'malicious-osc', label: 'Malicious OSC', description: 'Uses OSC to disrupt or spam others', type: 'negative', color: '#ff4444' },
-    { id: 'spamming', label: 'Spamming', description: 'Spams chat, invites, or notifications', type: 'negative', color: '#ff4444' },
-    { id: 'catfishing', label: 'Catfishing', description: 'Deception regarding identity/intentions', type: 'negative', color: '#ff4444' },
-    { id: 'scammer', label: 'Scammer', description: 'Known for fraudulent activities/scams', type: 'negative', color: '#ff4444' },
-    { id: 'modified-client', label: 'Modified Client', description: 'Uses unauthorized client modifications', type: 'negative', color: '#ff0000' },
+    { id: 'nsfw', label: 'NSFW', description: 'Displays inappropriate content', type: 'negative', severity: 'medium', color: '#ff4444' },
+    { id: 'trolling', label: 'Trolling', description: 'Intentionally annoying others', type: 'negative', severity: 'medium', color: '#ff4444' },
+    { id: 'hate-speech', label: 'Hate Speech', description: 'Uses offensive/discriminatory language', type: 'negative', severity: 'medium', color: '#ff4444' },
+    { id: 'threatening', label: 'Threatening', description: 'Makes threats against others', type: 'negative', severity: 'medium', color: '#ff4444' },
+    { id: 'extremist', label: 'Extremist', description: 'Promotes extremist beliefs', type: 'negative', severity: 'medium', color: '#ff4444' },
+    { id: 'child-safety', label: 'Child Safety', description: 'Threats against children', type: 'negative', severity: 'critical', color: '#ff0000' },
+    { id: 'abusive', label: 'Abusive', description: 'Verbally or emotionally abusive', type: 'negative', severity: 'medium', color: '#ff4444' },
+    { id: 'crasher', label: 'Crasher', description: 'Uses malicious avatars to crash clients', type: 'negative', severity: 'high', color: '#ff0000' },
+    { id: 'doxxer', label: 'Doxxer', description: 'Reveals private information about others', type: 'negative', severity: 'high', color: '#ff0000' },
+    { id: 'exploit-bug-abuse', label: 'Exploit/Bug Abuse', description: 'Abuses game exploits or bugs', type: 'negative', severity: 'medium', color: '#ff4444' },
+    { id: 'earrape', label: 'Earrape', description: 'Uses excessively loud/harmful audio', type: 'negative', severity: 'medium', color: '#ff4444' },
+    { id: 'stalking', label: 'Stalking', description: 'Follows users maliciously across instances', type: 'negative', severity: 'medium', color: '#ff6b6b' },
+    { id: 'ripped-avatar', label: 'Ripped Assets', description: 'Uses stolen/ripped avatar or world assets', type: 'negative', severity: 'medium', color: '#ff6b6b' },
+    { id: 'impersonation', label: 'Impersonation', description: 'Pretends to be staff or another user', type: 'negative', severity: 'medium', color: '#ff4444' },
+    { id: 'malicious-osc', label: 'Malicious OSC', description: 'Uses OSC to disrupt or spam others', type: 'negative', severity: 'medium', color: '#ff4444' },
+    { id: 'spamming', label: 'Spamming', description: 'Spams chat, invites, or notifications', type: 'negative', severity: 'medium', color: '#ff4444' },
+    { id: 'catfishing', label: 'Catfishing', description: 'Deception regarding identity/intentions', type: 'negative', severity: 'medium', color: '#ff4444' },
+    { id: 'scammer', label: 'Scammer', description: 'Known for fraudulent activities/scams', type: 'negative', severity: 'medium', color: '#ff4444' },
+    { id: 'modified-client', label: 'Modified Client', description: 'Uses unauthorized client modifications', type: 'negative', severity: 'high', color: '#ff0000' },
 
     // Positive Flags
-    { id: 'streamer', label: 'Streamer', description: 'Content creator / Streamer', type: 'positive', color: '#00c853' },
-    { id: 'youtuber', label: 'YouTuber', description: 'YouTube content creator', type: 'positive', color: '#00c853' },
-    { id: 'playermod', label: 'PlayerMod', description: 'Known game moderator', type: 'positive', color: '#00c853' },
-    { id: 'world-creator', label: 'World Creator', description: 'Known VRChat world creator', type: 'positive', color: '#00c853' },
-    { id: 'avatar-creator', label: 'Avatar Creator', description: 'Known VRChat avatar creator', type: 'positive', color: '#00c853' },
-    { id: 'event-host', label: 'Event Host', description: 'Organizes community events', type: 'positive', color: '#00c853' },
-    { id: 'vouched', label: 'Vouched', description: 'Vouched for by staff or community', type: 'positive', color: '#00c853' },
-    { id: 'donator', label: 'Donator', description: 'Community supporter / Donator', type: 'positive', color: '#00c853' },
-    { id: 'artist', label: 'Artist', description: 'Known community artist', type: 'positive', color: '#00c853' },
-    { id: 'helper', label: 'Helper', description: 'Helpful and active community member', type: 'positive', color: '#00c853' },
-    { id: 'community-leader', label: 'Community Leader', description: 'Leads a VRChat group or community', type: 'positive', color: '#00c853' },
-    { id: 'dj', label: 'DJ', description: 'Known VRChat DJ / Musician', type: 'positive', color: '#00c853' },
-    { id: 'photographer', label: 'Photographer', description: 'Known VRChat photographer', type: 'positive', color: '#00c853' },
+    { id: 'streamer', label: 'Streamer', description: 'Content creator / Streamer', type: 'positive', severity: 'low', color: '#00c853' },
+    { id: 'youtuber', label: 'YouTuber', description: 'YouTube content creator', type: 'positive', severity: 'low', color: '#00c853' },
+    { id: 'playermod', label: 'PlayerMod', description: 'Known game moderator', type: 'positive', severity: 'low', color: '#00c853' },
+    { id: 'world-creator', label: 'World Creator', description: 'Known VRChat world creator', type: 'positive', severity: 'low', color: '#00c853' },
+    { id: 'avatar-creator', label: 'Avatar Creator', description: 'Known VRChat avatar creator', type: 'positive', severity: 'low', color: '#00c853' },
+    { id: 'event-host', label: 'Event Host', description: 'Organizes community events', type: 'positive', severity: 'low', color: '#00c853' },
+    { id: 'vouched', label: 'Vouched', description: 'Vouched for by staff or community', type: 'positive', severity: 'low', color: '#00c853' },
+    { id: 'donator', label: 'Donator', description: 'Community supporter / Donator', type: 'positive', severity: 'low', color: '#00c853' },
+    { id: 'artist', label: 'Artist', description: 'Known community artist', type: 'positive', severity: 'low', color: '#00c853' },
+    { id: 'helper', label: 'Helper', description: 'Helpful and active community member', type: 'positive', severity: 'low', color: '#00c853' },
+    { id: 'community-leader', label: 'Community Leader', description: 'Leads a VRChat group or community', type: 'positive', severity: 'low', color: '#00c853' },
+    { id: 'dj', label: 'DJ', description: 'Known VRChat DJ / Musician', type: 'positive', severity: 'low', color: '#00c853' },
+    { id: 'photographer', label: 'Photographer', description: 'Known VRChat photographer', type: 'positive', severity: 'low', color: '#00c853' },
 ];
 
+/**
+ * Returns human-readable problems with a group's flag list, empty when it can be saved.
+ */
+export const validateFlagDefinitions = (flags: PlayerFlag[]): string[] => {
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    for (const flag of flags) {
+        const label = flag.label?.trim() || flag.id || 'Unnamed flag';
+        const problems: string[] = [];
+        if (!flag.id || !/^[a-z0-9-]+$/.test(flag.id)) problems.push('id must be lowercase letters, digits and dashes');
+        else if (seen.has(flag.id)) problems.push('duplicate id');
+        if (!flag.label?.trim()) problems.push('label is required');
+        if (flag.type !== 'negative' && flag.type !== 'positive') problems.push('type must be negative or positive');
+        if (!SEVERITIES.includes(flag.severity)) problems.push('unknown severity');
+        if (!/^#[0-9a-fA-F]{6}$/.test(flag.color || '')) problems.push('color must be a hex color');
+        if (flag.autoAction && !AUTO_ACTIONS.includes(flag.autoAction)) problems.push('unknown automatic action');
+        if (flag.autoAction === 'KICK' && flag.type === 'positive') problems.push('positive flags cannot kick');
+        if (flag.autoAction === 'EXEMPT_AUTOMOD' && flag.type === 'negative') problems.push('negative flags cannot exempt from AutoMod');
+        if (flag.id) seen.add(flag.id);
+        if (problems.length > 0) errors.push(`${label}: ${problems.join(', ')}`);
+    }
+    return errors;
+};
+
 class PlayerFlagService {
-    constructor() { }
+    private store: Store<PlayerFlagStoreSchema>;
+
+    constructor() {
+        this.store = new Store<PlayerFlagStoreSchema>({
+            name: 'player-flags',
+            defaults: {
+                definitions: {}
+            }
+        });
+    }
+
+    public initialize() {
+        // Kick-on-sight: check everyone joining one of our group instances
+        serviceEventBus.on('player-joined', (event) => {
+            const groupId = instanceLoggerService.getCurrentGroupId();
+            if (event.isBackfill || !event.userId || !groupId || !groupAuthorizationService.isGroupAllowed(groupId)) return;
+            this.applyKickFlags(groupId, event.userId).catch(err => logger.error('Flag auto-action failed', err));
+        });
+
+        this.setupHandlers();
+    }
+
+    // ============================================
+    // DEFINITIONS
+    // ============================================
+
+    public getFlagDefinitions(groupId?: string): PlayerFlag[] {
+        const custom = groupId ? this.store.get('definitions')[groupId] : undefined;
+        return custom || PRESET_FLAGS;
+    }
+
+    public saveFlagDefinitions(groupId: string, flags: PlayerFlag[]): PlayerFlag[] {
+        const errors = validateFlagDefinitions(flags);
+        if (errors.length > 0) throw new Error(`Invalid flags: ${errors.join('; ')}`);
+        const definitions = this.store.get('definitions');
+        definitions[groupId] = flags.map(f => ({ ...f, label: f.label.trim(), autoAction: f.autoAction || 'NONE' }));
+        this.store.set('definitions', definitions);
+        return definitions[groupId];
+    }
 
-    public async getPlayerFlags(userId: string): Promise<string[]> {
+    public resetFlagDefinitions(groupId: string): PlayerFlag[] {
+        const definitions = this.store.get('definitions');
+        delete definitions[groupId];
+        this.store.set('definitions', definitions);
+        return PRESET_FLAGS;
+    }
+
+    public async isAutoModExempt(groupId: string, userId: string): Promise<PlayerFlag | undefined> {
+        const exempting = this.getFlagDefinitions(groupId).filter(f => f.autoAction === 'EXEMPT_AUTOMOD');
+        if (exempting.length === 0) return undefined;
+        const flagIds = await this.getPlayerFlags(userId, groupId);
+        return exempting.find(f => flagIds.includes(f.id));
+    }
+
+    private async applyKickFlags(groupId: string, userId: string, onlyFlagIds?: string[]) {
+        const kicking = this.getFlagDefinitions(groupId).filter(f => f.autoAction === 'KICK' && (!onlyFlagIds || onlyFlagIds.includes(f.id)));
+        if (kicking.length === 0) return;
+        const flagIds = await this.getPlayerFlags(userId, groupId);
+        const flag = kicking.find(f => flagIds.includes(f.id));
+        if (!flag) return;
+        serviceEventBus.emit('player-flag-action', { groupId, userId, flagId: flag.id, flagLabel: flag.label, action: 'KICK' });
+    }
+
+    // ============================================
+    // ASSIGNMENTS
+    // ============================================
+
+    /**
+     * Flags a group gave the user. Users flagged before flags were per group fall back to
+     * the old global ScannedUser.flags until the group changes them.
+     */
+    public async getPlayerFlags(userId: string, groupId?: string): Promise<string[]> {
         try {
+            if (groupId) {
+                const rows = await databaseService.getClient().$queryRawUnsafe<{ flags: string }[]>(
+                    `SELECT flags FROM GroupPlayerFlags WHERE groupId = ? AND userId = ?`,
+                    groupId,
+                    userId
+                );
+                if (rows.length > 0) return JSON.parse(rows[0].flags);
+            }
+
             const user = await databaseService.getScannedUser(userId);
             if (!user || !user.flags) return [];
 
@@ -65,17 +186,50 @@ class PlayerFlagService {
         }
     }
 
-    public async setPlayerFlags(userId: string, flagIds: string[]): Promise<boolean> {
+    public async setPlayerFlags(userId: string, flagIds: string[], groupId?: string): Promise<boolean> {
         try {
+            const previous = groupId ? await this.getPlayerFlags(userId, groupId) : [];
             const prisma = databaseService.getClient();
             const flagsJson = JSON.stringify(flagIds);
 
             // We use raw query because prisma generate might not have finished successfully in all environments
-            await prisma.$executeRawUnsafe(
-                `UPDATE ScannedUser SET flags = ? WHERE id = ?`,
-                flagsJson,
-                userId
-            );
+            if (groupId) {
+                await prisma.$executeRawUnsafe(
+                    `INSERT INTO GroupPlayerFlags (groupId, userId, flags, updatedAt) VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+                     ON CONFLICT(groupId, userId) DO UPDATE SET flags = excluded.flags, updatedAt = CURRENT_TIMESTAMP`,
+                    groupId,
+                    userId,
+                    flagsJson
+                );
+            } else {
+                await prisma.$executeRawUnsafe(
+                    `UPDATE ScannedUser SET flags = ? WHERE id = ?`,
+                    flagsJson,
+                    userId
+                );
+            }
+
+            // Newly added negative flags count as moderation actions for the strike ladder
+            if (groupId) {
+                const definitions = this.getFlagDefinitions(groupId);
+                const addedIds = flagIds.filter(id => !previous.includes(id));
+                const added = definitions.filter(f => f.type === 'negative' && addedIds.includes(f.id));
+                for (const flag of added) {
+                    serviceEventBus.emit('moderation-action', {
+                        groupId,
+                        userId,
+                        source: 'FLAG',
+                        action: 'FLAG',
+                        reason: `Flagged: ${flag.label}`,
+                        timestamp: new Date().toISOString()
+                    });
+                }
+
+                // A kick flag applies right away when the user is already in our instance
+                const inInstance = instanceLoggerService.getCurrentGroupId() === groupId
+                    && logWatcherService.getPlayers().some(p => p.userId === userId);
+                if (inInstance && addedIds.length > 0) await this.applyKickFlags(groupId, userId, addedIds);
+            }
 
             return true;
         } catch (error) {
@@ -84,21 +238,28 @@ class PlayerFlagService {
         }
     }
 
-    public getFlagDefinitions(): PlayerFlag[] {
-        return PRESET_FLAGS;
-    }
-
     public setupHandlers() {
-        ipcMain.handle('playerFlags:getFlags', async (_, userId: string) => {
-            return await this.getPlayerFlags(userId);
+        ipcMain.handle('playerFlags:getFlags', async (_, { userId, groupId }: { userId: string, groupId?: string }) => {
+            return await this.getPlayerFlags(userId, groupId);
+        });
+
+        ipcMain.handle('playerFlags:setFlags', async (_, { userId, flagIds, groupId }: { userId: string, flagIds: string[], groupId?: string }) => {
+            if (groupId) groupAuthorizationService.validateAccess(groupId, 'playerFlags:setFlags');
+            return await this.setPlayerFlags(userId, flagIds, groupId);
+        });
+
+        ipcMain.handle('playerFlags:getDefinitions', (_, groupId?: string) => {
+            return this.getFlagDefinitions(groupId);
         });
 
-        ipcMain.handle('playerFlags:setFlags', async (_, { userId, flagIds }: { userId: string, flagIds: string[] }) => {
-            return await this.setPlayerFlags(userId, flagIds);
+        ipcMain.handle('playerFlags:saveDefinitions', (_, { groupId, flags }: { groupId: string, flags: PlayerFlag[] }) => {
+            groupAuthorizationService.validateAccess(groupId, 'playerFlags:saveDefinitions');
+            return this.saveFlagDefinitions(groupId, flags);
         });
 
-        ipcMain.handle('playerFlags:getDefinitions', () => {
-            return this.getFlagDefinitions();
+        ipcMain.handle('playerFlags:resetDefinitions', (_, groupId: string) => {
+            groupAuthorizationService.validateAccess(groupId, 'playerFlags:resetDefinitions');
+            return this.resetFlagDefinitions(groupId);
         });
     }
 }
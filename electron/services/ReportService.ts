@@ -2,11 +2,13 @@ import { ipcMain } from 'electron';
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const Store = require('electron-store');
 import log from 'electron-log';
+import { evidenceService } from './EvidenceService';
+import { reportTemplateService, ReportFormat, REPORT_FORMATS } from './ReportTemplateService';
 
 export interface ReportTemplate {
     id: string;
     name: string;
-    content: string; // The template string with {{variables}}
+    content: string; // Markdown with {{variables}}, {{#if}}/{{#each}} blocks and helpers, see ReportTemplateService
     type: 'moderation' | 'general' | 'incident';
 }
 
@@ -30,6 +32,7 @@ export interface ReportContext {
     };
     reason?: string;
     evidence?: string[]; // URLs or text
+    evidenceIds?: string[]; // Evidence locker items, listed after the free-form evidence
     timestamp: string;
     notes?: string;
 }
@@ -46,15 +49,18 @@ const store: any = new Store({
                 type: 'moderation',
                 content: `**Moderation Report**
 **Target:** {{target.displayName}} ({{target.id}})
-**Reason:** {{reason}}
-**Location:** {{world.name}}
-**Time:** {{timestamp}}
+**Reason:** {{default reason "Not given"}}
+{{#if world.name}}**Location:** {{world.name}}{{#if instance.id}} ({{instance.id}}){{/if}}
+{{/if}}**Time:** {{formatDate timestamp "YYYY-MM-DD HH:mm"}}
 
 **Evidence:**
-{{evidence_list}}
-
+{{#each evidence}}- {{this}}
+{{else}}(No evidence attached)
+{{/each}}
+{{#if notes}}
 **Notes:**
-{{notes}}`
+{{notes}}
+{{/if}}`
             },
             {
                 id: 'ban-appeal-stub',
@@ -69,37 +75,16 @@ Evidence has been logged.`
 });
 
 /**
- * Replace placeholders like {{target.displayName}} with actual values
+ * The data a template sees: the context, the merged evidence list and a few derived values.
  */
-function compileTemplate(template: string, context: ReportContext): string {
-    let result = template;
-
-    // Helper to resolve nested properties safely, e.g. "target.displayName"
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const getValue = (obj: any, path: string): string => {
-        const parts = path.split('.');
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        let current: any = obj;
-        for (const part of parts) {
-            if (current === undefined || current === null) return '';
-            current = current[part];
-        }
-        return current !== undefined && current !== null ? String(current) : '';
+function buildTemplateData(context: ReportContext, evidence: string[]) {
+    return {
+        ...context,
+        evidence,
+        // Kept for templates written before {{#each evidence}} existed
+        evidence_list: evidence.map(e => `- ${e}`).join('\n') || '(No evidence attached)',
+        now: new Date().toISOString()
     };
-
-    // Replace basic variables
-    result = result.replace(/\{\{([^}]+)\}\}/g, (match, key) => {
-        const trimmedKey = key.trim();
-        
-        // Special handlers
-        if (trimmedKey === 'evidence_list') {
-            return (context.evidence || []).map(e => `- ${e}`).join('\n') || '(No evidence attached)';
-        }
-        
-        return getValue(context, trimmedKey);
-    });
-
-    return result;
 }
 
 export function setupReportHandlers() {
@@ -108,6 +93,11 @@ export function setupReportHandlers() {
     });
 
     ipcMain.handle('report:save-template', (_event, template: ReportTemplate) => {
+        const error = reportTemplateService.validate(template.content);
+        if (error) {
+            throw new Error(`Template "${template.name}" is invalid: ${error}`);
+        }
+
         const templates = store.get('templates') as ReportTemplate[];
         const index = templates.findIndex(t => t.id === template.id);
         
@@ -128,7 +118,7 @@ export function setupReportHandlers() {
         return true;
     });
 
-    ipcMain.handle('report:generate', (_event, { templateId, context }: { templateId: string; context: ReportContext }) => {
+    ipcMain.handle('report:generate', async (_event, { templateId, context, format = 'markdown' }: { templateId: string; context: ReportContext; format?: ReportFormat }) => {
         const templates = store.get('templates') as ReportTemplate[];
         const template = templates.find(t => t.id === templateId);
         
@@ -136,7 +126,21 @@ export function setupReportHandlers() {
             throw new Error(`Template ${templateId} not found`);
         }
         
-        return compileTemplate(template.content, context);
+        if (REPORT_FORMATS.indexOf(format) === -1) {
+            throw new Error(`Unknown report format ${format}`);
+        }
+
+        const lockerEvidence = await evidenceService.getReportLines(context.evidenceIds || []);
+        const data = buildTemplateData(context, [...(context.evidence || []), ...lockerEvidence]);
+        return reportTemplateService.renderAs(template.content, data, format, {
+            title: template.name,
+            timestamp: context.timestamp,
+            fields: [
+                { name: 'Target', value: context.target ? `${context.target.displayName} (${context.target.id})` : '', inline: true },
+                { name: 'Reason', value: context.reason || '', inline: true },
+                { name: 'Location', value: context.world?.name || '', inline: true }
+            ]
+        });
     });
     
     log.info('ReportService initialized');
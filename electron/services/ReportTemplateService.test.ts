@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { reportTemplateService, formatDate, markdownToText, markdownToHtml } from './ReportTemplateService';
+
+const context = {
+    target: { displayName: 'Mallory', id: 'usr_1' },
+    reason: 'Crashing',
+    evidence: ['Screenshot', 'Log excerpt'],
+    timestamp: new Date(2024, 0, 2, 3, 4, 5).toISOString()
+};
+
+describe('reportTemplateService.render', () => {
+    it('substitutes paths and helpers', () => {
+        expect(reportTemplateService.render('{{target.displayName}} ({{upper target.id}}) {{default notes "none"}}', context))
+            .toBe('Mallory (USR_1) none');
+        expect(reportTemplateService.render('{{formatDate timestamp "YYYY-MM-DD HH:mm:ss"}}', context)).toBe('2024-01-02 03:04:05');
+    });
+
+    it('renders conditionals and loops with else branches', () => {
+        const template = '{{#if reason}}Reason: {{reason}}{{else}}No reason{{/if}}|{{#each evidence}}{{@number}}. {{this}} for {{target.displayName}}{{#unless @last}}, {{/unless}}{{else}}none{{/each}}';
+        expect(reportTemplateService.render(template, context)).toBe('Reason: Crashing|1. Screenshot for Mallory, 2. Log excerpt for Mallory');
+        expect(reportTemplateService.render(template, { evidence: [] })).toBe('No reason|none');
+        expect(reportTemplateService.render('{{#if eq reason "Crashing"}}yes{{/if}}', context)).toBe('yes');
+    });
+
+    it('reports unbalanced blocks and unknown helpers', () => {
+        expect(reportTemplateService.validate('{{#if reason}}open')).toBe('Missing {{/if}}');
+        expect(reportTemplateService.validate('{{#each evidence}}{{/if}}')).toBe('Expected {{/each}} but found {{/if}}');
+        expect(reportTemplateService.validate('{{shout reason}}')).toBe('Unknown helper "shout"');
+        expect(reportTemplateService.validate('{{! note }}{{reason}}')).toBeNull();
+    });
+});
+
+describe('output formats', () => {
+    it('strips Markdown for plain text', () => {
+        expect(markdownToText('## Report\n**Target:** usr_a_b\n[Profile](https://vrchat.com/home/user/usr_1)'))
+            .toBe('Report\nTarget: usr_a_b\nProfile (https://vrchat.com/home/user/usr_1)');
+    });
+
+    it('escapes values and builds lists in HTML', () => {
+        const html = markdownToHtml('**Target:** <script>\n- one\n- two', 'Report');
+        expect(html).toContain('<p><strong>Target:</strong> &lt;script&gt;</p>');
+        expect(html).toContain('<ul>\n<li>one</li>\n<li>two</li>\n</ul>');
+    });
+
+    it('wraps the report in a Discord embed', () => {
+        const payload = JSON.parse(reportTemplateService.renderAs('Reason: {{reason}}', context, 'discord', {
+            title: 'Moderation Report',
+            timestamp: context.timestamp,
+            fields: [{ name: 'Target', value: 'Mallory' }, { name: 'Location', value: '' }]
+        }));
+        expect(payload.embeds[0]).toMatchObject({ title: 'Moderation Report', description: 'Reason: Crashing', fields: [{ name: 'Target', value: 'Mallory' }] });
+    });
+
+    it('leaves values that are not dates alone', () => {
+        expect(formatDate('soon')).toBe('soon');
+    });
+});
@@ -0,0 +1,376 @@
+// ============================================
+// TYPES - Report Template Language
+// ============================================
+
+export type ReportFormat = 'markdown' | 'text' | 'html' | 'discord';
+
+export const REPORT_FORMATS: ReportFormat[] = ['markdown', 'text', 'html', 'discord'];
+
+type Arg = { kind: 'path'; path: string } | { kind: 'literal'; value: string | number | boolean };
+
+interface Expr {
+    helper?: string;
+    args: Arg[];
+}
+
+type BlockKind = 'if' | 'unless' | 'each';
+
+interface BlockNode {
+    type: 'block';
+    kind: BlockKind;
+    expr: Expr;
+    body: TemplateNode[];
+    inverse: TemplateNode[]; // Rendered for {{else}}
+}
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'value'; expr: Expr }
+    | BlockNode;
+
+interface Frame {
+    data: unknown;
+    index?: number;
+    first?: boolean;
+    last?: boolean;
+}
+
+export interface RenderOptions {
+    title: string;
+    timestamp?: string;
+    fields?: { name: string; value: string; inline?: boolean }[];
+}
+
+const BLOCKS: BlockKind[] = ['if', 'unless', 'each'];
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const ARG_PATTERN = /"([^"]*)"|'([^']*)'|(\S+)/g;
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD HH:mm';
+
+// Discord rejects embeds over these sizes
+const EMBED_TITLE_LIMIT = 256;
+const EMBED_DESCRIPTION_LIMIT = 4096;
+const EMBED_FIELD_LIMIT = 1024;
+const EMBED_COLOR = 0x5865F2;
+
+// ============================================
+// VALUES & HELPERS
+// ============================================
+
+const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+
+const isTruthy = (value: unknown): boolean => {
+    if (Array.isArray(value)) return value.length > 0;
+    return !!value;
+};
+
+const toText = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.map(toText).join(', ');
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return '';
+    return String(value);
+};
+
+/**
+ * Formats a date with YYYY, MM, DD, HH, mm and ss tokens in local time, or "iso" for an ISO string.
+ * Values that are not dates are returned as they are.
+ */
+export const formatDate = (value: unknown, format: string = DEFAULT_DATE_FORMAT): string => {
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    if (value === undefined || value === null || value === '' || isNaN(date.getTime())) return toText(value);
+    if (format === 'iso') return date.toISOString();
+    const parts: Record<string, string> = {
+        YYYY: String(date.getFullYear()),
+        MM: pad(date.getMonth() + 1),
+        DD: pad(date.getDate()),
+        HH: pad(date.getHours()),
+        mm: pad(date.getMinutes()),
+        ss: pad(date.getSeconds())
+    };
+    return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => parts[token]);
+};
+
+const HELPERS: Record<string, (...args: unknown[]) => unknown> = {
+    formatDate: (value, format) => formatDate(value, typeof format === 'string' ? format : undefined),
+    upper: value => toText(value).toUpperCase(),
+    lower: value => toText(value).toLowerCase(),
+    default: (value, fallback) => (isTruthy(value) ? value : fallback),
+    join: (list, separator) => (Array.isArray(list) ? list.map(toText).join(typeof separator === 'string' ? separator : ', ') : toText(list)),
+    count: list => (Array.isArray(list) ? list.length : 0),
+    truncate: (value, length) => {
+        const text = toText(value);
+        const max = Number(length);
+        return max > 0 && text.length > max ? `${text.slice(0, max - 1)}…` : text;
+    },
+    eq: (a, b) => toText(a) === toText(b),
+    not: value => !isTruthy(value)
+};
+
+// ============================================
+// PARSER
+// ============================================
+
+const parseArgs = (source: string): Arg[] => {
+    const args: Arg[] = [];
+    const pattern = new RegExp(ARG_PATTERN.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source)) !== null) {
+        const quoted = match[1] ?? match[2];
+        const raw = match[3];
+        if (quoted !== undefined) args.push({ kind: 'literal', value: quoted });
+        else if (/^-?\d+(\.\d+)?$/.test(raw)) args.push({ kind: 'literal', value: Number(raw) });
+        else if (raw === 'true' || raw === 'false') args.push({ kind: 'literal', value: raw === 'true' });
+        else args.push({ kind: 'path', path: raw });
+    }
+    return args;
+};
+
+const parseExpr = (source: string): Expr => {
+    const args = parseArgs(source);
+    if (args.length === 0) throw new Error('Empty {{ }} tag');
+    const [first, ...rest] = args;
+    if (rest.length === 0) return { args };
+    if (first.kind !== 'path' || !Object.prototype.hasOwnProperty.call(HELPERS, first.path)) {
+        throw new Error(`Unknown helper "${first.kind === 'path' ? first.path : String(first.value)}"`);
+    }
+    return { helper: first.path, args: rest };
+};
+
+const parseTemplate = (template: string): TemplateNode[] => {
+    const root: TemplateNode[] = [];
+    const stack: { node: BlockNode; inElse: boolean }[] = [];
+    const current = (): TemplateNode[] => {
+        const top = stack[stack.length - 1];
+        if (!top) return root;
+        return top.inElse ? top.node.inverse : top.node.body;
+    };
+
+    const pattern = new RegExp(TAG_PATTERN.source, 'g');
+    let last = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(template)) !== null) {
+        if (match.index > last) current().push({ type: 'text', value: template.slice(last, match.index) });
+        last = match.index + match[0].length;
+        const tag = match[1].trim();
+
+        if (tag.startsWith('!')) continue; // {{! comment }}
+
+        if (tag.startsWith('#')) {
+            const [, kind, rest] = /^#(\S*)\s*([\s\S]*)$/.exec(tag) || [];
+            if (BLOCKS.indexOf(kind as BlockKind) === -1) throw new Error(`Unknown block "{{#${kind}}}"`);
+            if (!rest) throw new Error(`{{#${kind}}} needs a value`);
+            const node: BlockNode = { type: 'block', kind: kind as BlockKind, expr: parseExpr(rest), body: [], inverse: [] };
+            current().push(node);
+            stack.push({ node, inElse: false });
+        } else if (tag.startsWith('/')) {
+            const kind = tag.slice(1).trim();
+            const top = stack.pop();
+            if (!top) throw new Error(`{{/${kind}}} has no matching {{#${kind}}}`);
+            if (top.node.kind !== kind) throw new Error(`Expected {{/${top.node.kind}}} but found {{/${kind}}}`);
+        } else if (tag === 'else') {
+            const top = stack[stack.length - 1];
+            if (!top || top.inElse) throw new Error('{{else}} is only allowed once inside a block');
+            top.inElse = true;
+        } else {
+            current().push({ type: 'value', expr: parseExpr(tag) });
+        }
+    }
+    if (last < template.length) current().push({ type: 'text', value: template.slice(last) });
+    if (stack.length > 0) throw new Error(`Missing {{/${stack[stack.length - 1].node.kind}}}`);
+    return root;
+};
+
+// ============================================
+// RENDERER
+// ============================================
+
+const getPath = (data: unknown, path: string): unknown => {
+    let current: unknown = data;
+    for (const part of path.split('.')) {
+        if (current === undefined || current === null || typeof current !== 'object') return undefined;
+        if (!Object.prototype.hasOwnProperty.call(current, part)) return undefined;
+        current = (current as Record<string, unknown>)[part];
+    }
+    return current;
+};
+
+const lookup = (frames: Frame[], path: string): unknown => {
+    let depth = frames.length - 1;
+    let rest = path;
+    while (rest.startsWith('../')) {
+        depth = Math.max(0, depth - 1);
+        rest = rest.slice(3);
+    }
+    const frame = frames[depth];
+    if (rest === 'this' || rest === '.') return frame.data;
+    if (rest === '@index') return frame.index;
+    if (rest === '@number') return frame.index === undefined ? undefined : frame.index + 1;
+    if (rest === '@first') return frame.first;
+    if (rest === '@last') return frame.last;
+    if (rest.startsWith('this.')) return getPath(frame.data, rest.slice(5));
+    // Walk outwards so loop bodies can still use top-level fields like {{target.displayName}}
+    for (let i = depth; i >= 0; i--) {
+        const value = getPath(frames[i].data, rest);
+        if (value !== undefined) return value;
+    }
+    return undefined;
+};
+
+const evaluate = (expr: Expr, frames: Frame[]): unknown => {
+    const values = expr.args.map(arg => (arg.kind === 'literal' ? arg.value : lookup(frames, arg.path)));
+    return expr.helper ? HELPERS[expr.helper](...values) : values[0];
+};
+
+const renderNodes = (nodes: TemplateNode[], frames: Frame[]): string => {
+    let out = '';
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            out += node.value;
+        } else if (node.type === 'value') {
+            out += toText(evaluate(node.expr, frames));
+        } else if (node.kind === 'each') {
+            const list = evaluate(node.expr, frames);
+            if (Array.isArray(list) && list.length > 0) {
+                list.forEach((item, index) => {
+                    out += renderNodes(node.body, [...frames, { data: item, index, first: index === 0, last: index === list.length - 1 }]);
+                });
+            } else {
+                out += renderNodes(node.inverse, frames);
+            }
+        } else {
+            const truthy = isTruthy(evaluate(node.expr, frames));
+            out += renderNodes((node.kind === 'if') === truthy ? node.body : node.inverse, frames);
+        }
+    }
+    return out;
+};
+
+// ============================================
+// OUTPUT FORMATS
+// ============================================
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const inlineMarkdownToHtml = (line: string) => escapeHtml(line)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/__([^_]+)__/g, '<strong>$1</strong>')
+    .replace(/\*([^*\s][^*]*)\*/g, '<em>$1</em>')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2">$1</a>');
+
+/**
+ * Converts the Markdown that report templates are written in to plain text, for forms that show markup literally.
+ */
+export const markdownToText = (markdown: string): string => markdown
+    .split('\n')
+    .map(line => line.replace(/^#{1,6}\s+/, '').replace(/^>\s?/, ''))
+    .join('\n')
+    .replace(/\*\*([^*]+)\*\*/g, '$1')
+    .replace(/__([^_]+)__/g, '$1')
+    .replace(/\*([^*\s][^*]*)\*/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '$1 ($2)');
+
+/**
+ * Converts report Markdown (headings, lists, emphasis, code and links) to a standalone HTML document.
+ */
+export const markdownToHtml = (markdown: string, title: string): string => {
+    const body: string[] = [];
+    let paragraph: string[] = [];
+    let list: string[] = [];
+    const flush = () => {
+        if (paragraph.length) body.push(`<p>${paragraph.join('<br>\n')}</p>`);
+        if (list.length) body.push(`<ul>\n${list.map(item => `<li>${item}</li>`).join('\n')}\n</ul>`);
+        paragraph = [];
+        list = [];
+    };
+
+    for (const line of markdown.split('\n')) {
+        const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+        const item = /^\s*[-*]\s+(.*)$/.exec(line);
+        if (!line.trim()) {
+            flush();
+        } else if (heading) {
+            flush();
+            body.push(`<h${heading[1].length}>${inlineMarkdownToHtml(heading[2])}</h${heading[1].length}>`);
+        } else if (item) {
+            if (paragraph.length) flush();
+            list.push(inlineMarkdownToHtml(item[1]));
+        } else {
+            if (list.length) flush();
+            paragraph.push(inlineMarkdownToHtml(line));
+        }
+    }
+    flush();
+
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        `<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>`,
+        '<body>',
+        ...body,
+        '</body>',
+        '</html>'
+    ].join('\n');
+};
+
+const clip = (text: string, limit: number) => (text.length > limit ? `${text.slice(0, limit - 1)}…` : text);
+
+/**
+ * A Discord webhook body with the report as a single embed.
+ */
+export const markdownToDiscordPayload = (markdown: string, options: RenderOptions) => {
+    const timestamp = options.timestamp && !isNaN(new Date(options.timestamp).getTime())
+        ? new Date(options.timestamp).toISOString()
+        : undefined;
+    return {
+        embeds: [{
+            title: clip(options.title, EMBED_TITLE_LIMIT),
+            description: clip(markdown.trim(), EMBED_DESCRIPTION_LIMIT),
+            color: EMBED_COLOR,
+            fields: (options.fields || [])
+                .filter(f => f.value.trim())
+                .map(f => ({ ...f, value: clip(f.value, EMBED_FIELD_LIMIT) })),
+            timestamp,
+            footer: { text: 'VRChat Group Guard' }
+        }]
+    };
+};
+
+export const reportTemplateService = {
+    /**
+     * Renders a template to Markdown. Supports {{path}}, helpers like {{formatDate timestamp "YYYY-MM-DD"}},
+     * {{#if}}, {{#unless}} and {{#each}} blocks with {{else}}, and {{! comments }}.
+     */
+    render: (template: string, data: unknown): string => renderNodes(parseTemplate(template), [{ data }]),
+
+    /**
+     * Renders a template and converts it to the requested output format.
+     */
+    renderAs: (template: string, data: unknown, format: ReportFormat, options: RenderOptions): string => {
+        const markdown = renderNodes(parseTemplate(template), [{ data }]);
+        switch (format) {
+            case 'text': return markdownToText(markdown);
+            case 'html': return markdownToHtml(markdown, options.title);
+            case 'discord': return JSON.stringify(markdownToDiscordPayload(markdown, options), null, 2);
+            default: return markdown;
+        }
+    },
+
+    /**
+     * Returns the parse error for a template, or null when it is valid.
+     */
+    validate: (template: string): string | null => {
+        try {
+            parseTemplate(template);
+            return null;
+        } catch (e) {
+            return e instanceof Error ? e.message : String(e);
+        }
+    }
+};
@@ -1,5 +1,6 @@
 import { EventEmitter } from 'events';
 import log from 'electron-log';
+import type { WebhookEventData } from './DiscordWebhookService';
 
 const logger = log.scope('ServiceEventBus');
 
@@ -16,7 +17,12 @@ export type ServiceEventType =
     | 'player-joined'
     | 'player-left'
     | 'location'
-    | 'friend-stats-updated';
+    | 'friend-stats-updated'
+    | 'moderation-action'
+    | 'permanent-ban'
+    | 'player-flag-action'
+    | 'watchlist-hit'
+    | 'webhook-event';
 
 export interface ServiceEventPayloads {
     'location': {
@@ -58,6 +64,44 @@ export interface ServiceEventPayloads {
         isBackfill?: boolean;
     };
     'friendship-relationship-changed': { event: any };
+    // A moderation action taken against a user in a group (feeds the strike ladder)
+    'moderation-action': {
+        groupId: string;
+        userId: string;
+        displayName?: string;
+        source: 'AUTOMOD' | 'KICK' | 'VOTE_KICK' | 'FLAG';
+        action: string;
+        reason?: string;
+        timestamp: string;
+    };
+    // A user was banned without an expiry, any scheduled unban no longer applies
+    'permanent-ban': {
+        groupId: string;
+        userId: string;
+    };
+    // A flagged user was seen in a group instance and the flag asks for a kick
+    'player-flag-action': {
+        groupId: string;
+        userId: string;
+        flagId: string;
+        flagLabel: string;
+        action: 'KICK';
+    };
+    // A watched user, group or avatar was seen in a group instance (silent entries excluded)
+    'watchlist-hit': {
+        groupId: string;
+        userId?: string;
+        displayName: string;
+        entityId: string;
+        critical: boolean;
+        reason: string;
+    };
+    // A moderation event that was sent to the group's webhooks
+    'webhook-event': {
+        groupId: string;
+        event: WebhookEventData;
+        timestamp: string;
+    };
 }
 
 class ServiceEventBus extends EventEmitter {
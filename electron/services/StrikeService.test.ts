@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('electron', () => ({ ipcMain: { handle: vi.fn() } }));
+vi.mock('electron-store', () => ({
+    default: class {
+        get() { return {}; }
+        set() { /* not persisted in tests */ }
+    }
+}));
+vi.mock('./LogWatcherService', () => ({ logWatcherService: {} }));
+vi.mock('./InstanceLoggerService', () => ({ instanceLoggerService: {} }));
+vi.mock('./GroupAuthorizationService', () => ({ groupAuthorizationService: {} }));
+vi.mock('./VRChatApiService', () => ({ vrchatApiService: {} }));
+vi.mock('./DatabaseService', () => ({ databaseService: {} }));
+vi.mock('./WindowService', () => ({ windowService: {} }));
+vi.mock('./DiscordWebhookService', () => ({ discordWebhookService: {}, GROUP_GUARD_ACTOR: { id: 'system', displayName: 'Group Guard' } }));
+
+import { getActivePoints, isThresholdCoolingDown, strikeService, DEFAULT_STRIKE_POLICY, validateStrikePolicy, type Strike } from './StrikeService';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1_000 * DAY;
+
+const strike = (daysAgo: number, points = 1): Strike => ({
+    id: `s-${daysAgo}`,
+    source: 'AUTOMOD',
+    action: 'REJECT',
+    reason: 'test',
+    points,
+    timestamp: NOW - daysAgo * DAY,
+});
+
+describe('getActivePoints', () => {
+    it('only counts strikes inside the threshold window', () => {
+        const strikes = [strike(1), strike(5, 2), strike(40)];
+        expect(getActivePoints(strikes, DEFAULT_STRIKE_POLICY, 30, NOW)).toBe(3);
+        expect(getActivePoints(strikes, DEFAULT_STRIKE_POLICY, 3, NOW)).toBe(1);
+    });
+
+    it('ignores strikes that have decayed even inside a larger window', () => {
+        const policy = { ...DEFAULT_STRIKE_POLICY, decayDays: 10 };
+        expect(getActivePoints([strike(2), strike(20)], policy, 30, NOW)).toBe(1);
+    });
+
+    it('counts everything when window and decay are disabled', () => {
+        const policy = { ...DEFAULT_STRIKE_POLICY, decayDays: 0 };
+        expect(getActivePoints([strike(2), strike(500)], policy, 0, NOW)).toBe(2);
+    });
+});
+
+describe('isThresholdCoolingDown', () => {
+    it('re-arms once the window has passed since the last trigger', () => {
+        expect(isThresholdCoolingDown(undefined, 30, NOW)).toBe(false);
+        expect(isThresholdCoolingDown(NOW - 10 * DAY, 30, NOW)).toBe(true);
+        expect(isThresholdCoolingDown(NOW - 31 * DAY, 30, NOW)).toBe(false);
+    });
+
+    it('fires an all-time threshold only once', () => {
+        expect(isThresholdCoolingDown(undefined, 0, NOW)).toBe(false);
+        expect(isThresholdCoolingDown(NOW - 500 * DAY, 0, NOW)).toBe(true);
+    });
+});
+
+describe('getPolicy', () => {
+    it('hands out a copy of the default policy', () => {
+        const policy = strikeService.getPolicy('grp_1');
+        policy.points.AUTOMOD = 5;
+        policy.thresholds[0].points = 10;
+        expect(DEFAULT_STRIKE_POLICY.points.AUTOMOD).toBe(1);
+        expect(DEFAULT_STRIKE_POLICY.thresholds[0].points).toBe(3);
+    });
+});
+
+describe('validateStrikePolicy', () => {
+    const policy = () => JSON.parse(JSON.stringify(DEFAULT_STRIKE_POLICY));
+
+    it('accepts the default policy', () => {
+        expect(validateStrikePolicy(policy())).toBeNull();
+    });
+
+    it('rejects bad points, decay and thresholds', () => {
+        const negativePoints = policy();
+        negativePoints.points.KICK = -1;
+        expect(validateStrikePolicy(negativePoints)).toMatch(/KICK/);
+
+        const badDecay = policy();
+        badDecay.decayDays = 'soon';
+        expect(validateStrikePolicy(badDecay)).toMatch(/Decay/);
+
+        const zeroThreshold = policy();
+        zeroThreshold.thresholds[0].points = 0;
+        expect(validateStrikePolicy(zeroThreshold)).toMatch(/Threshold points/);
+
+        const badWindow = policy();
+        badWindow.thresholds[0].windowDays = -3;
+        expect(validateStrikePolicy(badWindow)).toMatch(/window/);
+
+        const badAction = policy();
+        badAction.thresholds[0].action = 'KICK';
+        expect(validateStrikePolicy(badAction)).toMatch(/KICK/);
+    });
+});
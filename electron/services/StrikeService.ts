@@ -0,0 +1,379 @@
+import Store from 'electron-store';
+import { ipcMain } from 'electron';
+import log from 'electron-log';
+import { serviceEventBus, ServiceEventPayloads } from './ServiceEventBus';
+import { logWatcherService } from './LogWatcherService';
+import { instanceLoggerService } from './InstanceLoggerService';
+import { groupAuthorizationService } from './GroupAuthorizationService';
+import { vrchatApiService } from './VRChatApiService';
+import { databaseService } from './DatabaseService';
+import { windowService } from './WindowService';
+import { discordWebhookService, GROUP_GUARD_ACTOR } from './DiscordWebhookService';
+
+const logger = log.scope('StrikeService');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_STRIKES_PER_USER = 100;
+
+export type StrikeSource = ServiceEventPayloads['moderation-action']['source'];
+
+export interface Strike {
+  id: string;
+  source: StrikeSource;
+  action: string;
+  reason: string;
+  points: number;
+  timestamp: number;
+}
+
+export interface StrikeThreshold {
+  id: string;
+  points: number; // Points needed inside the window
+  windowDays: number; // 0 = all strikes, the threshold then fires once per user
+  action: 'BAN' | 'NOTIFY';
+}
+
+export interface StrikePolicy {
+  enabled: boolean;
+  points: Record<StrikeSource, number>;
+  decayDays: number; // Strikes older than this no longer count (0 = never expire)
+  thresholds: StrikeThreshold[];
+}
+
+export interface StrikeRecord {
+  userId: string;
+  displayName: string;
+  strikes: Strike[];
+}
+
+export interface StrikeSummary {
+  userId: string;
+  displayName: string;
+  activePoints: number;
+  strikeCount: number;
+  lastStrikeAt: number;
+}
+
+interface StrikeStoreSchema {
+  policies: Record<string, StrikePolicy>;
+  records: Record<string, Record<string, StrikeRecord>>; // groupId -> userId -> record
+  triggers: Record<string, Record<string, number>>; // groupId -> `${userId}:${thresholdId}` -> last trigger time
+}
+
+export const DEFAULT_STRIKE_POLICY: StrikePolicy = {
+  enabled: false,
+  points: { AUTOMOD: 1, KICK: 1, VOTE_KICK: 1, FLAG: 1 },
+  decayDays: 90,
+  thresholds: [
+    { id: 'default-ban', points: 3, windowDays: 30, action: 'BAN' }
+  ]
+};
+
+/**
+ * Sums the points of strikes inside the window that have not decayed yet.
+ */
+export const getActivePoints = (strikes: Strike[], policy: StrikePolicy, windowDays: number, now = Date.now()): number => {
+  const windowStart = windowDays > 0 ? now - windowDays * DAY_MS : 0;
+  const decayStart = policy.decayDays > 0 ? now - policy.decayDays * DAY_MS : 0;
+  const since = Math.max(windowStart, decayStart);
+  return strikes.filter(s => s.timestamp >= since).reduce((sum, s) => sum + s.points, 0);
+};
+
+/**
+ * Whether a threshold that already fired for a user has to wait before firing again.
+ * It re-arms once its window has passed since the last trigger, a window of 0 never re-arms.
+ */
+export const isThresholdCoolingDown = (lastTriggeredAt: number | undefined, windowDays: number, now = Date.now()): boolean => {
+  if (!lastTriggeredAt) return false;
+  return windowDays > 0 ? now - lastTriggeredAt < windowDays * DAY_MS : true;
+};
+
+const isCount = (value: unknown, min: number) => typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+/**
+ * Returns the first problem with a policy sent by the renderer, or null when it can be saved.
+ */
+export const validateStrikePolicy = (policy: StrikePolicy): string | null => {
+  if (!policy || typeof policy !== 'object') return 'Policy is missing';
+  if (!policy.points || typeof policy.points !== 'object') return 'Points per source are missing';
+  for (const source of Object.keys(DEFAULT_STRIKE_POLICY.points) as StrikeSource[]) {
+    if (!isCount(policy.points[source], 0)) return `Points for ${source} must be a whole number of zero or more`;
+  }
+  if (!isCount(policy.decayDays, 0)) return 'Decay must be a whole number of days, 0 or more';
+  if (!Array.isArray(policy.thresholds)) return 'Thresholds are missing';
+  for (const threshold of policy.thresholds) {
+    if (!threshold || typeof threshold.id !== 'string' || !threshold.id) return 'Every threshold needs an ID';
+    if (!isCount(threshold.points, 1)) return 'Threshold points must be a whole number of 1 or more';
+    if (!isCount(threshold.windowDays, 0)) return 'Threshold window must be a whole number of days, 0 or more';
+    if (threshold.action !== 'BAN' && threshold.action !== 'NOTIFY') return `Unknown threshold action: ${threshold.action}`;
+  }
+  return null;
+};
+
+class StrikeService {
+  private store: Store<StrikeStoreSchema>;
+
+  constructor() {
+    this.store = new Store<StrikeStoreSchema>({
+      name: 'strike-ladder',
+      defaults: {
+        policies: {},
+        records: {},
+        triggers: {}
+      }
+    });
+  }
+
+  public initialize() {
+    logger.info('Initializing StrikeService...');
+
+    serviceEventBus.on('moderation-action', (event) => {
+      this.addStrike(event).catch(err => logger.error('Failed to record strike', err));
+    });
+
+    // Vote kicks only carry a display name, resolve it against the current instance
+    logWatcherService.on('vote-kick', (event: { target: string; timestamp: string }) => {
+      const groupId = instanceLoggerService.getCurrentGroupId();
+      if (!groupId) return;
+      const player = logWatcherService.getPlayers().find(p => p.displayName === event.target);
+      if (!player?.userId) {
+        logger.debug(`Vote kick target ${event.target} has no known user ID, skipping strike`);
+        return;
+      }
+      this.addStrike({
+        groupId,
+        userId: player.userId,
+        displayName: event.target,
+        source: 'VOTE_KICK',
+        action: 'VOTE_KICK',
+        reason: 'Vote kick initiated',
+        timestamp: new Date().toISOString()
+      }).catch(err => logger.error('Failed to record vote-kick strike', err));
+    });
+
+    this.setupHandlers();
+  }
+
+  // ============================================
+  // POLICY
+  // ============================================
+
+  public getPolicy(groupId: string): StrikePolicy {
+    const policy = this.store.get('policies')[groupId];
+    return policy
+      ? { ...DEFAULT_STRIKE_POLICY, ...policy, points: { ...DEFAULT_STRIKE_POLICY.points, ...policy.points } }
+      : { ...DEFAULT_STRIKE_POLICY, points: { ...DEFAULT_STRIKE_POLICY.points }, thresholds: DEFAULT_STRIKE_POLICY.thresholds.map(t => ({ ...t })) };
+  }
+
+  public setPolicy(groupId: string, policy: StrikePolicy): StrikePolicy {
+    const error = validateStrikePolicy(policy);
+    if (error) throw new Error(error);
+
+    // Only known fields are stored
+    const saved: StrikePolicy = {
+      enabled: policy.enabled === true,
+      points: { AUTOMOD: policy.points.AUTOMOD, KICK: policy.points.KICK, VOTE_KICK: policy.points.VOTE_KICK, FLAG: policy.points.FLAG },
+      decayDays: policy.decayDays,
+      thresholds: policy.thresholds.map(t => ({ id: t.id, points: t.points, windowDays: t.windowDays, action: t.action }))
+    };
+    const policies = this.store.get('policies');
+    policies[groupId] = saved;
+    this.store.set('policies', policies);
+    return saved;
+  }
+
+  // ============================================
+  // STRIKES
+  // ============================================
+
+  public getRecord(groupId: string, userId: string): StrikeRecord | null {
+    return this.store.get('records')[groupId]?.[userId] ?? null;
+  }
+
+  public getOffenders(groupId: string): StrikeSummary[] {
+    const policy = this.getPolicy(groupId);
+    const records = Object.values(this.store.get('records')[groupId] || {});
+    return records
+      .map(r => ({
+        userId: r.userId,
+        displayName: r.displayName,
+        activePoints: getActivePoints(r.strikes, policy, 0),
+        strikeCount: r.strikes.length,
+        lastStrikeAt: r.strikes[r.strikes.length - 1]?.timestamp ?? 0
+      }))
+      .filter(s => s.strikeCount > 0)
+      .sort((a, b) => b.activePoints - a.activePoints || b.lastStrikeAt - a.lastStrikeAt);
+  }
+
+  public clearUser(groupId: string, userId: string) {
+    const records = this.store.get('records');
+    if (records[groupId]?.[userId]) {
+      delete records[groupId][userId];
+      this.store.set('records', records);
+    }
+    const triggers = this.store.get('triggers');
+    if (triggers[groupId]) {
+      for (const key of Object.keys(triggers[groupId])) {
+        if (key.startsWith(`${userId}:`)) delete triggers[groupId][key];
+      }
+      this.store.set('triggers', triggers);
+    }
+    return true;
+  }
+
+  public async addStrike(event: ServiceEventPayloads['moderation-action']) {
+    const policy = this.getPolicy(event.groupId);
+    if (!policy.enabled) return;
+
+    const points = policy.points[event.source] ?? 0;
+    if (points <= 0) return;
+
+    const now = Date.now();
+    const records = this.store.get('records');
+    const groupRecords = records[event.groupId] || {};
+    const record: StrikeRecord = groupRecords[event.userId] || {
+      userId: event.userId,
+      displayName: event.displayName || event.userId,
+      strikes: []
+    };
+
+    if (event.displayName) record.displayName = event.displayName;
+    record.strikes.push({
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      source: event.source,
+      action: event.action,
+      reason: event.reason || event.action,
+      points,
+      timestamp: new Date(event.timestamp).getTime() || now
+    });
+
+    // Drop strikes that have fully decayed and cap the history
+    if (policy.decayDays > 0) {
+      const cutoff = now - policy.decayDays * DAY_MS;
+      record.strikes = record.strikes.filter(s => s.timestamp >= cutoff);
+    }
+    record.strikes = record.strikes.slice(-MAX_STRIKES_PER_USER);
+
+    groupRecords[event.userId] = record;
+    records[event.groupId] = groupRecords;
+    this.store.set('records', records);
+
+    logger.info(`Strike recorded for ${record.displayName} in ${event.groupId} (${event.source}: ${event.action})`);
+    windowService.broadcast('strikes:updated', { groupId: event.groupId, userId: event.userId });
+
+    await this.checkThresholds(event.groupId, record, policy);
+  }
+
+  private async checkThresholds(groupId: string, record: StrikeRecord, policy: StrikePolicy) {
+    const now = Date.now();
+    const triggers = this.store.get('triggers');
+    const groupTriggers = triggers[groupId] || {};
+
+    // Highest threshold first so a ban is not preceded by a redundant notify
+    const ordered = [...policy.thresholds].sort((a, b) => b.points - a.points);
+    for (const threshold of ordered) {
+      const active = getActivePoints(record.strikes, policy, threshold.windowDays, now);
+      if (active < threshold.points) continue;
+
+      const key = `${record.userId}:${threshold.id}`;
+      if (isThresholdCoolingDown(groupTriggers[key], threshold.windowDays, now)) continue;
+
+      groupTriggers[key] = now;
+      triggers[groupId] = groupTriggers;
+      this.store.set('triggers', triggers);
+
+      await this.executeThreshold(groupId, record, threshold, active);
+      return;
+    }
+  }
+
+  private async executeThreshold(groupId: string, record: StrikeRecord, threshold: StrikeThreshold, points: number) {
+    const reason = `Strike threshold reached: ${points} points in ${threshold.windowDays} days`;
+    let action = 'STRIKE_NOTIFY';
+
+    if (threshold.action === 'BAN') {
+      if (!groupAuthorizationService.isGroupAllowed(groupId)) {
+        logger.warn(`Skipping strike ban for ${record.userId}: group ${groupId} not authorized`);
+        return;
+      }
+      const result = await vrchatApiService.banUser(groupId, record.userId);
+      if (!result.success) {
+        logger.error(`Strike ban failed for ${record.displayName}: ${result.error}`);
+        return;
+      }
+      action = 'STRIKE_BAN';
+      logger.info(`Auto-banned ${record.displayName} in ${groupId}: ${reason}`);
+    }
+
+    try {
+      await databaseService.createAutoModLog({
+        timestamp: new Date(),
+        user: record.displayName,
+        userId: record.userId,
+        groupId,
+        action,
+        reason,
+        module: 'Strikes',
+        details: JSON.stringify({ thresholdId: threshold.id, points, strikes: record.strikes.length })
+      });
+    } catch (error) {
+      logger.error('Failed to persist strike action:', error);
+    }
+
+    windowService.broadcast('automod:violation', {
+      userId: record.userId,
+      displayName: record.displayName,
+      action,
+      reason,
+      ruleName: 'Strike Ladder',
+      detectedGroupId: groupId,
+      timestamp: new Date().toISOString()
+    });
+
+    discordWebhookService.sendEvent(groupId, {
+      title: threshold.action === 'BAN' ? '🚫 Strike Limit: User Banned' : '⚠️ Strike Limit Reached',
+      description: `**User**: ${record.displayName} (${record.userId})\n**Reason**: ${reason}`,
+      type: threshold.action === 'BAN' ? 'ERROR' : 'WARNING',
+      category: threshold.action === 'BAN' ? 'BAN' : 'AUTOMOD',
+      fields: [
+        { name: 'Strikes', value: String(record.strikes.length), inline: true },
+        { name: 'Points', value: String(points), inline: true },
+        { name: 'User Link', value: `[Profile](https://vrchat.com/home/user/${record.userId})`, inline: true }
+      ],
+      targetUser: { displayName: record.displayName, id: record.userId },
+      actor: GROUP_GUARD_ACTOR,
+      rule: { name: 'Strike Ladder' },
+      reason,
+      actionRequired: true
+    }).catch(e => logger.error('Webhook failed', e));
+  }
+
+  // ============================================
+  // IPC HANDLERS
+  // ============================================
+
+  private setupHandlers() {
+    ipcMain.handle('strikes:get-policy', (_, groupId: string) => {
+      groupAuthorizationService.validateAccess(groupId, 'strikes:get-policy');
+      return this.getPolicy(groupId);
+    });
+    ipcMain.handle('strikes:set-policy', (_, { groupId, policy }: { groupId: string; policy: StrikePolicy }) => {
+      groupAuthorizationService.validateAccess(groupId, 'strikes:set-policy');
+      return this.setPolicy(groupId, policy);
+    });
+    ipcMain.handle('strikes:get-offenders', (_, groupId: string) => {
+      groupAuthorizationService.validateAccess(groupId, 'strikes:get-offenders');
+      return this.getOffenders(groupId);
+    });
+    ipcMain.handle('strikes:get-user', (_, { groupId, userId }: { groupId: string; userId: string }) => {
+      groupAuthorizationService.validateAccess(groupId, 'strikes:get-user');
+      return this.getRecord(groupId, userId);
+    });
+    ipcMain.handle('strikes:clear-user', (_, { groupId, userId }: { groupId: string; userId: string }) => {
+      groupAuthorizationService.validateAccess(groupId, 'strikes:clear-user');
+      return this.clearUser(groupId, userId);
+    });
+  }
+}
+
+export const strikeService = new StrikeService();
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+const mocks = vi.hoisted(() => ({
+    store: { bans: [] as unknown[] } as Record<string, unknown>,
+    unbanUser: vi.fn(),
+    sendEvent: vi.fn(async () => undefined)
+}));
+
+vi.mock('electron', () => ({ ipcMain: { handle: vi.fn() } }));
+vi.mock('electron-store', () => ({
+    default: class {
+        get(key: string) { return mocks.store[key]; }
+        set(key: string, value: unknown) { mocks.store[key] = value; }
+    }
+}));
+vi.mock('./GroupAuthorizationService', () => ({ groupAuthorizationService: { isGroupAllowed: () => true } }));
+vi.mock('./VRChatApiService', () => ({ vrchatApiService: { unbanUser: mocks.unbanUser } }));
+vi.mock('./DatabaseService', () => ({ databaseService: { createAutoModLog: vi.fn(async () => undefined) } }));
+vi.mock('./WindowService', () => ({ windowService: { broadcast: vi.fn() } }));
+vi.mock('./DiscordWebhookService', () => ({ discordWebhookService: { sendEvent: mocks.sendEvent }, GROUP_GUARD_ACTOR: { id: 'system', displayName: 'Group Guard' } }));
+
+import { getExpiredBans, getRetryDelay, tempBanService, MAX_UNBAN_ATTEMPTS, type TempBan } from './TempBanService';
+
+const ban = (userId: string, expiresAt: number): TempBan => ({
+    groupId: 'grp_1',
+    userId,
+    bannedAt: 0,
+    expiresAt,
+    attempts: 0,
+});
+
+describe('getExpiredBans', () => {
+    it('returns only bans past their expiry, oldest first', () => {
+        const bans = [ban('usr_late', 300), ban('usr_future', 5000), ban('usr_early', 100)];
+        expect(getExpiredBans(bans, 1000).map(b => b.userId)).toEqual(['usr_early', 'usr_late']);
+    });
+
+    it('treats a ban expiring exactly now as expired', () => {
+        expect(getExpiredBans([ban('usr_now', 1000)], 1000)).toHaveLength(1);
+    });
+
+    it('skips bans waiting out a retry delay or that gave up', () => {
+        const bans = [{ ...ban('usr_waiting', 100), nextAttemptAt: 2000 }, { ...ban('usr_failed', 100), failed: true }, ban('usr_due', 100)];
+        expect(getExpiredBans(bans, 1000).map(b => b.userId)).toEqual(['usr_due']);
+    });
+});
+
+describe('getRetryDelay', () => {
+    it('doubles with every failure up to six hours', () => {
+        expect(getRetryDelay(1)).toBe(60 * 1000);
+        expect(getRetryDelay(3)).toBe(4 * 60 * 1000);
+        expect(getRetryDelay(20)).toBe(6 * 60 * 60 * 1000);
+    });
+});
+
+describe('processExpired', () => {
+    beforeEach(() => {
+        mocks.store.bans = [ban('usr_1', 0)];
+        mocks.unbanUser.mockReset();
+        mocks.sendEvent.mockClear();
+    });
+
+    it('backs off after a failed unban', async () => {
+        mocks.unbanUser.mockResolvedValue({ success: false, error: 'Forbidden' });
+        await tempBanService.processExpired();
+        await tempBanService.processExpired();
+
+        expect(mocks.unbanUser).toHaveBeenCalledTimes(1);
+        const [stored] = tempBanService.getBans();
+        expect(stored).toMatchObject({ attempts: 1, lastError: 'Forbidden' });
+        expect(stored.nextAttemptAt).toBeGreaterThan(Date.now());
+    });
+
+    it('gives up and reports after the last attempt', async () => {
+        mocks.store.bans = [{ ...ban('usr_1', 0), attempts: MAX_UNBAN_ATTEMPTS - 1 }];
+        mocks.unbanUser.mockResolvedValue({ success: false, error: 'Forbidden' });
+        await tempBanService.processExpired();
+
+        expect(tempBanService.getBans()[0]).toMatchObject({ failed: true, attempts: MAX_UNBAN_ATTEMPTS });
+        expect(mocks.sendEvent).toHaveBeenCalledWith('grp_1', expect.objectContaining({ type: 'ERROR', category: 'BAN' }));
+
+        mocks.unbanUser.mockResolvedValue({ success: true });
+        await tempBanService.retry('grp_1', 'usr_1');
+        expect(tempBanService.getBans()).toHaveLength(0);
+    });
+});
+
+describe('permanent bans', () => {
+    it('cancel the scheduled unban of the same user only', async () => {
+        vi.useFakeTimers({ toFake: ['setInterval'] });
+        tempBanService.initialize();
+        vi.useRealTimers();
+        mocks.store.bans = [ban('usr_1', 5000), ban('usr_2', 5000)];
+
+        const { serviceEventBus } = await import('./ServiceEventBus');
+        serviceEventBus.emit('permanent-ban', { groupId: 'grp_1', userId: 'usr_1' });
+
+        expect(tempBanService.getBans().map(b => b.userId)).toEqual(['usr_2']);
+    });
+});
@@ -0,0 +1,249 @@
+import Store from 'electron-store';
+import { ipcMain } from 'electron';
+import log from 'electron-log';
+import { serviceEventBus } from './ServiceEventBus';
+import { groupAuthorizationService } from './GroupAuthorizationService';
+import { vrchatApiService } from './VRChatApiService';
+import { databaseService } from './DatabaseService';
+import { windowService } from './WindowService';
+import { discordWebhookService, GROUP_GUARD_ACTOR } from './DiscordWebhookService';
+
+const logger = log.scope('TempBanService');
+
+const CHECK_INTERVAL = 60 * 1000;
+// Failed unbans back off from one check interval up to six hours, then give up
+const RETRY_BASE_DELAY = CHECK_INTERVAL;
+const RETRY_MAX_DELAY = 6 * 60 * 60 * 1000;
+export const MAX_UNBAN_ATTEMPTS = 8;
+
+export interface TempBan {
+  groupId: string;
+  userId: string;
+  displayName?: string;
+  reason?: string;
+  bannedAt: number;
+  expiresAt: number;
+  attempts: number; // Failed unban attempts
+  lastError?: string;
+  nextAttemptAt?: number; // Set after a failed unban
+  failed?: boolean; // Gave up after MAX_UNBAN_ATTEMPTS, waits for a manual retry
+}
+
+interface TempBanStoreSchema {
+  bans: TempBan[];
+}
+
+/**
+ * Returns the bans whose expiry has passed and that are not waiting out a retry delay, oldest first.
+ */
+export const getExpiredBans = (bans: TempBan[], now = Date.now()): TempBan[] =>
+  bans
+    .filter(b => b.expiresAt <= now && !b.failed && (b.nextAttemptAt || 0) <= now)
+    .sort((a, b) => a.expiresAt - b.expiresAt);
+
+/**
+ * Delay before the next unban attempt after the given number of failures.
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY);
+
+class TempBanService {
+  private store: Store<TempBanStoreSchema>;
+  private interval: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  constructor() {
+    this.store = new Store<TempBanStoreSchema>({
+      name: 'temp-bans',
+      defaults: {
+        bans: []
+      }
+    });
+  }
+
+  public initialize() {
+    logger.info(`Initializing TempBanService (${this.store.get('bans').length} scheduled unbans)`);
+
+    // Catch up once the user's groups are known, bans may have expired while the app was closed
+    serviceEventBus.on('groups-updated', () => {
+      this.processExpired().catch(err => logger.error('Failed to process expired bans', err));
+    });
+
+    // Strike ladder and AutoMod bans are permanent, they replace a pending temporary ban
+    serviceEventBus.on('permanent-ban', ({ groupId, userId }: { groupId: string; userId: string }) => {
+      if (this.cancel(groupId, userId)) logger.info(`Cancelled the scheduled unban of ${userId} in ${groupId}, the user is now permanently banned`);
+    });
+
+    if (this.interval) clearInterval(this.interval);
+    this.interval = setInterval(() => {
+      this.processExpired().catch(err => logger.error('Failed to process expired bans', err));
+    }, CHECK_INTERVAL);
+
+    this.setupHandlers();
+  }
+
+  public getBans(groupId?: string): TempBan[] {
+    const bans = this.store.get('bans');
+    return groupId ? bans.filter(b => b.groupId === groupId) : bans;
+  }
+
+  private getAllowedBans(): TempBan[] {
+    return this.getBans().filter(b => groupAuthorizationService.isGroupAllowed(b.groupId));
+  }
+
+  public schedule(ban: Omit<TempBan, 'attempts' | 'bannedAt'> & { bannedAt?: number }): TempBan {
+    const entry: TempBan = { bannedAt: Date.now(), ...ban, attempts: 0 };
+    const bans = this.store.get('bans').filter(b => !(b.groupId === ban.groupId && b.userId === ban.userId));
+    bans.push(entry);
+    this.store.set('bans', bans);
+
+    logger.info(`Scheduled unban for ${ban.userId} in ${ban.groupId} at ${new Date(ban.expiresAt).toISOString()}`);
+    this.broadcast();
+    return entry;
+  }
+
+  /**
+   * Drops a scheduled unban, e.g. when the user was unbanned manually or the ban was made permanent.
+   */
+  public cancel(groupId: string, userId: string): boolean {
+    const bans = this.store.get('bans');
+    const remaining = bans.filter(b => !(b.groupId === groupId && b.userId === userId));
+    if (remaining.length === bans.length) return false;
+
+    this.store.set('bans', remaining);
+    this.broadcast();
+    return true;
+  }
+
+  /**
+   * Starts over on an unban that gave up, e.g. after the moderator's permissions were fixed.
+   */
+  public async retry(groupId: string, userId: string): Promise<boolean> {
+    const bans = this.store.get('bans');
+    if (!bans.some(b => b.groupId === groupId && b.userId === userId)) return false;
+
+    this.store.set('bans', bans.map(b =>
+      b.groupId === groupId && b.userId === userId
+        ? { ...b, attempts: 0, failed: false, nextAttemptAt: undefined, lastError: undefined }
+        : b
+    ));
+    this.broadcast();
+    await this.processExpired();
+    return true;
+  }
+
+  public async processExpired() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      for (const ban of getExpiredBans(this.store.get('bans'))) {
+        // Not logged in yet or lost access, retry on a later tick
+        if (!groupAuthorizationService.isGroupAllowed(ban.groupId)) continue;
+        await this.liftBan(ban);
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async liftBan(ban: TempBan) {
+    const name = ban.displayName || ban.userId;
+    const result = await vrchatApiService.unbanUser(ban.groupId, ban.userId);
+
+    if (!result.success) {
+      this.recordFailure(ban, result.error || 'Unknown error');
+      return;
+    }
+
+    this.cancel(ban.groupId, ban.userId);
+    logger.info(`Temporary ban expired for ${name} in ${ban.groupId}, user unbanned`);
+
+    const reason = `Temporary ban expired (banned ${new Date(ban.bannedAt).toLocaleString()})`;
+    try {
+      await databaseService.createAutoModLog({
+        timestamp: new Date(),
+        user: name,
+        userId: ban.userId,
+        groupId: ban.groupId,
+        action: 'AUTO_UNBAN',
+        reason,
+        module: 'TempBan',
+        details: JSON.stringify({ bannedAt: ban.bannedAt, expiresAt: ban.expiresAt, originalReason: ban.reason })
+      });
+    } catch (error) {
+      logger.error('Failed to persist unban audit entry:', error);
+    }
+
+    discordWebhookService.sendEvent(ban.groupId, {
+      title: '🔓 Temporary Ban Expired',
+      description: `**User**: ${name} (${ban.userId})\n**Reason**: ${reason}`,
+      type: 'SUCCESS',
+      category: 'BAN',
+      fields: [
+        { name: 'Banned At', value: new Date(ban.bannedAt).toLocaleString(), inline: true },
+        { name: 'User Link', value: `[Profile](https://vrchat.com/home/user/${ban.userId})`, inline: true }
+      ],
+      targetUser: { displayName: name, id: ban.userId },
+      actor: GROUP_GUARD_ACTOR,
+      reason
+    }).catch(e => logger.error('Webhook failed', e));
+  }
+
+  private recordFailure(ban: TempBan, error: string) {
+    const name = ban.displayName || ban.userId;
+    const attempts = ban.attempts + 1;
+    const failed = attempts >= MAX_UNBAN_ATTEMPTS;
+    const update: Partial<TempBan> = failed
+      ? { attempts, lastError: error, failed, nextAttemptAt: undefined }
+      : { attempts, lastError: error, nextAttemptAt: Date.now() + getRetryDelay(attempts) };
+
+    this.store.set('bans', this.store.get('bans').map(b =>
+      b.groupId === ban.groupId && b.userId === ban.userId ? { ...b, ...update } : b
+    ));
+    this.broadcast();
+
+    if (!failed) {
+      logger.warn(`Failed to lift temporary ban for ${name} in ${ban.groupId} (attempt ${attempts}): ${error}`);
+      return;
+    }
+
+    logger.error(`Giving up on lifting temporary ban for ${name} in ${ban.groupId} after ${attempts} attempts: ${error}`);
+    discordWebhookService.sendEvent(ban.groupId, {
+      title: '⚠️ Temporary Ban Could Not Be Lifted',
+      description: `**User**: ${name} (${ban.userId})\n**Error**: ${error}\nThe user is still banned, retry or unban them from the dashboard.`,
+      type: 'ERROR',
+      category: 'BAN',
+      fields: [
+        { name: 'Expired At', value: new Date(ban.expiresAt).toLocaleString(), inline: true },
+        { name: 'Attempts', value: String(attempts), inline: true }
+      ],
+      targetUser: { displayName: name, id: ban.userId },
+      actor: GROUP_GUARD_ACTOR,
+      reason: error,
+      actionRequired: true
+    }).catch(e => logger.error('Webhook failed', e));
+  }
+
+  private broadcast() {
+    windowService.broadcast('temp-bans:updated', { bans: this.getAllowedBans() });
+  }
+
+  private setupHandlers() {
+    ipcMain.handle('temp-bans:get', (_, groupId?: string) => {
+      if (!groupId) return this.getAllowedBans();
+      groupAuthorizationService.validateAccess(groupId, 'temp-bans:get');
+      return this.getBans(groupId);
+    });
+    ipcMain.handle('temp-bans:cancel', (_, { groupId, userId }: { groupId: string; userId: string }) => {
+      groupAuthorizationService.validateAccess(groupId, 'temp-bans:cancel');
+      return this.cancel(groupId, userId);
+    });
+    ipcMain.handle('temp-bans:retry', (_, { groupId, userId }: { groupId: string; userId: string }) => {
+      groupAuthorizationService.validateAccess(groupId, 'temp-bans:retry');
+      return this.retry(groupId, userId);
+    });
+  }
+}
+
+export const tempBanService = new TempBanService();
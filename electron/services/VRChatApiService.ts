@@ -11,6 +11,7 @@
 import log from 'electron-log';
 import { LRUCache } from 'lru-cache';
 import { networkService } from './NetworkService';
+import { serviceEventBus } from './ServiceEventBus';
 import { VRChat } from 'vrchat';
 
 const logger = log.scope('VRChatApiService');
@@ -518,7 +519,7 @@ export const vrchatApiService = {
     },
 
     /**
-     * Ban a user from a group
+     * Permanently ban a user from a group, cancelling any scheduled unban
      */
     async banUser(groupId: string, userId: string): Promise<ApiResult<void>> {
         return networkService.execute(async () => {
@@ -529,6 +530,7 @@ export const vrchatApiService = {
                 path: { groupId },
                 body: { userId }
             });
+            serviceEventBus.emit('permanent-ban', { groupId, userId });
             return undefined;
         }, `banUser:${groupId}:${userId}`);
     },
@@ -596,19 +598,19 @@ export const vrchatApiService = {
     /**
      * Get group audit logs
      */
-    async getGroupAuditLogs(groupId: string, n = 60): Promise<ApiResult<VRCAuditLogEntry[]>> {
+    async getGroupAuditLogs(groupId: string, n = 60, offset = 0): Promise<ApiResult<VRCAuditLogEntry[]>> {
         return networkService.execute(async () => {
             const client = getVRChatClient();
             if (!client) throw new Error('Not authenticated');
 
             const response = await client.getGroupAuditLogs({
                 path: { groupId },
-                query: { n }
+                query: { n, offset }
             });
             const logs = extractArray(response.data || response) as VRCAuditLogEntry[];
 
             return logs;
-        }, `getGroupAuditLogs:${groupId}`);
+        }, `getGroupAuditLogs:${groupId}:${offset}`);
     },
 
     /**
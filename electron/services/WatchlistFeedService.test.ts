@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('electron', () => ({ ipcMain: { handle: vi.fn() } }));
+vi.mock('electron-store', () => ({ default: vi.fn() }));
+vi.mock('./WindowService', () => ({ windowService: {} }));
+vi.mock('./DatabaseService', () => ({ databaseService: {} }));
+vi.mock('./AuthService', () => ({ getCurrentUserId: () => null, getCurrentUserDisplayName: () => null }));
+
+import { diffFeedEntities } from './WatchlistFeedService';
+import type { WatchedEntity } from './WatchlistService';
+
+const entity = (id: string, overrides: Partial<WatchedEntity> = {}): WatchedEntity => ({
+    id,
+    type: 'user',
+    displayName: id,
+    tags: [],
+    notes: '',
+    priority: 0,
+    critical: false,
+    silent: false,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+});
+
+describe('diffFeedEntities', () => {
+    it('reports added, updated and removed entities but ignores sync metadata', () => {
+        const previous = {
+            usr_a: entity('usr_a', { source: { feedId: 'feed_1', feedName: 'Allies', syncedAt: 1 } }),
+            usr_b: entity('usr_b'),
+        };
+        const next = {
+            usr_a: entity('usr_a', { source: { feedId: 'feed_1', feedName: 'Allies', syncedAt: 2 } }),
+            usr_b: entity('usr_b', { critical: true }),
+            usr_c: entity('usr_c'),
+        };
+        expect(diffFeedEntities(previous, next)).toEqual({
+            added: [{ id: 'usr_c', displayName: 'usr_c' }],
+            updated: [{ id: 'usr_b', displayName: 'usr_b' }],
+            removed: [],
+        });
+        expect(diffFeedEntities(next, {}).removed.map(r => r.id)).toEqual(['usr_a', 'usr_b', 'usr_c']);
+    });
+});
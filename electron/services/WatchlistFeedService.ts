@@ -0,0 +1,205 @@
+import Store from 'electron-store';
+import { ipcMain } from 'electron';
+import log from 'electron-log';
+import fs from 'fs';
+import { watchlistService, parseWatchlistEntities, parseWatchlistTags, diffFields, type WatchedEntity } from './WatchlistService';
+import { windowService } from './WindowService';
+
+const logger = log.scope('WatchlistFeedService');
+
+const CHECK_INTERVAL = 60 * 1000;
+const MIN_INTERVAL_MINUTES = 5;
+const FETCH_TIMEOUT_MS = 15000;
+
+export interface WatchlistFeedChange {
+  id: string;
+  displayName: string;
+}
+
+export interface WatchlistFeedChanges {
+  added: WatchlistFeedChange[];
+  updated: WatchlistFeedChange[];
+  removed: WatchlistFeedChange[];
+}
+
+export interface WatchlistFeed {
+  id: string;
+  name: string;
+  source: string; // http(s) URL or local file path serving the watchlist:export format
+  enabled: boolean;
+  intervalMinutes: number;
+  lastSyncAt?: number;
+  lastError?: string;
+  entityCount: number;
+  rejectedRows: number;
+  lastChanges?: WatchlistFeedChanges; // What the last successful sync changed
+}
+
+interface WatchlistFeedStoreSchema {
+  feeds: WatchlistFeed[];
+}
+
+/**
+ * What changed between two syncs of the same feed. Sync timestamps are ignored.
+ */
+export const diffFeedEntities = (
+  previous: Record<string, WatchedEntity>,
+  next: Record<string, WatchedEntity>
+): WatchlistFeedChanges => {
+  const changes: WatchlistFeedChanges = { added: [], updated: [], removed: [] };
+  for (const entity of Object.values(next)) {
+    const old = previous[entity.id];
+    if (!old) changes.added.push({ id: entity.id, displayName: entity.displayName });
+    else if (diffFields(old, entity).length > 0) changes.updated.push({ id: entity.id, displayName: entity.displayName });
+  }
+  for (const entity of Object.values(previous)) {
+    if (!next[entity.id]) changes.removed.push({ id: entity.id, displayName: entity.displayName });
+  }
+  return changes;
+};
+
+const isUrl = (source: string) => /^https?:\/\//i.test(source);
+
+class WatchlistFeedService {
+  private store: Store<WatchlistFeedStoreSchema>;
+  private interval: NodeJS.Timeout | null = null;
+  private syncing = new Set<string>();
+
+  constructor() {
+    this.store = new Store<WatchlistFeedStoreSchema>({
+      name: 'watchlist-feeds',
+      defaults: {
+        feeds: []
+      }
+    });
+  }
+
+  public initialize() {
+    logger.info('Initializing WatchlistFeedService');
+
+    if (this.interval) clearInterval(this.interval);
+    this.interval = setInterval(() => {
+      this.syncDue().catch(err => logger.error('Watchlist feed sync failed', err));
+    }, CHECK_INTERVAL);
+    this.syncDue().catch(err => logger.error('Watchlist feed sync failed', err));
+
+    this.setupHandlers();
+  }
+
+  public getFeeds(): WatchlistFeed[] {
+    return this.store.get('feeds');
+  }
+
+  private updateFeed(id: string, patch: Partial<WatchlistFeed>): WatchlistFeed | undefined {
+    const feeds = this.getFeeds();
+    const index = feeds.findIndex(f => f.id === id);
+    if (index === -1) return undefined;
+    feeds[index] = { ...feeds[index], ...patch };
+    this.store.set('feeds', feeds);
+    windowService.broadcast('watchlist:feeds-updated', { feeds });
+    return feeds[index];
+  }
+
+  public saveFeed(input: Pick<WatchlistFeed, 'name' | 'source' | 'enabled' | 'intervalMinutes'> & { id?: string }): WatchlistFeed {
+    const name = input.name?.trim();
+    const source = input.source?.trim();
+    if (!name) throw new Error('Feed name is required');
+    if (!source) throw new Error('Feed source is required');
+    if (!isUrl(source) && !fs.existsSync(source)) throw new Error(`File not found: ${source}`);
+    const intervalMinutes = Math.max(MIN_INTERVAL_MINUTES, Math.round(Number(input.intervalMinutes) || 60));
+
+    const feeds = this.getFeeds();
+    const existing = input.id ? feeds.find(f => f.id === input.id) : undefined;
+    let feed: WatchlistFeed;
+    let needsSync = input.enabled;
+    if (existing) {
+      feed = { ...existing, name, source, enabled: input.enabled, intervalMinutes };
+      feeds[feeds.indexOf(existing)] = feed;
+      needsSync = input.enabled && (!existing.enabled || existing.source !== source);
+    } else {
+      feed = { id: `feed_${Date.now()}`, name, source, enabled: input.enabled, intervalMinutes, entityCount: 0, rejectedRows: 0 };
+      feeds.push(feed);
+    }
+    this.store.set('feeds', feeds);
+    windowService.broadcast('watchlist:feeds-updated', { feeds });
+
+    if (!feed.enabled) watchlistService.removeFeedEntities(feed.id, feed.name);
+    else if (needsSync) this.syncFeed(feed.id).catch(err => logger.error(`Feed ${feed.name} sync failed`, err));
+    return feed;
+  }
+
+  public deleteFeed(id: string): boolean {
+    const feeds = this.getFeeds();
+    const feed = feeds.find(f => f.id === id);
+    if (!feed) return false;
+    const filtered = feeds.filter(f => f.id !== id);
+    this.store.set('feeds', filtered);
+    watchlistService.removeFeedEntities(id, feed.name);
+    windowService.broadcast('watchlist:feeds-updated', { feeds: filtered });
+    return true;
+  }
+
+  private async syncDue() {
+    const now = Date.now();
+    for (const feed of this.getFeeds()) {
+      if (!feed.enabled) continue;
+      if (feed.lastSyncAt && now - feed.lastSyncAt < feed.intervalMinutes * 60 * 1000) continue;
+      await this.syncFeed(feed.id);
+    }
+  }
+
+  private async readSource(source: string): Promise<string> {
+    if (!isUrl(source)) return fs.promises.readFile(source, 'utf-8');
+    const response = await fetch(source, {
+      headers: { 'Accept': 'application/json' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response.text();
+  }
+
+  public async syncFeed(id: string): Promise<WatchlistFeed | undefined> {
+    const feed = this.getFeeds().find(f => f.id === id);
+    if (!feed || this.syncing.has(id)) return feed;
+    this.syncing.add(id);
+
+    try {
+      const data = JSON.parse(await this.readSource(feed.source));
+      const { entities, errors } = parseWatchlistEntities(data);
+      const syncedAt = Date.now();
+      for (const entity of Object.values(entities)) {
+        entity.source = { feedId: feed.id, feedName: feed.name, syncedAt };
+      }
+
+      const changes = diffFeedEntities(watchlistService.getFeedEntities(feed.id), entities);
+      watchlistService.setFeedEntities(feed.id, entities, parseWatchlistTags(data), feed.name);
+
+      if (changes.added.length + changes.updated.length + changes.removed.length > 0) {
+        logger.info(`Feed ${feed.name}: ${changes.added.length} added, ${changes.updated.length} updated, ${changes.removed.length} removed`);
+      }
+      return this.updateFeed(id, {
+        lastSyncAt: syncedAt,
+        lastError: undefined,
+        entityCount: Object.keys(entities).length,
+        rejectedRows: errors.length,
+        lastChanges: changes
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Feed ${feed.name} sync failed: ${message}`);
+      // Retry on the next interval instead of every minute
+      return this.updateFeed(id, { lastSyncAt: Date.now(), lastError: message });
+    } finally {
+      this.syncing.delete(id);
+    }
+  }
+
+  private setupHandlers() {
+    ipcMain.handle('watchlist:get-feeds', () => this.getFeeds());
+    ipcMain.handle('watchlist:save-feed', (_, feed) => this.saveFeed(feed));
+    ipcMain.handle('watchlist:delete-feed', (_, id: string) => this.deleteFeed(id));
+    ipcMain.handle('watchlist:sync-feed', (_, id: string) => this.syncFeed(id));
+  }
+}
+
+export const watchlistFeedService = new WatchlistFeedService();
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('./ServiceEventBus', () => ({ serviceEventBus: { on: vi.fn() } }));
+vi.mock('./LogWatcherService', () => ({ logWatcherService: {} }));
+vi.mock('./InstanceLoggerService', () => ({ instanceLoggerService: {} }));
+vi.mock('./WatchlistService', () => ({ watchlistService: {} }));
+vi.mock('./UserProfileService', () => ({ userProfileService: {} }));
+vi.mock('./DatabaseService', () => ({ databaseService: {} }));
+vi.mock('./DiscordWebhookService', () => ({ discordWebhookService: {} }));
+vi.mock('./WindowService', () => ({ windowService: {} }));
+
+import { findWatchlistHits } from './WatchlistMonitorService';
+import type { WatchedEntity } from './WatchlistService';
+
+const entity = (id: string, type: WatchedEntity['type'], displayName: string): WatchedEntity => ({
+    id, type, displayName, tags: [], notes: '', priority: 0, critical: false, silent: false, createdAt: 0, updatedAt: 0,
+});
+
+const watched = [
+    entity('usr_bad', 'user', 'Bad Actor'),
+    entity('grp_raiders', 'group', 'Raiders'),
+    entity('avtr_crasher', 'avatar', 'Crasher Avatar'),
+];
+
+describe('findWatchlistHits', () => {
+    it('matches users, their groups and avatars by ID or name', () => {
+        expect(findWatchlistHits(watched, { userId: 'usr_bad', displayName: 'Bad Actor', groupIds: ['grp_raiders'] }).map(h => h.kind))
+            .toEqual(['user', 'group']);
+        expect(findWatchlistHits(watched, { displayName: 'Someone', avatarId: 'avtr_crasher' })[0].detail)
+            .toBe('is wearing watched avatar Crasher Avatar');
+        expect(findWatchlistHits(watched, { displayName: 'Someone', avatarName: ' crasher avatar ' })).toHaveLength(1);
+        expect(findWatchlistHits(watched, { userId: 'usr_ok', displayName: 'Fine', groupIds: ['grp_other'] })).toEqual([]);
+    });
+});
@@ -0,0 +1,181 @@
+import log from 'electron-log';
+import { serviceEventBus } from './ServiceEventBus';
+import { logWatcherService, PlayerJoinedEvent } from './LogWatcherService';
+import { instanceLoggerService } from './InstanceLoggerService';
+import { watchlistService, WatchedEntity } from './WatchlistService';
+import { userProfileService } from './UserProfileService';
+import { databaseService } from './DatabaseService';
+import { discordWebhookService } from './DiscordWebhookService';
+import { windowService } from './WindowService';
+
+const logger = log.scope('WatchlistMonitorService');
+
+// An avatar load is attributed to the player whose switch was logged just before it
+const AVATAR_SWITCH_WINDOW_MS = 10000;
+
+export type WatchlistHitKind = 'user' | 'group' | 'avatar';
+
+export interface WatchlistSighting {
+  userId?: string;
+  displayName: string;
+  groupIds?: string[];
+  avatarId?: string;
+  avatarName?: string;
+}
+
+export interface WatchlistHit {
+  entity: WatchedEntity;
+  kind: WatchlistHitKind;
+  detail: string;
+}
+
+/**
+ * Watched entities a sighting matches. Avatars match by ID, or by name when the log only
+ * has the name (other players' switches).
+ */
+export const findWatchlistHits = (entities: WatchedEntity[], sighting: WatchlistSighting): WatchlistHit[] => {
+  const hits: WatchlistHit[] = [];
+  const avatarName = sighting.avatarName?.trim().toLowerCase();
+  for (const entity of entities) {
+    if (entity.type === 'user' && sighting.userId === entity.id) {
+      hits.push({ entity, kind: 'user', detail: 'is on the watchlist' });
+    } else if (entity.type === 'group' && sighting.groupIds?.includes(entity.id)) {
+      hits.push({ entity, kind: 'group', detail: `is a member of watched group ${entity.displayName}` });
+    } else if (entity.type === 'avatar' && (
+      (sighting.avatarId && sighting.avatarId === entity.id) ||
+      (avatarName && entity.displayName.trim().toLowerCase() === avatarName)
+    )) {
+      hits.push({ entity, kind: 'avatar', detail: `is wearing watched avatar ${entity.displayName}` });
+    }
+  }
+  return hits;
+};
+
+class WatchlistMonitorService {
+  private reported = new Set<string>(); // Per instance, so a hit alerts once per visit
+  private lastSwitch: { displayName: string; avatarName: string; timestamp: number } | null = null;
+
+  public initialize() {
+    logger.info('Initializing WatchlistMonitorService');
+
+    logWatcherService.on('location', () => {
+      this.reported.clear();
+      this.lastSwitch = null;
+    });
+
+    serviceEventBus.on('player-joined', (event: PlayerJoinedEvent) => {
+      if (event.isBackfill) return;
+      this.checkPlayer(event).catch(err => logger.error('Watchlist check failed', err));
+    });
+
+    logWatcherService.on('avatar-switch', (event: { displayName: string; avatarName: string; isBackfill?: boolean }) => {
+      if (event.isBackfill) return;
+      this.lastSwitch = { displayName: event.displayName, avatarName: event.avatarName, timestamp: Date.now() };
+      this.check({ ...this.resolvePlayer(event.displayName), avatarName: event.avatarName }, ['avatar']);
+    });
+
+    logWatcherService.on('avatar', (event: { avatarId: string }) => {
+      const recent = this.lastSwitch && Date.now() - this.lastSwitch.timestamp < AVATAR_SWITCH_WINDOW_MS ? this.lastSwitch : null;
+      const player = recent ? this.resolvePlayer(recent.displayName) : { displayName: 'Unknown player' };
+      this.check({ ...player, avatarId: event.avatarId }, ['avatar']);
+    });
+  }
+
+  /**
+   * Players found by a sector scan. Most already came through player-joined, the
+   * per-instance dedupe keeps them from alerting twice.
+   */
+  public checkPlayers(players: PlayerJoinedEvent[], groupId?: string) {
+    for (const player of players) {
+      this.checkPlayer(player, groupId).catch(err => logger.error('Watchlist check failed', err));
+    }
+  }
+
+  private resolvePlayer(displayName: string): { userId?: string; displayName: string } {
+    const player = logWatcherService.getPlayers().find(p => p.displayName === displayName);
+    return { userId: player?.userId, displayName };
+  }
+
+  private async checkPlayer(player: PlayerJoinedEvent, groupId?: string) {
+    const sighting: WatchlistSighting = { userId: player.userId, displayName: player.displayName };
+    this.check(sighting, ['user'], groupId);
+
+    // Group lookups cost an API call, only make them when groups are being watched
+    const watchesGroups = watchlistService.getEntities().some(e => e.type === 'group');
+    if (!player.userId || !watchesGroups) return;
+    const groups = await userProfileService.getUserGroups(player.userId);
+    this.check({ ...sighting, groupIds: groups.map(g => g.groupId) }, ['group'], groupId);
+  }
+
+  private check(sighting: WatchlistSighting, kinds: WatchlistHitKind[], groupId?: string) {
+    const hits = findWatchlistHits(watchlistService.getEntities(), sighting).filter(hit => kinds.includes(hit.kind));
+    for (const hit of hits) {
+      const key = `${hit.entity.id}:${sighting.userId || sighting.displayName}`;
+      if (this.reported.has(key)) continue;
+      this.reported.add(key);
+      this.report(hit, sighting, groupId || instanceLoggerService.getCurrentGroupId() || undefined);
+    }
+  }
+
+  private report(hit: WatchlistHit, sighting: WatchlistSighting, groupId?: string) {
+    const { entity } = hit;
+    const reason = `${sighting.displayName} ${hit.detail}`;
+    logger.warn(`[Watchlist] ${reason}${entity.silent ? ' (silent)' : ''}`);
+
+    if (groupId) {
+      databaseService.createAutoModLog({
+        timestamp: new Date(),
+        user: sighting.displayName,
+        userId: sighting.userId || 'unknown',
+        groupId,
+        action: 'WATCHLIST_HIT',
+        reason: `[Watchlist] ${reason}`,
+        module: 'Watchlist',
+        details: JSON.stringify({ entityId: entity.id, kind: hit.kind, critical: entity.critical, avatarId: sighting.avatarId })
+      }).catch(err => logger.error('Failed to persist watchlist hit:', err));
+    }
+
+    if (entity.silent) return;
+
+    if (entity.critical) {
+      windowService.broadcast('automod:violation', {
+        userId: sighting.userId || '',
+        displayName: sighting.displayName,
+        action: 'WATCHLIST',
+        reason: entity.notes ? `${reason} - ${entity.notes}` : reason,
+        ruleName: 'Watchlist',
+        detectedGroupId: groupId,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (!groupId) return;
+    serviceEventBus.emit('watchlist-hit', {
+      groupId,
+      userId: sighting.userId,
+      displayName: sighting.displayName,
+      entityId: entity.id,
+      critical: entity.critical,
+      reason
+    });
+
+    const fields = [
+      { name: 'Watched', value: `${entity.displayName} (${entity.id})`, inline: true },
+      { name: 'Priority', value: String(entity.priority), inline: true }
+    ];
+    if (entity.tags.length > 0) fields.push({ name: 'Tags', value: entity.tags.join(', '), inline: true });
+    if (entity.notes) fields.push({ name: 'Notes', value: entity.notes, inline: false });
+
+    discordWebhookService.sendEvent(groupId, {
+      title: entity.critical ? '🚨 Critical Watchlist Hit' : '👁️ Watchlist Hit',
+      description: `**${sighting.displayName}** ${hit.detail}`,
+      type: entity.critical ? 'ERROR' : 'WARNING',
+      category: 'WATCHLIST',
+      fields,
+      targetUser: sighting.userId ? { displayName: sighting.displayName, id: sighting.userId } : undefined,
+      reason
+    }).catch(e => logger.error('Webhook failed', e));
+  }
+}
+
+export const watchlistMonitorService = new WatchlistMonitorService();
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('electron', () => ({ ipcMain: { handle: vi.fn() } }));
+vi.mock('electron-store', () => ({ default: vi.fn() }));
+vi.mock('./WindowService', () => ({ windowService: {} }));
+vi.mock('./DatabaseService', () => ({ databaseService: {} }));
+vi.mock('./AuthService', () => ({ getCurrentUserId: () => null, getCurrentUserDisplayName: () => null }));
+
+import { planWatchlistImport, validateWatchedEntity, describeEntityChanges, describeBulkChanges, type WatchedEntity } from './WatchlistService';
+
+const entity = (overrides: Partial<WatchedEntity> = {}): WatchedEntity => ({
+    id: 'usr_a',
+    type: 'user',
+    displayName: 'Alice',
+    tags: [],
+    notes: '',
+    priority: 0,
+    critical: false,
+    silent: false,
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+});
+
+const current = {
+    entities: { usr_a: entity(), usr_b: entity({ id: 'usr_b', displayName: 'Bob' }) },
+    tags: [{ id: 'nuisance', label: 'Nuisance', description: '' }],
+};
+
+describe('validateWatchedEntity', () => {
+    it('reports every problem with a row', () => {
+        const { entity: result, errors } = validateWatchedEntity({ id: 'grp_x', type: 'user', priority: 500, critical: 'yes' });
+        expect(result).toBeUndefined();
+        expect(errors).toEqual([
+            'id must start with usr_ for type user',
+            'priority must be a number between -100 and 100',
+            'critical must be true or false',
+        ]);
+    });
+
+    it('fills optional fields with defaults', () => {
+        expect(validateWatchedEntity({ id: 'wrld_1', type: 'world' }, 5).entity).toMatchObject({
+            displayName: 'Unknown', tags: [], priority: 0, createdAt: 5, updatedAt: 5
+        });
+    });
+});
+
+describe('planWatchlistImport', () => {
+    const incoming = {
+        entities: [
+            entity({ notes: 'theirs', updatedAt: 2000 }),
+            entity({ id: 'usr_c', displayName: 'Carol' }),
+            { id: 'bad', type: 'user' },
+        ],
+        tags: [{ id: 'partner', label: 'Partner', description: '' }],
+    };
+
+    it('keeps our version of conflicts and still imports valid rows', () => {
+        const { preview, entities, tags } = planWatchlistImport(current, incoming, 'MERGE_KEEP_OURS');
+        expect(preview.adds.map(a => a.id)).toEqual(['usr_c']);
+        expect(preview.conflicts).toEqual([{ id: 'usr_a', displayName: 'Alice', fields: ['notes'], resolution: 'ours' }]);
+        expect(preview.changes).toEqual([]);
+        expect(preview.errors).toEqual([{ row: 2, id: 'bad', errors: ['id must start with usr_ for type user'] }]);
+        expect(entities.usr_a.notes).toBe('');
+        expect(Object.keys(entities).sort()).toEqual(['usr_a', 'usr_b', 'usr_c']);
+        expect(tags.map(t => t.id)).toEqual(['nuisance', 'partner']);
+    });
+
+    it('resolves conflicts by updatedAt and removes missing entries on replace', () => {
+        expect(planWatchlistImport(current, incoming, 'MERGE_NEWEST').entities.usr_a.notes).toBe('theirs');
+
+        const older = { entities: [entity({ notes: 'theirs', updatedAt: 500 })] };
+        expect(planWatchlistImport(current, older, 'MERGE_NEWEST').preview.conflicts[0].resolution).toBe('ours');
+
+        const replaced = planWatchlistImport(current, { ...incoming, entities: incoming.entities.slice(0, 2) }, 'REPLACE');
+        expect(replaced.preview.blocked).toBeNull();
+        expect(replaced.preview.removals.map(r => r.id)).toEqual(['usr_b']);
+        expect(Object.keys(replaced.entities).sort()).toEqual(['usr_a', 'usr_c']);
+    });
+
+    it('blocks replace when a row is rejected or nothing is valid', () => {
+        expect(planWatchlistImport(current, incoming, 'REPLACE').preview.blocked).toMatch(/1 row is rejected/);
+        expect(planWatchlistImport(current, { entities: [] }, 'REPLACE').preview.blocked).toMatch(/at least one valid entry/);
+        expect(planWatchlistImport(current, { entities: [{ id: 'bad' }] }, 'REPLACE').preview.blocked).toMatch(/at least one valid entry/);
+        expect(planWatchlistImport(current, incoming, 'MERGE_KEEP_OURS').preview.blocked).toBeNull();
+    });
+});
+
+describe('describeEntityChanges', () => {
+    it('records tag, priority, flag and note changes', () => {
+        expect(describeEntityChanges(undefined, entity())).toEqual([{ type: 'CREATED', text: 'Added to the watchlist as Alice' }]);
+        expect(describeEntityChanges(entity({ tags: ['nuisance'] }), entity({ tags: ['malicious'], priority: -20, critical: true, notes: 'Crashed the instance' }))).toEqual([
+            { type: 'TAGS', text: 'Tags: added malicious; removed nuisance' },
+            { type: 'PRIORITY', text: 'Priority 0 → -20' },
+            { type: 'FLAGS', text: 'marked critical' },
+            { type: 'NOTES_EDITED', text: 'Crashed the instance' },
+        ]);
+        expect(describeEntityChanges(entity(), entity({ updatedAt: 5000 }))).toEqual([]);
+    });
+});
+
+describe('describeBulkChanges', () => {
+    it('records adds, changes and removals of a bulk write', () => {
+        const previous = { usr_a: entity(), usr_b: entity({ id: 'usr_b', displayName: 'Bob' }) };
+        const next = { usr_a: entity({ priority: 10 }), usr_c: entity({ id: 'usr_c', displayName: 'Carol' }) };
+
+        expect(describeBulkChanges(previous, next, 'Removed by a watchlist import')).toEqual([
+            { entityId: 'usr_a', change: { type: 'PRIORITY', text: 'Priority 0 → 10' } },
+            { entityId: 'usr_c', change: { type: 'CREATED', text: 'Added to the watchlist as Carol' } },
+            { entityId: 'usr_b', change: { type: 'REMOVED', text: 'Removed by a watchlist import' } },
+        ]);
+    });
+});
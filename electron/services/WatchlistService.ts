@@ -3,6 +3,7 @@ import { ipcMain } from 'electron';
 import log from 'electron-log';
 import { windowService } from './WindowService';
 import { databaseService } from './DatabaseService';
+import { getCurrentUserId, getCurrentUserDisplayName } from './AuthService';
 
 const logger = log.scope('WatchlistService');
 
@@ -19,6 +20,13 @@ export interface WatchedEntity {
   silent: boolean; // Flag for no notification
   createdAt: number;
   updatedAt: number;
+  source?: WatchlistEntitySource; // Set on entities that come from a subscribed feed
+}
+
+export interface WatchlistEntitySource {
+  feedId: string;
+  feedName: string;
+  syncedAt: number;
 }
 
 export interface ModerationTag {
@@ -28,11 +36,296 @@ export interface ModerationTag {
   color?: string; // Hex color
 }
 
+export type WatchlistTimelineType = 'CREATED' | 'NOTE' | 'NOTES_EDITED' | 'TAGS' | 'PRIORITY' | 'FLAGS' | 'EVIDENCE' | 'REMOVED';
+
+export interface WatchlistEvidenceRef {
+  kind: 'SESSION' | 'AUTOMOD_LOG' | 'LOCKER';
+  refId: string; // InstanceLogger sessionId, AutoModLog id or evidence locker item id
+  label?: string;
+}
+
+export interface WatchlistTimelineEntry {
+  id: string;
+  entityId: string;
+  timestamp: number;
+  type: WatchlistTimelineType;
+  authorId?: string;
+  authorName?: string;
+  text?: string; // The note, or a readable summary of the change
+  evidence?: WatchlistEvidenceRef;
+}
+
 interface WatchlistStoreSchema {
   entities: Record<string, WatchedEntity>;
   tags: ModerationTag[];
+  feedEntities: Record<string, Record<string, WatchedEntity>>; // Read-only copies per feed ID
+  timelines: Record<string, WatchlistTimelineEntry[]>; // Append-only, kept when an entity is removed
+}
+
+// ============================================
+// TIMELINE
+// ============================================
+
+type TimelineChange = Pick<WatchlistTimelineEntry, 'type' | 'text'>;
+type TimelineAuthor = Pick<WatchlistTimelineEntry, 'authorId' | 'authorName'>;
+
+/**
+ * Timeline entries describing what a save changed, empty when nothing tracked changed.
+ */
+export const describeEntityChanges = (existing: WatchedEntity | undefined, updated: WatchedEntity): TimelineChange[] => {
+  if (!existing) {
+    return [{ type: 'CREATED', text: `Added to the watchlist as ${updated.displayName}` }];
+  }
+  const changes: TimelineChange[] = [];
+
+  const added = updated.tags.filter(t => !existing.tags.includes(t));
+  const removed = existing.tags.filter(t => !updated.tags.includes(t));
+  if (added.length > 0 || removed.length > 0) {
+    const parts = [];
+    if (added.length > 0) parts.push(`added ${added.join(', ')}`);
+    if (removed.length > 0) parts.push(`removed ${removed.join(', ')}`);
+    changes.push({ type: 'TAGS', text: `Tags: ${parts.join('; ')}` });
+  }
+  if (existing.priority !== updated.priority) {
+    changes.push({ type: 'PRIORITY', text: `Priority ${existing.priority} → ${updated.priority}` });
+  }
+  const flags = [];
+  if (existing.critical !== updated.critical) flags.push(updated.critical ? 'marked critical' : 'no longer critical');
+  if (existing.silent !== updated.silent) flags.push(updated.silent ? 'marked silent' : 'no longer silent');
+  if (flags.length > 0) changes.push({ type: 'FLAGS', text: flags.join(', ') });
+  if (existing.notes !== updated.notes) changes.push({ type: 'NOTES_EDITED', text: updated.notes });
+  return changes;
+};
+
+/**
+ * Timeline entries for every entity a bulk write (import or feed sync) added, changed or dropped.
+ */
+export const describeBulkChanges = (
+  previous: Record<string, WatchedEntity>,
+  next: Record<string, WatchedEntity>,
+  removedText: string
+): { entityId: string; change: TimelineChange }[] => {
+  const entries: { entityId: string; change: TimelineChange }[] = [];
+  for (const entity of Object.values(next)) {
+    for (const change of describeEntityChanges(previous[entity.id], entity)) entries.push({ entityId: entity.id, change });
+  }
+  for (const id of Object.keys(previous)) {
+    if (!next[id]) entries.push({ entityId: id, change: { type: 'REMOVED', text: removedText } });
+  }
+  return entries;
+};
+
+// Author for timeline entries written by imports and feed syncs rather than by hand
+const systemAuthor = (name: string): TimelineAuthor => ({ authorId: 'system', authorName: name });
+
+// ============================================
+// IMPORT - validation and merge planning
+// ============================================
+
+export type WatchlistImportMode = 'REPLACE' | 'MERGE_KEEP_OURS' | 'MERGE_KEEP_THEIRS' | 'MERGE_NEWEST';
+
+export interface WatchlistImportRowError {
+  row: number; // Position in the imported list
+  id?: string;
+  errors: string[];
+}
+
+export interface WatchlistImportChange {
+  id: string;
+  displayName: string;
+  fields: string[]; // Fields that differ between ours and theirs
+  resolution: 'ours' | 'theirs';
+}
+
+export interface WatchlistImportPreview {
+  mode: WatchlistImportMode;
+  adds: { id: string; displayName: string }[];
+  changes: WatchlistImportChange[]; // Existing entities that will be overwritten
+  conflicts: WatchlistImportChange[]; // Entities that differ on both sides, with how the mode resolves them
+  removals: { id: string; displayName: string }[]; // REPLACE only
+  unchanged: number;
+  tagsAdded: number;
+  tagsUpdated: number;
+  errors: WatchlistImportRowError[];
+  blocked: string | null; // Why the import can't run, set for REPLACE with rejected or no valid rows
+}
+
+export interface WatchlistImportPlan {
+  preview: WatchlistImportPreview;
+  entities: Record<string, WatchedEntity>;
+  tags: ModerationTag[];
 }
 
+const ENTITY_ID_PREFIXES: Record<EntityType, string> = {
+  user: 'usr_',
+  group: 'grp_',
+  avatar: 'avtr_',
+  world: 'wrld_',
+};
+
+const COMPARED_FIELDS: (keyof WatchedEntity)[] = ['type', 'displayName', 'tags', 'notes', 'priority', 'critical', 'silent'];
+
+/**
+ * Validates one imported row. Optional fields fall back to the same defaults as saveEntity.
+ */
+export const validateWatchedEntity = (raw: unknown, now = Date.now()): { entity?: WatchedEntity; errors: string[] } => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { errors: ['not an object'] };
+  const row = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const type = row.type as EntityType;
+  if (!ENTITY_ID_PREFIXES[type]) errors.push(`unknown type "${String(row.type)}"`);
+  if (typeof row.id !== 'string' || !row.id.trim()) errors.push('id is required');
+  else if (ENTITY_ID_PREFIXES[type] && !row.id.startsWith(ENTITY_ID_PREFIXES[type])) {
+    errors.push(`id must start with ${ENTITY_ID_PREFIXES[type]} for type ${type}`);
+  }
+  if (row.displayName !== undefined && typeof row.displayName !== 'string') errors.push('displayName must be a string');
+  if (row.notes !== undefined && typeof row.notes !== 'string') errors.push('notes must be a string');
+  if (row.tags !== undefined && (!Array.isArray(row.tags) || row.tags.some(t => typeof t !== 'string'))) {
+    errors.push('tags must be a list of strings');
+  }
+  if (row.priority !== undefined && (typeof row.priority !== 'number' || !Number.isFinite(row.priority) || row.priority < -100 || row.priority > 100)) {
+    errors.push('priority must be a number between -100 and 100');
+  }
+  for (const flag of ['critical', 'silent'] as const) {
+    if (row[flag] !== undefined && typeof row[flag] !== 'boolean') errors.push(`${flag} must be true or false`);
+  }
+  for (const stamp of ['createdAt', 'updatedAt'] as const) {
+    if (row[stamp] !== undefined && (typeof row[stamp] !== 'number' || !Number.isFinite(row[stamp]))) {
+      errors.push(`${stamp} must be a timestamp`);
+    }
+  }
+  if (errors.length > 0) return { errors };
+
+  const createdAt = (row.createdAt as number | undefined) ?? now;
+  return {
+    errors,
+    entity: {
+      id: (row.id as string).trim(),
+      type,
+      displayName: (row.displayName as string | undefined) || 'Unknown',
+      tags: (row.tags as string[] | undefined) || [],
+      notes: (row.notes as string | undefined) || '',
+      priority: (row.priority as number | undefined) ?? 0,
+      critical: (row.critical as boolean | undefined) ?? false,
+      silent: (row.silent as boolean | undefined) ?? false,
+      createdAt,
+      updatedAt: (row.updatedAt as number | undefined) ?? createdAt,
+    }
+  };
+};
+
+/**
+ * Validated entities of an export file, which stores entities as a map (older files) or a list.
+ */
+export const parseWatchlistEntities = (data: unknown): { entities: Record<string, WatchedEntity>; errors: WatchlistImportRowError[] } => {
+  const payload = (data && typeof data === 'object' ? data : {}) as { entities?: unknown };
+  const rows = Array.isArray(payload.entities)
+    ? payload.entities
+    : payload.entities && typeof payload.entities === 'object' ? Object.values(payload.entities) : [];
+
+  const entities: Record<string, WatchedEntity> = {};
+  const errors: WatchlistImportRowError[] = [];
+  rows.forEach((raw, row) => {
+    const result = validateWatchedEntity(raw);
+    if (!result.entity) {
+      const id = (raw as { id?: unknown })?.id;
+      errors.push({ row, id: typeof id === 'string' ? id : undefined, errors: result.errors });
+    } else if (entities[result.entity.id]) {
+      errors.push({ row, id: result.entity.id, errors: ['duplicate id'] });
+    } else {
+      entities[result.entity.id] = result.entity;
+    }
+  });
+  return { entities, errors };
+};
+
+/**
+ * Tags of an export file, rows without an id or label are dropped.
+ */
+export const parseWatchlistTags = (data: unknown): ModerationTag[] => {
+  const tags = (data as { tags?: unknown } | null)?.tags;
+  return (Array.isArray(tags) ? tags : [])
+    .filter((t): t is ModerationTag => !!t && typeof t.id === 'string' && !!t.id && typeof t.label === 'string')
+    .map(t => ({ id: t.id, label: t.label, description: t.description || '', color: t.color }));
+};
+
+export const diffFields = (ours: WatchedEntity, theirs: WatchedEntity): string[] =>
+  COMPARED_FIELDS.filter(field => JSON.stringify(ours[field]) !== JSON.stringify(theirs[field]));
+
+/**
+ * Works out what importing `data` (an export file, entities as a map or a list) would do.
+ * Malformed rows are reported and skipped, the remaining rows are still imported. REPLACE is
+ * blocked instead, since a skipped row would silently drop that entity from the watchlist.
+ */
+export const planWatchlistImport = (
+  current: Pick<WatchlistStoreSchema, 'entities' | 'tags'>,
+  data: unknown,
+  mode: WatchlistImportMode
+): WatchlistImportPlan => {
+  const { entities: incoming, errors } = parseWatchlistEntities(data);
+  const preview: WatchlistImportPreview = {
+    mode, adds: [], changes: [], conflicts: [], removals: [], unchanged: 0, tagsAdded: 0, tagsUpdated: 0, errors, blocked: null
+  };
+  if (mode === 'REPLACE') {
+    if (Object.keys(incoming).length === 0) preview.blocked = 'Replace needs at least one valid entry, the file would empty the watchlist';
+    else if (errors.length > 0) preview.blocked = `Replace is blocked while ${errors.length} row${errors.length === 1 ? ' is' : 's are'} rejected, fix them or use a merge mode`;
+  }
+
+  const entities: Record<string, WatchedEntity> = mode === 'REPLACE' ? {} : { ...current.entities };
+  for (const theirs of Object.values(incoming)) {
+    const ours = current.entities[theirs.id];
+    if (!ours) {
+      preview.adds.push({ id: theirs.id, displayName: theirs.displayName });
+      entities[theirs.id] = theirs;
+      continue;
+    }
+    const fields = diffFields(ours, theirs);
+    if (fields.length === 0) {
+      preview.unchanged++;
+      entities[theirs.id] = ours;
+      continue;
+    }
+
+    // Both sides edited the entity, the mode decides which side wins
+    const resolution: 'ours' | 'theirs' =
+      mode === 'REPLACE' || mode === 'MERGE_KEEP_THEIRS' ? 'theirs'
+        : mode === 'MERGE_NEWEST' && theirs.updatedAt > ours.updatedAt ? 'theirs'
+          : 'ours';
+    const change = { id: theirs.id, displayName: ours.displayName, fields, resolution };
+    preview.conflicts.push(change);
+    if (resolution === 'theirs') {
+      preview.changes.push(change);
+      entities[theirs.id] = { ...theirs, createdAt: Math.min(ours.createdAt, theirs.createdAt) };
+    } else {
+      entities[theirs.id] = ours;
+    }
+  }
+  if (mode === 'REPLACE') {
+    preview.removals = Object.values(current.entities)
+      .filter(e => !incoming[e.id])
+      .map(e => ({ id: e.id, displayName: e.displayName }));
+  }
+
+  // Tags carry no timestamps, so only KEEP_THEIRS and REPLACE overwrite existing ones
+  const incomingTags = parseWatchlistTags(data);
+  const tags = mode === 'REPLACE' && incomingTags.length > 0 ? [] : [...current.tags];
+  for (const tag of incomingTags) {
+    const index = tags.findIndex(t => t.id === tag.id);
+    if (index === -1) {
+      tags.push(tag);
+      const existing = current.tags.find(t => t.id === tag.id);
+      if (!existing) preview.tagsAdded++;
+      else if (JSON.stringify(existing) !== JSON.stringify(tag)) preview.tagsUpdated++;
+    } else if (mode === 'MERGE_KEEP_THEIRS' && JSON.stringify(tags[index]) !== JSON.stringify(tag)) {
+      tags[index] = tag;
+      preview.tagsUpdated++;
+    }
+  }
+
+  return { preview, entities, tags };
+};
+
 class WatchlistService {
   private store: Store<WatchlistStoreSchema>;
 
@@ -41,6 +334,8 @@ class WatchlistService {
       name: 'watchlist-data',
       defaults: {
         entities: {},
+        feedEntities: {},
+        timelines: {},
         tags: [
           { id: 'nuisance', label: 'Nuisance', description: 'General annoyance', color: '#FFA500' },
           { id: 'malicious', label: 'Malicious', description: 'Crasher or attacker', color: '#FF0000' },
@@ -60,13 +355,22 @@ class WatchlistService {
   // ============================================
 
   public getEntity(id: string): WatchedEntity | undefined {
-    // Entities are stored in a Record<string, WatchedEntity> for fast lookup
-    return this.store.get('entities')[id];
+    // Entities are stored in a Record<string, WatchedEntity> for fast lookup.
+    // Our own entry wins over feed copies, so editing a feed entity creates a local override.
+    const local = this.store.get('entities')[id];
+    if (local) return local;
+    for (const feed of Object.values(this.store.get('feedEntities'))) {
+      if (feed[id]) return feed[id];
+    }
+    return undefined;
   }
 
   public getEntities(): WatchedEntity[] {
-    const map = this.store.get('entities');
-    return Object.values(map);
+    const map: Record<string, WatchedEntity> = {};
+    for (const feed of Object.values(this.store.get('feedEntities')).reverse()) {
+      Object.assign(map, feed);
+    }
+    return Object.values({ ...map, ...this.store.get('entities') });
   }
 
   public saveEntity(entity: Partial<WatchedEntity> & { id: string; type: EntityType }) {
@@ -80,7 +384,7 @@ class WatchlistService {
       type: entity.type,
       displayName: entity.displayName || existing?.displayName || 'Unknown',
       tags: entity.tags || existing?.tags || [],
-      notes: entity.notes || existing?.notes || '',
+      notes: entity.notes ?? existing?.notes ?? '',
       priority: entity.priority ?? existing?.priority ?? 0,
       critical: entity.critical ?? existing?.critical ?? false,
       silent: entity.silent ?? existing?.silent ?? false,
@@ -91,6 +395,11 @@ class WatchlistService {
     map[entity.id] = updated;
     this.store.set('entities', map);
 
+    // Editing a feed entity starts a local copy, its history starts there too
+    for (const change of describeEntityChanges(existing, updated)) {
+      this.appendTimeline(entity.id, change);
+    }
+
     this.notifyUpdate();
     return updated;
   }
@@ -100,12 +409,67 @@ class WatchlistService {
     if (map[id]) {
       delete map[id];
       this.store.set('entities', map);
+      this.appendTimeline(id, { type: 'REMOVED', text: 'Removed from the watchlist' });
       this.notifyUpdate();
       return true;
     }
     return false;
   }
 
+  // ============================================
+  // TIMELINE
+  // ============================================
+
+  public getTimeline(entityId: string): WatchlistTimelineEntry[] {
+    return this.store.get('timelines')[entityId] || [];
+  }
+
+  private appendTimeline(entityId: string, entry: Omit<WatchlistTimelineEntry, 'id' | 'entityId' | 'timestamp' | 'authorId' | 'authorName'>) {
+    const author = { authorId: getCurrentUserId() || undefined, authorName: getCurrentUserDisplayName() || undefined };
+    return this.appendTimelineEntries([{ entityId, change: entry }], author)[0];
+  }
+
+  // Writes the store once for a whole batch
+  private appendTimelineEntries(entries: { entityId: string; change: Omit<WatchlistTimelineEntry, 'id' | 'entityId' | 'timestamp' | 'authorId' | 'authorName'> }[], author: TimelineAuthor) {
+    if (entries.length === 0) return [];
+    const timestamp = Date.now();
+    const timelines = this.store.get('timelines');
+    const written = entries.map(({ entityId, change }) => {
+      const full: WatchlistTimelineEntry = {
+        id: `tl_${timestamp}_${Math.random().toString(36).slice(2, 8)}`,
+        entityId,
+        timestamp,
+        ...author,
+        ...change
+      };
+      timelines[entityId] = [...(timelines[entityId] || []), full];
+      return full;
+    });
+    this.store.set('timelines', timelines);
+    for (const entityId of new Set(entries.map(e => e.entityId))) {
+      windowService.broadcast('watchlist:timeline-updated', { entityId });
+    }
+    return written;
+  }
+
+  public addNote(entityId: string, text: string) {
+    if (!text?.trim()) throw new Error('Note is empty');
+    return this.appendTimeline(entityId, { type: 'NOTE', text: text.trim() });
+  }
+
+  public linkEvidence(entityId: string, evidence: WatchlistEvidenceRef) {
+    const refId = evidence?.refId?.trim();
+    if (!refId) throw new Error('Evidence reference is required');
+    if (!['SESSION', 'AUTOMOD_LOG', 'LOCKER'].includes(evidence.kind)) throw new Error(`Unknown evidence kind: ${evidence.kind}`);
+    if (evidence.kind === 'SESSION' && !refId.startsWith('sess_')) throw new Error('Session IDs start with sess_');
+    const label = evidence.label?.trim() || undefined;
+    return this.appendTimeline(entityId, {
+      type: 'EVIDENCE',
+      text: label,
+      evidence: { kind: evidence.kind, refId, label }
+    });
+  }
+
   // ============================================
   // TAG MANAGEMENT
   // ============================================
@@ -144,6 +508,42 @@ class WatchlistService {
     this.notifyUpdate();
   }
 
+  // ============================================
+  // FEEDS
+  // ============================================
+
+  public getFeedEntities(feedId: string): Record<string, WatchedEntity> {
+    return this.store.get('feedEntities')[feedId] || {};
+  }
+
+  /**
+   * Replaces the read-only copy of a feed. Tags the feed uses but we don't have are added,
+   * existing tags keep our labels and colors.
+   */
+  public setFeedEntities(feedId: string, entities: Record<string, WatchedEntity>, feedTags: ModerationTag[] = [], feedName = feedId) {
+    const feeds = this.store.get('feedEntities');
+    const previous = feeds[feedId] || {};
+    feeds[feedId] = entities;
+    this.store.set('feedEntities', feeds);
+
+    const tags = this.store.get('tags');
+    const missing = feedTags.filter(tag => !tags.some(t => t.id === tag.id));
+    if (missing.length > 0) this.store.set('tags', [...tags, ...missing]);
+
+    this.appendTimelineEntries(describeBulkChanges(previous, entities, `Removed from feed ${feedName}`), systemAuthor(`Feed: ${feedName}`));
+    this.notifyUpdate();
+  }
+
+  public removeFeedEntities(feedId: string, feedName = feedId) {
+    const feeds = this.store.get('feedEntities');
+    const previous = feeds[feedId];
+    if (!previous) return;
+    delete feeds[feedId];
+    this.store.set('feedEntities', feeds);
+    this.appendTimelineEntries(describeBulkChanges(previous, {}, `Feed ${feedName} was removed or disabled`), systemAuthor(`Feed: ${feedName}`));
+    this.notifyUpdate();
+  }
+
   // ============================================
   // HELPERS
   // ============================================
@@ -155,22 +555,35 @@ class WatchlistService {
     });
   }
 
-  public importData(json: string) {
+  private planImport(json: string, mode: WatchlistImportMode): WatchlistImportPlan {
+    let data: unknown;
     try {
-      const data = JSON.parse(json);
-      // Basic validation could go here
-      if (data.entities) this.store.set('entities', data.entities);
-      if (data.tags) this.store.set('tags', data.tags);
-      this.notifyUpdate();
-      return true;
-    } catch (e) {
-      logger.error('Failed to import watchlist data', e);
-      return false;
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Import file is not valid JSON');
     }
+    return planWatchlistImport({ entities: this.store.get('entities'), tags: this.getTags() }, data, mode);
+  }
+
+  public previewImport(json: string, mode: WatchlistImportMode): WatchlistImportPreview {
+    return this.planImport(json, mode).preview;
+  }
+
+  public importData(json: string, mode: WatchlistImportMode = 'MERGE_KEEP_OURS'): WatchlistImportPreview {
+    const { preview, entities, tags } = this.planImport(json, mode);
+    if (preview.blocked) throw new Error(preview.blocked);
+    const previous = this.store.get('entities');
+    this.store.set('entities', entities);
+    this.store.set('tags', tags);
+    this.appendTimelineEntries(describeBulkChanges(previous, entities, 'Removed by a watchlist import'), systemAuthor('Watchlist import'));
+    logger.info(`Imported watchlist (${mode}): ${preview.adds.length} added, ${preview.changes.length} updated, ${preview.removals.length} removed, ${preview.errors.length} rejected`);
+    this.notifyUpdate();
+    return preview;
   }
 
+  // Only our own entities, so re-publishing an export doesn't echo other feeds back
   public exportData() {
-    return JSON.stringify(this.store.store, null, 2);
+    return JSON.stringify({ entities: this.store.get('entities'), tags: this.getTags() }, null, 2);
   }
 
   private setupHandlers() {
@@ -180,11 +593,16 @@ class WatchlistService {
     ipcMain.handle('watchlist:save-entity', (_, entity) => this.saveEntity(entity));
     ipcMain.handle('watchlist:delete-entity', (_, id) => this.deleteEntity(id));
 
+    ipcMain.handle('watchlist:get-timeline', (_, id: string) => this.getTimeline(id));
+    ipcMain.handle('watchlist:add-note', (_, { entityId, text }: { entityId: string; text: string }) => this.addNote(entityId, text));
+    ipcMain.handle('watchlist:link-evidence', (_, { entityId, evidence }: { entityId: string; evidence: WatchlistEvidenceRef }) => this.linkEvidence(entityId, evidence));
+
     ipcMain.handle('watchlist:get-tags', () => this.getTags());
     ipcMain.handle('watchlist:save-tag', (_, tag) => this.saveTag(tag));
     ipcMain.handle('watchlist:delete-tag', (_, id) => this.deleteTag(id));
 
-    ipcMain.handle('watchlist:import', (_, json) => this.importData(json));
+    ipcMain.handle('watchlist:preview-import', (_, { json, mode }: { json: string; mode: WatchlistImportMode }) => this.previewImport(json, mode));
+    ipcMain.handle('watchlist:import', (_, { json, mode }: { json: string; mode: WatchlistImportMode }) => this.importData(json, mode));
     ipcMain.handle('watchlist:export', () => this.exportData());
 
     // Search scanned users from database
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('electron', () => ({ ipcMain: { handle: vi.fn() } }));
+vi.mock('electron-store', () => ({ default: vi.fn() }));
+vi.mock('./DatabaseService', () => ({
+    databaseService: {
+        getAutoModLogsSince: vi.fn(async () => []),
+        getInstanceGuardEventsSince: vi.fn(async () => []),
+        getAuditLogEntriesSince: vi.fn(async () => [])
+    }
+}));
+vi.mock('./AuditArchiveService', () => ({ auditArchiveService: { syncGroup: vi.fn(async () => ({})) } }));
+vi.mock('./DiscordWebhookService', () => ({ discordWebhookService: { registerEventFilter: vi.fn(), queueEmbed: vi.fn() } }));
+
+import { buildDigestEmbed, isDigestDue, isMutedByDigest, summarizeDigest, webhookDigestService, DEFAULT_DIGEST_SETTINGS } from './WebhookDigestService';
+import { databaseService } from './DatabaseService';
+import { auditArchiveService } from './AuditArchiveService';
+
+describe('isDigestDue', () => {
+    const daily = { ...DEFAULT_DIGEST_SETTINGS, enabled: true, hour: 9 };
+
+    it('sends a daily digest once the hour has passed', () => {
+        const lastSentAt = new Date(2026, 0, 1, 9, 0, 30).getTime();
+        expect(isDigestDue(daily, lastSentAt, new Date(2026, 0, 2, 8, 59))).toBe(false);
+        expect(isDigestDue(daily, lastSentAt, new Date(2026, 0, 2, 9, 0))).toBe(true);
+    });
+
+    it('sends an hourly digest at the top of each hour', () => {
+        const hourly = { ...daily, frequency: 'HOURLY' as const };
+        const lastSentAt = new Date(2026, 0, 1, 14, 0, 10).getTime();
+        expect(isDigestDue(hourly, lastSentAt, new Date(2026, 0, 1, 14, 45))).toBe(false);
+        expect(isDigestDue(hourly, lastSentAt, new Date(2026, 0, 1, 15, 0))).toBe(true);
+    });
+
+    it('waits for a start time and stays quiet when disabled', () => {
+        expect(isDigestDue(daily, undefined, new Date())).toBe(false);
+        expect(isDigestDue({ ...daily, enabled: false }, 0, new Date())).toBe(false);
+    });
+});
+
+describe('summarizeDigest', () => {
+    const summary = summarizeDigest({
+        autoModLogs: [
+            { userId: 'usr_a', user: 'Alice', action: 'REJECT', module: 'AutoMod', reason: 'Keyword' },
+            { userId: 'usr_a', user: 'Alice', action: 'AUTO_BAN', module: 'AutoMod', reason: 'Keyword' },
+            { userId: 'usr_b', user: 'Bob', action: 'AUTO_ACCEPT', module: 'AutoMod', reason: 'Clean' },
+            { userId: 'usr_c', user: 'Carol', action: 'SHADOW_REJECT', module: 'AutoMod', reason: 'Shadow' },
+            { userId: 'usr_d', user: 'Dave', action: 'WATCHLIST_HIT', module: 'Watchlist', reason: '[Watchlist] Known raider' },
+            { userId: 'usr_d', user: 'Dave', action: 'WATCHLIST_HIT', module: 'Watchlist', reason: '[Watchlist] Known raider' },
+            { userId: 'usr_f', user: 'Frank', action: 'AUTO_UNBAN', module: 'TempBan', reason: 'Temporary ban expired' },
+            { userId: 'usr_a', user: 'Alice', action: 'STRIKE_BAN', module: 'Strikes', reason: 'Strike threshold reached' },
+            { userId: 'usr_g', user: 'Gina', action: 'STRIKE_NOTIFY', module: 'Strikes', reason: 'Strike threshold reached' }
+        ],
+        guardEvents: [
+            { action: 'OPENED', worldId: 'wrld_1', worldName: 'Lobby', instanceId: '123~group', userCount: 12 },
+            { action: 'AUTO_CLOSED', worldId: 'wrld_1', worldName: 'Lobby', instanceId: '123~group', userCount: 30 },
+            { action: 'AUTO_CLOSED', worldId: 'wrld_2', worldName: 'Club', instanceId: '456~group', userCount: 5 }
+        ],
+        auditEntries: [
+            { eventType: 'group.user.ban', targetId: 'usr_a', targetDisplayName: 'Alice' },
+            { eventType: 'group.instance.kick', targetId: 'usr_e', targetDisplayName: 'Eve' }
+        ]
+    }, 0, 1000);
+
+    it('counts bans, kicks, closures and actions per module', () => {
+        expect(summary.bans).toBe(1);
+        expect(summary.kicks).toBe(1);
+        expect(summary.instancesClosed).toBe(2);
+        expect(summary.moduleCounts).toEqual([{ module: 'AutoMod', count: 2 }, { module: 'Watchlist', count: 2 }, { module: 'Strikes', count: 2 }]);
+    });
+
+    it('ranks offenders, instances and lists each watchlist hit once', () => {
+        expect(summary.topOffenders[0]).toEqual({ userId: 'usr_a', displayName: 'Alice', count: 3 });
+        expect(summary.topOffenders.map(o => o.userId)).not.toContain('usr_d');
+        expect(summary.topOffenders.map(o => o.userId)).not.toContain('usr_f');
+        expect(summary.topOffenders.map(o => o.userId)).not.toContain('usr_g');
+        expect(summary.busiestInstances[0]).toMatchObject({ worldName: 'Lobby', peakUsers: 30, events: 2 });
+        expect(summary.watchlistHits).toEqual([{ userId: 'usr_d', displayName: 'Dave', reason: 'Known raider' }]);
+    });
+});
+
+describe('isMutedByDigest', () => {
+    const digestOnly = { ...DEFAULT_DIGEST_SETTINGS, enabled: true, digestOnly: true };
+
+    it('holds back covered events but lets alerts that need a moderator through', () => {
+        expect(isMutedByDigest(digestOnly, { title: 'Ban', type: 'ERROR', category: 'BAN' })).toBe(true);
+        expect(isMutedByDigest(digestOnly, { title: 'Unban failed', type: 'ERROR', category: 'BAN', actionRequired: true })).toBe(false);
+        expect(isMutedByDigest(digestOnly, { title: 'Join request', type: 'INFO', category: 'MEMBERSHIP' })).toBe(false);
+        expect(isMutedByDigest({ ...digestOnly, digestOnly: false }, { title: 'Ban', type: 'ERROR', category: 'BAN' })).toBe(false);
+    });
+});
+
+describe('buildDigestEmbed', () => {
+    it('marks a quiet period', () => {
+        const embed = buildDigestEmbed(summarizeDigest({ autoModLogs: [], guardEvents: [], auditEntries: [] }, 0, 3600000), 'HOURLY');
+        expect(embed.title).toContain('Hourly');
+        expect(embed.description).toContain('No moderation activity');
+        expect(embed.fields).toHaveLength(3);
+    });
+});
+
+describe('buildSummary', () => {
+    it('syncs the audit log archive before reading bans and kicks', async () => {
+        await webhookDigestService.buildSummary('grp_1', 0, Date.now());
+        const synced = vi.mocked(auditArchiveService.syncGroup).mock.invocationCallOrder[0];
+        const read = vi.mocked(databaseService.getAuditLogEntriesSince).mock.invocationCallOrder[0];
+        expect(auditArchiveService.syncGroup).toHaveBeenCalledWith('grp_1');
+        expect(synced).toBeLessThan(read);
+    });
+});
@@ -0,0 +1,360 @@
+import Store from 'electron-store';
+import { ipcMain } from 'electron';
+import log from 'electron-log';
+import { databaseService } from './DatabaseService';
+import { auditArchiveService } from './AuditArchiveService';
+import { discordWebhookService, DiscordEmbed, WebhookEventCategory, WebhookEventData } from './DiscordWebhookService';
+
+const logger = log.scope('WebhookDigestService');
+
+const CHECK_INTERVAL = 60 * 1000;
+const MAX_DIGEST_PERIOD = 7 * 24 * 60 * 60 * 1000; // After a long time offline, only the last week is summarized
+const TOP_COUNT = 5;
+const MAX_WATCHLIST_HITS = 10;
+const FIELD_LIMIT = 1024; // Discord embed field value limit
+
+const BAN_EVENTS = ['group.user.ban'];
+const KICK_EVENTS = ['group.user.kick', 'group.member.remove', 'group.instance.kick'];
+const CLOSE_ACTIONS = ['CLOSED', 'AUTO_CLOSED', 'INSTANCE_CLOSED'];
+// AutoModLog actions that aren't enforcement and stay out of the digest
+const IGNORED_ACTIONS = ['AUTO_ACCEPT', 'ALLOW', 'AUTO_UNBAN', 'CLOSE_CANCELLED'];
+// Strike ladder outcomes repeat earlier offences: its bans also show up in the audit log
+const isStrikeAction = (action: string) => action.indexOf('STRIKE_') === 0;
+
+// Event types covered by the digest, muted per event in digest-only mode
+export const DIGEST_CATEGORIES: WebhookEventCategory[] = ['BAN', 'KICK', 'AUTOMOD', 'INSTANCE_GUARD', 'WATCHLIST'];
+
+export type DigestFrequency = 'HOURLY' | 'DAILY';
+
+export interface WebhookDigestSettings {
+    enabled: boolean;
+    frequency: DigestFrequency;
+    hour: number; // Local hour a daily digest is sent at, 0-23
+    routeId?: string; // Unset sends to the default webhook
+    digestOnly: boolean; // Stop the per-event embeds the digest covers
+}
+
+interface WebhookDigestStoreSchema {
+    settings: { [groupId: string]: WebhookDigestSettings };
+    lastSentAt: { [groupId: string]: number };
+}
+
+export interface DigestAutoModLog {
+    userId: string;
+    user: string;
+    action: string;
+    module: string;
+    reason: string;
+}
+
+export interface DigestGuardEvent {
+    action: string;
+    worldId: string;
+    worldName: string;
+    instanceId: string;
+    userCount?: number | null;
+}
+
+export interface DigestAuditEntry {
+    eventType: string;
+    targetId?: string | null;
+    targetDisplayName?: string | null;
+}
+
+export interface DigestSummary {
+    from: number;
+    to: number;
+    bans: number;
+    kicks: number;
+    instancesClosed: number;
+    moduleCounts: { module: string; count: number }[];
+    topOffenders: { userId: string; displayName: string; count: number }[];
+    busiestInstances: { worldName: string; instanceId: string; peakUsers: number; events: number }[];
+    watchlistHits: { userId: string; displayName: string; reason: string }[];
+}
+
+export const DEFAULT_DIGEST_SETTINGS: WebhookDigestSettings = {
+    enabled: false,
+    frequency: 'DAILY',
+    hour: 9,
+    digestOnly: false
+};
+
+/**
+ * The most recent scheduled send time at or before now, in local time.
+ */
+export const getLastDigestBoundary = (settings: Pick<WebhookDigestSettings, 'frequency' | 'hour'>, now: Date): Date => {
+    if (settings.frequency === 'HOURLY') {
+        return new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours());
+    }
+    const boundary = new Date(now.getFullYear(), now.getMonth(), now.getDate(), settings.hour);
+    if (boundary.getTime() > now.getTime()) boundary.setDate(boundary.getDate() - 1);
+    return boundary;
+};
+
+export const isDigestDue = (settings: WebhookDigestSettings, lastSentAt: number | undefined, now: Date): boolean =>
+    settings.enabled && lastSentAt !== undefined && lastSentAt < getLastDigestBoundary(settings, now).getTime();
+
+/**
+ * Whether digest-only mode holds an event back. Events a moderator has to act on always go out.
+ */
+export const isMutedByDigest = (settings: WebhookDigestSettings, data: WebhookEventData): boolean =>
+    settings.enabled && settings.digestOnly && !data.actionRequired && DIGEST_CATEGORIES.includes(data.category || 'GENERAL');
+
+const countBy = <T>(items: T[], key: (item: T) => string): Map<string, T[]> => {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const k = key(item);
+        groups.set(k, [...(groups.get(k) || []), item]);
+    }
+    return groups;
+};
+
+/**
+ * Aggregates one period of moderation activity. Bans and kicks come from the archived audit log,
+ * so moderators' manual actions are counted alongside automated ones.
+ */
+export const summarizeDigest = (
+    input: { autoModLogs: DigestAutoModLog[]; guardEvents: DigestGuardEvent[]; auditEntries: DigestAuditEntry[] },
+    from: number,
+    to: number
+): DigestSummary => {
+    const actions = input.autoModLogs.filter(l => IGNORED_ACTIONS.indexOf(l.action) === -1 && !l.action.startsWith('SHADOW_'));
+    const bans = input.auditEntries.filter(e => BAN_EVENTS.indexOf(e.eventType) !== -1);
+    const kicks = input.auditEntries.filter(e => KICK_EVENTS.indexOf(e.eventType) !== -1);
+
+    const moduleCounts = Array.from(countBy(actions, l => l.module || 'Unknown'))
+        .map(([module, logs]) => ({ module, count: logs.length }))
+        .sort((a, b) => b.count - a.count);
+
+    // Watchlist hits are sightings, not offences
+    const offences = [
+        ...actions.filter(l => l.action !== 'WATCHLIST_HIT' && !isStrikeAction(l.action)).map(l => ({ userId: l.userId, displayName: l.user })),
+        ...[...bans, ...kicks].map(e => ({ userId: e.targetId || '', displayName: e.targetDisplayName || e.targetId || '' }))
+    ].filter(o => o.userId && o.userId !== 'unknown' && o.userId !== 'system');
+    const topOffenders = Array.from(countBy(offences, o => o.userId))
+        .map(([userId, list]) => ({ userId, displayName: list[0].displayName || userId, count: list.length }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, TOP_COUNT);
+
+    const busiestInstances = Array.from(countBy(input.guardEvents.filter(e => e.instanceId), e => `${e.worldId}:${e.instanceId}`))
+        .map(([, events]) => ({
+            worldName: events[0].worldName || events[0].worldId,
+            instanceId: events[0].instanceId,
+            peakUsers: Math.max(...events.map(e => e.userCount || 0)),
+            events: events.length
+        }))
+        .sort((a, b) => b.peakUsers - a.peakUsers || b.events - a.events)
+        .slice(0, TOP_COUNT);
+
+    const watchlistHits = Array.from(countBy(actions.filter(l => l.action === 'WATCHLIST_HIT'), l => l.userId))
+        .map(([userId, hits]) => ({ userId, displayName: hits[0].user, reason: hits[0].reason.replace(/^\[Watchlist\]\s*/, '') }));
+
+    return {
+        from,
+        to,
+        bans: bans.length,
+        kicks: kicks.length,
+        instancesClosed: input.guardEvents.filter(e => CLOSE_ACTIONS.indexOf(e.action) !== -1).length,
+        moduleCounts,
+        topOffenders,
+        busiestInstances,
+        watchlistHits
+    };
+};
+
+const fitField = (lines: string[]): string => {
+    let value = '';
+    for (let i = 0; i < lines.length; i++) {
+        const more = `\n…and ${lines.length - i} more`;
+        const next = value ? `${value}\n${lines[i]}` : lines[i];
+        if (next.length + more.length > FIELD_LIMIT) return value + more;
+        value = next;
+    }
+    return value;
+};
+
+const userLink = (userId: string, displayName: string) => `[${displayName}](https://vrchat.com/home/user/${userId})`;
+
+export const buildDigestEmbed = (summary: DigestSummary, frequency: DigestFrequency): DiscordEmbed => {
+    const fields: NonNullable<DiscordEmbed['fields']> = [
+        { name: 'Bans', value: String(summary.bans), inline: true },
+        { name: 'Kicks', value: String(summary.kicks), inline: true },
+        { name: 'Instances Closed', value: String(summary.instancesClosed), inline: true }
+    ];
+    if (summary.moduleCounts.length > 0) {
+        fields.push({ name: 'Actions by Module', value: fitField(summary.moduleCounts.map(m => `${m.module}: **${m.count}**`)), inline: false });
+    }
+    if (summary.topOffenders.length > 0) {
+        fields.push({
+            name: 'Top Offenders',
+            value: fitField(summary.topOffenders.map((o, i) => `${i + 1}. ${userLink(o.userId, o.displayName)} (${o.count})`)),
+            inline: false
+        });
+    }
+    if (summary.busiestInstances.length > 0) {
+        fields.push({
+            name: 'Busiest Instances',
+            value: fitField(summary.busiestInstances.map(i =>
+                `${i.worldName} #${i.instanceId.split('~')[0]}: ${i.peakUsers > 0 ? `peak ${i.peakUsers} users, ` : ''}${i.events} ${i.events === 1 ? 'event' : 'events'}`
+            )),
+            inline: false
+        });
+    }
+    if (summary.watchlistHits.length > 0) {
+        fields.push({
+            name: 'New Watchlist Hits',
+            value: fitField(summary.watchlistHits.slice(0, MAX_WATCHLIST_HITS).map(h => `${userLink(h.userId, h.displayName)}: ${h.reason}`)
+                .concat(summary.watchlistHits.length > MAX_WATCHLIST_HITS ? [`…and ${summary.watchlistHits.length - MAX_WATCHLIST_HITS} more`] : [])),
+            inline: false
+        });
+    }
+
+    const quiet = summary.bans + summary.kicks + summary.instancesClosed + summary.moduleCounts.length === 0;
+    const period = `<t:${Math.floor(summary.from / 1000)}:f> to <t:${Math.floor(summary.to / 1000)}:f>`;
+    return {
+        title: `📊 ${frequency === 'HOURLY' ? 'Hourly' : 'Daily'} Moderation Digest`,
+        description: quiet ? `${period}\nNo moderation activity in this period.` : period,
+        color: 0x5865F2,
+        fields,
+        footer: { text: 'VRChat Group Guard', icon_url: 'https://assets.vrchat.com/www/brand/vrchat-logo-white-transparent.png' },
+        timestamp: new Date(summary.to).toISOString()
+    };
+};
+
+class WebhookDigestService {
+    private store: Store<WebhookDigestStoreSchema>;
+    private interval: NodeJS.Timeout | null = null;
+    private processing = false;
+
+    constructor() {
+        this.store = new Store<WebhookDigestStoreSchema>({
+            name: 'webhook-digest',
+            defaults: {
+                settings: {},
+                lastSentAt: {}
+            }
+        });
+    }
+
+    public initialize() {
+        logger.info('Initializing WebhookDigestService');
+
+        discordWebhookService.registerEventFilter((groupId, data) => !isMutedByDigest(this.getSettings(groupId), data));
+
+        if (this.interval) clearInterval(this.interval);
+        this.interval = setInterval(() => {
+            this.processDueDigests().catch(err => logger.error('Failed to send webhook digests', err));
+        }, CHECK_INTERVAL);
+
+        this.setupHandlers();
+    }
+
+    public getSettings(groupId: string): WebhookDigestSettings {
+        return { ...DEFAULT_DIGEST_SETTINGS, ...this.store.get('settings')[groupId] };
+    }
+
+    public getLastSentAt(groupId: string): number | undefined {
+        return this.store.get('lastSentAt')[groupId];
+    }
+
+    public saveSettings(groupId: string, settings: WebhookDigestSettings): WebhookDigestSettings {
+        if (settings.frequency !== 'HOURLY' && settings.frequency !== 'DAILY') throw new Error('Unknown digest frequency');
+        if (!Number.isInteger(settings.hour) || settings.hour < 0 || settings.hour > 23) throw new Error('Digest hour must be between 0 and 23');
+        if (settings.routeId && !discordWebhookService.getRoutes(groupId).some(r => r.id === settings.routeId)) {
+            throw new Error('The selected webhook route no longer exists');
+        }
+
+        const wasEnabled = this.getSettings(groupId).enabled;
+        const all = this.store.get('settings');
+        all[groupId] = {
+            enabled: settings.enabled,
+            frequency: settings.frequency,
+            hour: settings.hour,
+            routeId: settings.routeId || undefined,
+            digestOnly: settings.digestOnly
+        };
+        this.store.set('settings', all);
+
+        // The first digest covers activity from when it was switched on
+        if (settings.enabled && !wasEnabled) this.setLastSentAt(groupId, Date.now());
+        return this.getSettings(groupId);
+    }
+
+    private setLastSentAt(groupId: string, time: number) {
+        const lastSentAt = this.store.get('lastSentAt');
+        lastSentAt[groupId] = time;
+        this.store.set('lastSentAt', lastSentAt);
+    }
+
+    public async buildSummary(groupId: string, from: number, to: number): Promise<DigestSummary> {
+        // Bans and kicks come from the archive, which otherwise lags up to one sync interval
+        await auditArchiveService.syncGroup(groupId);
+
+        const since = new Date(from);
+        const [autoModLogs, guardEvents, auditEntries] = await Promise.all([
+            databaseService.getAutoModLogsSince(groupId, since) as Promise<(DigestAutoModLog & { timestamp: Date })[]>,
+            databaseService.getInstanceGuardEventsSince(since) as Promise<(DigestGuardEvent & { groupId: string; timestamp: Date })[]>,
+            databaseService.getAuditLogEntriesSince(groupId, since, [...BAN_EVENTS, ...KICK_EVENTS]) as Promise<(DigestAuditEntry & { createdAt: Date })[]>
+        ]);
+        return summarizeDigest({
+            autoModLogs: autoModLogs.filter(l => new Date(l.timestamp).getTime() <= to),
+            guardEvents: guardEvents.filter(e => e.groupId === groupId && new Date(e.timestamp).getTime() <= to),
+            auditEntries: auditEntries.filter(e => new Date(e.createdAt).getTime() <= to)
+        }, from, to);
+    }
+
+    /**
+     * Sends a digest. Scheduled runs cover everything since the previous one, a manual
+     * "send now" covers the last hour or day and doesn't move the schedule.
+     */
+    public async sendDigest(groupId: string, scheduled = false) {
+        const settings = this.getSettings(groupId);
+        const now = Date.now();
+        const period = settings.frequency === 'HOURLY' ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+        const lastSentAt = scheduled ? this.getLastSentAt(groupId) : undefined;
+        const from = Math.max(lastSentAt ?? now - period, now - MAX_DIGEST_PERIOD);
+
+        const summary = await this.buildSummary(groupId, from, now);
+        discordWebhookService.queueEmbed(groupId, buildDigestEmbed(summary, settings.frequency), settings.routeId);
+        if (scheduled) this.setLastSentAt(groupId, now);
+        logger.info(`Queued ${settings.frequency.toLowerCase()} digest for group ${groupId}`);
+    }
+
+    private async processDueDigests() {
+        if (this.processing) return;
+        this.processing = true;
+
+        try {
+            const now = new Date();
+            for (const groupId of Object.keys(this.store.get('settings'))) {
+                if (!isDigestDue(this.getSettings(groupId), this.getLastSentAt(groupId), now)) continue;
+                try {
+                    await this.sendDigest(groupId, true);
+                } catch (error) {
+                    // Still move on, otherwise a missing webhook would be retried every minute
+                    logger.error(`Failed to send digest for group ${groupId}:`, error);
+                    this.setLastSentAt(groupId, now.getTime());
+                }
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    private setupHandlers() {
+        ipcMain.handle('webhook-digest:get', (_, groupId: string) => ({
+            settings: this.getSettings(groupId),
+            lastSentAt: this.getLastSentAt(groupId)
+        }));
+        ipcMain.handle('webhook-digest:save', (_, { groupId, settings }: { groupId: string; settings: WebhookDigestSettings }) =>
+            this.saveSettings(groupId, settings)
+        );
+        ipcMain.handle('webhook-digest:send-now', async (_, groupId: string) => {
+            await this.sendDigest(groupId);
+            return true;
+        });
+    }
+}
+
+export const webhookDigestService = new WebhookDigestService();
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+import { applyEmbedTemplate, validateEmbedTemplate, SAMPLE_EVENTS, type WebhookEmbedTemplate } from './WebhookEmbedTemplateService';
+
+const template = (overrides: Partial<WebhookEmbedTemplate>): WebhookEmbedTemplate => ({
+    enabled: true,
+    title: '',
+    description: '',
+    color: '',
+    thumbnail: '',
+    fields: [],
+    includeEventFields: false,
+    ...overrides
+});
+
+const baseEmbed = {
+    title: 'Default',
+    description: 'Default description',
+    color: 0xED4245,
+    fields: [{ name: 'Method', value: 'Native API', inline: true }],
+    timestamp: '2026-01-01T12:00:00.000Z'
+};
+
+describe('applyEmbedTemplate', () => {
+    it('renders placeholders and puts template fields first', () => {
+        const embed = applyEmbedTemplate(baseEmbed, template({
+            title: 'Rejected {{target.displayName}}',
+            color: '#112233',
+            fields: [{ name: 'Rule', value: '{{rule.name}}', inline: true }, { name: 'World', value: '{{world.name}}', inline: true }],
+            includeEventFields: true
+        }), SAMPLE_EVENTS.AUTOMOD);
+
+        expect(embed.title).toBe('Rejected BadActor123');
+        expect(embed.description).toBe('Default description');
+        expect(embed.color).toBe(0x112233);
+        // The sample has no world, so that field is dropped
+        expect(embed.fields).toEqual([{ name: 'Rule', value: 'Raid Keywords', inline: true }, baseEmbed.fields[0]]);
+    });
+
+    it('only uses thumbnails that render to a URL', () => {
+        expect(applyEmbedTemplate(baseEmbed, template({ thumbnail: '{{target.userIcon}}' }), SAMPLE_EVENTS.BAN).thumbnail?.url).toMatch(/^https:/);
+        expect(applyEmbedTemplate(baseEmbed, template({ thumbnail: '{{target.userIcon}}' }), SAMPLE_EVENTS.KICK).thumbnail).toBeUndefined();
+    });
+});
+
+describe('validateEmbedTemplate', () => {
+    it('reports bad colors and template syntax', () => {
+        expect(validateEmbedTemplate(template({ color: 'red' }))).toMatch(/hex/);
+        expect(validateEmbedTemplate(template({ fields: [{ name: 'Rule', value: '{{#if rule}}x', inline: true }] }))).toMatch(/^Field 1 value/);
+        expect(validateEmbedTemplate(template({ title: '{{title}}' }))).toBeNull();
+    });
+});
@@ -0,0 +1,185 @@
+import { reportTemplateService } from './ReportTemplateService';
+import type { DiscordEmbed, WebhookEventCategory, WebhookEventData } from './DiscordWebhookService';
+
+// Discord embed limits
+const TITLE_LIMIT = 256;
+const DESCRIPTION_LIMIT = 4096;
+const FIELD_NAME_LIMIT = 256;
+const FIELD_VALUE_LIMIT = 1024;
+const MAX_FIELDS = 25;
+
+const COLOR_PATTERN = /^#?([0-9a-f]{6})$/i;
+
+/**
+ * A group's layout for one event type. Every string is a report template rendered against
+ * the event, see buildEmbedTemplateData for the placeholders.
+ */
+export interface WebhookEmbedTemplate {
+    enabled: boolean;
+    title: string; // Empty keeps the event's own title
+    description: string; // Empty keeps the event's own description
+    color: string; // "#RRGGBB", empty keeps the severity color
+    thumbnail: string; // Rendered to an image URL, e.g. {{target.userIcon}}
+    fields: { name: string; value: string; inline: boolean }[];
+    includeEventFields: boolean; // Append the event's own fields after the template's
+}
+
+/**
+ * The data templates see. Uses the report vocabulary (target, actor, world, instance, reason,
+ * timestamp) plus the rule that fired and the event's own title, description and fields.
+ */
+export const buildEmbedTemplateData = (data: WebhookEventData, timestamp: string) => ({
+    title: data.title,
+    description: data.description || '',
+    severity: data.type,
+    category: data.category || 'GENERAL',
+    target: data.targetUser ? { displayName: data.targetUser.displayName, id: data.targetUser.id, userIcon: data.targetUser.avatarUrl } : undefined,
+    actor: data.actor ? { displayName: data.actor.displayName, id: data.actor.id, userIcon: data.actor.avatarUrl } : undefined,
+    world: data.world,
+    instance: data.instance,
+    rule: data.rule,
+    reason: data.reason,
+    fields: data.fields || [],
+    timestamp
+});
+
+const truncate = (value: string, limit: number) => value.length > limit ? `${value.slice(0, limit - 1)}…` : value;
+
+/**
+ * Returns the first problem with a template, or null when it can be saved.
+ */
+export const validateEmbedTemplate = (template: WebhookEmbedTemplate): string | null => {
+    if (template.color && !COLOR_PATTERN.test(template.color.trim())) return 'Color must be a hex value like #5865F2';
+    if (template.fields.length > MAX_FIELDS) return `Embeds can have at most ${MAX_FIELDS} fields`;
+
+    const parts: [string, string][] = [
+        ['Title', template.title],
+        ['Description', template.description],
+        ['Thumbnail', template.thumbnail],
+        ...template.fields.reduce<[string, string][]>((all, field, i) => [...all, [`Field ${i + 1} name`, field.name], [`Field ${i + 1} value`, field.value]], [])
+    ];
+    for (const [label, source] of parts) {
+        const error = reportTemplateService.validate(source || '');
+        if (error) return `${label}: ${error}`;
+    }
+    return null;
+};
+
+/**
+ * Renders a template over the default embed of an event. Fields that render empty are dropped,
+ * Discord rejects them.
+ */
+export const applyEmbedTemplate = (embed: DiscordEmbed, template: WebhookEmbedTemplate, data: WebhookEventData): DiscordEmbed => {
+    const context = buildEmbedTemplateData(data, embed.timestamp || new Date().toISOString());
+    const render = (source: string) => reportTemplateService.render(source, context).trim();
+
+    const title = template.title ? render(template.title) : '';
+    const description = template.description ? render(template.description) : '';
+    const color = COLOR_PATTERN.exec(template.color.trim());
+    const thumbnail = template.thumbnail ? render(template.thumbnail) : '';
+
+    const fields: NonNullable<DiscordEmbed['fields']> = template.fields
+        .map(field => ({ name: render(field.name), value: render(field.value), inline: field.inline }))
+        .filter(field => field.name && field.value);
+    const merged = fields
+        .concat(template.includeEventFields ? embed.fields || [] : [])
+        .slice(0, MAX_FIELDS)
+        .map(field => ({ ...field, name: truncate(field.name, FIELD_NAME_LIMIT), value: truncate(field.value, FIELD_VALUE_LIMIT) }));
+
+    return {
+        ...embed,
+        title: truncate(title || embed.title, TITLE_LIMIT),
+        description: description ? truncate(description, DESCRIPTION_LIMIT) : embed.description,
+        color: color ? parseInt(color[1], 16) : embed.color,
+        thumbnail: /^https?:\/\//i.test(thumbnail) ? { url: thumbnail } : embed.thumbnail,
+        fields: merged
+    };
+};
+
+// Made-up events used to preview a template in settings
+export const SAMPLE_EVENTS: Record<WebhookEventCategory, WebhookEventData> = {
+    BAN: {
+        title: '🚫 User Banned (Manual)',
+        description: 'User usr_sample was manually banned via the Group Guard Dashboard.',
+        type: 'ERROR',
+        category: 'BAN',
+        targetUser: { displayName: 'BadActor123', id: 'usr_sample', avatarUrl: 'https://assets.vrchat.com/www/brand/vrchat-logo-white-transparent.png' },
+        actor: { displayName: 'Moderator', id: 'usr_moderator' },
+        reason: 'Harassment',
+        fields: [{ name: 'Admin', value: 'Moderator', inline: true }]
+    },
+    KICK: {
+        title: '🥾 User Kicked',
+        description: 'User usr_sample was kicked from the instance.',
+        type: 'WARNING',
+        category: 'KICK',
+        targetUser: { displayName: 'BadActor123', id: 'usr_sample' },
+        world: { id: 'wrld_sample', name: 'The Great Pug' },
+        instance: { id: '12345~group(grp_sample)' },
+        fields: [{ name: 'Method', value: 'Native API', inline: true }]
+    },
+    AUTOMOD: {
+        title: 'AutoMod Gatekeeper',
+        description: '**User Rejected**: BadActor123 (usr_sample)\n**Reason**: Matched keyword "raid"',
+        type: 'ERROR',
+        category: 'AUTOMOD',
+        targetUser: { displayName: 'BadActor123', id: 'usr_sample' },
+        rule: { id: 'rule_sample', name: 'Raid Keywords' },
+        reason: 'Matched keyword "raid"',
+        fields: [{ name: 'Request Type', value: 'Join Request', inline: true }]
+    },
+    INSTANCE_GUARD: {
+        title: '⏳ Instance Closing Soon',
+        description: '**World**: The Great Pug\n**Reason**: World not on the allow list',
+        type: 'WARNING',
+        category: 'INSTANCE_GUARD',
+        world: { id: 'wrld_sample', name: 'The Great Pug' },
+        instance: { id: '12345~group(grp_sample)' },
+        reason: 'World not on the allow list',
+        fields: [{ name: 'Owner', value: 'Someone', inline: true }]
+    },
+    WATCHLIST: {
+        title: '👁️ Watchlist Hit',
+        description: '**BadActor123** joined your instance',
+        type: 'WARNING',
+        category: 'WATCHLIST',
+        targetUser: { displayName: 'BadActor123', id: 'usr_sample' },
+        reason: 'Known raider',
+        fields: [{ name: 'Priority', value: '2', inline: true }]
+    },
+    MEMBERSHIP: {
+        title: '📥 Join Request Accepted',
+        description: 'NewFriend was accepted into the group.',
+        type: 'SUCCESS',
+        category: 'MEMBERSHIP',
+        targetUser: { displayName: 'NewFriend', id: 'usr_sample' },
+        actor: { displayName: 'Moderator', id: 'usr_moderator' }
+    },
+    JOIN_LEAVE: {
+        title: '👥 Instance Join/Leave Summary',
+        description: '**World**: The Great Pug\n3 joined and 2 left over 45 min',
+        type: 'INFO',
+        category: 'JOIN_LEAVE',
+        world: { id: 'wrld_sample', name: 'The Great Pug' },
+        instance: { id: '12345~group(grp_sample)' },
+        fields: [
+            { name: 'Joined (3)', value: 'NewFriend, BadActor123, Moderator', inline: false },
+            { name: 'Left (2)', value: 'NewFriend, BadActor123', inline: false }
+        ]
+    },
+    AUDIT: {
+        title: '🚨 Audit Policy Alert',
+        description: '**Policy**: After-hours bans\nModerator banned a user outside office hours',
+        type: 'WARNING',
+        category: 'AUDIT',
+        rule: { id: 'policy_sample', name: 'After-hours bans' },
+        reason: 'Moderator banned a user outside office hours',
+        fields: [{ name: 'Actor', value: 'Moderator', inline: true }]
+    },
+    GENERAL: {
+        title: 'Webhook Test',
+        description: 'Your Group Guard webhook is configured correctly!',
+        type: 'INFO',
+        category: 'GENERAL'
+    }
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron-log', () => ({
+    default: {
+        scope: () => ({
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            debug: vi.fn(),
+        }),
+    },
+}));
+
+vi.mock('electron', () => ({ ipcMain: { handle: vi.fn() } }));
+vi.mock('electron-store', () => ({ default: vi.fn() }));
+vi.mock('./WindowService', () => ({ windowService: { broadcast: vi.fn() } }));
+
+import { classifyResponse, getRetryDelay, getDueItems, type QueuedWebhook } from './WebhookQueueService';
+
+const item = (overrides: Partial<QueuedWebhook>): QueuedWebhook => ({
+    id: 'a',
+    kind: 'discord',
+    groupId: 'grp_a',
+    destinationLabel: 'Default webhook',
+    title: 'User Banned',
+    body: {},
+    createdAt: 0,
+    attempts: 0,
+    nextAttemptAt: 0,
+    ...overrides
+});
+
+describe('classifyResponse', () => {
+    it('uses Discord retry_after for rate limits and gives up on client errors', () => {
+        expect(classifyResponse(204)).toEqual({ ok: true });
+        expect(classifyResponse(429, '5', '{"retry_after": 1.25, "global": false}')).toMatchObject({ ok: false, retryAfterMs: 1250 });
+        expect(classifyResponse(429, '3', 'slow down')).toMatchObject({ retryAfterMs: 3000 });
+        expect(classifyResponse(404, null, 'Unknown Webhook')).toMatchObject({ ok: false, permanent: true, error: 'HTTP 404: Unknown Webhook' });
+        expect(classifyResponse(502)).toMatchObject({ ok: false, permanent: false });
+    });
+});
+
+describe('getRetryDelay', () => {
+    it('doubles per attempt up to the cap', () => {
+        expect(getRetryDelay(1)).toBe(5000);
+        expect(getRetryDelay(3)).toBe(20000);
+        expect(getRetryDelay(20)).toBe(15 * 60 * 1000);
+    });
+});
+
+describe('getDueItems', () => {
+    it('keeps per-destination order and skips rate limited destinations', () => {
+        const pending = [
+            item({ id: 'second', createdAt: 2 }),
+            item({ id: 'first', createdAt: 1, nextAttemptAt: 500 }),
+            item({ id: 'route', routeId: 'bans', createdAt: 3 }),
+            item({ id: 'other-group', groupId: 'grp_b', createdAt: 4 })
+        ];
+        expect(getDueItems(pending, {}, 100).map(i => i.id)).toEqual(['route', 'other-group']);
+        expect(getDueItems(pending, { 'discord:grp_b:default': 2000 }, 1000).map(i => i.id)).toEqual(['first', 'route']);
+    });
+});
@@ -0,0 +1,244 @@
+import Store from 'electron-store';
+import { ipcMain } from 'electron';
+import log from 'electron-log';
+import crypto from 'crypto';
+import { windowService } from './WindowService';
+
+const logger = log.scope('WebhookQueueService');
+
+const CHECK_INTERVAL = 5 * 1000;
+const BASE_RETRY_DELAY = 5 * 1000;
+const MAX_RETRY_DELAY = 15 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+const MAX_DEAD_LETTERS = 200;
+
+/**
+ * An outbound webhook waiting to be delivered. The destination is stored by reference
+ * (group and route) so URLs stay encrypted in their own store and a fixed URL is picked up on retry.
+ */
+export interface QueuedWebhook {
+  id: string;
+  kind: string; // Which sender delivers it, e.g. 'discord'
+  groupId: string;
+  routeId?: string; // Unset for the group's default destination
+  destinationLabel: string;
+  title: string;
+  body: Record<string, unknown>;
+  createdAt: number;
+  attempts: number; // Failed deliveries, rate limits don't count
+  nextAttemptAt: number;
+  lastError?: string;
+  failedAt?: number; // Set once the item is moved to the dead letters
+}
+
+export type DeliveryResult =
+  | { ok: true }
+  | { ok: false; error: string; retryAfterMs?: number; permanent?: boolean };
+
+export type WebhookSender = (item: QueuedWebhook) => Promise<DeliveryResult>;
+
+interface WebhookQueueStoreSchema {
+  pending: QueuedWebhook[];
+  deadLetters: QueuedWebhook[];
+}
+
+const destinationKey = (item: Pick<QueuedWebhook, 'kind' | 'groupId' | 'routeId'>) =>
+  `${item.kind}:${item.groupId}:${item.routeId || 'default'}`;
+
+/**
+ * Exponential backoff for the given number of failed attempts.
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY);
+
+/**
+ * Turns an HTTP response into a delivery result. Discord sends retry_after in seconds in the body
+ * of a 429, other services use the Retry-After header. Client errors won't succeed on retry.
+ */
+export const classifyResponse = (status: number, retryAfterHeader?: string | null, body?: string): DeliveryResult => {
+  if (status >= 200 && status < 300) return { ok: true };
+
+  if (status === 429) {
+    let seconds = Number(retryAfterHeader);
+    try {
+      const parsed = body ? JSON.parse(body) : null;
+      if (typeof parsed?.retry_after === 'number') seconds = parsed.retry_after;
+    } catch {
+      // Not JSON, keep the header value
+    }
+    return { ok: false, error: 'Rate limited (429)', retryAfterMs: Math.ceil((isFinite(seconds) && seconds > 0 ? seconds : 1) * 1000) };
+  }
+
+  const error = `HTTP ${status}${body ? `: ${body.slice(0, 200)}` : ''}`;
+  return { ok: false, error, permanent: status >= 400 && status < 500 };
+};
+
+/**
+ * Items due for delivery, only the oldest per destination so a channel receives events in order.
+ */
+export const getDueItems = (pending: QueuedWebhook[], blockedUntil: Record<string, number>, now = Date.now()): QueuedWebhook[] => {
+  const seen = new Set<string>();
+  const due: QueuedWebhook[] = [];
+  for (const item of [...pending].sort((a, b) => a.createdAt - b.createdAt)) {
+    const key = destinationKey(item);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (item.nextAttemptAt <= now && (blockedUntil[key] || 0) <= now) due.push(item);
+  }
+  return due;
+};
+
+class WebhookQueueService {
+  private store: Store<WebhookQueueStoreSchema>;
+  private senders: Record<string, WebhookSender> = {};
+  private blockedUntil: Record<string, number> = {}; // Rate limited destinations
+  private interval: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  constructor() {
+    this.store = new Store<WebhookQueueStoreSchema>({
+      name: 'webhook-queue',
+      defaults: {
+        pending: [],
+        deadLetters: []
+      }
+    });
+  }
+
+  public initialize() {
+    const pending = this.store.get('pending');
+    logger.info(`Initializing WebhookQueueService (${pending.length} pending, ${this.store.get('deadLetters').length} dead letters)`);
+
+    if (this.interval) clearInterval(this.interval);
+    this.interval = setInterval(() => {
+      this.process().catch(err => logger.error('Failed to process webhook queue', err));
+    }, CHECK_INTERVAL);
+
+    this.setupHandlers();
+  }
+
+  public registerSender(kind: string, sender: WebhookSender) {
+    this.senders[kind] = sender;
+  }
+
+  public enqueue(item: Pick<QueuedWebhook, 'kind' | 'groupId' | 'routeId' | 'destinationLabel' | 'title' | 'body'>): QueuedWebhook {
+    const now = Date.now();
+    const queued: QueuedWebhook = { ...item, id: crypto.randomUUID(), createdAt: now, attempts: 0, nextAttemptAt: now };
+    this.store.set('pending', [...this.store.get('pending'), queued]);
+    this.process().catch(err => logger.error('Failed to process webhook queue', err));
+    return queued;
+  }
+
+  public getPending(groupId?: string): QueuedWebhook[] {
+    const pending = this.store.get('pending');
+    return groupId ? pending.filter(i => i.groupId === groupId) : pending;
+  }
+
+  public getDeadLetters(groupId?: string): QueuedWebhook[] {
+    const dead = this.store.get('deadLetters');
+    return groupId ? dead.filter(i => i.groupId === groupId) : dead;
+  }
+
+  public async process() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      // Re-read after each delivery, items may have been added or discarded meanwhile
+      let due = getDueItems(this.store.get('pending'), this.blockedUntil);
+      while (due.length > 0) {
+        for (const item of due) await this.deliver(item);
+        due = getDueItems(this.store.get('pending'), this.blockedUntil);
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async deliver(item: QueuedWebhook) {
+    const sender = this.senders[item.kind];
+    let result: DeliveryResult;
+    try {
+      result = sender ? await sender(item) : { ok: false, error: `No sender for ${item.kind} webhooks`, permanent: true };
+    } catch (err) {
+      // Network errors and timeouts
+      result = { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+
+    if (result.ok) {
+      this.removePending(item.id);
+      this.broadcast(item.groupId);
+      return;
+    }
+
+    if (result.retryAfterMs !== undefined) {
+      logger.warn(`Webhook to ${item.destinationLabel} rate limited, retrying in ${result.retryAfterMs}ms`);
+      this.blockedUntil[destinationKey(item)] = Date.now() + result.retryAfterMs;
+      this.updatePending(item.id, { lastError: result.error });
+      return;
+    }
+
+    const attempts = item.attempts + 1;
+    if (result.permanent || attempts >= MAX_ATTEMPTS) {
+      logger.error(`Webhook "${item.title}" to ${item.destinationLabel} failed after ${attempts} attempt(s): ${result.error}`);
+      this.removePending(item.id);
+      const deadLetters = [...this.store.get('deadLetters'), { ...item, attempts, lastError: result.error, failedAt: Date.now() }];
+      this.store.set('deadLetters', deadLetters.slice(-MAX_DEAD_LETTERS));
+    } else {
+      const delay = getRetryDelay(attempts);
+      logger.warn(`Webhook "${item.title}" to ${item.destinationLabel} failed (${result.error}), retry ${attempts} in ${delay}ms`);
+      this.updatePending(item.id, { attempts, lastError: result.error, nextAttemptAt: Date.now() + delay });
+    }
+    this.broadcast(item.groupId);
+  }
+
+  /**
+   * Moves dead letters back onto the queue with a fresh attempt count.
+   */
+  public retryDeadLetters(groupId: string, ids?: string[]): number {
+    const dead = this.store.get('deadLetters');
+    const retry = dead.filter(i => i.groupId === groupId && (!ids || ids.includes(i.id)));
+    if (retry.length === 0) return 0;
+
+    const now = Date.now();
+    this.store.set('deadLetters', dead.filter(i => !retry.includes(i)));
+    this.store.set('pending', [
+      ...this.store.get('pending'),
+      ...retry.map(i => ({ ...i, attempts: 0, nextAttemptAt: now, failedAt: undefined }))
+    ]);
+    this.broadcast(groupId);
+    this.process().catch(err => logger.error('Failed to process webhook queue', err));
+    return retry.length;
+  }
+
+  public discardDeadLetters(groupId: string, ids?: string[]): number {
+    const dead = this.store.get('deadLetters');
+    const remaining = dead.filter(i => !(i.groupId === groupId && (!ids || ids.includes(i.id))));
+    this.store.set('deadLetters', remaining);
+    this.broadcast(groupId);
+    return dead.length - remaining.length;
+  }
+
+  private removePending(id: string) {
+    this.store.set('pending', this.store.get('pending').filter(i => i.id !== id));
+  }
+
+  private updatePending(id: string, update: Partial<QueuedWebhook>) {
+    this.store.set('pending', this.store.get('pending').map(i => i.id === id ? { ...i, ...update } : i));
+  }
+
+  private broadcast(groupId: string) {
+    windowService.broadcast('webhook-queue:updated', { groupId });
+  }
+
+  private setupHandlers() {
+    ipcMain.handle('webhook-queue:get', (_, groupId: string) => ({
+      pending: this.getPending(groupId),
+      deadLetters: this.getDeadLetters(groupId)
+    }));
+    ipcMain.handle('webhook-queue:retry', (_, { groupId, ids }: { groupId: string; ids?: string[] }) => this.retryDeadLetters(groupId, ids));
+    ipcMain.handle('webhook-queue:discard', (_, { groupId, ids }: { groupId: string; ids?: string[] }) => this.discardDeadLetters(groupId, ids));
+  }
+}
+
+export const webhookQueueService = new WebhookQueueService();
@@ -29,6 +29,7 @@ const AutoModView = lazy(() => import('./features/automod/AutoModView').then(m =
 const LiveView = lazy(() => import('./features/live/LiveView').then(m => ({ default: m.LiveView })));
 const AuditLogView = lazy(() => import('./features/audit/AuditLogView').then(m => ({ default: m.AuditLogView })));
 const WatchlistView = lazy(() => import('./features/watchlist/WatchlistView').then(m => ({ default: m.WatchlistView })));
+const CasesView = lazy(() => import('./features/cases/CasesView').then(m => ({ default: m.CasesView })));
 const InstanceGuardView = lazy(() => import('./features/instances/InstanceGuardView').then(m => ({ default: m.InstanceGuardView })));
 const FriendshipManagerView = lazy(() => import('./views/FriendshipManagerView').then(m => ({ default: m.FriendshipManagerView })));
 
@@ -256,7 +257,7 @@ function App() {
       return;
     }
 
-    if ((view === 'moderation' || view === 'instances' || view === 'audit' || view === 'database' || view === 'live' || view === 'watchlist') && !selectedGroup && !isRoamingMode) {
+    if ((view === 'moderation' || view === 'instances' || view === 'audit' || view === 'database' || view === 'live' || view === 'watchlist' || view === 'cases') && !selectedGroup && !isRoamingMode) {
       selectGroup(null);
       startTransition(() => setCurrentView('main'));
       return;
@@ -279,6 +280,8 @@ function App() {
         return <AuditLogView />;
       case 'watchlist':
         return <WatchlistView />;
+      case 'cases':
+        return <CasesView />;
       case 'database':
         return <DatabaseView />;
       case 'friendship':  // New Friendship Manager View
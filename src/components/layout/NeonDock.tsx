@@ -9,7 +9,8 @@ import {
   List,
   ClipboardList,
   Database,
-  Users
+  Users,
+  Briefcase
 } from 'lucide-react';
 
 import type { AppView } from '../../stores/appViewStore';
@@ -49,6 +50,7 @@ export const NeonDock: React.FC<NeonDockProps> = memo(({
   const handleLiveClick = useCallback(() => onViewChange('live'), [onViewChange]);
   const handleModerationClick = useCallback(() => onViewChange('moderation'), [onViewChange]);
   const handleWatchlistClick = useCallback(() => onViewChange('watchlist'), [onViewChange]);
+  const handleCasesClick = useCallback(() => onViewChange('cases'), [onViewChange]);
   const handleInstancesClick = useCallback(() => onViewChange('instances'), [onViewChange]);
   const handleAuditClick = useCallback(() => onViewChange('audit'), [onViewChange]);
   const handleDatabaseClick = useCallback(() => onViewChange('database'), [onViewChange]);
@@ -180,6 +182,14 @@ export const NeonDock: React.FC<NeonDockProps> = memo(({
                         icon={List}
                       />
 
+                      <DockItem
+                        label="Cases"
+                        isActive={currentView === 'cases'}
+                        onClick={handleCasesClick}
+                        color="var(--color-warning)"
+                        icon={Briefcase}
+                      />
+
                       <DockItem
                         label="Audit Logs"
                         isActive={currentView === 'audit'}
@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { Modal } from '../ui/Modal';
-import { User, Shield, Globe, Users, Clock, BadgeCheck, Crown, Copy, Check, Loader2, History, MapPin, Edit3, Tag } from 'lucide-react';
+import { User, Shield, Globe, Users, Clock, BadgeCheck, Crown, Copy, Check, Loader2, History, MapPin, Edit3, Tag, Paperclip } from 'lucide-react';
 import styles from '../../features/dashboard/dialogs/UserProfileDialog.module.css';
 import { PlayerFlags } from '../ui/PlayerFlags';
+import { EvidencePanel } from '../../features/evidence/EvidencePanel';
+import { useGroupStore } from '../../stores/groupStore';
 
 interface UserProfileModalProps {
     userId: string;
@@ -31,6 +33,7 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
     const [error, setError] = useState<string | null>(null);
     const [copiedField, setCopiedField] = useState<string | null>(null);
     const [isTracked, setIsTracked] = useState(false);
+    const { selectedGroup } = useGroupStore();
 
     // Notes
     const [note, setNote] = useState('');
@@ -251,6 +254,22 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
                             </div>
                         </div>
 
+                        {/* Evidence Card */}
+                        <div className={styles.card}>
+                            <div className={styles.cardHeader}>
+                                <Paperclip size={16} />
+                                Evidence
+                            </div>
+                            <div className={styles.cardContent}>
+                                <EvidencePanel
+                                    subjectId={userId}
+                                    subjectTypes={['BAN', 'KICK', 'FLAG']}
+                                    targetUserId={userId}
+                                    groupId={selectedGroup?.id}
+                                />
+                            </div>
+                        </div>
+
                         {/* Personal Note Card */}
                         <div className={styles.card}>
                             <div className={styles.cardHeader}>
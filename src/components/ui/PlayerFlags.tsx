@@ -1,14 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { Tag, Plus, Minus, X, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Tag, Plus, Minus, X, AlertTriangle, CheckCircle, Settings } from 'lucide-react';
 import styles from '../../features/dashboard/dialogs/UserProfileDialog.module.css';
+import { PlayerFlagDefinitionsDialog } from '../../features/dashboard/dialogs/PlayerFlagDefinitionsDialog';
+import { useGroupStore } from '../../stores/groupStore';
+import type { PlayerFlagDefinition } from '../../types/electron';
 
-interface PlayerFlag {
-    id: string;
-    label: string;
-    description: string;
-    type: 'negative' | 'positive';
-    color: string;
-}
+const AUTO_ACTION_LABELS: Record<string, string> = {
+    KICK: 'kicked on sight',
+    EXEMPT_AUTOMOD: 'exempt from AutoMod'
+};
+
+const describeFlag = (flag: PlayerFlagDefinition) => {
+    const action = flag.autoAction ? AUTO_ACTION_LABELS[flag.autoAction] : undefined;
+    return `${flag.description} (${flag.severity} severity${action ? `, ${action}` : ''})`;
+};
 
 interface PlayerFlagsProps {
     userId: string;
@@ -17,16 +22,19 @@ interface PlayerFlagsProps {
 
 export const PlayerFlags: React.FC<PlayerFlagsProps> = ({ userId, initialShowPicker = false }) => {
     const [flags, setFlags] = useState<string[]>([]);
-    const [definitions, setDefinitions] = useState<PlayerFlag[]>([]);
+    const [definitions, setDefinitions] = useState<PlayerFlagDefinition[]>([]);
     const [loading, setLoading] = useState(true);
     const [showPicker, setShowPicker] = useState(initialShowPicker);
+    const [showEditor, setShowEditor] = useState(false);
+    const { selectedGroup } = useGroupStore();
+    const groupId = selectedGroup?.id;
 
     useEffect(() => {
         const load = async () => {
             try {
                 const [userFlags, defs] = await Promise.all([
-                    window.electron.playerFlags.getFlags(userId),
-                    window.electron.playerFlags.getDefinitions()
+                    window.electron.playerFlags.getFlags(userId, groupId),
+                    window.electron.playerFlags.getDefinitions(groupId)
                 ]);
                 setFlags(userFlags || []);
                 setDefinitions(defs || []);
@@ -37,7 +45,7 @@ export const PlayerFlags: React.FC<PlayerFlagsProps> = ({ userId, initialShowPic
             }
         };
         load();
-    }, [userId]);
+    }, [userId, groupId]);
 
     const toggleFlag = async (flagId: string) => {
         const newFlags = flags.includes(flagId)
@@ -46,7 +54,7 @@ export const PlayerFlags: React.FC<PlayerFlagsProps> = ({ userId, initialShowPic
 
         setFlags(newFlags);
         try {
-            await window.electron.playerFlags.setFlags(userId, newFlags);
+            await window.electron.playerFlags.setFlags(userId, newFlags, groupId);
         } catch (err) {
             console.error('Failed to save player flags:', err);
         }
@@ -64,13 +72,24 @@ export const PlayerFlags: React.FC<PlayerFlagsProps> = ({ userId, initialShowPic
                     <Tag size={16} />
                     <span>Player Flags</span>
                 </div>
-                <button
-                    className={styles.addFlagBtn}
-                    onClick={() => setShowPicker(!showPicker)}
-                    title={showPicker ? "Close Picker" : "Add Flag"}
-                >
-                    {showPicker ? <Minus size={16} /> : <Plus size={16} />}
-                </button>
+                <div style={{ display: 'flex', gap: '4px' }}>
+                    {groupId && (
+                        <button
+                            className={styles.addFlagBtn}
+                            onClick={() => setShowEditor(true)}
+                            title="Edit Group Flags"
+                        >
+                            <Settings size={16} />
+                        </button>
+                    )}
+                    <button
+                        className={styles.addFlagBtn}
+                        onClick={() => setShowPicker(!showPicker)}
+                        title={showPicker ? "Close Picker" : "Add Flag"}
+                    >
+                        {showPicker ? <Minus size={16} /> : <Plus size={16} />}
+                    </button>
+                </div>
             </div>
 
             <div className={styles.activeFlags}>
@@ -82,7 +101,7 @@ export const PlayerFlags: React.FC<PlayerFlagsProps> = ({ userId, initialShowPic
                     <div
                         key={flag.id}
                         className={`${styles.flagChip} ${flag.type === 'negative' ? styles.negativeFlag : styles.positiveFlag}`}
-                        title={flag.description}
+                        title={describeFlag(flag)}
                     >
                         {flag.type === 'negative' ? <AlertTriangle size={12} /> : <CheckCircle size={12} />}
                         <span>{flag.label}</span>
@@ -103,6 +122,7 @@ export const PlayerFlags: React.FC<PlayerFlagsProps> = ({ userId, initialShowPic
                                     key={flag.id}
                                     className={styles.pickerItem}
                                     onClick={() => toggleFlag(flag.id)}
+                                    title={describeFlag(flag)}
                                 >
                                     {flag.label}
                                 </button>
@@ -117,6 +137,7 @@ export const PlayerFlags: React.FC<PlayerFlagsProps> = ({ userId, initialShowPic
                                     key={flag.id}
                                     className={styles.pickerItem}
                                     onClick={() => toggleFlag(flag.id)}
+                                    title={describeFlag(flag)}
                                 >
                                     {flag.label}
                                 </button>
@@ -125,6 +146,16 @@ export const PlayerFlags: React.FC<PlayerFlagsProps> = ({ userId, initialShowPic
                     </div>
                 </div>
             )}
+
+            {groupId && (
+                <PlayerFlagDefinitionsDialog
+                    isOpen={showEditor}
+                    onClose={() => setShowEditor(false)}
+                    groupId={groupId}
+                    groupName={selectedGroup?.name}
+                    onSaved={setDefinitions}
+                />
+            )}
         </div>
     );
 };
@@ -5,9 +5,10 @@ import { GlassPanel } from '../../components/ui/GlassPanel';
 import { NeonButton } from '../../components/ui/NeonButton';
 import { StatTile } from '../dashboard/components/StatTile';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, Filter, RefreshCw, Ban, UserMinus, Bot, Mail, Key } from 'lucide-react';
+import { Search, Filter, RefreshCw, Ban, UserMinus, Bot, Mail, Key, Archive } from 'lucide-react';
 import { useConfirm } from '../../context/ConfirmationContext';
 import { useNotificationStore } from '../../stores/notificationStore';
+import type { AuditArchiveEntry, AuditArchiveQuery, AuditSyncStatus } from '../../types/electron';
 import styles from '../dashboard/DashboardView.module.css';
 
 const containerVariants = {
@@ -27,6 +28,7 @@ export const AuditLogView: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [filterType, setFilterType] = useState<string>('all');
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [mode, setMode] = useState<'recent' | 'archive'>('recent');
   
   const { confirm } = useConfirm();
   const { addNotification } = useNotificationStore();
@@ -165,7 +167,12 @@ export const AuditLogView: React.FC = () => {
           {/* Main Content Split */}
           <div style={{ display: 'flex', gap: '1rem', flex: 1, minHeight: 0 }}>
               
-              {/* Left: Log List */}
+              {/* Left: Archive search or recent Log List */}
+              {mode === 'archive' ? (
+              <GlassPanel style={{ flex: 2, display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
+                  <AuditArchiveSearch groupId={selectedGroup.id} onUndo={handleUndo} onBack={() => setMode('recent')} />
+              </GlassPanel>
+              ) : (
               <GlassPanel style={{ flex: 2, display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
                   <div style={{ padding: '1rem', borderBottom: '1px solid var(--border-color)', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
                       <h3 style={{ margin: 0, fontSize: '1.1rem', fontWeight: 600, flexShrink: 0 }}>Activity Log</h3>
@@ -203,6 +210,9 @@ export const AuditLogView: React.FC = () => {
                       <NeonButton onClick={handleRefresh} size="sm" variant="secondary" disabled={isRefreshing || isLoading} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
                           <RefreshCw size={14} className={isRefreshing ? 'animate-spin' : ''} /> Refresh
                       </NeonButton>
+                      <NeonButton onClick={() => setMode('archive')} size="sm" variant="secondary" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                          <Archive size={14} /> Archive
+                      </NeonButton>
                   </div>
                   
                   {/* Log Body */}
@@ -225,11 +235,13 @@ export const AuditLogView: React.FC = () => {
                       )}
                   </div>
               </GlassPanel>
+              )}
 
               {/* Right: Filters */}
               <div style={{ flex: 0.5, display: 'flex', flexDirection: 'column', gap: '1rem', minWidth: '200px' }}>
                   
                   {/* Type Filters */}
+                  {mode === 'recent' && (
                   <GlassPanel style={{ padding: '1rem', display: 'flex', flexDirection: 'column', gap: '1rem' }}>
                       <h3 style={{ margin: 0, fontSize: '1rem', fontWeight: 600, display: 'flex', alignItems: 'center', gap: '8px' }}>
                           <Filter size={16} /> Filter by Type
@@ -270,13 +282,17 @@ export const AuditLogView: React.FC = () => {
                           ))}
                       </div>
                   </GlassPanel>
+                  )}
                   
                   {/* Info Panel */}
                   <GlassPanel style={{ flex: 1, padding: '1rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
                       <h3 style={{ margin: 0, fontSize: '1rem', fontWeight: 600 }}>Quick Info</h3>
                       
                       <div style={{ fontSize: '0.85rem', color: 'var(--color-text-dim)' }}>
-                          Showing activity from the last 30 days. Click on a user's name to view their VRChat profile.
+                          {mode === 'recent'
+                              ? "Showing the latest activity from VRChat. Older entries are kept in the local archive."
+                              : "The archive is synced in the background and keeps every audit log entry of the group, even after VRChat drops it."}
+                          {' '}Click on a user's name to view their VRChat profile.
                       </div>
                       
                       <div style={{ marginTop: 'auto', padding: '0.75rem', background: 'rgba(var(--primary-hue), 100%, 50%, 0.1)', borderRadius: '6px', fontSize: '0.75rem', color: 'var(--color-primary)' }}>
@@ -291,6 +307,158 @@ export const AuditLogView: React.FC = () => {
   );
 };
 
+const ARCHIVE_PAGE_SIZE = 100;
+
+const archiveInputStyle: React.CSSProperties = {
+    padding: '0.4rem 0.6rem',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '6px',
+    color: 'white',
+    fontSize: '0.8rem',
+    outline: 'none',
+    minWidth: 0
+};
+
+const toLogEntry = (entry: AuditArchiveEntry): AuditLogEntry => ({
+    id: entry.id,
+    created_at: new Date(entry.createdAt).toISOString(),
+    type: entry.eventType,
+    eventType: entry.eventType,
+    actorId: entry.actorId || '',
+    actorDisplayName: entry.actorDisplayName || 'UNKNOWN',
+    targetId: entry.targetId || undefined,
+    targetDisplayName: entry.targetDisplayName || undefined,
+    description: entry.description || '',
+    data: entry.data ? JSON.parse(entry.data) : undefined
+});
+
+// Search over the local audit log archive
+const AuditArchiveSearch: React.FC<{
+    groupId: string;
+    onUndo: (log: AuditLogEntry, e?: React.MouseEvent) => void;
+    onBack: () => void;
+}> = ({ groupId, onUndo, onBack }) => {
+    const [query, setQuery] = useState({ actor: '', target: '', eventType: '', from: '', to: '', text: '' });
+    const [results, setResults] = useState<AuditLogEntry[]>([]);
+    const [total, setTotal] = useState(0);
+    const [status, setStatus] = useState<AuditSyncStatus | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+
+    const buildQuery = useCallback((offset: number): AuditArchiveQuery => ({
+        actor: query.actor,
+        target: query.target,
+        eventType: query.eventType,
+        text: query.text,
+        from: query.from ? new Date(`${query.from}T00:00:00`).getTime() : undefined,
+        to: query.to ? new Date(`${query.to}T23:59:59.999`).getTime() : undefined,
+        limit: ARCHIVE_PAGE_SIZE,
+        offset
+    }), [query]);
+
+    const search = useCallback(async (offset: number) => {
+        setIsSearching(true);
+        try {
+            const result = await window.electron.auditArchive.search(groupId, buildQuery(offset));
+            const entries = result.entries.map(toLogEntry);
+            setResults(prev => offset > 0 ? [...prev, ...entries] : entries);
+            setTotal(result.total);
+        } catch (e) {
+            console.error('Failed to search audit archive', e);
+        } finally {
+            setIsSearching(false);
+        }
+    }, [groupId, buildQuery]);
+
+    // Debounced search while typing
+    useEffect(() => {
+        const timer = setTimeout(() => search(0), 300);
+        return () => clearTimeout(timer);
+    }, [search]);
+
+    useEffect(() => {
+        window.electron.auditArchive.getSyncStatus(groupId).then(setStatus).catch(e => console.error('Failed to load sync status', e));
+        return window.electron.auditArchive.onSyncStatus(update => {
+            if (update.groupId !== groupId) return;
+            setStatus(prev => ({ ...prev, ...update }));
+        });
+    }, [groupId]);
+
+    const handleSync = async () => {
+        setStatus(prev => prev ? { ...prev, syncing: true } : prev);
+        try {
+            await window.electron.auditArchive.sync(groupId);
+            setStatus(await window.electron.auditArchive.getSyncStatus(groupId));
+            await search(0);
+        } catch (e) {
+            console.error('Audit archive sync failed', e);
+        }
+    };
+
+    const field = (key: keyof typeof query, placeholder: string, type = 'text') => (
+        <input
+            type={type}
+            placeholder={placeholder}
+            value={query[key]}
+            onChange={e => setQuery(prev => ({ ...prev, [key]: e.target.value }))}
+            style={{ ...archiveInputStyle, flex: 1 }}
+            title={placeholder}
+        />
+    );
+
+    return (
+        <>
+            <div style={{ padding: '1rem', borderBottom: '1px solid var(--border-color)', display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
+                    <h3 style={{ margin: 0, fontSize: '1.1rem', fontWeight: 600, flexShrink: 0 }}>Audit Archive</h3>
+                    <span style={{ fontSize: '0.75rem', color: status?.lastError ? 'var(--color-danger)' : 'var(--color-text-dim)', flex: 1, textAlign: 'right' }}>
+                        {status?.lastError
+                            ? `Sync failed: ${status.lastError}`
+                            : status?.syncing
+                                ? `Syncing… ${status.archived ?? 0} new entries`
+                                : `${status?.count ?? 0} entries${status?.oldest ? ` since ${new Date(status.oldest).toLocaleDateString()}` : ''}${status?.backfillComplete === false ? ' (backfill in progress)' : ''}`}
+                    </span>
+                    <NeonButton onClick={handleSync} size="sm" variant="secondary" disabled={!!status?.syncing} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                        <RefreshCw size={14} className={status?.syncing ? 'animate-spin' : ''} /> Sync
+                    </NeonButton>
+                    <NeonButton onClick={onBack} size="sm" variant="ghost">Recent</NeonButton>
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    {field('text', 'Search text…')}
+                    {field('actor', 'Actor (name or usr_)')}
+                    {field('target', 'Target (name or usr_)')}
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                    {field('eventType', 'Event type, e.g. group.user.unban')}
+                    {field('from', 'From', 'date')}
+                    <span style={{ color: 'var(--color-text-dim)' }}>–</span>
+                    {field('to', 'To', 'date')}
+                </div>
+            </div>
+
+            <div style={{ flex: 1, overflowY: 'auto', padding: '1rem', display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                {results.length === 0 ? (
+                    <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--color-text-dim)' }}>
+                        {isSearching ? 'Searching…' : 'No archived entries match your search.'}
+                    </div>
+                ) : (
+                    <>
+                        <div style={{ fontSize: '0.75rem', color: 'var(--color-text-dim)' }}>{total} matching entries</div>
+                        {results.map(log => (
+                            <AuditLogCard key={log.id} log={log} onUndo={(e) => onUndo(log, e)} />
+                        ))}
+                        {results.length < total && (
+                            <NeonButton size="sm" variant="ghost" onClick={() => search(results.length)} disabled={isSearching} style={{ alignSelf: 'center' }}>
+                                Load more
+                            </NeonButton>
+                        )}
+                    </>
+                )}
+            </div>
+        </>
+    );
+};
+
 // Simple time ago helper
 const timeAgo = (dateStr: string) => {
   const date = new Date(dateStr);
@@ -5,21 +5,26 @@ import { useGroupStore } from '../../stores/groupStore';
 import { useScanStore } from '../../stores/scanStore';
 import { motion } from 'framer-motion';
 import styles from './AutoModView.module.css';
-import { ShieldCheck, List, Play, Loader2 } from 'lucide-react';
+import { ShieldCheck, List, Play, Loader2, Plus, GitBranch, Eye } from 'lucide-react';
 
 // Extracted components
 import { KeywordConfigModal } from './dialogs/KeywordConfigModal';
 import { BlacklistedGroupsConfigModal } from './dialogs/BlacklistedGroupsConfigModal';
+import { CompositeRuleModal } from './dialogs/CompositeRuleModal';
+import { ShadowReportDialog } from './dialogs/ShadowReportDialog';
+import { BacktestResultsDialog } from './dialogs/BacktestResultsDialog';
+import { StrikePolicyModal } from './dialogs/StrikePolicyModal';
 import { UserActionModal } from './dialogs/UserActionModal';
 import { RuleCard } from './components/RuleCard';
 import { InterceptionLog, type LogEntry } from './components/InterceptionLog';
 import { StatTile } from '../dashboard/components/StatTile';
-import type { AutoModRule } from '../../types/electron';
+import type { AutoModRule, StrikePolicy } from '../../types/electron';
 import { NeonButton } from '../../components/ui/NeonButton';
 import { Button } from '../../components/ui/Button';
 import { ConfirmationModal } from '../../components/ui/ConfirmationModal';
 import { WhitelistViewerModal } from './dialogs/WhitelistViewerModal';
 import { ScanResultsDialog } from './dialogs/ScanResultsDialog';
+import { useNotificationStore } from '../../stores/notificationStore';
 
 const containerVariants = {
     hidden: { opacity: 0 },
@@ -40,6 +45,12 @@ export const AutoModView: React.FC = () => {
     const [showKeywordConfig, setShowKeywordConfig] = useState(false);
     const [showBlacklistedGroupsConfig, setShowBlacklistedGroupsConfig] = useState(false);
     const [showWhitelistViewer, setShowWhitelistViewer] = useState(false);
+    const [showCompositeModal, setShowCompositeModal] = useState(false);
+    const [editingCompositeRule, setEditingCompositeRule] = useState<AutoModRule | null>(null);
+    const [showShadowReport, setShowShadowReport] = useState(false);
+    const [backtestRules, setBacktestRules] = useState<AutoModRule[] | null>(null);
+    const [strikePolicy, setStrikePolicy] = useState<StrikePolicy | null>(null);
+    const [showStrikePolicy, setShowStrikePolicy] = useState(false);
     const [interceptionLog, setInterceptionLog] = useState<LogEntry[]>([]);
     const [selectedLogEntry, setSelectedLogEntry] = useState<LogEntry | null>(null);
 
@@ -55,6 +66,7 @@ export const AutoModView: React.FC = () => {
     } = useScanStore();
     
     const { fetchLogs } = useAuditStore();
+    const { addNotification } = useNotificationStore();
     const { selectedGroup, fetchGroupBans, fetchGroupMembers } = useGroupStore();
 
     // Initial Data Fetch
@@ -97,11 +109,24 @@ export const AutoModView: React.FC = () => {
         }
     }, [selectedGroup]);
     
+    const loadStrikePolicy = React.useCallback(async () => {
+        if (!selectedGroup) {
+            setStrikePolicy(null);
+            return;
+        }
+        try {
+            setStrikePolicy(await window.electron.strikes.getPolicy(selectedGroup.id));
+        } catch (e) {
+            console.error("Failed to load strike policy", e);
+        }
+    }, [selectedGroup]);
+
     React.useEffect(() => {
         loadRules();
         loadStatus();
         loadHistory();
-    }, [loadRules, loadStatus, loadHistory]);
+        loadStrikePolicy();
+    }, [loadRules, loadStatus, loadHistory, loadStrikePolicy]);
 
     React.useEffect(() => {
         // Listen for AutoMod Logs (real-time)
@@ -135,6 +160,11 @@ export const AutoModView: React.FC = () => {
         loadStatus();
     };
 
+    const toggleStrikes = async () => {
+        if (!selectedGroup || !strikePolicy) return;
+        setStrikePolicy(await window.electron.strikes.setPolicy(selectedGroup.id, { ...strikePolicy, enabled: !strikePolicy.enabled }));
+    };
+
     const toggleRule = async (type: string, config?: Record<string, unknown>) => {
         if (!selectedGroup) return;
 
@@ -171,7 +201,15 @@ export const AutoModView: React.FC = () => {
             config: JSON.stringify(config || (existing ? JSON.parse(existing.config || '{}') : initialConfig))
         };
         
-        await window.electron.automod.saveRule(newRule, selectedGroup.id);
+        try {
+            await window.electron.automod.saveRule(newRule, selectedGroup.id);
+        } catch (e) {
+            addNotification({
+                type: 'error',
+                title: 'Rule Not Saved',
+                message: e instanceof Error ? e.message : String(e)
+            });
+        }
         loadRules();
     };
 
@@ -189,6 +227,59 @@ export const AutoModView: React.FC = () => {
     const blacklistConfig = blacklistRule ? JSON.parse(blacklistRule.config || '{}') : { groupIds: [], groups: [] };
     const isBlacklistConfigured = (blacklistConfig.groupIds && blacklistConfig.groupIds.length > 0);
 
+    const compositeRules = rules.filter(r => r.type === 'COMPOSITE');
+
+    const saveCompositeRule = async (rule: AutoModRule) => {
+        if (!selectedGroup) return;
+        try {
+            await window.electron.automod.saveRule(rule, selectedGroup.id);
+        } catch (e) {
+            addNotification({
+                type: 'error',
+                title: 'Rule Not Saved',
+                message: e instanceof Error ? e.message : String(e)
+            });
+        }
+        loadRules();
+    };
+
+    const deleteCompositeRule = async (ruleId: number) => {
+        if (!selectedGroup) return;
+        await window.electron.automod.deleteRule(ruleId, selectedGroup.id);
+        loadRules();
+    };
+
+    // Replaces (or adds) the draft rule in the current rule set and replays stored users against it
+    const startBacktest = (draft: AutoModRule) => {
+        const exists = draft.id !== 0 && rules.some(r => r.id === draft.id);
+        const draftRules = exists
+            ? rules.map(r => r.id === draft.id ? draft : r)
+            : [...rules, { ...draft, id: -1 }];
+        setBacktestRules(draftRules);
+    };
+
+    const backtestKeywordConfig = (draftConfig: Record<string, unknown>) => {
+        startBacktest({
+            id: keywordRule?.id || 0,
+            name: keywordRule?.name || 'Keyword Text Filter',
+            type: 'KEYWORD_BLOCK',
+            enabled: true,
+            actionType: keywordRule?.actionType || 'REJECT',
+            config: JSON.stringify(draftConfig),
+            shadow: keywordRule?.shadow,
+            whitelistedUserIds: keywordRule?.whitelistedUserIds,
+            whitelistedGroupIds: keywordRule?.whitelistedGroupIds
+        });
+    };
+
+    const toggleShadow = async (rule: AutoModRule | undefined) => {
+        if (!selectedGroup || !rule) return;
+        await window.electron.automod.saveRule({ ...rule, shadow: !rule.shadow }, selectedGroup.id);
+        loadRules();
+    };
+
+    const ruleStatusLabel = (rule: AutoModRule | undefined) => !rule?.enabled ? 'OFF' : rule.shadow ? 'SHADOW' : 'ON';
+
     const handleScanGroup = async () => {
         if (!selectedGroup) return;
         setShowScanResults(true);
@@ -198,6 +289,28 @@ export const AutoModView: React.FC = () => {
     // Derived Vars
     const activeRulesCount = rules.filter(r => r.enabled).length;
 
+    const handleOpenCase = async (log: LogEntry) => {
+        if (!selectedGroup) return;
+        try {
+            const opened = await window.electron.cases.open({
+                groupId: selectedGroup.id,
+                target: { userId: log.userId, displayName: log.user },
+                source: { type: log.action === 'WATCHLIST_HIT' ? 'WATCHLIST' : 'AUTOMOD', refId: log.id, summary: `${log.action}: ${log.reason}` }
+            });
+            addNotification({
+                type: 'success',
+                title: 'Case Opened',
+                message: `Case #${opened.number} now tracks ${log.user}`
+            });
+        } catch (e) {
+            addNotification({
+                type: 'error',
+                title: 'Case Not Opened',
+                message: e instanceof Error ? e.message : String(e)
+            });
+        }
+    };
+
     return (
         <>
             <motion.div 
@@ -247,6 +360,7 @@ export const AutoModView: React.FC = () => {
                          <InterceptionLog 
                             logs={interceptionLog} 
                             onSelectEntry={setSelectedLogEntry} 
+                            onOpenCase={handleOpenCase}
                         />
                     </GlassPanel>
 
@@ -278,6 +392,18 @@ export const AutoModView: React.FC = () => {
                                     icon={<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M18 6L6 18M6 6l12 12"></path></svg>}
                                 />
 
+                                <RuleCard
+                                    title="Strike Escalation"
+                                    description="Ban or alert when repeated offences reach a threshold"
+                                    statusLabel={strikePolicy?.enabled ? 'ON' : 'OFF'}
+                                    isEnabled={!!strikePolicy?.enabled}
+                                    onToggle={toggleStrikes}
+                                    color="#f59e0b"
+                                    actionLabel="Configure"
+                                    onAction={() => setShowStrikePolicy(true)}
+                                    icon={<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M12 9v4M12 17h.01"></path><path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"></path></svg>}
+                                />
+
                                 {/* Scan Controls Integration */}
                                 <div style={{ marginTop: '0.5rem', paddingTop: '1rem', borderTop: '1px solid rgba(255,255,255,0.05)', display: 'flex', gap: '0.5rem' }}>
                                     {scanLoading ? (
@@ -332,6 +458,18 @@ export const AutoModView: React.FC = () => {
                         <GlassPanel style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '0.75rem', padding: '1rem', overflowY: 'auto' }}>
                             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                                 <h3 style={{ margin: 0, fontSize: '1.1rem', fontWeight: 600 }}>Active Rules</h3>
+                                <div style={{ display: 'flex', gap: '4px' }}>
+                                <NeonButton
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setShowShadowReport(true)}
+                                    disabled={!selectedGroup}
+                                    style={{ padding: '4px 8px', fontSize: '0.75rem', gap: '4px', height: 'auto' }}
+                                    title="Compare shadow rule verdicts with live verdicts"
+                                >
+                                    <Eye size={14} />
+                                    Shadow
+                                </NeonButton>
                                 <NeonButton 
                                     variant="ghost" 
                                     size="sm" 
@@ -342,15 +480,18 @@ export const AutoModView: React.FC = () => {
                                     <ShieldCheck size={14} />
                                     Whitelist
                                 </NeonButton>
+                                </div>
                             </div>
 
                             <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
                                 {/* Age Verification Rule Card */}
                                 <RuleCard
                                     title="18+ Age Firewall"
-                                    statusLabel={isAgeEnabled ? 'ON' : 'OFF'}
+                                    statusLabel={ruleStatusLabel(ageRule)}
                                     isEnabled={!!isAgeEnabled}
                                     onToggle={() => toggleRule('AGE_VERIFICATION')}
+                                    isShadow={ageRule?.shadow}
+                                    onToggleShadow={() => toggleShadow(ageRule)}
                                     color="var(--color-success)"
                                     icon={<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path></svg>}
                                 />
@@ -358,9 +499,11 @@ export const AutoModView: React.FC = () => {
                                 {/* Keyword Filter Rule Card */}
                                 <RuleCard
                                     title="Keyword Filter"
-                                    statusLabel={isKeywordEnabled ? 'ON' : 'OFF'}
+                                    statusLabel={ruleStatusLabel(keywordRule)}
                                     isEnabled={!!isKeywordEnabled}
                                     onToggle={() => toggleRule('KEYWORD_BLOCK')}
+                                    isShadow={keywordRule?.shadow}
+                                    onToggleShadow={() => toggleShadow(keywordRule)}
                                     color="var(--color-danger)"
                                     icon={<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"></path></svg>}
                                     actionLabel={isKeywordConfigured ? 'Configure' : 'Setup'}
@@ -370,14 +513,51 @@ export const AutoModView: React.FC = () => {
                                 {/* Blacklisted Groups Rule Card */}
                                 <RuleCard
                                     title="Blacklisted Groups"
-                                    statusLabel={isBlacklistEnabled ? 'ON' : 'OFF'}
+                                    statusLabel={ruleStatusLabel(blacklistRule)}
                                     isEnabled={!!isBlacklistEnabled}
                                     onToggle={() => toggleRule('BLACKLISTED_GROUPS')}
+                                    isShadow={blacklistRule?.shadow}
+                                    onToggleShadow={() => toggleShadow(blacklistRule)}
                                     color="#f97316"
                                     icon={<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"></path><circle cx="9" cy="7" r="4"></circle><line x1="23" y1="1" x2="17" y2="7"></line><line x1="17" y1="1" x2="23" y2="7"></line></svg>}
                                     actionLabel={isBlacklistConfigured ? 'Configure' : 'Setup'}
                                     onAction={() => setShowBlacklistedGroupsConfig(true)}
                                 />
+
+                                {/* Custom (composite) rules */}
+                                {compositeRules.map(rule => (
+                                    <RuleCard
+                                        key={rule.id}
+                                        title={rule.name}
+                                        statusLabel={ruleStatusLabel(rule)}
+                                        isEnabled={rule.enabled}
+                                        onToggle={() => saveCompositeRule({ ...rule, enabled: !rule.enabled })}
+                                        isShadow={rule.shadow}
+                                        onToggleShadow={() => toggleShadow(rule)}
+                                        color="#a855f7"
+                                        icon={<GitBranch size={18} />}
+                                        actionLabel="Configure"
+                                        onAction={() => {
+                                            setEditingCompositeRule(rule);
+                                            setShowCompositeModal(true);
+                                        }}
+                                    />
+                                ))}
+
+                                <NeonButton
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => {
+                                        setEditingCompositeRule(null);
+                                        setShowCompositeModal(true);
+                                    }}
+                                    disabled={!selectedGroup}
+                                    style={{ padding: '6px 8px', fontSize: '0.75rem', gap: '4px', height: 'auto', justifyContent: 'center' }}
+                                    title="Combine conditions with AND / OR / NOT"
+                                >
+                                    <Plus size={14} />
+                                    Custom Rule
+                                </NeonButton>
                             </div>
                         </GlassPanel>
                     </div>
@@ -390,6 +570,7 @@ export const AutoModView: React.FC = () => {
                 onClose={() => setShowKeywordConfig(false)}
                 config={keywordConfig} 
                 onSave={(newConfig: Record<string, unknown>) => toggleRule('KEYWORD_BLOCK', newConfig)}
+                onBacktest={backtestKeywordConfig}
             />
 
             <BlacklistedGroupsConfigModal
@@ -399,6 +580,35 @@ export const AutoModView: React.FC = () => {
                 onUpdate={(newConfig) => toggleRule('BLACKLISTED_GROUPS', newConfig as unknown as Record<string, unknown>)}
             />
 
+            <CompositeRuleModal
+                isOpen={showCompositeModal}
+                onClose={() => setShowCompositeModal(false)}
+                rule={editingCompositeRule}
+                onSave={saveCompositeRule}
+                onDelete={deleteCompositeRule}
+                onBacktest={startBacktest}
+            />
+
+            <BacktestResultsDialog
+                isOpen={backtestRules !== null}
+                onClose={() => setBacktestRules(null)}
+                groupId={selectedGroup?.id ?? null}
+                draftRules={backtestRules}
+            />
+
+            <StrikePolicyModal
+                isOpen={showStrikePolicy}
+                onClose={() => setShowStrikePolicy(false)}
+                groupId={selectedGroup?.id ?? null}
+                onSaved={setStrikePolicy}
+            />
+
+            <ShadowReportDialog
+                isOpen={showShadowReport}
+                onClose={() => setShowShadowReport(false)}
+                groupId={selectedGroup?.id ?? null}
+            />
+
             <UserActionModal
                 isOpen={selectedLogEntry !== null}
                 onClose={() => setSelectedLogEntry(null)}
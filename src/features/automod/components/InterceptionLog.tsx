@@ -1,5 +1,6 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { Briefcase } from 'lucide-react';
 
 import { useUserProfileStore } from '../../../stores/userProfileStore';
 
@@ -14,12 +15,25 @@ export interface LogEntry {
     [key: string]: unknown;
 }
 
+// Live events carry matchedConditions directly, stored AutoModLog rows keep them in the details JSON
+const getMatchedConditions = (log: LogEntry): string[] => {
+    if (Array.isArray(log.matchedConditions)) return log.matchedConditions as string[];
+    if (typeof log.details === 'string') {
+        try {
+            const details = JSON.parse(log.details);
+            if (Array.isArray(details?.matchedConditions)) return details.matchedConditions;
+        } catch { /* Not JSON */ }
+    }
+    return [];
+};
+
 interface InterceptionLogProps {
     logs: LogEntry[];
     onSelectEntry: (entry: LogEntry) => void;
+    onOpenCase?: (entry: LogEntry) => void;
 }
 
-export const InterceptionLog: React.FC<InterceptionLogProps> = ({ logs }) => {
+export const InterceptionLog: React.FC<InterceptionLogProps> = ({ logs, onOpenCase }) => {
     const { openProfile } = useUserProfileStore();
 
     return (
@@ -35,7 +49,9 @@ export const InterceptionLog: React.FC<InterceptionLogProps> = ({ logs }) => {
                 {logs.length > 0 ? (
                     <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
                         <AnimatePresence initial={false}>
-                            {logs.map(log => (
+                            {logs.map(log => {
+                                const matchedConditions = getMatchedConditions(log);
+                                return (
                                 <motion.div
                                     key={log.id}
                                     initial={{ opacity: 0, x: -10 }}
@@ -54,7 +70,7 @@ export const InterceptionLog: React.FC<InterceptionLogProps> = ({ logs }) => {
                                     whileHover={{ backgroundColor: 'rgba(255,255,255,0.06)' }}
                                 >
                                     <div style={{ fontSize: '1.2rem' }}>
-                                        {log.action === 'BLOCKED' ? '🚫' : '⚠️'}
+                                        {log.action === 'BLOCKED' ? '🚫' : log.action.startsWith('SHADOW_') ? '👁️' : '⚠️'}
                                     </div>
                                     <div style={{ flex: 1 }}>
                                         <div style={{ display: 'flex', justifyContent: 'space-between' }}>
@@ -73,13 +89,44 @@ export const InterceptionLog: React.FC<InterceptionLogProps> = ({ logs }) => {
                                             }}>
                                                 {log.action}
                                             </span>
-                                            <span style={{ fontSize: '0.85rem', color: 'var(--color-text-dim)' }}>
-                                                {log.reason}
-                                            </span>
+                                            {matchedConditions.length === 0 && (
+                                                <span style={{ fontSize: '0.85rem', color: 'var(--color-text-dim)' }}>
+                                                    {log.reason}
+                                                </span>
+                                            )}
                                         </div>
+                                        {matchedConditions.length > 0 && (
+                                            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '4px' }}>
+                                                {matchedConditions.map((condition, i) => (
+                                                    <span key={i} style={{
+                                                        fontSize: '0.7rem',
+                                                        padding: '1px 6px',
+                                                        borderRadius: '4px',
+                                                        background: 'rgba(168, 85, 247, 0.15)',
+                                                        border: '1px solid rgba(168, 85, 247, 0.3)',
+                                                        color: '#d8b4fe'
+                                                    }}>
+                                                        {condition}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        )}
                                     </div>
+                                    {onOpenCase && (
+                                        <button
+                                            title="Open case"
+                                            onClick={e => {
+                                                e.stopPropagation();
+                                                onOpenCase(log);
+                                            }}
+                                            style={{ background: 'none', border: 'none', color: 'var(--color-text-dim)', cursor: 'pointer', padding: '4px' }}
+                                        >
+                                            <Briefcase size={16} />
+                                        </button>
+                                    )}
                                 </motion.div>
-                            ))}
+                                );
+                            })}
                         </AnimatePresence>
                     </div>
                 ) : (
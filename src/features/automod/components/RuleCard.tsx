@@ -1,5 +1,6 @@
 import React, { memo, useMemo, useCallback } from 'react';
 import { motion } from 'framer-motion';
+import { Eye } from 'lucide-react';
 
 interface RuleCardProps {
     title: string;
@@ -11,6 +12,8 @@ interface RuleCardProps {
     actionLabel?: string;
     onAction?: (e: React.MouseEvent) => void;
     description?: string;
+    isShadow?: boolean;
+    onToggleShadow?: () => void;
 }
 
 // PERF FIX: Memoized to prevent re-renders in rule lists
@@ -23,7 +26,9 @@ export const RuleCard: React.FC<RuleCardProps> = memo(({
     color,
     actionLabel,
     onAction,
-    description
+    description,
+    isShadow,
+    onToggleShadow
 }) => {
     // Memoize style objects to prevent recreation on each render
     const containerStyle = useMemo(() => ({ 
@@ -67,6 +72,11 @@ export const RuleCard: React.FC<RuleCardProps> = memo(({
         onAction?.(e);
     }, [onAction]);
 
+    const handleShadowClick = useCallback((e: React.MouseEvent) => {
+        e.stopPropagation();
+        onToggleShadow?.();
+    }, [onToggleShadow]);
+
     return (
         <motion.div 
             style={containerStyle}
@@ -92,6 +102,25 @@ export const RuleCard: React.FC<RuleCardProps> = memo(({
                 )}
             </div>
 
+            {isEnabled && onToggleShadow && (
+                <button
+                    onClick={handleShadowClick}
+                    title={isShadow ? 'Shadow mode: logging only. Click to enforce.' : 'Switch to shadow mode (log without acting)'}
+                    style={{
+                        background: isShadow ? 'rgba(168, 85, 247, 0.15)' : 'transparent',
+                        border: isShadow ? '1px solid #a855f7' : '1px solid rgba(255,255,255,0.1)',
+                        color: isShadow ? '#d8b4fe' : 'var(--color-text-dim)',
+                        borderRadius: '4px',
+                        padding: '4px 6px',
+                        cursor: 'pointer',
+                        display: 'flex',
+                        alignItems: 'center'
+                    }}
+                >
+                    <Eye size={14} />
+                </button>
+            )}
+
             {actionLabel && (
                 <div style={{ display: 'flex', gap: '5px' }}>
                     {isEnabled && onAction && (
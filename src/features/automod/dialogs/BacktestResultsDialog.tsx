@@ -0,0 +1,105 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { Modal } from '../../../components/ui/Modal';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import { useUserProfileStore } from '../../../stores/userProfileStore';
+import type { AutoModRule, BacktestChange, BacktestResult } from '../../../types/electron';
+
+interface BacktestResultsDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    groupId: string | null;
+    draftRules: AutoModRule[] | null;
+}
+
+const CHANGE_STYLES: Record<BacktestChange['change'], { label: string; color: string }> = {
+    NEWLY_REJECTED: { label: 'Newly rejected', color: 'var(--color-danger)' },
+    NEWLY_ALLOWED: { label: 'Newly allowed', color: 'var(--color-success)' },
+    RULE_CHANGED: { label: 'Different rule', color: '#f59e0b' },
+};
+
+const describeVerdict = (verdict: BacktestChange['before']) =>
+    verdict.action === 'ALLOW' ? 'ALLOW' : `${verdict.action} (${verdict.ruleName || 'Unknown Rule'})`;
+
+export const BacktestResultsDialog: React.FC<BacktestResultsDialogProps> = ({ isOpen, onClose, groupId, draftRules }) => {
+    const { openProfile } = useUserProfileStore();
+    const [result, setResult] = React.useState<BacktestResult | null>(null);
+    const [error, setError] = React.useState<string | null>(null);
+    const [loading, setLoading] = React.useState(false);
+
+    React.useEffect(() => {
+        if (!isOpen || !groupId || !draftRules) return;
+        let cancelled = false;
+        setLoading(true);
+        setResult(null);
+        setError(null);
+        window.electron.automod.backtest(groupId, draftRules)
+            .then(res => {
+                if (cancelled) return;
+                if (res.success) {
+                    setResult({ evaluated: res.evaluated || 0, profilesMissing: res.profilesMissing || 0, changes: res.changes || [] });
+                } else {
+                    setError(res.error || 'Backtest failed');
+                }
+            })
+            .catch(e => { if (!cancelled) setError(String(e)); })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [isOpen, groupId, draftRules]);
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Backtest Draft Rules"
+            width="750px"
+            footer={<NeonButton variant="ghost" size="sm" onClick={onClose}>Close</NeonButton>}
+        >
+            {loading ? (
+                <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '0.75rem', padding: '2rem', color: 'var(--color-text-dim)' }}>
+                    <Loader2 size={24} className="animate-spin" />
+                    Replaying stored users against the draft rules...
+                </div>
+            ) : error ? (
+                <div style={{ padding: '1rem', color: 'var(--color-danger)' }}>{error}</div>
+            ) : result && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                    <div style={{ fontSize: '0.85rem', color: 'var(--color-text-dim)' }}>
+                        Replayed {result.evaluated} users, {result.changes.length} would get a different verdict.
+                        {result.profilesMissing > 0 && ` ${result.profilesMissing} profiles could not be fetched and were checked by name only.`}
+                    </div>
+
+                    {result.changes.length === 0 ? (
+                        <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--color-text-dim)' }}>
+                            No verdicts change with these rules.
+                        </div>
+                    ) : (
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', maxHeight: '50vh', overflowY: 'auto' }}>
+                            {result.changes.map(change => {
+                                const style = CHANGE_STYLES[change.change];
+                                return (
+                                    <div
+                                        key={change.userId}
+                                        onClick={() => openProfile(change.userId)}
+                                        style={{ display: 'flex', flexDirection: 'column', gap: '2px', padding: '0.5rem 0.75rem', borderRadius: '6px', background: 'rgba(255,255,255,0.03)', borderLeft: `3px solid ${style.color}`, cursor: 'pointer' }}
+                                    >
+                                        <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                                            <span style={{ fontWeight: 600, color: 'white' }}>{change.displayName}</span>
+                                            <span style={{ fontSize: '0.75rem', fontWeight: 'bold', color: style.color }}>{style.label}</span>
+                                        </div>
+                                        <div style={{ fontSize: '0.75rem', color: 'var(--color-text-dim)' }}>
+                                            {describeVerdict(change.before)} → {describeVerdict(change.after)}
+                                        </div>
+                                        {change.after.reason && change.after.action !== 'ALLOW' && (
+                                            <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.6)' }}>{change.after.reason}</div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            )}
+        </Modal>
+    );
+};
@@ -0,0 +1,305 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Modal } from '../../../components/ui/Modal';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import { ChipInput } from '../components/ChipInput';
+import type { AutoModRule, KeywordField, KeywordMatchMode, RuleCondition, TrustRank } from '../../../types/electron';
+
+interface CompositeRuleModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    rule: AutoModRule | null;
+    onSave: (rule: AutoModRule) => void;
+    onDelete?: (ruleId: number) => void;
+    onBacktest?: (draftRule: AutoModRule) => void;
+}
+
+const OPERATOR_OPTIONS: { value: RuleCondition['op']; label: string }[] = [
+    { value: 'AND', label: 'All of (AND)' },
+    { value: 'OR', label: 'Any of (OR)' },
+    { value: 'NOT', label: 'Not' },
+    { value: 'TRUST_BELOW', label: 'Trust rank below' },
+    { value: 'AGE_UNVERIFIED', label: 'No 18+ age verification' },
+    { value: 'KEYWORD', label: 'Text contains keyword' },
+    { value: 'IN_GROUP', label: 'Member of group' },
+];
+
+const TRUST_OPTIONS: { value: TrustRank; label: string }[] = [
+    { value: 'basic', label: 'New User' },
+    { value: 'known', label: 'User' },
+    { value: 'trusted', label: 'Known' },
+    { value: 'veteran', label: 'Trusted' },
+];
+
+const FIELD_OPTIONS: { value: KeywordField; label: string }[] = [
+    { value: 'displayName', label: 'Display Name' },
+    { value: 'bio', label: 'Bio' },
+    { value: 'status', label: 'Status' },
+    { value: 'pronouns', label: 'Pronouns' },
+];
+
+const DEFAULT_CONDITION: RuleCondition = {
+    op: 'AND',
+    conditions: [{ op: 'TRUST_BELOW', rank: 'trusted' }, { op: 'AGE_UNVERIFIED' }]
+};
+
+const createCondition = (op: RuleCondition['op'], previous?: RuleCondition): RuleCondition => {
+    switch (op) {
+        case 'AND':
+        case 'OR':
+            // Keep children when switching between AND/OR
+            if (previous && (previous.op === 'AND' || previous.op === 'OR')) return { op, conditions: previous.conditions };
+            return { op, conditions: previous ? [previous] : [] };
+        case 'NOT':
+            if (previous?.op === 'NOT') return previous;
+            return { op, condition: previous ?? { op: 'AGE_UNVERIFIED' } };
+        case 'TRUST_BELOW':
+            return { op, rank: 'trusted' };
+        case 'AGE_UNVERIFIED':
+            return { op };
+        case 'KEYWORD':
+            return { op, keywords: [], fields: ['bio'], matchMode: 'WHOLE_WORD' };
+        case 'IN_GROUP':
+            return { op, groupIds: [] };
+    }
+};
+
+const selectStyle: React.CSSProperties = {
+    padding: '6px 10px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: '0.85rem'
+};
+
+const ConditionEditor: React.FC<{
+    condition: RuleCondition;
+    onChange: (condition: RuleCondition) => void;
+    onRemove?: () => void;
+    depth: number;
+}> = ({ condition, onChange, onRemove, depth }) => {
+    const isGroup = condition.op === 'AND' || condition.op === 'OR';
+
+    return (
+        <div style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '0.5rem',
+            padding: '0.75rem',
+            background: depth % 2 === 0 ? 'rgba(255,255,255,0.03)' : 'rgba(0,0,0,0.2)',
+            border: '1px solid rgba(255,255,255,0.08)',
+            borderRadius: '8px'
+        }}>
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                <select
+                    value={condition.op}
+                    onChange={e => onChange(createCondition(e.target.value as RuleCondition['op'], condition))}
+                    style={{ ...selectStyle, flex: 1 }}
+                >
+                    {OPERATOR_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+
+                {condition.op === 'TRUST_BELOW' && (
+                    <select
+                        value={condition.rank}
+                        onChange={e => onChange({ ...condition, rank: e.target.value as TrustRank })}
+                        style={selectStyle}
+                    >
+                        {TRUST_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                )}
+
+                {onRemove && (
+                    <button
+                        onClick={onRemove}
+                        title="Remove condition"
+                        style={{ background: 'none', border: 'none', color: 'var(--color-text-dim)', cursor: 'pointer', display: 'flex' }}
+                    >
+                        <Trash2 size={14} />
+                    </button>
+                )}
+            </div>
+
+            {condition.op === 'KEYWORD' && (
+                <>
+                    <ChipInput
+                        label="Keywords"
+                        placeholder="Add keyword..."
+                        value={condition.keywords}
+                        color="red"
+                        onChange={keywords => onChange({ ...condition, keywords })}
+                    />
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', alignItems: 'center' }}>
+                        {FIELD_OPTIONS.map(f => {
+                            const active = condition.fields.includes(f.value);
+                            return (
+                                <div
+                                    key={f.value}
+                                    onClick={() => onChange({
+                                        ...condition,
+                                        fields: active ? condition.fields.filter(x => x !== f.value) : [...condition.fields, f.value]
+                                    })}
+                                    style={{
+                                        padding: '4px 10px',
+                                        borderRadius: '6px',
+                                        fontSize: '0.75rem',
+                                        cursor: 'pointer',
+                                        background: active ? 'rgba(74, 222, 128, 0.1)' : 'rgba(255,255,255,0.05)',
+                                        border: active ? '1px solid #4ade80' : '1px solid rgba(255,255,255,0.1)',
+                                        color: active ? 'white' : 'var(--color-text-dim)'
+                                    }}
+                                >
+                                    {f.label}
+                                </div>
+                            );
+                        })}
+                        <select
+                            value={condition.matchMode || 'PARTIAL'}
+                            onChange={e => onChange({ ...condition, matchMode: e.target.value as KeywordMatchMode })}
+                            style={{ ...selectStyle, marginLeft: 'auto' }}
+                        >
+                            <option value="WHOLE_WORD">Whole word</option>
+                            <option value="PARTIAL">Partial</option>
+                            <option value="NORMALIZED">Normalized (anti-evasion)</option>
+                            <option value="REGEX">Regex</option>
+                        </select>
+                    </div>
+                </>
+            )}
+
+            {condition.op === 'IN_GROUP' && (
+                <ChipInput
+                    label="Group IDs"
+                    placeholder="grp_..."
+                    value={condition.groupIds}
+                    color="purple"
+                    onChange={groupIds => onChange({ ...condition, groupIds })}
+                />
+            )}
+
+            {condition.op === 'NOT' && (
+                <div style={{ paddingLeft: '1rem' }}>
+                    <ConditionEditor
+                        condition={condition.condition}
+                        onChange={child => onChange({ ...condition, condition: child })}
+                        depth={depth + 1}
+                    />
+                </div>
+            )}
+
+            {isGroup && (
+                <div style={{ paddingLeft: '1rem', display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                    {condition.conditions.map((child, i) => (
+                        <ConditionEditor
+                            key={i}
+                            condition={child}
+                            depth={depth + 1}
+                            onChange={updated => onChange({ ...condition, conditions: condition.conditions.map((c, j) => j === i ? updated : c) })}
+                            onRemove={() => onChange({ ...condition, conditions: condition.conditions.filter((_, j) => j !== i) })}
+                        />
+                    ))}
+                    <button
+                        onClick={() => onChange({ ...condition, conditions: [...condition.conditions, { op: 'AGE_UNVERIFIED' }] })}
+                        style={{
+                            alignSelf: 'flex-start',
+                            display: 'flex', alignItems: 'center', gap: '4px',
+                            background: 'transparent',
+                            border: '1px dashed rgba(255,255,255,0.2)',
+                            borderRadius: '4px',
+                            color: 'var(--color-text-dim)',
+                            padding: '4px 8px',
+                            fontSize: '0.75rem',
+                            cursor: 'pointer'
+                        }}
+                    >
+                        <Plus size={12} /> Add condition
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const CompositeRuleModal: React.FC<CompositeRuleModalProps> = ({ isOpen, onClose, rule, onSave, onDelete, onBacktest }) => {
+    const [name, setName] = React.useState('');
+    const [actionType, setActionType] = React.useState<AutoModRule['actionType']>('REJECT');
+    const [condition, setCondition] = React.useState<RuleCondition>(DEFAULT_CONDITION);
+
+    React.useEffect(() => {
+        if (!isOpen) return;
+        setName(rule?.name || '');
+        setActionType(rule?.actionType || 'REJECT');
+        let parsed: RuleCondition = DEFAULT_CONDITION;
+        try {
+            parsed = JSON.parse(rule?.config || '{}').condition || DEFAULT_CONDITION;
+        } catch { /* Fall back to default */ }
+        setCondition(parsed);
+    }, [isOpen, rule]);
+
+    const buildRule = (): AutoModRule => ({
+        id: rule?.id || 0,
+        name: name.trim() || 'Custom Rule',
+        type: 'COMPOSITE',
+        enabled: rule ? rule.enabled : true,
+        actionType,
+        config: JSON.stringify({ condition }),
+        shadow: rule?.shadow,
+        whitelistedUserIds: rule?.whitelistedUserIds,
+        whitelistedGroupIds: rule?.whitelistedGroupIds
+    });
+
+    const handleSave = () => {
+        onSave(buildRule());
+        onClose();
+    };
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title={rule ? 'Edit Custom Rule' : 'New Custom Rule'}
+            width="700px"
+            footer={
+                <>
+                    {rule && onDelete && (
+                        <NeonButton variant="danger" size="sm" onClick={() => { onDelete(rule.id); onClose(); }} style={{ marginRight: 'auto' }}>
+                            Delete
+                        </NeonButton>
+                    )}
+                    <NeonButton variant="ghost" size="sm" onClick={onClose}>Cancel</NeonButton>
+                    {onBacktest && (
+                        <NeonButton variant="secondary" size="sm" onClick={() => onBacktest({ ...buildRule(), enabled: true })}>Backtest</NeonButton>
+                    )}
+                    <NeonButton variant="primary" size="sm" onClick={handleSave}>Save Rule</NeonButton>
+                </>
+            }
+        >
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                        placeholder="Rule name"
+                        style={{ ...selectStyle, flex: 1, fontSize: '0.9rem' }}
+                    />
+                    <select
+                        value={actionType}
+                        onChange={e => setActionType(e.target.value as AutoModRule['actionType'])}
+                        style={selectStyle}
+                    >
+                        <option value="REJECT">Reject</option>
+                        <option value="AUTO_BLOCK">Block</option>
+                        <option value="NOTIFY_ONLY">Notify only</option>
+                    </select>
+                </div>
+
+                <div style={{ fontSize: '0.75rem', fontWeight: 'bold', color: 'var(--color-text-dim)', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+                    Trigger when
+                </div>
+                <ConditionEditor condition={condition} onChange={setCondition} depth={0} />
+            </div>
+        </Modal>
+    );
+};
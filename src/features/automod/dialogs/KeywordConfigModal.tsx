@@ -3,6 +3,23 @@ import { createPortal } from 'react-dom';
 import { AnimatePresence, motion } from 'framer-motion';
 import { GlassPanel } from '../../../components/ui/GlassPanel';
 import { ChipInput } from '../components/ChipInput';
+import type { KeywordMatchMode } from '../../../types/electron';
+
+// Extra strategies rendered as compact cards below Strict / Loose
+const ADVANCED_MODES: { mode: KeywordMatchMode; title: string; description: string; example: [string, string] }[] = [
+    {
+        mode: 'NORMALIZED',
+        title: 'Normalized (Anti-Evasion)',
+        description: 'Folds homoglyphs, zero-width characters, leetspeak and repeated letters, then matches whole words only.',
+        example: ['"h4aate" / "ｈａｔｅ"', 'matches "hate"']
+    },
+    {
+        mode: 'REGEX',
+        title: 'Regular Expression',
+        description: 'Each keyword is a case-insensitive regex pattern.',
+        example: ['^free\\s*robux', 'matches "FREE robux"']
+    }
+];
 
 interface KeywordConfigModalProps {
     isOpen: boolean;
@@ -11,9 +28,11 @@ interface KeywordConfigModalProps {
     config: any;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     onSave: (newConfig: any) => void;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    onBacktest?: (draftConfig: any) => void;
 }
 
-export const KeywordConfigModal: React.FC<KeywordConfigModalProps> = ({ isOpen, onClose, config, onSave }) => {
+export const KeywordConfigModal: React.FC<KeywordConfigModalProps> = ({ isOpen, onClose, config, onSave, onBacktest }) => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const [internalConfig, setInternalConfig] = React.useState<any>(config);
 
@@ -23,7 +42,25 @@ export const KeywordConfigModal: React.FC<KeywordConfigModalProps> = ({ isOpen,
         }
     }, [isOpen, config]);
 
+    const [patternErrors, setPatternErrors] = React.useState<{ keyword: string; error: string }[]>([]);
+    const matchMode: KeywordMatchMode = internalConfig.matchMode || 'WHOLE_WORD';
+    const isStrict = matchMode === 'WHOLE_WORD';
+
+    // Validate on the backend so the errors match what save-rule will reject
+    React.useEffect(() => {
+        if (!isOpen || matchMode !== 'REGEX') {
+            setPatternErrors([]);
+            return;
+        }
+        let cancelled = false;
+        window.electron.automod.validateKeywords(internalConfig.keywords || [], matchMode)
+            .then(errors => { if (!cancelled) setPatternErrors(errors); })
+            .catch(() => { /* Save will report it */ });
+        return () => { cancelled = true; };
+    }, [isOpen, internalConfig.keywords, matchMode]);
+
     const handleSave = () => {
+        if (patternErrors.length > 0) return;
         onSave(internalConfig);
         onClose();
     };
@@ -118,6 +155,13 @@ export const KeywordConfigModal: React.FC<KeywordConfigModalProps> = ({ isOpen,
                                             <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)', marginTop: '-8px', paddingLeft: '4px' }}>
                                                 <span style={{ color: '#fca5a5' }}>Pro Tip:</span> To block an acronym (like "D.I.D") without banning the word "did", enter it with periods: <strong>d.i.d</strong>
                                             </div>
+                                            {patternErrors.length > 0 && (
+                                                <div style={{ marginTop: '8px', padding: '8px', borderRadius: '6px', background: 'rgba(239, 68, 68, 0.1)', border: '1px solid rgba(239, 68, 68, 0.3)', fontSize: '0.75rem', color: '#fca5a5', display: 'flex', flexDirection: 'column', gap: '2px' }}>
+                                                    {patternErrors.map(e => (
+                                                        <div key={e.keyword}><strong>{e.keyword}</strong>: {e.error}</div>
+                                                    ))}
+                                                </div>
+                                            )}
                                         </div>
 
                                         <ChipInput 
@@ -200,17 +244,17 @@ export const KeywordConfigModal: React.FC<KeywordConfigModalProps> = ({ isOpen,
                                                     style={{ 
                                                         padding: '1rem', 
                                                         borderRadius: '8px', 
-                                                        background: internalConfig.matchMode !== 'PARTIAL' ? 'rgba(74, 222, 128, 0.1)' : 'rgba(255,255,255,0.02)',
-                                                        border: internalConfig.matchMode !== 'PARTIAL' ? '1px solid #4ade80' : '1px solid rgba(255,255,255,0.05)',
+                                                        background: isStrict ? 'rgba(74, 222, 128, 0.1)' : 'rgba(255,255,255,0.02)',
+                                                        border: isStrict ? '1px solid #4ade80' : '1px solid rgba(255,255,255,0.05)',
                                                         cursor: 'pointer',
                                                         transition: 'all 0.2s',
-                                                        opacity: internalConfig.matchMode !== 'PARTIAL' ? 1 : 0.6,
+                                                        opacity: isStrict ? 1 : 0.6,
                                                         display: 'grid', gridTemplateColumns: 'minmax(0, 1fr) minmax(0, 1fr)', gap: '1rem', alignItems: 'center'
                                                     }}
                                                 >
                                                     <div>
-                                                        <div style={{ fontWeight: 'bold', color: internalConfig.matchMode !== 'PARTIAL' ? '#4ade80' : 'white', marginBottom: '4px', display: 'flex', alignItems: 'center', gap: '8px' }}>
-                                                            <div style={{ width: '10px', height: '10px', borderRadius: '50%', border: '2px solid currentColor', background: internalConfig.matchMode !== 'PARTIAL' ? 'currentColor' : 'transparent' }}></div>
+                                                        <div style={{ fontWeight: 'bold', color: isStrict ? '#4ade80' : 'white', marginBottom: '4px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                                                            <div style={{ width: '10px', height: '10px', borderRadius: '50%', border: '2px solid currentColor', background: isStrict ? 'currentColor' : 'transparent' }}></div>
                                                             Strict (Whole Word)
                                                         </div>
                                                         <div style={{ fontSize: '0.75rem', color: 'var(--color-text-dim)' }}>
@@ -236,17 +280,17 @@ export const KeywordConfigModal: React.FC<KeywordConfigModalProps> = ({ isOpen,
                                                     style={{ 
                                                         padding: '1rem', 
                                                         borderRadius: '8px', 
-                                                        background: internalConfig.matchMode === 'PARTIAL' ? 'rgba(239, 68, 68, 0.1)' : 'rgba(255,255,255,0.02)',
-                                                        border: internalConfig.matchMode === 'PARTIAL' ? '1px solid #ef4444' : '1px solid rgba(255,255,255,0.05)',
+                                                        background: matchMode === 'PARTIAL' ? 'rgba(239, 68, 68, 0.1)' : 'rgba(255,255,255,0.02)',
+                                                        border: matchMode === 'PARTIAL' ? '1px solid #ef4444' : '1px solid rgba(255,255,255,0.05)',
                                                         cursor: 'pointer',
                                                         transition: 'all 0.2s',
-                                                        opacity: internalConfig.matchMode === 'PARTIAL' ? 1 : 0.6,
+                                                        opacity: matchMode === 'PARTIAL' ? 1 : 0.6,
                                                         display: 'grid', gridTemplateColumns: 'minmax(0, 1fr) minmax(0, 1fr)', gap: '1rem', alignItems: 'center'
                                                     }}
                                                 >
                                                     <div>
-                                                        <div style={{ fontWeight: 'bold', color: internalConfig.matchMode === 'PARTIAL' ? '#f87171' : 'white', marginBottom: '4px', display: 'flex', alignItems: 'center', gap: '8px' }}>
-                                                            <div style={{ width: '10px', height: '10px', borderRadius: '50%', border: '2px solid currentColor', background: internalConfig.matchMode === 'PARTIAL' ? 'currentColor' : 'transparent' }}></div>
+                                                        <div style={{ fontWeight: 'bold', color: matchMode === 'PARTIAL' ? '#f87171' : 'white', marginBottom: '4px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                                                            <div style={{ width: '10px', height: '10px', borderRadius: '50%', border: '2px solid currentColor', background: matchMode === 'PARTIAL' ? 'currentColor' : 'transparent' }}></div>
                                                             Loose (Partial)
                                                         </div>
                                                         <div style={{ fontSize: '0.75rem', color: 'var(--color-text-dim)' }}>
@@ -265,16 +309,68 @@ export const KeywordConfigModal: React.FC<KeywordConfigModalProps> = ({ isOpen,
                                                         </div>
                                                     </div>
                                                 </div>
+
+                                                {ADVANCED_MODES.map(opt => {
+                                                    const active = matchMode === opt.mode;
+                                                    return (
+                                                        <div
+                                                            key={opt.mode}
+                                                            onClick={() => setInternalConfig({ ...internalConfig, matchMode: opt.mode })}
+                                                            style={{
+                                                                padding: '0.75rem 1rem',
+                                                                borderRadius: '8px',
+                                                                background: active ? 'rgba(168, 85, 247, 0.1)' : 'rgba(255,255,255,0.02)',
+                                                                border: active ? '1px solid #a855f7' : '1px solid rgba(255,255,255,0.05)',
+                                                                cursor: 'pointer',
+                                                                transition: 'all 0.2s',
+                                                                opacity: active ? 1 : 0.6
+                                                            }}
+                                                        >
+                                                            <div style={{ fontWeight: 'bold', color: active ? '#d8b4fe' : 'white', marginBottom: '4px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                                                                <div style={{ width: '10px', height: '10px', borderRadius: '50%', border: '2px solid currentColor', background: active ? 'currentColor' : 'transparent' }}></div>
+                                                                {opt.title}
+                                                            </div>
+                                                            <div style={{ fontSize: '0.75rem', color: 'var(--color-text-dim)' }}>
+                                                                {opt.description}
+                                                            </div>
+                                                            <div style={{ fontSize: '0.7rem', marginTop: '6px', display: 'flex', justifyContent: 'space-between', background: 'rgba(0,0,0,0.3)', padding: '6px 8px', borderRadius: '6px' }}>
+                                                                <code style={{ color: '#d4d4d4' }}>{opt.example[0]}</code>
+                                                                <span style={{ color: '#f87171', fontWeight: 'bold' }}>{opt.example[1]}</span>
+                                                            </div>
+                                                        </div>
+                                                    );
+                                                })}
                                             </div>
                                         </div>
                                     </div>
                                 </div>
 
                                 {/* Sticky Footer */}
-                                <div style={{ padding: '1rem 1.5rem', borderTop: '1px solid rgba(255,255,255,0.05)', display: 'flex', justifyContent: 'flex-end', background: 'rgba(0,0,0,0.2)', flexShrink: 0 }}>
+                                <div style={{ padding: '1rem 1.5rem', borderTop: '1px solid rgba(255,255,255,0.05)', display: 'flex', justifyContent: 'flex-end', gap: '0.75rem', background: 'rgba(0,0,0,0.2)', flexShrink: 0 }}>
+                                    {onBacktest && (
+                                        <button
+                                            onClick={() => onBacktest(internalConfig)}
+                                            title="Replay stored users against these settings before saving"
+                                            style={{
+                                                padding: '10px 24px',
+                                                background: 'transparent',
+                                                color: '#f87171',
+                                                border: '1px solid rgba(248, 113, 113, 0.5)',
+                                                borderRadius: '6px',
+                                                fontWeight: 'bold',
+                                                cursor: 'pointer',
+                                                fontSize: '0.9rem'
+                                            }}
+                                        >
+                                            Backtest
+                                        </button>
+                                    )}
                                     <button 
                                         onClick={handleSave}
+                                        disabled={patternErrors.length > 0}
+                                        title={patternErrors.length > 0 ? 'Fix the invalid patterns first' : undefined}
                                         style={{ 
+                                            opacity: patternErrors.length > 0 ? 0.5 : 1,
                                             padding: '10px 24px', 
                                             background: '#f87171', 
                                             color: 'black', 
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { Modal } from '../../../components/ui/Modal';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import { useUserProfileStore } from '../../../stores/userProfileStore';
+import type { ShadowReport, ShadowReportUser } from '../../../types/electron';
+
+interface ShadowReportDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    groupId: string | null;
+}
+
+const WINDOW_OPTIONS = [
+    { hours: 24, label: 'Last 24 hours' },
+    { hours: 24 * 7, label: 'Last 7 days' },
+    { hours: 24 * 30, label: 'Last 30 days' },
+];
+
+const Stat: React.FC<{ label: string; value: number; color: string }> = ({ label, value, color }) => (
+    <div style={{ flex: 1, padding: '0.5rem', background: 'rgba(0,0,0,0.2)', borderRadius: '6px', textAlign: 'center' }}>
+        <div style={{ fontSize: '1.2rem', fontWeight: 700, color }}>{value}</div>
+        <div style={{ fontSize: '0.7rem', color: 'var(--color-text-dim)', textTransform: 'uppercase' }}>{label}</div>
+    </div>
+);
+
+const UserList: React.FC<{ title: string; users: ShadowReportUser[]; color: string }> = ({ title, users, color }) => {
+    const { openProfile } = useUserProfileStore();
+    if (users.length === 0) return null;
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            <div style={{ fontSize: '0.75rem', fontWeight: 'bold', color }}>{title}</div>
+            {users.map(u => (
+                <div
+                    key={`${u.userId}-${u.timestamp}`}
+                    onClick={() => openProfile(u.userId)}
+                    style={{ display: 'flex', gap: '0.5rem', fontSize: '0.8rem', padding: '4px 8px', borderRadius: '4px', background: 'rgba(255,255,255,0.03)', cursor: 'pointer' }}
+                >
+                    <span style={{ fontWeight: 600, color: 'white' }}>{u.displayName}</span>
+                    <span style={{ flex: 1, color: 'var(--color-text-dim)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{u.reason}</span>
+                    <span style={{ color: 'var(--color-text-dim)' }}>{new Date(u.timestamp).toLocaleString()}</span>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export const ShadowReportDialog: React.FC<ShadowReportDialogProps> = ({ isOpen, onClose, groupId }) => {
+    const [windowHours, setWindowHours] = React.useState(24 * 7);
+    const [report, setReport] = React.useState<ShadowReport | null>(null);
+    const [loading, setLoading] = React.useState(false);
+
+    React.useEffect(() => {
+        if (!isOpen || !groupId) return;
+        let cancelled = false;
+        setLoading(true);
+        window.electron.automod.getShadowReport(groupId, windowHours)
+            .then(result => { if (!cancelled) setReport(result); })
+            .catch(e => console.error('Failed to load shadow report', e))
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [isOpen, groupId, windowHours]);
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Shadow Rule Report"
+            width="750px"
+            footer={<NeonButton variant="ghost" size="sm" onClick={onClose}>Close</NeonButton>}
+        >
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <span style={{ fontSize: '0.85rem', color: 'var(--color-text-dim)' }}>
+                        What shadow rules would have done, compared to the live verdict.
+                    </span>
+                    <select
+                        value={windowHours}
+                        onChange={e => setWindowHours(Number(e.target.value))}
+                        style={{ padding: '6px 10px', background: 'rgba(0,0,0,0.3)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '4px', color: 'white' }}
+                    >
+                        {WINDOW_OPTIONS.map(o => <option key={o.hours} value={o.hours}>{o.label}</option>)}
+                    </select>
+                </div>
+
+                {loading && !report ? (
+                    <div style={{ display: 'flex', justifyContent: 'center', padding: '2rem' }}>
+                        <Loader2 size={24} className="animate-spin" />
+                    </div>
+                ) : !report || report.rules.length === 0 ? (
+                    <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--color-text-dim)' }}>
+                        No rules are in shadow mode. Use the eye toggle on a rule to start a dry run.
+                    </div>
+                ) : (
+                    report.rules.map(rule => (
+                        <div key={rule.ruleId} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', padding: '0.75rem', border: '1px solid rgba(255,255,255,0.08)', borderRadius: '8px' }}>
+                            <div style={{ fontWeight: 600 }}>{rule.ruleName}</div>
+                            <div style={{ display: 'flex', gap: '0.5rem' }}>
+                                <Stat label="Would act" value={rule.shadowHits} color="#d8b4fe" />
+                                <Stat label="Agrees with live" value={rule.agreed} color="var(--color-success)" />
+                                <Stat label="Shadow only" value={rule.shadowOnly.length} color="#f59e0b" />
+                                <Stat label="Live only" value={rule.liveOnly.length} color="var(--color-danger)" />
+                            </div>
+                            <UserList title="Would be newly actioned (check for false positives)" users={rule.shadowOnly} color="#f59e0b" />
+                            <UserList title="Actioned live but missed by this rule" users={rule.liveOnly} color="var(--color-danger)" />
+                        </div>
+                    ))
+                )}
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,210 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Modal } from '../../../components/ui/Modal';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import { useUserProfileStore } from '../../../stores/userProfileStore';
+import type { StrikePolicy, StrikeSource, StrikeSummary, StrikeThreshold } from '../../../types/electron';
+
+interface StrikePolicyModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    groupId: string | null;
+    onSaved?: (policy: StrikePolicy) => void;
+}
+
+const SOURCES: { id: StrikeSource; label: string }[] = [
+    { id: 'AUTOMOD', label: 'AutoMod action' },
+    { id: 'KICK', label: 'Instance kick' },
+    { id: 'VOTE_KICK', label: 'Vote kick' },
+    { id: 'FLAG', label: 'Negative flag' },
+];
+
+const inputStyle: React.CSSProperties = {
+    width: '70px',
+    padding: '4px 8px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: '0.8rem',
+};
+
+const sectionTitle: React.CSSProperties = { fontSize: '0.75rem', fontWeight: 'bold', color: 'var(--color-text-dim)', textTransform: 'uppercase' };
+
+const toNumber = (value: string) => Math.max(0, parseInt(value, 10) || 0);
+
+export const StrikePolicyModal: React.FC<StrikePolicyModalProps> = ({ isOpen, onClose, groupId, onSaved }) => {
+    const { openProfile } = useUserProfileStore();
+    const [policy, setPolicy] = React.useState<StrikePolicy | null>(null);
+    const [offenders, setOffenders] = React.useState<StrikeSummary[]>([]);
+    const [saving, setSaving] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const loadOffenders = React.useCallback(() => {
+        if (!groupId) return;
+        window.electron.strikes.getOffenders(groupId)
+            .then(setOffenders)
+            .catch(e => console.error('Failed to load strike offenders', e));
+    }, [groupId]);
+
+    React.useEffect(() => {
+        if (!isOpen || !groupId) return;
+        window.electron.strikes.getPolicy(groupId)
+            .then(setPolicy)
+            .catch(e => console.error('Failed to load strike policy', e));
+        loadOffenders();
+        return window.electron.strikes.onUpdated(data => {
+            if (data.groupId === groupId) loadOffenders();
+        });
+    }, [isOpen, groupId, loadOffenders]);
+
+    const updateThreshold = (id: string, patch: Partial<StrikeThreshold>) => {
+        if (!policy) return;
+        setPolicy({ ...policy, thresholds: policy.thresholds.map(t => t.id === id ? { ...t, ...patch } : t) });
+    };
+
+    const addThreshold = () => {
+        if (!policy) return;
+        setPolicy({
+            ...policy,
+            thresholds: [...policy.thresholds, { id: `threshold-${Date.now()}`, points: 2, windowDays: 7, action: 'NOTIFY' }]
+        });
+    };
+
+    const removeThreshold = (id: string) => {
+        if (!policy) return;
+        setPolicy({ ...policy, thresholds: policy.thresholds.filter(t => t.id !== id) });
+    };
+
+    const handleClear = async (userId: string) => {
+        if (!groupId) return;
+        await window.electron.strikes.clearUser(groupId, userId);
+        loadOffenders();
+    };
+
+    const handleSave = async () => {
+        if (!groupId || !policy) return;
+        setSaving(true);
+        setError(null);
+        try {
+            const saved = await window.electron.strikes.setPolicy(groupId, policy);
+            onSaved?.(saved);
+            onClose();
+        } catch (e) {
+            console.error('Failed to save strike policy', e);
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Strike Escalation"
+            width="650px"
+            footer={
+                <>
+                    <NeonButton variant="ghost" size="sm" onClick={onClose}>Cancel</NeonButton>
+                    <NeonButton variant="primary" size="sm" onClick={handleSave} disabled={!policy || saving}>Save</NeonButton>
+                </>
+            }
+        >
+            {policy && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.85rem', cursor: 'pointer' }}>
+                        <input type="checkbox" checked={policy.enabled} onChange={e => setPolicy({ ...policy, enabled: e.target.checked })} />
+                        Track strikes and escalate automatically
+                    </label>
+
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                        <div style={sectionTitle}>Points per action</div>
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem' }}>
+                            {SOURCES.map(source => (
+                                <div key={source.id} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontSize: '0.8rem' }}>
+                                    <span>{source.label}</span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        style={inputStyle}
+                                        value={policy.points[source.id]}
+                                        onChange={e => setPolicy({ ...policy, points: { ...policy.points, [source.id]: toNumber(e.target.value) } })}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem' }}>
+                            <span>Strikes expire after</span>
+                            <input
+                                type="number"
+                                min={0}
+                                style={inputStyle}
+                                value={policy.decayDays}
+                                onChange={e => setPolicy({ ...policy, decayDays: toNumber(e.target.value) })}
+                            />
+                            <span style={{ color: 'var(--color-text-dim)' }}>days (0 = never)</span>
+                        </div>
+                    </div>
+
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                            <div style={sectionTitle}>Thresholds</div>
+                            <NeonButton variant="ghost" size="sm" onClick={addThreshold}><Plus size={14} /> Add</NeonButton>
+                        </div>
+                        {policy.thresholds.length === 0 && (
+                            <div style={{ fontSize: '0.8rem', color: 'var(--color-text-dim)' }}>No thresholds, strikes are only recorded.</div>
+                        )}
+                        {policy.thresholds.map(threshold => (
+                            <div key={threshold.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', padding: '0.5rem', background: 'rgba(255,255,255,0.03)', borderRadius: '6px' }}>
+                                <input type="number" min={1} style={inputStyle} value={threshold.points} onChange={e => updateThreshold(threshold.id, { points: toNumber(e.target.value) })} />
+                                <span>points within</span>
+                                <input type="number" min={0} style={inputStyle} value={threshold.windowDays} title="0 = all time, fires once per user" onChange={e => updateThreshold(threshold.id, { windowDays: toNumber(e.target.value) })} />
+                                <span>days →</span>
+                                <select
+                                    style={{ ...inputStyle, width: 'auto' }}
+                                    value={threshold.action}
+                                    onChange={e => updateThreshold(threshold.id, { action: e.target.value as StrikeThreshold['action'] })}
+                                >
+                                    <option value="NOTIFY">Notify</option>
+                                    <option value="BAN">Ban</option>
+                                </select>
+                                <button
+                                    onClick={() => removeThreshold(threshold.id)}
+                                    style={{ marginLeft: 'auto', background: 'none', border: 'none', color: 'var(--color-danger)', cursor: 'pointer' }}
+                                    title="Remove threshold"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+
+                    {error && (
+                        <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                            {error}
+                        </div>
+                    )}
+
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                        <div style={sectionTitle}>Current offenders</div>
+                        {offenders.length === 0 ? (
+                            <div style={{ fontSize: '0.8rem', color: 'var(--color-text-dim)' }}>No strikes recorded for this group.</div>
+                        ) : (
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', maxHeight: '200px', overflowY: 'auto' }}>
+                                {offenders.map(o => (
+                                    <div key={o.userId} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', padding: '4px 8px', borderRadius: '4px', background: 'rgba(255,255,255,0.03)' }}>
+                                        <span onClick={() => openProfile(o.userId)} style={{ fontWeight: 600, color: 'white', cursor: 'pointer' }}>{o.displayName}</span>
+                                        <span style={{ color: 'var(--color-text-dim)' }}>{o.activePoints} pts · {o.strikeCount} strikes</span>
+                                        <span style={{ flex: 1, textAlign: 'right', color: 'var(--color-text-dim)' }}>{new Date(o.lastStrikeAt).toLocaleDateString()}</span>
+                                        <NeonButton variant="ghost" size="sm" onClick={() => handleClear(o.userId)}>Clear</NeonButton>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </Modal>
+    );
+};
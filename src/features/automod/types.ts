@@ -10,7 +10,12 @@ export type AutoModRuleType =
     | 'BLACKLISTED_GROUPS'
     | 'INSTANCE_18_GUARD'
     | 'INSTANCE_PERMISSION_GUARD'
-    | 'CLOSE_ALL_INSTANCES';
+    | 'CLOSE_ALL_INSTANCES'
+    | 'INSTANCE_SCHEDULE'
+    | 'INSTANCE_POPULATION'
+    | 'INSTANCE_CLOSE_GRACE'
+    | 'AUDIT_POLICIES'
+    | 'COMPOSITE';
 
 export interface AutoModRuleConfig {
     // For AGE_CHECK
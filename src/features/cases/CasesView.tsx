@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Plus, Search } from 'lucide-react';
+import { GlassPanel } from '../../components/ui/GlassPanel';
+import { NeonButton } from '../../components/ui/NeonButton';
+import { StatTile } from '../dashboard/components/StatTile';
+import { useGroupStore } from '../../stores/groupStore';
+import { useAuthStore } from '../../stores/authStore';
+import { CaseDetail } from './components/CaseDetail';
+import { CASE_STATUS_COLORS } from './utils/caseStatus';
+import { NewCaseDialog } from './dialogs/NewCaseDialog';
+import type { CaseSettings, CaseStatus, ModerationCase } from '../../types/electron';
+import styles from '../dashboard/DashboardView.module.css';
+
+const containerVariants = {
+    hidden: { opacity: 0 },
+    show: {
+        opacity: 1,
+        transition: {
+            staggerChildren: 0.1,
+            delayChildren: 0.2
+        }
+    }
+};
+
+type StatusFilter = 'ACTIVE' | 'MINE' | CaseStatus | 'ALL';
+
+const AUTO_OPEN_LABELS: Record<keyof CaseSettings['autoOpen'], string> = {
+    AUTOMOD: 'AutoMod violations',
+    WATCHLIST: 'Watchlist hits',
+    VOTE_KICK: 'Vote kicks'
+};
+
+export const CasesView: React.FC = () => {
+    const { selectedGroup } = useGroupStore();
+    const { user } = useAuthStore();
+    const [cases, setCases] = useState<ModerationCase[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [filter, setFilter] = useState<StatusFilter>('ACTIVE');
+    const [query, setQuery] = useState('');
+    const [settings, setSettings] = useState<CaseSettings | null>(null);
+    const [isNewOpen, setIsNewOpen] = useState(false);
+
+    const groupId = selectedGroup?.id;
+
+    useEffect(() => {
+        if (!groupId) return;
+        const load = () => window.electron.cases.list(groupId).then(setCases);
+        load();
+        window.electron.cases.getSettings(groupId).then(setSettings);
+        return window.electron.cases.onUpdated(data => {
+            if (data.groupId === groupId) load();
+        });
+    }, [groupId]);
+
+    const filtered = useMemo(() => {
+        const q = query.trim().toLowerCase();
+        return cases.filter(c => {
+            if (filter === 'ACTIVE' && c.status === 'CLOSED') return false;
+            if (filter === 'MINE' && (c.assignee?.id !== user?.id || c.status === 'CLOSED')) return false;
+            if (filter !== 'ACTIVE' && filter !== 'MINE' && filter !== 'ALL' && c.status !== filter) return false;
+            if (!q) return true;
+            return c.title.toLowerCase().includes(q) ||
+                (c.target?.displayName || '').toLowerCase().includes(q) ||
+                (c.target?.userId || '').toLowerCase().includes(q) ||
+                `#${c.number}` === q;
+        });
+    }, [cases, filter, query, user?.id]);
+
+    const selected = cases.find(c => c.id === selectedId) || null;
+    const countBy = (status: CaseStatus) => cases.filter(c => c.status === status).length;
+
+    const toggleAutoOpen = async (key: keyof CaseSettings['autoOpen']) => {
+        if (!groupId || !settings) return;
+        setSettings(await window.electron.cases.setSettings(groupId, { autoOpen: { ...settings.autoOpen, [key]: !settings.autoOpen[key] } }));
+    };
+
+    return (
+        <motion.div
+            className={styles.container}
+            variants={containerVariants}
+            initial="hidden"
+            animate="show"
+            style={{ display: 'flex', flexDirection: 'column', height: '100%', gap: '1rem', padding: '1rem', paddingBottom: 'var(--dock-height)' }}
+        >
+            <GlassPanel className={styles.headerPanel} style={{ flexShrink: 0 }}>
+                <div className={styles.titleSection}>
+                    <h1 className={`${styles.title} text-gradient`}>
+                        Cases
+                    </h1>
+                    <div className={styles.subtitle}>
+                        MODERATION TICKETS
+                    </div>
+                </div>
+
+                <div className={styles.statsGrid}>
+                    <StatTile label="OPEN" value={countBy('OPEN')} color={CASE_STATUS_COLORS.OPEN} onClick={() => setFilter('OPEN')} />
+                    <StatTile label="INVESTIGATING" value={countBy('INVESTIGATING')} color={CASE_STATUS_COLORS.INVESTIGATING} onClick={() => setFilter('INVESTIGATING')} />
+                    <StatTile
+                        label="ASSIGNED TO ME"
+                        value={cases.filter(c => c.assignee?.id === user?.id && c.status !== 'CLOSED').length}
+                        color="var(--color-accent)"
+                        onClick={() => setFilter('MINE')}
+                    />
+                </div>
+            </GlassPanel>
+
+            <div style={{ display: 'flex', gap: '1rem', flex: 1, minHeight: 0 }}>
+                <GlassPanel style={{ width: '360px', flexShrink: 0, display: 'flex', flexDirection: 'column', gap: '0.5rem', padding: '1rem', overflow: 'hidden' }}>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                        <div style={{ position: 'relative', flex: 1 }}>
+                            <Search size={14} style={{ position: 'absolute', left: '8px', top: '50%', transform: 'translateY(-50%)', color: 'var(--color-text-dim)' }} />
+                            <input
+                                value={query}
+                                onChange={e => setQuery(e.target.value)}
+                                placeholder="Search cases..."
+                                style={{ width: '100%', padding: '6px 8px 6px 28px', background: 'rgba(0,0,0,0.3)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '6px', color: 'white', fontSize: '0.8rem' }}
+                            />
+                        </div>
+                        <NeonButton size="sm" onClick={() => setIsNewOpen(true)} disabled={!groupId}>
+                            <Plus size={14} /> New
+                        </NeonButton>
+                    </div>
+
+                    <select
+                        value={filter}
+                        onChange={e => setFilter(e.target.value as StatusFilter)}
+                        style={{ padding: '6px 8px', background: 'rgba(0,0,0,0.3)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '6px', color: 'white', fontSize: '0.8rem' }}
+                    >
+                        <option value="ACTIVE">Active</option>
+                        <option value="MINE">Assigned to me</option>
+                        <option value="OPEN">Open</option>
+                        <option value="INVESTIGATING">Investigating</option>
+                        <option value="ACTIONED">Actioned</option>
+                        <option value="CLOSED">Closed</option>
+                        <option value="ALL">All</option>
+                    </select>
+
+                    <div style={{ flex: 1, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '0.4rem' }}>
+                        {filtered.length === 0 && (
+                            <div style={{ padding: '1rem', textAlign: 'center', color: 'var(--color-text-dim)', fontSize: '0.8rem' }}>No cases.</div>
+                        )}
+                        {filtered.map(c => (
+                            <button
+                                key={c.id}
+                                onClick={() => setSelectedId(c.id)}
+                                style={{
+                                    textAlign: 'left',
+                                    padding: '0.6rem 0.75rem',
+                                    background: c.id === selectedId ? 'rgba(255,255,255,0.08)' : 'rgba(255,255,255,0.03)',
+                                    border: '1px solid rgba(255,255,255,0.05)',
+                                    borderLeft: `3px solid ${CASE_STATUS_COLORS[c.status]}`,
+                                    borderRadius: '6px',
+                                    color: 'white',
+                                    cursor: 'pointer'
+                                }}
+                            >
+                                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.7rem', color: 'var(--color-text-dim)' }}>
+                                    <span>#{c.number} · {c.status}</span>
+                                    <span>{new Date(c.updatedAt).toLocaleDateString()}</span>
+                                </div>
+                                <div style={{ fontSize: '0.85rem', fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{c.title}</div>
+                                <div style={{ fontSize: '0.7rem', color: 'var(--color-text-dim)' }}>
+                                    {c.assignee ? `Assigned to ${c.assignee.displayName}` : 'Unassigned'}
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+
+                    {settings && (
+                        <div style={{ borderTop: '1px solid rgba(255,255,255,0.05)', paddingTop: '0.5rem', fontSize: '0.75rem', color: 'var(--color-text-dim)' }}>
+                            <div style={{ marginBottom: '0.25rem' }}>Open cases automatically for</div>
+                            {(Object.keys(AUTO_OPEN_LABELS) as (keyof CaseSettings['autoOpen'])[]).map(key => (
+                                <label key={key} style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', cursor: 'pointer' }}>
+                                    <input type="checkbox" checked={settings.autoOpen[key]} onChange={() => toggleAutoOpen(key)} />
+                                    {AUTO_OPEN_LABELS[key]}
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </GlassPanel>
+
+                {selected ? (
+                    <CaseDetail key={selected.id} moderationCase={selected} />
+                ) : (
+                    <GlassPanel style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'var(--color-text-dim)' }}>
+                        Select a case to see its details.
+                    </GlassPanel>
+                )}
+            </div>
+
+            {groupId && (
+                <NewCaseDialog
+                    isOpen={isNewOpen}
+                    onClose={() => setIsNewOpen(false)}
+                    groupId={groupId}
+                    onCreated={created => {
+                        setIsNewOpen(false);
+                        setSelectedId(created.id);
+                    }}
+                />
+            )}
+        </motion.div>
+    );
+};
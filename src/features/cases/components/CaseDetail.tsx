@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MessageSquare, FileText, Paperclip, UserCheck, Flag, Gavel, PlusCircle, Link2, ChevronDown, ChevronRight } from 'lucide-react';
+import { GlassPanel } from '../../../components/ui/GlassPanel';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import { ReportGeneratorDialog } from '../../reports/ReportGeneratorDialog';
+import { useAuthStore } from '../../../stores/authStore';
+import { useUserProfileStore } from '../../../stores/userProfileStore';
+import { CASE_STATUS_COLORS } from '../utils/caseStatus';
+import type { CaseActivity, CaseStatus, EvidenceItem, ModerationCase } from '../../../types/electron';
+
+interface CaseDetailProps {
+    moderationCase: ModerationCase;
+}
+
+const inputStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    background: 'rgba(0,0,0,0.4)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '6px',
+    color: 'white',
+    fontSize: '0.8rem',
+    outline: 'none',
+};
+
+const sectionLabel: React.CSSProperties = {
+    fontSize: '0.75rem',
+    fontWeight: 600,
+    color: 'var(--color-text-dim)',
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em',
+    marginBottom: '0.4rem',
+};
+
+const getActivityIcon = (type: CaseActivity['type']) => {
+    switch (type) {
+        case 'COMMENT': return <MessageSquare size={14} />;
+        case 'REPORT': return <FileText size={14} />;
+        case 'EVIDENCE': return <Paperclip size={14} />;
+        case 'ASSIGNED': return <UserCheck size={14} />;
+        case 'STATUS': return <Flag size={14} />;
+        case 'ACTION': return <Gavel size={14} />;
+        case 'OPENED': return <PlusCircle size={14} />;
+        case 'SOURCE': return <Link2 size={14} />;
+    }
+};
+
+export const CaseDetail: React.FC<CaseDetailProps> = ({ moderationCase }) => {
+    const [comment, setComment] = useState('');
+    const [staff, setStaff] = useState<{ id: string; name: string }[]>([]);
+    const [evidence, setEvidence] = useState<EvidenceItem[]>([]);
+    const [expandedReport, setExpandedReport] = useState<string | null>(null);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { user } = useAuthStore();
+    const { openProfile } = useUserProfileStore();
+
+    const { id, groupId, target } = moderationCase;
+
+    useEffect(() => {
+        window.electron.staff.getMembers(groupId).then(setStaff).catch(() => setStaff([]));
+    }, [groupId]);
+
+    useEffect(() => {
+        if (!target?.userId) return;
+        window.electron.evidence.list({ targetUserId: target.userId }).then(setEvidence).catch(() => setEvidence([]));
+    }, [target?.userId]);
+
+    const run = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleComment = () => run(async () => {
+        await window.electron.cases.comment(id, comment);
+        setComment('');
+    });
+
+    const handleAssign = (assigneeId: string) => run(() => {
+        if (!assigneeId) return window.electron.cases.assign(id, null);
+        const name = assigneeId === user?.id ? user.displayName : staff.find(s => s.id === assigneeId)?.name;
+        return window.electron.cases.assign(id, { id: assigneeId, displayName: name || assigneeId });
+    });
+
+    const handleAttachReport = (content: string, templateName: string) => run(async () => {
+        await window.electron.cases.attachReport(id, templateName, content);
+        setIsReportOpen(false);
+    });
+
+    const assigneeOptions = [
+        ...(user ? [{ id: user.id, name: `${user.displayName} (me)` }] : []),
+        ...staff.filter(s => s.id !== user?.id),
+        ...(moderationCase.assignee && moderationCase.assignee.id !== user?.id && !staff.some(s => s.id === moderationCase.assignee?.id)
+            ? [{ id: moderationCase.assignee.id, name: moderationCase.assignee.displayName }]
+            : [])
+    ];
+
+    const reportContext = useMemo(() => target && {
+        target: { displayName: target.displayName, id: target.userId || '' },
+        reason: moderationCase.title,
+        notes: moderationCase.activity.filter(a => a.type === 'COMMENT').map(a => a.text).join('\n'),
+        timestamp: new Date(moderationCase.createdAt).toISOString()
+    }, [target, moderationCase.title, moderationCase.activity, moderationCase.createdAt]);
+
+    // Evidence linked to the case that is no longer listed for the target (e.g. deleted) still shows by ID
+    const linkedMissing = moderationCase.evidenceIds.filter(e => !evidence.some(item => item.id === e));
+
+    return (
+        <GlassPanel style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '1rem', overflowY: 'auto', padding: '1rem' }}>
+            <div style={{ display: 'flex', alignItems: 'flex-start', gap: '1rem' }}>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                    <div style={{ fontSize: '0.75rem', color: 'var(--color-text-dim)' }}>Case #{moderationCase.number} · opened {new Date(moderationCase.createdAt).toLocaleString()}</div>
+                    <h2 style={{ margin: '0.2rem 0', fontSize: '1.2rem' }}>{moderationCase.title}</h2>
+                    {target && (
+                        <button
+                            onClick={() => target.userId && openProfile(target.userId)}
+                            disabled={!target.userId}
+                            style={{ background: 'none', border: 'none', padding: 0, color: 'var(--color-primary)', cursor: target.userId ? 'pointer' : 'default', fontSize: '0.85rem' }}
+                        >
+                            {target.displayName}{target.userId ? '' : ' (unresolved)'}
+                        </button>
+                    )}
+                </div>
+                <select
+                    style={{ ...inputStyle, color: CASE_STATUS_COLORS[moderationCase.status], fontWeight: 600 }}
+                    value={moderationCase.status}
+                    onChange={e => run(() => window.electron.cases.setStatus(id, e.target.value as CaseStatus))}
+                >
+                    <option value="OPEN">Open</option>
+                    <option value="INVESTIGATING">Investigating</option>
+                    <option value="ACTIONED">Actioned</option>
+                    <option value="CLOSED">Closed</option>
+                </select>
+                <select style={inputStyle} value={moderationCase.assignee?.id || ''} onChange={e => handleAssign(e.target.value)} title="Assignee">
+                    <option value="">Unassigned</option>
+                    {assigneeOptions.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                </select>
+            </div>
+
+            {error && (
+                <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                    {error}
+                </div>
+            )}
+
+            <div>
+                <div style={sectionLabel}>Sources</div>
+                {moderationCase.sources.map((source, i) => (
+                    <div key={i} style={{ fontSize: '0.8rem', color: 'white' }}>
+                        <span style={{ color: 'var(--color-text-dim)' }}>{new Date(source.timestamp).toLocaleString()} · {source.type}</span> {source.summary}
+                    </div>
+                ))}
+            </div>
+
+            <div>
+                <div style={sectionLabel}>Evidence</div>
+                {evidence.length === 0 && linkedMissing.length === 0 && (
+                    <div style={{ fontSize: '0.8rem', color: 'var(--color-text-dim)', fontStyle: 'italic' }}>
+                        {target?.userId ? 'No evidence in the locker for this user yet.' : 'Evidence can be linked once the target user is known.'}
+                    </div>
+                )}
+                {evidence.map(item => (
+                    <label key={item.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', cursor: 'pointer' }}>
+                        <input
+                            type="checkbox"
+                            checked={moderationCase.evidenceIds.includes(item.id)}
+                            onChange={e => run(() => window.electron.cases.linkEvidence(id, item.id, item.label, e.target.checked))}
+                        />
+                        <span style={{ color: 'white' }}>{item.label}</span>
+                        <span style={{ color: 'var(--color-text-dim)', marginLeft: 'auto' }}>{item.subjectType} · {new Date(item.createdAt).toLocaleDateString()}</span>
+                    </label>
+                ))}
+                {linkedMissing.map(evidenceId => (
+                    <div key={evidenceId} style={{ fontSize: '0.8rem', color: 'var(--color-text-dim)' }}>Linked item {evidenceId} is no longer in the locker</div>
+                ))}
+            </div>
+
+            <div>
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                    <div style={sectionLabel}>Reports</div>
+                    <NeonButton size="sm" variant="ghost" onClick={() => setIsReportOpen(true)} disabled={!target}>
+                        <FileText size={14} /> Generate
+                    </NeonButton>
+                </div>
+                {moderationCase.reports.length === 0 && (
+                    <div style={{ fontSize: '0.8rem', color: 'var(--color-text-dim)', fontStyle: 'italic' }}>No reports attached.</div>
+                )}
+                {moderationCase.reports.map(report => (
+                    <div key={report.id} style={{ fontSize: '0.8rem' }}>
+                        <button
+                            onClick={() => setExpandedReport(expandedReport === report.id ? null : report.id)}
+                            style={{ background: 'none', border: 'none', padding: 0, color: 'white', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '4px', fontSize: '0.8rem' }}
+                        >
+                            {expandedReport === report.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                            {report.templateName}
+                            <span style={{ color: 'var(--color-text-dim)' }}>· {new Date(report.createdAt).toLocaleString()} · {report.authorName || 'Unknown'}</span>
+                        </button>
+                        {expandedReport === report.id && (
+                            <pre style={{ whiteSpace: 'pre-wrap', fontSize: '0.75rem', color: 'var(--color-text-dim)', background: 'rgba(0,0,0,0.3)', padding: '0.5rem', borderRadius: '6px' }}>{report.content}</pre>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                <div style={sectionLabel}>Activity</div>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <textarea
+                        value={comment}
+                        onChange={e => setComment(e.target.value)}
+                        placeholder="Add a comment for the team..."
+                        style={{ ...inputStyle, flex: 1, minHeight: '48px', resize: 'vertical' }}
+                    />
+                    <NeonButton size="sm" onClick={handleComment} disabled={!comment.trim()}>Comment</NeonButton>
+                </div>
+                {[...moderationCase.activity].reverse().map(entry => (
+                    <div key={entry.id} style={{ display: 'flex', gap: '0.75rem', padding: '0.5rem 0.75rem', background: 'rgba(255,255,255,0.03)', borderRadius: '6px', fontSize: '0.8rem' }}>
+                        <div style={{ color: entry.type === 'COMMENT' ? 'var(--color-primary)' : 'var(--color-text-dim)', paddingTop: '2px' }}>
+                            {getActivityIcon(entry.type)}
+                        </div>
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                            <div style={{ color: 'white', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{entry.text}</div>
+                            <div style={{ color: 'var(--color-text-dim)', fontSize: '0.7rem', marginTop: '2px' }}>
+                                {new Date(entry.timestamp).toLocaleString()} · {entry.authorName || entry.authorId || 'System'}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {target && (
+                <ReportGeneratorDialog
+                    isOpen={isReportOpen}
+                    onClose={() => setIsReportOpen(false)}
+                    onAttach={handleAttachReport}
+                    context={reportContext}
+                />
+            )}
+        </GlassPanel>
+    );
+};
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Modal } from '../../../components/ui/Modal';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import type { ModerationCase } from '../../../types/electron';
+
+interface NewCaseDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    groupId: string;
+    onCreated: (created: ModerationCase) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 10px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '6px',
+    color: 'white',
+    fontSize: '0.85rem',
+};
+
+const emptyForm = { title: '', userId: '', displayName: '', summary: '' };
+
+export const NewCaseDialog: React.FC<NewCaseDialogProps> = ({ isOpen, onClose, groupId, onCreated }) => {
+    const [form, setForm] = useState(emptyForm);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleCreate = async () => {
+        setError(null);
+        try {
+            const hasTarget = form.userId.trim() || form.displayName.trim();
+            const created = await window.electron.cases.open({
+                groupId,
+                title: form.title,
+                target: hasTarget ? { userId: form.userId.trim() || undefined, displayName: form.displayName.trim() } : undefined,
+                source: { type: 'MANUAL', summary: form.summary }
+            });
+            setForm(emptyForm);
+            onCreated(created);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const update = (key: keyof typeof emptyForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+        setForm(prev => ({ ...prev, [key]: e.target.value }));
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Open Case"
+            width="480px"
+            footer={
+                <>
+                    <NeonButton variant="ghost" onClick={onClose}>Cancel</NeonButton>
+                    <NeonButton onClick={handleCreate} disabled={!form.title.trim() && !form.userId.trim() && !form.displayName.trim()}>Open Case</NeonButton>
+                </>
+            }
+        >
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                <input style={inputStyle} placeholder="Title" value={form.title} onChange={update('title')} />
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <input style={inputStyle} placeholder="Target user ID (usr_...)" value={form.userId} onChange={update('userId')} />
+                    <input style={inputStyle} placeholder="Display name" value={form.displayName} onChange={update('displayName')} />
+                </div>
+                <textarea style={{ ...inputStyle, minHeight: '80px', resize: 'vertical' }} placeholder="What happened?" value={form.summary} onChange={update('summary')} />
+                <div style={{ fontSize: '0.75rem', color: 'var(--color-text-dim)' }}>
+                    If the user already has an active case, this is added to it instead.
+                </div>
+                {error && (
+                    <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                        {error}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
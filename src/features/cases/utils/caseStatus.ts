@@ -0,0 +1,8 @@
+import type { CaseStatus } from '../../../types/electron';
+
+export const CASE_STATUS_COLORS: Record<CaseStatus, string> = {
+    OPEN: 'var(--color-danger)',
+    INVESTIGATING: 'var(--color-warning)',
+    ACTIONED: 'var(--color-primary)',
+    CLOSED: 'var(--color-text-dim)'
+};
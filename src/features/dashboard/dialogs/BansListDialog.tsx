@@ -6,6 +6,7 @@ import { GlassPanel } from '../../../components/ui/GlassPanel';
 import { NeonButton } from '../../../components/ui/NeonButton';
 import { useConfirm } from '../../../context/ConfirmationContext';
 import { useNotificationStore } from '../../../stores/notificationStore';
+import type { TempBan } from '../../../types/electron';
 
 interface Props {
     isOpen: boolean;
@@ -16,6 +17,7 @@ export const BansListDialog: React.FC<Props> = ({ isOpen, onClose }) => {
     const { bans, selectedGroup, fetchGroupBans, isBansLoading } = useGroupStore();
     const { openProfile } = useUserProfileStore();
     const [search, setSearch] = useState('');
+    const [tempBans, setTempBans] = useState<TempBan[]>([]);
     
     const { confirm } = useConfirm();
     const { addNotification } = useNotificationStore();
@@ -26,6 +28,41 @@ export const BansListDialog: React.FC<Props> = ({ isOpen, onClose }) => {
         }
     }, [isOpen, selectedGroup, fetchGroupBans]);
 
+    // Scheduled unbans of temporary bans, kept live while the dialog is open
+    useEffect(() => {
+        if (!isOpen || !selectedGroup) return;
+        const groupId = selectedGroup.id;
+        window.electron.tempBans.get(groupId).then(setTempBans).catch(e => console.error(e));
+        return window.electron.tempBans.onUpdated(({ bans }) => setTempBans(bans.filter(b => b.groupId === groupId)));
+    }, [isOpen, selectedGroup]);
+
+    const handleMakePermanent = async (userId: string, displayName: string) => {
+        if (!selectedGroup) return;
+
+        const confirmed = await confirm({
+            title: 'Make Ban Permanent',
+            message: `Cancel the scheduled unban of ${displayName}? They stay banned until unbanned manually.`,
+            confirmLabel: 'Make Permanent',
+            variant: 'warning'
+        });
+        if (!confirmed) return;
+
+        try {
+            await window.electron.tempBans.cancel(selectedGroup.id, userId);
+        } catch (e) {
+            addNotification({ type: 'error', title: 'Error', message: e instanceof Error ? e.message : String(e) });
+        }
+    };
+
+    const handleRetryUnban = async (userId: string) => {
+        if (!selectedGroup) return;
+        try {
+            await window.electron.tempBans.retry(selectedGroup.id, userId);
+        } catch (e) {
+            addNotification({ type: 'error', title: 'Error', message: e instanceof Error ? e.message : String(e) });
+        }
+    };
+
     const handleUnban = async (userId: string, displayName: string) => {
         if (!selectedGroup) return;
         
@@ -96,27 +133,45 @@ export const BansListDialog: React.FC<Props> = ({ isOpen, onClose }) => {
                 {isBansLoading ? (
                     <div style={{ padding: '20px', textAlign: 'center', color: '#888' }}>Loading bans...</div>
                 ) : filteredBans.length > 0 ? (
-                    filteredBans.map(ban => (
-                        <GlassPanel key={ban.id} style={{ padding: '15px', display: 'flex', alignItems: 'center', justifyContent: 'space-between', borderLeft: '3px solid #ef4444' }}>
-                            <div 
-                                style={{ display: 'flex', alignItems: 'center', gap: '15px', cursor: 'pointer' }}
-                                onClick={() => openProfile(ban.user.id)}
-                            >
-                                <img 
-                                    src={ban.user.userIcon || ban.user.currentAvatarThumbnailImageUrl} 
-                                    alt={ban.user.displayName}
-                                    style={{ width: '50px', height: '50px', borderRadius: '50%', objectFit: 'cover', filter: 'grayscale(100%)' }} 
-                                />
-                                <div>
-                                    <div style={{ fontWeight: 'bold', color: '#ef4444' }}>{ban.user.displayName}</div>
-                                    <div style={{ fontSize: '0.8rem', color: '#aaa' }}>
-                                        Banned: {new Date(ban.createdAt).toLocaleDateString()}
+                    filteredBans.map(ban => {
+                        const tempBan = tempBans.find(t => t.userId === ban.user.id);
+                        return (
+                            <GlassPanel key={ban.id} style={{ padding: '15px', display: 'flex', alignItems: 'center', justifyContent: 'space-between', borderLeft: '3px solid #ef4444' }}>
+                                <div 
+                                    style={{ display: 'flex', alignItems: 'center', gap: '15px', cursor: 'pointer' }}
+                                    onClick={() => openProfile(ban.user.id)}
+                                >
+                                    <img 
+                                        src={ban.user.userIcon || ban.user.currentAvatarThumbnailImageUrl} 
+                                        alt={ban.user.displayName}
+                                        style={{ width: '50px', height: '50px', borderRadius: '50%', objectFit: 'cover', filter: 'grayscale(100%)' }} 
+                                    />
+                                    <div>
+                                        <div style={{ fontWeight: 'bold', color: '#ef4444' }}>{ban.user.displayName}</div>
+                                        <div style={{ fontSize: '0.8rem', color: '#aaa' }}>
+                                            Banned: {new Date(ban.createdAt).toLocaleDateString()}
+                                            {tempBan && !tempBan.failed && ` · Unbans ${new Date(tempBan.expiresAt).toLocaleString()}`}
+                                        </div>
+                                        {tempBan?.failed && (
+                                            <div style={{ fontSize: '0.8rem', color: '#fca5a5' }}>
+                                                Automatic unban failed after {tempBan.attempts} attempts: {tempBan.lastError}
+                                            </div>
+                                        )}
+                                        {tempBan && !tempBan.failed && tempBan.attempts > 0 && (
+                                            <div style={{ fontSize: '0.8rem', color: '#fbbf24' }}>
+                                                Unban failed {tempBan.attempts}x ({tempBan.lastError}), retrying {tempBan.nextAttemptAt ? new Date(tempBan.nextAttemptAt).toLocaleTimeString() : 'soon'}
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
-                            </div>
-                             <NeonButton variant="ghost" onClick={() => handleUnban(ban.user.id, ban.user.displayName)}>Unban</NeonButton>
-                        </GlassPanel>
-                    ))
+                                <div style={{ display: 'flex', gap: '8px' }}>
+                                    {tempBan?.failed && <NeonButton variant="secondary" onClick={() => handleRetryUnban(ban.user.id)}>Retry Unban</NeonButton>}
+                                    {tempBan && <NeonButton variant="ghost" onClick={() => handleMakePermanent(ban.user.id, ban.user.displayName)}>Make Permanent</NeonButton>}
+                                    <NeonButton variant="ghost" onClick={() => handleUnban(ban.user.id, ban.user.displayName)}>Unban</NeonButton>
+                                </div>
+                            </GlassPanel>
+                        );
+                    })
                 ) : (
                     <div style={{ padding: '20px', textAlign: 'center', color: '#888' }}>No active bans found.</div>
                 )}
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Modal } from '../../../components/ui/Modal';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import { useConfirm } from '../../../context/ConfirmationContext';
+import type { PlayerFlagDefinition } from '../../../types/electron';
+
+interface PlayerFlagDefinitionsDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    groupId: string;
+    groupName?: string;
+    onSaved: (definitions: PlayerFlagDefinition[]) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: '0.8rem',
+};
+
+const toSlug = (label: string) => label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const PlayerFlagDefinitionsDialog: React.FC<PlayerFlagDefinitionsDialogProps> = ({ isOpen, onClose, groupId, groupName, onSaved }) => {
+    const [flags, setFlags] = useState<PlayerFlagDefinition[]>([]);
+    const [newIds, setNewIds] = useState<Set<number>>(new Set());
+    const [error, setError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+    const { confirm } = useConfirm();
+
+    useEffect(() => {
+        if (!isOpen) return;
+        window.electron.playerFlags.getDefinitions(groupId).then(defs => {
+            setFlags(defs);
+            setNewIds(new Set());
+            setError(null);
+        });
+    }, [isOpen, groupId]);
+
+    const update = (index: number, patch: Partial<PlayerFlagDefinition>) => {
+        setFlags(prev => prev.map((f, i) => {
+            if (i !== index) return f;
+            const next = { ...f, ...patch };
+            // IDs of flags that were never saved follow the label, existing ones stay stable
+            if (patch.label !== undefined && newIds.has(i)) next.id = toSlug(patch.label);
+            return next;
+        }));
+    };
+
+    const handleAdd = () => {
+        setNewIds(prev => new Set(prev).add(flags.length));
+        setFlags(prev => [...prev, { id: '', label: '', description: '', type: 'negative', severity: 'medium', color: '#ff6b6b', autoAction: 'NONE' }]);
+    };
+
+    const handleRemove = (index: number) => {
+        setNewIds(prev => new Set([...prev].filter(i => i !== index).map(i => i > index ? i - 1 : i)));
+        setFlags(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const handleSave = async () => {
+        setError(null);
+        setSaving(true);
+        try {
+            onSaved(await window.electron.playerFlags.saveDefinitions(groupId, flags));
+            onClose();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleReset = async () => {
+        const confirmed = await confirm({
+            title: 'Reset Flags',
+            message: 'Replace this group\'s flags with the built-in list? Users keep their assigned flag IDs.',
+            confirmLabel: 'Reset',
+            variant: 'danger'
+        });
+        if (!confirmed) return;
+        const defaults = await window.electron.playerFlags.resetDefinitions(groupId);
+        setFlags(defaults);
+        setNewIds(new Set());
+        onSaved(defaults);
+    };
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title={`Player Flags${groupName ? ` · ${groupName}` : ''}`}
+            width="820px"
+            footer={
+                <>
+                    <NeonButton variant="ghost" onClick={handleReset} style={{ marginRight: 'auto' }}>Reset to Defaults</NeonButton>
+                    <NeonButton variant="ghost" onClick={onClose}>Cancel</NeonButton>
+                    <NeonButton onClick={handleSave} disabled={saving}>{saving ? 'Saving...' : 'Save Flags'}</NeonButton>
+                </>
+            }
+        >
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', fontSize: '0.85rem' }}>
+                <div style={{ fontSize: '0.8rem', color: 'var(--color-text-dim)' }}>
+                    Flags are assigned per group. Kick removes a flagged user whenever they are seen in one of this group's instances; Exempt skips AutoMod rules for them.
+                </div>
+
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.4rem', maxHeight: '420px', overflowY: 'auto' }}>
+                    {flags.map((flag, index) => (
+                        <div key={index} style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+                            <input type="color" value={flag.color} onChange={e => update(index, { color: e.target.value })} style={{ width: '28px', height: '28px', padding: 0, border: 'none', background: 'none' }} />
+                            <input style={{ ...inputStyle, width: '140px' }} placeholder="Label" value={flag.label} onChange={e => update(index, { label: e.target.value })} />
+                            <input style={{ ...inputStyle, flex: 1 }} placeholder="Description" value={flag.description} onChange={e => update(index, { description: e.target.value })} />
+                            <select style={inputStyle} value={flag.type} onChange={e => update(index, { type: e.target.value as PlayerFlagDefinition['type'] })}>
+                                <option value="negative">Negative</option>
+                                <option value="positive">Positive</option>
+                            </select>
+                            <select style={inputStyle} value={flag.severity} onChange={e => update(index, { severity: e.target.value as PlayerFlagDefinition['severity'] })}>
+                                <option value="low">Low</option>
+                                <option value="medium">Medium</option>
+                                <option value="high">High</option>
+                                <option value="critical">Critical</option>
+                            </select>
+                            <select style={inputStyle} value={flag.autoAction || 'NONE'} onChange={e => update(index, { autoAction: e.target.value as PlayerFlagDefinition['autoAction'] })}>
+                                <option value="NONE">No action</option>
+                                <option value="KICK">Kick on sight</option>
+                                <option value="EXEMPT_AUTOMOD">Exempt from AutoMod</option>
+                            </select>
+                            <NeonButton size="sm" variant="ghost" onClick={() => handleRemove(index)} title="Remove flag" style={{ color: 'var(--color-danger)' }}>
+                                <Trash2 size={14} />
+                            </NeonButton>
+                        </div>
+                    ))}
+                </div>
+
+                <div>
+                    <NeonButton size="sm" variant="secondary" onClick={handleAdd}>
+                        <Plus size={14} /> Add Flag
+                    </NeonButton>
+                </div>
+
+                {error && (
+                    <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                        {error}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,147 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Paperclip, ScrollText, Image, ExternalLink, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { NeonButton } from '../../components/ui/NeonButton';
+import { useConfirm } from '../../context/ConfirmationContext';
+import type { EvidenceItem, EvidenceSubject, EvidenceSubjectType } from '../../types/electron';
+
+interface EvidencePanelProps {
+    subjectId: string;
+    subjectTypes: EvidenceSubjectType[]; // The first is selected by default
+    targetUserId?: string; // Enables log excerpt capture
+    groupId?: string;
+}
+
+const SUBJECT_LABELS: Record<EvidenceSubjectType, string> = {
+    BAN: 'Ban',
+    KICK: 'Kick',
+    FLAG: 'Flag',
+    WATCHLIST: 'Watchlist'
+};
+
+const inputStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    background: 'rgba(0,0,0,0.4)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '6px',
+    color: 'white',
+    fontSize: '0.8rem',
+    outline: 'none',
+};
+
+const formatSize = (bytes?: number) => {
+    if (bytes === undefined) return '';
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const EvidencePanel: React.FC<EvidencePanelProps> = ({ subjectId, subjectTypes, targetUserId, groupId }) => {
+    const [subjectType, setSubjectType] = useState<EvidenceSubjectType>(subjectTypes[0]);
+    const [items, setItems] = useState<EvidenceItem[]>([]);
+    const [label, setLabel] = useState('');
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { confirm } = useConfirm();
+
+    const subject: EvidenceSubject = { type: subjectType, id: subjectId, targetUserId, groupId };
+
+    const load = useCallback(
+        () => window.electron.evidence.list({ subject: { type: subjectType, id: subjectId } }).then(setItems),
+        [subjectType, subjectId]
+    );
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const run = async (action: () => Promise<unknown>) => {
+        setError(null);
+        setBusy(true);
+        try {
+            await action();
+            setLabel('');
+            await load();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleDelete = async (item: EvidenceItem) => {
+        const confirmed = await confirm({
+            title: 'Remove Evidence',
+            message: `Remove "${item.label}" from the evidence locker?`,
+            confirmLabel: 'Remove',
+            variant: 'danger'
+        });
+        if (confirmed) await run(() => window.electron.evidence.delete(item.id));
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                {subjectTypes.length > 1 && (
+                    <select style={inputStyle} value={subjectType} onChange={e => setSubjectType(e.target.value as EvidenceSubjectType)} title="Action this evidence supports">
+                        {subjectTypes.map(t => <option key={t} value={t}>{SUBJECT_LABELS[t]}</option>)}
+                    </select>
+                )}
+                <input style={{ ...inputStyle, flex: 1 }} value={label} onChange={e => setLabel(e.target.value)} placeholder="Label (optional)" />
+                <NeonButton size="sm" variant="secondary" disabled={busy} onClick={() => run(() => window.electron.evidence.pickFiles(subject, label))} title="Attach screenshots or clips">
+                    <Paperclip size={14} /> Files
+                </NeonButton>
+                {targetUserId && (
+                    <NeonButton size="sm" variant="secondary" disabled={busy} onClick={() => run(() => window.electron.evidence.captureLog(subject, targetUserId, undefined, label))} title="Capture this user's log entries from their latest session">
+                        <ScrollText size={14} /> Log
+                    </NeonButton>
+                )}
+            </div>
+
+            {error && (
+                <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                    {error}
+                </div>
+            )}
+
+            {items.length === 0 && (
+                <div style={{ color: 'var(--color-text-dim)', fontSize: '0.8rem', fontStyle: 'italic' }}>No evidence attached.</div>
+            )}
+
+            {items.map(item => (
+                <div key={item.id} style={{ padding: '0.5rem 0.75rem', background: 'rgba(255,255,255,0.03)', borderRadius: '6px', fontSize: '0.8rem' }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                        {item.kind === 'FILE' ? (
+                            <Image size={14} style={{ color: 'var(--color-primary)' }} />
+                        ) : (
+                            <button onClick={() => setExpanded(expanded === item.id ? null : item.id)} style={{ background: 'none', border: 'none', padding: 0, color: 'var(--color-text-dim)', cursor: 'pointer', display: 'flex' }}>
+                                {expanded === item.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                            </button>
+                        )}
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                            <div style={{ color: 'white', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{item.label}</div>
+                            <div style={{ color: 'var(--color-text-dim)', fontSize: '0.7rem' }}>
+                                {new Date(item.createdAt).toLocaleString()} · {item.createdByName || 'Unknown'}
+                                {item.kind === 'FILE' ? ` · ${formatSize(item.size)} · ${item.sha256?.slice(0, 12)}` : ` · ${item.excerpt?.length || 0} lines`}
+                            </div>
+                        </div>
+                        {item.kind === 'FILE' && (
+                            <NeonButton size="sm" variant="ghost" onClick={() => run(() => window.electron.evidence.open(item.id))} title="Open file">
+                                <ExternalLink size={14} />
+                            </NeonButton>
+                        )}
+                        <NeonButton size="sm" variant="ghost" onClick={() => handleDelete(item)} title="Remove" style={{ color: 'var(--color-danger)' }}>
+                            <Trash2 size={14} />
+                        </NeonButton>
+                    </div>
+                    {expanded === item.id && item.excerpt && (
+                        <div style={{ marginTop: '0.5rem', maxHeight: '160px', overflowY: 'auto', fontFamily: 'monospace', fontSize: '0.7rem', color: 'var(--color-text-dim)' }}>
+                            {item.excerpt.map((line, i) => (
+                                <div key={i}>[{new Date(line.timestamp).toLocaleTimeString()}] {line.text}</div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { ShieldCheck, RefreshCw } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -10,7 +10,13 @@ import { StatTile } from '../dashboard/components/StatTile';
 import { useGroupStore } from '../../stores/groupStore';
 import { WorldListModal } from './WorldListModal';
 import { InstanceEventModal } from './dialogs/InstanceEventModal';
+import { InstanceScheduleModal } from './dialogs/InstanceScheduleModal';
+import { InstancePopulationModal } from './dialogs/InstancePopulationModal';
+import { CloseGraceModal, type CloseGraceConfig } from './dialogs/CloseGraceModal';
+import { AuditPolicyModal } from './dialogs/AuditPolicyModal';
+import { PendingClosesPanel } from './components/PendingClosesPanel';
 import type { InstanceLogEntry } from './components/InstanceLog';
+import type { InstanceGuardSchedule, InstancePopulationRule, PendingClose, AuditPolicy } from '../../types/electron';
 import styles from '../automod/AutoModView.module.css';
 
 const containerVariants = {
@@ -24,12 +30,44 @@ const containerVariants = {
     }
 };
 
+const HISTORY_PAGE_SIZE = 50;
+
+interface InstanceHistoryFilters {
+    world: string;
+    owner: string;
+    action: '' | 'OPENED' | 'CLOSED' | 'WARNED';
+}
+
+const EMPTY_FILTERS: InstanceHistoryFilters = { world: '', owner: '', action: '' };
+
+// The action filter groups the close variants together
+const ACTION_FILTERS: Record<Exclude<InstanceHistoryFilters['action'], ''>, InstanceLogEntry['action'][]> = {
+    OPENED: ['OPENED'],
+    CLOSED: ['CLOSED', 'AUTO_CLOSED', 'INSTANCE_CLOSED'],
+    WARNED: ['WARNED', 'PENDING_CLOSE'],
+};
+
+const filterInputStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    padding: '4px 8px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: '0.8rem',
+};
+
 // Instance Guard Event Log Component
 const InstanceGuardLog: React.FC<{
     logs: InstanceLogEntry[];
+    total: number;
+    filters: InstanceHistoryFilters;
+    onFiltersChange: (filters: InstanceHistoryFilters) => void;
+    onLoadMore?: () => void;
     onRefresh?: () => void;
     onSelectEntry?: (entry: InstanceLogEntry) => void;
-}> = ({ logs, onRefresh, onSelectEntry }) => {
+}> = ({ logs, total, filters, onFiltersChange, onLoadMore, onRefresh, onSelectEntry }) => {
     const getActionIcon = (action: string, wasAgeGated?: boolean) => {
         switch (action) {
             case 'OPENED':
@@ -39,6 +77,10 @@ const InstanceGuardLog: React.FC<{
             case 'AUTO_CLOSED':
             case 'INSTANCE_CLOSED':
                 return '🚫';
+            case 'WARNED':
+                return '⚠️';
+            case 'PENDING_CLOSE':
+                return '⏳';
             default:
                 return '📋';
         }
@@ -53,6 +95,10 @@ const InstanceGuardLog: React.FC<{
             case 'AUTO_CLOSED':
             case 'INSTANCE_CLOSED':
                 return 'var(--color-danger)';
+            case 'WARNED':
+                return '#f59e0b';
+            case 'PENDING_CLOSE':
+                return '#f97316';
             default:
                 return 'var(--color-text-dim)';
         }
@@ -67,6 +113,10 @@ const InstanceGuardLog: React.FC<{
             case 'AUTO_CLOSED':
             case 'INSTANCE_CLOSED':
                 return 'AUTO-CLOSED';
+            case 'WARNED':
+                return 'WARNED';
+            case 'PENDING_CLOSE':
+                return 'CLOSING';
             default:
                 return action;
         }
@@ -84,7 +134,7 @@ const InstanceGuardLog: React.FC<{
                 <h3 style={{ margin: 0, fontSize: '1.1rem', fontWeight: 600 }}>Instance Activity Log</h3>
                 <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
                     <span style={{ fontSize: '0.8rem', color: 'var(--color-text-dim)' }}>
-                        {logs.length} events
+                        {logs.length < total ? `${logs.length} of ${total}` : total} events
                     </span>
                     {onRefresh && (
                         <NeonButton
@@ -99,6 +149,31 @@ const InstanceGuardLog: React.FC<{
                 </div>
             </div>
 
+            <div style={{ display: 'flex', gap: '0.5rem', padding: '0.5rem 1rem', borderBottom: '1px solid var(--border-color)' }}>
+                <input
+                    style={filterInputStyle}
+                    placeholder="World name or ID"
+                    value={filters.world}
+                    onChange={e => onFiltersChange({ ...filters, world: e.target.value })}
+                />
+                <input
+                    style={filterInputStyle}
+                    placeholder="Owner name or ID"
+                    value={filters.owner}
+                    onChange={e => onFiltersChange({ ...filters, owner: e.target.value })}
+                />
+                <select
+                    style={{ ...filterInputStyle, flex: '0 0 auto' }}
+                    value={filters.action}
+                    onChange={e => onFiltersChange({ ...filters, action: e.target.value as InstanceHistoryFilters['action'] })}
+                >
+                    <option value="">All actions</option>
+                    <option value="OPENED">Opened</option>
+                    <option value="CLOSED">Closed</option>
+                    <option value="WARNED">Warnings</option>
+                </select>
+            </div>
+
             <div style={{ flex: 1, overflowY: 'auto', padding: '1rem' }}>
                 {logs.length > 0 ? (
                     <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
@@ -197,6 +272,11 @@ const InstanceGuardLog: React.FC<{
                                 </motion.div>
                             ))}
                         </AnimatePresence>
+                        {onLoadMore && logs.length < total && (
+                            <NeonButton variant="ghost" size="sm" onClick={onLoadMore} style={{ alignSelf: 'center' }}>
+                                Load older events
+                            </NeonButton>
+                        )}
                     </div>
                 ) : (
                     <div style={{
@@ -224,6 +304,10 @@ export const InstanceGuardView: React.FC = () => {
 // Modal State
     const [showBlacklistModal, setShowBlacklistModal] = useState(false);
     const [showWhitelistModal, setShowWhitelistModal] = useState(false);
+    const [showScheduleModal, setShowScheduleModal] = useState(false);
+    const [showPopulationModal, setShowPopulationModal] = useState(false);
+    const [showGraceModal, setShowGraceModal] = useState(false);
+    const [showAuditPolicyModal, setShowAuditPolicyModal] = useState(false);
     const [selectedLogEntry, setSelectedLogEntry] = useState<InstanceLogEntry | null>(null);
 
     // Rules State
@@ -238,6 +322,11 @@ export const InstanceGuardView: React.FC = () => {
 
     // Instance Guard History
     const [instanceHistory, setInstanceHistory] = useState<InstanceLogEntry[]>([]);
+    const [historyTotal, setHistoryTotal] = useState(0);
+    const [historyFilters, setHistoryFilters] = useState<InstanceHistoryFilters>(EMPTY_FILTERS);
+
+    // Closes waiting out the grace period
+    const [pendingCloses, setPendingCloses] = useState<PendingClose[]>([]);
 
     // Load Rules
     const loadRules = useCallback(async () => {
@@ -256,21 +345,32 @@ export const InstanceGuardView: React.FC = () => {
         }
     }, [selectedGroup]);
 
-    // Load Instance History
-    const loadHistory = useCallback(async () => {
+    // Load Instance History (offset > 0 appends the next page)
+    const fetchHistory = useCallback(async (offset: number) => {
         await Promise.resolve();
 
         if (!selectedGroup) {
             setInstanceHistory([]);
+            setHistoryTotal(0);
             return;
         }
         try {
-            const history = await window.electron.instanceGuard?.getHistory?.(selectedGroup.id);
-            setInstanceHistory(history || []);
+            const result = await window.electron.instanceGuard?.getHistory?.(selectedGroup.id, {
+                world: historyFilters.world,
+                owner: historyFilters.owner,
+                actions: historyFilters.action ? ACTION_FILTERS[historyFilters.action] : undefined,
+                limit: HISTORY_PAGE_SIZE,
+                offset
+            });
+            const events = result?.events || [];
+            setInstanceHistory(prev => offset > 0 ? [...prev, ...events] : events);
+            setHistoryTotal(result?.total || 0);
         } catch (e) {
             console.error("Failed to load Instance Guard history", e);
         }
-    }, [selectedGroup]);
+    }, [selectedGroup, historyFilters]);
+
+    const loadHistory = useCallback(() => fetchHistory(0), [fetchHistory]);
 
 
     // Save Rule
@@ -292,7 +392,11 @@ export const InstanceGuardView: React.FC = () => {
         const ruleNames: Record<string, string> = {
             'INSTANCE_18_GUARD': '18+ Instance Guard',
             'CLOSE_ALL_INSTANCES': 'World Blacklisting',
-            'INSTANCE_PERMISSION_GUARD': 'Permission Guard'
+            'INSTANCE_PERMISSION_GUARD': 'Permission Guard',
+            'INSTANCE_SCHEDULE': 'Scheduled Policies',
+            'INSTANCE_POPULATION': 'Population Rules',
+            'INSTANCE_CLOSE_GRACE': 'Warn Before Close',
+            'AUDIT_POLICIES': 'Audit Log Policies'
         };
 
         const newRule = {
@@ -301,12 +405,87 @@ export const InstanceGuardView: React.FC = () => {
             type: ruleType,
             enabled: !existingRule?.enabled,
             actionType: 'REJECT' as const,
-            config: existingRule?.config || JSON.stringify({ whitelistedWorlds: [], blacklistedWorlds: [] })
+            config: existingRule?.config || JSON.stringify(
+                ruleType === 'INSTANCE_SCHEDULE' ? { schedules: [] }
+                    : ruleType === 'INSTANCE_POPULATION' ? { rules: [] }
+                    : ruleType === 'INSTANCE_CLOSE_GRACE' ? { graceMinutes: 5, notifyOwner: true }
+                    : ruleType === 'AUDIT_POLICIES' ? { policies: [] }
+                    : { whitelistedWorlds: [], blacklistedWorlds: [] }
+            )
         };
 
         await saveRule(newRule, selectedGroup.id);
     };
 
+    // Save Schedules (errors propagate so the modal can show them)
+    const saveSchedules = async (schedules: InstanceGuardSchedule[]) => {
+        if (!selectedGroup) return;
+        const existingRule = rules.find(r => r.type === 'INSTANCE_SCHEDULE');
+        await window.electron.automod.saveRule({
+            id: existingRule?.id || 0,
+            name: 'Scheduled Policies',
+            type: 'INSTANCE_SCHEDULE',
+            enabled: existingRule ? existingRule.enabled : true,
+            actionType: 'REJECT',
+            config: JSON.stringify({ schedules })
+        }, selectedGroup.id);
+        await loadRules();
+    };
+
+    // Save Population Rules (errors propagate so the modal can show them)
+    const savePopulationRules = async (populationRules: InstancePopulationRule[]) => {
+        if (!selectedGroup) return;
+        const existingRule = rules.find(r => r.type === 'INSTANCE_POPULATION');
+        await window.electron.automod.saveRule({
+            id: existingRule?.id || 0,
+            name: 'Population Rules',
+            type: 'INSTANCE_POPULATION',
+            enabled: existingRule ? existingRule.enabled : true,
+            actionType: 'REJECT',
+            config: JSON.stringify({ rules: populationRules })
+        }, selectedGroup.id);
+        await loadRules();
+    };
+
+    // Save Grace Period (errors propagate so the modal can show them)
+    const saveGraceConfig = async (graceConfig: CloseGraceConfig) => {
+        if (!selectedGroup) return;
+        const existingRule = rules.find(r => r.type === 'INSTANCE_CLOSE_GRACE');
+        await window.electron.automod.saveRule({
+            id: existingRule?.id || 0,
+            name: 'Warn Before Close',
+            type: 'INSTANCE_CLOSE_GRACE',
+            enabled: existingRule ? existingRule.enabled : true,
+            actionType: 'REJECT',
+            config: JSON.stringify(graceConfig)
+        }, selectedGroup.id);
+        await loadRules();
+    };
+
+    // Save Audit Policies (errors propagate so the modal can show them)
+    const saveAuditPolicies = async (policies: AuditPolicy[]) => {
+        if (!selectedGroup) return;
+        const existingRule = rules.find(r => r.type === 'AUDIT_POLICIES');
+        await window.electron.automod.saveRule({
+            id: existingRule?.id || 0,
+            name: 'Audit Log Policies',
+            type: 'AUDIT_POLICIES',
+            enabled: existingRule ? existingRule.enabled : true,
+            actionType: 'REJECT',
+            config: JSON.stringify({ policies })
+        }, selectedGroup.id);
+        await loadRules();
+    };
+
+    const cancelPendingClose = async (key: string) => {
+        if (!selectedGroup) return;
+        try {
+            await window.electron.instanceGuard?.cancelPendingClose(selectedGroup.id, key);
+        } catch (e) {
+            console.error("Failed to cancel pending close", e);
+        }
+    };
+
     // Save World List
     const saveWorldList = async (listType: 'whitelistedWorlds' | 'blacklistedWorlds', worldIds: string[]) => {
         if (!selectedGroup) return;
@@ -340,14 +519,31 @@ export const InstanceGuardView: React.FC = () => {
 
     // Listen for real-time Instance Guard events
     useEffect(() => {
+        const isFiltered = historyFilters.world || historyFilters.owner || historyFilters.action;
         const handleEvent = (event: InstanceLogEntry) => {
-            if (selectedGroup && event.groupId === selectedGroup.id) {
-                setInstanceHistory(prev => [event, ...prev].slice(0, 100));
+            // Filtered views are refreshed manually, live events might not match
+            if (selectedGroup && event.groupId === selectedGroup.id && !isFiltered) {
+                setInstanceHistory(prev => [event, ...prev]);
+                setHistoryTotal(prev => prev + 1);
             }
         };
 
         const removeListener = window.electron.instanceGuard?.onEvent?.(handleEvent);
         return () => removeListener?.();
+    }, [selectedGroup, historyFilters]);
+
+    // Pending closes: initial list plus live updates from the backend
+    useEffect(() => {
+        if (!selectedGroup) return;
+        const groupId = selectedGroup.id;
+        window.electron.instanceGuard?.getPendingCloses(groupId)
+            .then(list => setPendingCloses(list || []))
+            .catch(e => console.error("Failed to load pending closes", e));
+
+        const removeListener = window.electron.instanceGuard?.onPendingUpdated?.(list => {
+            setPendingCloses(list.filter(p => p.groupId === groupId));
+        });
+        return () => removeListener?.();
     }, [selectedGroup]);
 
 
@@ -359,6 +555,27 @@ export const InstanceGuardView: React.FC = () => {
 
     const isInstanceGuardEnabled = instanceGuardRule?.enabled;
     const isCloseAllEnabled = closeAllRule?.enabled;
+    const scheduleRule = rules.find(r => r.type === 'INSTANCE_SCHEDULE');
+    // Memoized so the open modals are not reset by unrelated re-renders
+    const schedules = useMemo<InstanceGuardSchedule[]>(
+        () => scheduleRule ? JSON.parse(scheduleRule.config || '{}').schedules || [] : [],
+        [scheduleRule]
+    );
+    const populationRule = rules.find(r => r.type === 'INSTANCE_POPULATION');
+    const populationRules = useMemo<InstancePopulationRule[]>(
+        () => populationRule ? JSON.parse(populationRule.config || '{}').rules || [] : [],
+        [populationRule]
+    );
+    const graceRule = rules.find(r => r.type === 'INSTANCE_CLOSE_GRACE');
+    const graceConfig = useMemo<CloseGraceConfig>(
+        () => ({ graceMinutes: 5, notifyOwner: true, ...(graceRule ? JSON.parse(graceRule.config || '{}') : {}) }),
+        [graceRule]
+    );
+    const auditPolicyRule = rules.find(r => r.type === 'AUDIT_POLICIES');
+    const auditPolicies = useMemo<AuditPolicy[]>(
+        () => auditPolicyRule ? JSON.parse(auditPolicyRule.config || '{}').policies || [] : [],
+        [auditPolicyRule]
+    );
     const isWhitelistEnabled = whitelistRule?.enabled;
 
 const instanceGuardConfig = instanceGuardRule ? JSON.parse(instanceGuardRule.config || '{}') : { whitelistedWorlds: [], blacklistedWorlds: [] };
@@ -429,6 +646,10 @@ const activeRulesCount = [isInstanceGuardEnabled, isCloseAllEnabled, isWhitelist
                     <GlassPanel style={{ flex: 2, display: 'flex', flexDirection: 'column', overflow: 'hidden', padding: 0 }}>
                         <InstanceGuardLog
                             logs={instanceHistory}
+                            total={historyTotal}
+                            filters={historyFilters}
+                            onFiltersChange={setHistoryFilters}
+                            onLoadMore={() => fetchHistory(instanceHistory.length)}
                             onRefresh={loadHistory}
                             onSelectEntry={setSelectedLogEntry}
                         />
@@ -437,6 +658,12 @@ const activeRulesCount = [isInstanceGuardEnabled, isCloseAllEnabled, isWhitelist
                     {/* Right: Rules & Config */}
                     <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '1rem' }}>
 
+                        {selectedGroup && pendingCloses.length > 0 && (
+                            <GlassPanel style={{ padding: '1rem', flexShrink: 0 }}>
+                                <PendingClosesPanel pending={pendingCloses} onCancel={cancelPendingClose} />
+                            </GlassPanel>
+                        )}
+
                         {/* Instance Guard Rules */}
                         <GlassPanel style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', padding: '1rem', flexShrink: 0 }}>
                             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
@@ -470,6 +697,19 @@ const activeRulesCount = [isInstanceGuardEnabled, isCloseAllEnabled, isWhitelist
                                     description="Auto-close instances created by users without permission."
                                 />
 
+                                {/* Audit Log Policies */}
+                                <RuleCard
+                                    title="Audit Log Policies"
+                                    statusLabel={auditPolicyRule?.enabled ? `${auditPolicies.filter(p => p.enabled).length} ACTIVE` : 'OFF'}
+                                    isEnabled={!!auditPolicyRule?.enabled}
+                                    onToggle={() => toggleRule('AUDIT_POLICIES')}
+                                    color={auditPolicyRule?.enabled ? "#f43f5e" : "transparent"}
+                                    icon={<span style={{ fontSize: '20px' }}>🕵️</span>}
+                                    description="Alert on or revert role grants, removals, bans and settings edits by moderators."
+                                    actionLabel={auditPolicies.length > 0 ? 'Configure' : 'Add Policy'}
+                                    onAction={() => setShowAuditPolicyModal(true)}
+                                />
+
 {/* World Whitelisting */}
                                 <RuleCard
                                     title="World Whitelisting"
@@ -496,6 +736,45 @@ const activeRulesCount = [isInstanceGuardEnabled, isCloseAllEnabled, isWhitelist
                                     onAction={() => setShowBlacklistModal(true)}
                                 />
 
+                                {/* Scheduled Policies */}
+                                <RuleCard
+                                    title="Scheduled Policies"
+                                    statusLabel={scheduleRule?.enabled ? 'ON' : 'OFF'}
+                                    isEnabled={!!scheduleRule?.enabled}
+                                    onToggle={() => toggleRule('INSTANCE_SCHEDULE')}
+                                    color={scheduleRule?.enabled ? "#8b5cf6" : "transparent"}
+                                    icon={<span style={{ fontSize: '20px' }}>🗓️</span>}
+                                    description="Time-windowed world allow/deny lists that override the static lists while active."
+                                    actionLabel={schedules.length > 0 ? 'Configure' : 'Add Schedule'}
+                                    onAction={() => setShowScheduleModal(true)}
+                                />
+
+                                {/* Population Rules */}
+                                <RuleCard
+                                    title="Population Rules"
+                                    statusLabel={populationRule?.enabled ? 'ON' : 'OFF'}
+                                    isEnabled={!!populationRule?.enabled}
+                                    onToggle={() => toggleRule('INSTANCE_POPULATION')}
+                                    color={populationRule?.enabled ? "#f59e0b" : "transparent"}
+                                    icon={<span style={{ fontSize: '20px' }}>👥</span>}
+                                    description="Close or warn about instances by user count, capacity, access type and region."
+                                    actionLabel={populationRules.length > 0 ? 'Configure' : 'Add Rule'}
+                                    onAction={() => setShowPopulationModal(true)}
+                                />
+
+                                {/* Warn Before Close */}
+                                <RuleCard
+                                    title="Warn Before Close"
+                                    statusLabel={graceRule?.enabled ? `${graceConfig.graceMinutes} MIN` : 'OFF'}
+                                    isEnabled={!!graceRule?.enabled}
+                                    onToggle={() => toggleRule('INSTANCE_CLOSE_GRACE')}
+                                    color={graceRule?.enabled ? "#f97316" : "transparent"}
+                                    icon={<span style={{ fontSize: '20px' }}>⏳</span>}
+                                    description="Notify the instance owner and wait a grace period before closing. Pending closes can be cancelled."
+                                    actionLabel="Configure"
+                                    onAction={() => setShowGraceModal(true)}
+                                />
+
 
                             </div>
 </GlassPanel>
@@ -552,6 +831,34 @@ const activeRulesCount = [isInstanceGuardEnabled, isCloseAllEnabled, isWhitelist
                 type="blacklist"
             />
 
+            <InstanceScheduleModal
+                isOpen={showScheduleModal}
+                onClose={() => setShowScheduleModal(false)}
+                initialSchedules={schedules}
+                onSave={saveSchedules}
+            />
+
+            <InstancePopulationModal
+                isOpen={showPopulationModal}
+                onClose={() => setShowPopulationModal(false)}
+                initialRules={populationRules}
+                onSave={savePopulationRules}
+            />
+
+            <AuditPolicyModal
+                isOpen={showAuditPolicyModal}
+                onClose={() => setShowAuditPolicyModal(false)}
+                initialPolicies={auditPolicies}
+                onSave={saveAuditPolicies}
+            />
+
+            <CloseGraceModal
+                isOpen={showGraceModal}
+                onClose={() => setShowGraceModal(false)}
+                initialConfig={graceConfig}
+                onSave={saveGraceConfig}
+            />
+
             <WorldListModal
                 isOpen={showWhitelistModal}
                 onClose={() => setShowWhitelistModal(false)}
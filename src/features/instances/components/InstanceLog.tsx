@@ -6,7 +6,7 @@ import { NeonButton } from '../../../components/ui/NeonButton';
 export interface InstanceLogEntry {
     id: string;
     timestamp: number;
-    action: 'OPENED' | 'CLOSED' | 'AUTO_CLOSED' | 'INSTANCE_CLOSED';
+    action: 'OPENED' | 'CLOSED' | 'AUTO_CLOSED' | 'INSTANCE_CLOSED' | 'WARNED' | 'PENDING_CLOSE';
     worldId: string;
     worldName: string;
     instanceId: string;
@@ -39,6 +39,10 @@ const getActionIcon = (action: string, wasAgeGated?: boolean) => {
         case 'AUTO_CLOSED':
         case 'INSTANCE_CLOSED':
             return '🚫';
+        case 'WARNED':
+            return '⚠️';
+        case 'PENDING_CLOSE':
+            return '⏳';
         default:
             return '📋';
     }
@@ -53,6 +57,10 @@ const getActionColor = (action: string) => {
         case 'AUTO_CLOSED':
         case 'INSTANCE_CLOSED':
             return 'var(--color-danger)';
+        case 'WARNED':
+            return '#f59e0b';
+        case 'PENDING_CLOSE':
+            return '#f97316';
         default:
             return 'var(--color-text-dim)';
     }
@@ -67,6 +75,10 @@ const getActionLabel = (action: string) => {
         case 'AUTO_CLOSED':
         case 'INSTANCE_CLOSED':
             return 'AUTO-CLOSED';
+        case 'WARNED':
+            return 'WARNED';
+        case 'PENDING_CLOSE':
+            return 'CLOSING';
         default:
             return action;
     }
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { Hourglass } from 'lucide-react';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import type { PendingClose } from '../../../types/electron';
+
+interface PendingClosesPanelProps {
+    pending: PendingClose[];
+    onCancel: (key: string) => void;
+}
+
+const formatCountdown = (ms: number) => {
+    if (ms <= 0) return 'closing…';
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const PendingClosesPanel: React.FC<PendingClosesPanelProps> = ({ pending, onCancel }) => {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                <Hourglass size={16} style={{ color: '#f97316' }} />
+                <h3 style={{ margin: 0, fontSize: '1.1rem', fontWeight: 600 }}>Pending Closes</h3>
+            </div>
+            {pending.map(p => (
+                <div key={p.key} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem 0.75rem', background: 'rgba(249,115,22,0.08)', border: '1px solid rgba(249,115,22,0.25)', borderRadius: '8px' }}>
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                        <div style={{ fontWeight: 600, fontSize: '0.85rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{p.worldName}</div>
+                        <div style={{ fontSize: '0.75rem', color: 'var(--color-text-dim)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                            {p.ownerName || p.ownerId || 'Unknown owner'} · {p.reason}
+                        </div>
+                    </div>
+                    <span style={{ fontFamily: 'monospace', fontSize: '0.9rem', color: '#f97316' }}>{formatCountdown(p.closeAt - now)}</span>
+                    <NeonButton variant="ghost" size="sm" onClick={() => onCancel(p.key)}>Cancel</NeonButton>
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Clock } from 'lucide-react';
+import { Modal } from '../../../components/ui/Modal';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import { ChipInput } from '../../automod/components/ChipInput';
+import type { AuditPolicy, AuditPolicyEvent } from '../../../types/electron';
+
+interface AuditPolicyModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialPolicies: AuditPolicy[];
+    onSave: (policies: AuditPolicy[]) => Promise<void>;
+}
+
+const EVENTS: { value: AuditPolicyEvent; label: string }[] = [
+    { value: 'ROLE_ASSIGN', label: 'Role assignments' },
+    { value: 'MEMBER_REMOVE', label: 'Member removals' },
+    { value: 'BAN', label: 'Bans' },
+    { value: 'SETTINGS_EDIT', label: 'Group / role settings' },
+];
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const localTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const inputStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: '0.8rem',
+};
+
+const createPolicy = (): AuditPolicy => ({
+    id: `audit_${Date.now()}`,
+    name: 'Ban permission grants',
+    enabled: true,
+    createdAt: Date.now(),
+    events: ['ROLE_ASSIGN'],
+    exemptOwner: true,
+    exemptSelf: true,
+    exemptActorIds: [],
+    rolePermissions: ['group-bans-manage'],
+    officeHours: null,
+    action: 'ALERT',
+});
+
+const defaultOfficeHours = (): NonNullable<AuditPolicy['officeHours']> => ({
+    days: [1, 2, 3, 4, 5],
+    startTime: '09:00',
+    endTime: '17:00',
+    timezone: localTimezone,
+});
+
+export const AuditPolicyModal: React.FC<AuditPolicyModalProps> = ({ isOpen, onClose, initialPolicies, onSave }) => {
+    const [policies, setPolicies] = useState<AuditPolicy[]>(initialPolicies);
+    const [error, setError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setPolicies(initialPolicies);
+            setError(null);
+        }
+    }, [isOpen, initialPolicies]);
+
+    const update = (id: string, patch: Partial<AuditPolicy>) => {
+        setPolicies(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+    };
+
+    const toggleEvent = (policy: AuditPolicy, event: AuditPolicyEvent) => {
+        const events = policy.events.includes(event) ? policy.events.filter(e => e !== event) : [...policy.events, event];
+        update(policy.id, { events });
+    };
+
+    const toggleDay = (policy: AuditPolicy, day: number) => {
+        if (!policy.officeHours) return;
+        const days = policy.officeHours.days.includes(day)
+            ? policy.officeHours.days.filter(d => d !== day)
+            : [...policy.officeHours.days, day].sort((a, b) => a - b);
+        update(policy.id, { officeHours: { ...policy.officeHours, days } });
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            await onSave(policies);
+            onClose();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const chipStyle = (active: boolean): React.CSSProperties => ({
+        ...inputStyle,
+        cursor: 'pointer',
+        background: active ? 'rgba(var(--primary-hue), 100%, 50%, 0.2)' : 'rgba(0,0,0,0.3)',
+        borderColor: active ? 'var(--color-primary)' : 'rgba(255,255,255,0.1)'
+    });
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Audit Log Policies"
+            width="720px"
+            footer={
+                <>
+                    <NeonButton variant="ghost" size="sm" onClick={onClose}>Cancel</NeonButton>
+                    <NeonButton variant="primary" size="sm" onClick={handleSave} disabled={saving}>Save</NeonButton>
+                </>
+            }
+        >
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                <div style={{ fontSize: '0.8rem', color: 'var(--color-text-dim)' }}>
+                    Permission Guard reads the group audit log every minute and checks new entries against these policies. Alerts go to the AutoMod log and the group webhook. Only role assignments and bans can be reverted.
+                </div>
+
+                {policies.map(policy => (
+                    <div key={policy.id} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', padding: '0.75rem', background: 'rgba(255,255,255,0.03)', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.05)' }}>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                            <input type="checkbox" checked={policy.enabled} onChange={e => update(policy.id, { enabled: e.target.checked })} title="Enabled" />
+                            <input style={{ ...inputStyle, flex: 1 }} value={policy.name} onChange={e => update(policy.id, { name: e.target.value })} />
+                            <select style={inputStyle} value={policy.action} onChange={e => update(policy.id, { action: e.target.value as AuditPolicy['action'] })}>
+                                <option value="ALERT">Alert</option>
+                                <option value="REVERT">Alert and revert</option>
+                            </select>
+                            <button
+                                onClick={() => setPolicies(prev => prev.filter(p => p.id !== policy.id))}
+                                style={{ background: 'none', border: 'none', color: 'var(--color-danger)', cursor: 'pointer' }}
+                                title="Remove policy"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap', fontSize: '0.8rem' }}>
+                            {EVENTS.map(event => (
+                                <button key={event.value} onClick={() => toggleEvent(policy, event.value)} style={chipStyle(policy.events.includes(event.value))}>
+                                    {event.label}
+                                </button>
+                            ))}
+                        </div>
+
+                        {policy.events.includes('ROLE_ASSIGN') && (
+                            <ChipInput
+                                label="Only roles granting"
+                                value={policy.rolePermissions}
+                                onChange={rolePermissions => update(policy.id, { rolePermissions })}
+                                placeholder="e.g. group-bans-manage, empty = any role"
+                            />
+                        )}
+
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap', fontSize: '0.8rem' }}>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '0.35rem' }}>
+                                <input type="checkbox" checked={!!policy.officeHours} onChange={e => update(policy.id, { officeHours: e.target.checked ? defaultOfficeHours() : null })} />
+                                Only outside office hours
+                            </label>
+                            {policy.officeHours && (
+                                <>
+                                    {DAY_LABELS.map((label, day) => (
+                                        <button key={label} onClick={() => toggleDay(policy, day)} style={chipStyle(!!policy.officeHours?.days.includes(day))}>
+                                            {label}
+                                        </button>
+                                    ))}
+                                    <Clock size={14} style={{ color: 'var(--color-text-dim)' }} />
+                                    <input type="time" style={inputStyle} value={policy.officeHours.startTime} onChange={e => policy.officeHours && update(policy.id, { officeHours: { ...policy.officeHours, startTime: e.target.value } })} />
+                                    <span>–</span>
+                                    <input type="time" style={inputStyle} value={policy.officeHours.endTime} onChange={e => policy.officeHours && update(policy.id, { officeHours: { ...policy.officeHours, endTime: e.target.value } })} />
+                                    <input style={{ ...inputStyle, width: '140px' }} value={policy.officeHours.timezone} onChange={e => policy.officeHours && update(policy.id, { officeHours: { ...policy.officeHours, timezone: e.target.value } })} placeholder="Timezone" />
+                                </>
+                            )}
+                        </div>
+
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', fontSize: '0.8rem' }}>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '0.35rem' }}>
+                                <input type="checkbox" checked={policy.exemptOwner} onChange={e => update(policy.id, { exemptOwner: e.target.checked })} />
+                                Ignore group owner
+                            </label>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '0.35rem' }}>
+                                <input type="checkbox" checked={policy.exemptSelf} onChange={e => update(policy.id, { exemptSelf: e.target.checked })} />
+                                Ignore actions from this account
+                            </label>
+                        </div>
+
+                        <ChipInput
+                            label="Exempt moderators"
+                            value={policy.exemptActorIds}
+                            onChange={exemptActorIds => update(policy.id, { exemptActorIds })}
+                            placeholder="usr_xxx, press Enter to add"
+                            color="var(--color-success)"
+                        />
+                    </div>
+                ))}
+
+                <NeonButton variant="secondary" size="sm" onClick={() => setPolicies(prev => [...prev, createPolicy()])} style={{ alignSelf: 'flex-start' }}>
+                    <Plus size={14} /> Add Policy
+                </NeonButton>
+
+                {error && (
+                    <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                        {error}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../../../components/ui/Modal';
+import { NeonButton } from '../../../components/ui/NeonButton';
+
+export interface CloseGraceConfig {
+    graceMinutes: number;
+    notifyOwner: boolean;
+}
+
+interface CloseGraceModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialConfig: CloseGraceConfig;
+    onSave: (config: CloseGraceConfig) => Promise<void>;
+}
+
+const inputStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: '0.8rem',
+    width: '70px',
+};
+
+export const CloseGraceModal: React.FC<CloseGraceModalProps> = ({ isOpen, onClose, initialConfig, onSave }) => {
+    const [config, setConfig] = useState<CloseGraceConfig>(initialConfig);
+    const [error, setError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setConfig(initialConfig);
+            setError(null);
+        }
+    }, [isOpen, initialConfig]);
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            await onSave(config);
+            onClose();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Warn Before Close"
+            width="480px"
+            footer={
+                <>
+                    <NeonButton variant="ghost" size="sm" onClick={onClose}>Cancel</NeonButton>
+                    <NeonButton variant="primary" size="sm" onClick={handleSave} disabled={saving}>Save</NeonButton>
+                </>
+            }
+        >
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', fontSize: '0.85rem' }}>
+                <div style={{ fontSize: '0.8rem', color: 'var(--color-text-dim)' }}>
+                    Instead of closing right away, Instance Guard announces the close and waits for the grace period. Moderators can cancel a pending close from the Instance Guard page.
+                </div>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                    Close after
+                    <input
+                        type="number"
+                        min={1}
+                        max={60}
+                        style={inputStyle}
+                        value={config.graceMinutes}
+                        onChange={e => setConfig(prev => ({ ...prev, graceMinutes: Number(e.target.value) }))}
+                    />
+                    minutes
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                    <input
+                        type="checkbox"
+                        checked={config.notifyOwner}
+                        onChange={e => setConfig(prev => ({ ...prev, notifyOwner: e.target.checked }))}
+                    />
+                    Send the instance owner an invite message with the countdown
+                </label>
+                {error && (
+                    <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                        {error}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
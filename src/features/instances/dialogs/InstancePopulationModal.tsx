@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Modal } from '../../../components/ui/Modal';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import type { InstancePopulationRule } from '../../../types/electron';
+
+interface InstancePopulationModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialRules: InstancePopulationRule[];
+    onSave: (rules: InstancePopulationRule[]) => Promise<void>;
+}
+
+const ACCESS_TYPES = [
+    { value: 'public', label: 'Group Public' },
+    { value: 'plus', label: 'Group+' },
+    { value: 'members', label: 'Members Only' },
+];
+
+const REGIONS = [
+    { value: 'us', label: 'US West' },
+    { value: 'use', label: 'US East' },
+    { value: 'eu', label: 'Europe' },
+    { value: 'jp', label: 'Japan' },
+];
+
+const inputStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: '0.8rem',
+};
+
+const createRule = (): InstancePopulationRule => ({
+    id: `pop_${Date.now()}`,
+    name: 'Empty instances',
+    enabled: true,
+    metric: 'USERS',
+    operator: 'LT',
+    value: 2,
+    minAgeMinutes: 30,
+    accessTypes: ['public'],
+    regions: [],
+    action: 'CLOSE',
+});
+
+const toggleValue = (values: string[], value: string) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+export const InstancePopulationModal: React.FC<InstancePopulationModalProps> = ({ isOpen, onClose, initialRules, onSave }) => {
+    const [rules, setRules] = useState<InstancePopulationRule[]>(initialRules);
+    const [error, setError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setRules(initialRules);
+            setError(null);
+        }
+    }, [isOpen, initialRules]);
+
+    const update = (id: string, patch: Partial<InstancePopulationRule>) => {
+        setRules(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            await onSave(rules);
+            onClose();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const chipStyle = (active: boolean): React.CSSProperties => ({
+        ...inputStyle,
+        cursor: 'pointer',
+        background: active ? 'rgba(var(--primary-hue), 100%, 50%, 0.2)' : 'rgba(0,0,0,0.3)',
+        borderColor: active ? 'var(--color-primary)' : 'rgba(255,255,255,0.1)'
+    });
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Population Rules"
+            width="700px"
+            footer={
+                <>
+                    <NeonButton variant="ghost" size="sm" onClick={onClose}>Cancel</NeonButton>
+                    <NeonButton variant="primary" size="sm" onClick={handleSave} disabled={saving}>Save</NeonButton>
+                </>
+            }
+        >
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                <div style={{ fontSize: '0.8rem', color: 'var(--color-text-dim)' }}>
+                    Rules are checked each time Instance Guard polls the group's instances. Close rules skip whitelisted worlds, warnings are sent once per instance. Leave access types or regions empty to match all.
+                </div>
+
+                {rules.map(rule => (
+                    <div key={rule.id} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', padding: '0.75rem', background: 'rgba(255,255,255,0.03)', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.05)' }}>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                            <input type="checkbox" checked={rule.enabled} onChange={e => update(rule.id, { enabled: e.target.checked })} title="Enabled" />
+                            <input style={{ ...inputStyle, flex: 1 }} value={rule.name} onChange={e => update(rule.id, { name: e.target.value })} />
+                            <select style={inputStyle} value={rule.action} onChange={e => update(rule.id, { action: e.target.value as InstancePopulationRule['action'] })}>
+                                <option value="CLOSE">Close instance</option>
+                                <option value="WARN">Warn only</option>
+                            </select>
+                            <button
+                                onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))}
+                                style={{ background: 'none', border: 'none', color: 'var(--color-danger)', cursor: 'pointer' }}
+                                title="Remove rule"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap', fontSize: '0.8rem' }}>
+                            <span>When</span>
+                            <select style={inputStyle} value={rule.metric} onChange={e => update(rule.id, { metric: e.target.value as InstancePopulationRule['metric'] })}>
+                                <option value="USERS">user count</option>
+                                <option value="CAPACITY_PERCENT">capacity %</option>
+                            </select>
+                            <select style={inputStyle} value={rule.operator} onChange={e => update(rule.id, { operator: e.target.value as InstancePopulationRule['operator'] })}>
+                                <option value="LT">is below</option>
+                                <option value="GTE">is at least</option>
+                            </select>
+                            <input
+                                type="number"
+                                min={0}
+                                style={{ ...inputStyle, width: '70px' }}
+                                value={rule.value}
+                                onChange={e => update(rule.id, { value: Number(e.target.value) })}
+                            />
+                            <span>after</span>
+                            <input
+                                type="number"
+                                min={0}
+                                style={{ ...inputStyle, width: '70px' }}
+                                value={rule.minAgeMinutes}
+                                onChange={e => update(rule.id, { minAgeMinutes: Number(e.target.value) })}
+                            />
+                            <span>minutes</span>
+                        </div>
+
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap', fontSize: '0.8rem' }}>
+                            {ACCESS_TYPES.map(type => (
+                                <button
+                                    key={type.value}
+                                    onClick={() => update(rule.id, { accessTypes: toggleValue(rule.accessTypes, type.value) })}
+                                    style={chipStyle(rule.accessTypes.includes(type.value))}
+                                >
+                                    {type.label}
+                                </button>
+                            ))}
+                            <span style={{ width: '1px', height: '16px', background: 'rgba(255,255,255,0.1)' }} />
+                            {REGIONS.map(region => (
+                                <button
+                                    key={region.value}
+                                    onClick={() => update(rule.id, { regions: toggleValue(rule.regions, region.value) })}
+                                    style={chipStyle(rule.regions.includes(region.value))}
+                                >
+                                    {region.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+
+                <NeonButton variant="secondary" size="sm" onClick={() => setRules(prev => [...prev, createRule()])} style={{ alignSelf: 'flex-start' }}>
+                    <Plus size={14} /> Add Rule
+                </NeonButton>
+
+                {error && (
+                    <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                        {error}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Clock } from 'lucide-react';
+import { Modal } from '../../../components/ui/Modal';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import { ChipInput } from '../../automod/components/ChipInput';
+import type { InstanceGuardSchedule } from '../../../types/electron';
+
+interface InstanceScheduleModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialSchedules: InstanceGuardSchedule[];
+    onSave: (schedules: InstanceGuardSchedule[]) => Promise<void>;
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const COMMON_TIMEZONES = ['UTC', 'America/New_York', 'America/Chicago', 'America/Los_Angeles', 'Europe/London', 'Europe/Berlin', 'Asia/Tokyo', 'Australia/Sydney'];
+
+const localTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const inputStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: '0.8rem',
+};
+
+const createSchedule = (): InstanceGuardSchedule => ({
+    id: `sched_${Date.now()}`,
+    name: 'New Schedule',
+    enabled: true,
+    days: [5],
+    startTime: '18:00',
+    endTime: '23:00',
+    timezone: localTimezone,
+    policy: 'ALLOW_ONLY',
+    worlds: [],
+});
+
+export const InstanceScheduleModal: React.FC<InstanceScheduleModalProps> = ({ isOpen, onClose, initialSchedules, onSave }) => {
+    const [schedules, setSchedules] = useState<InstanceGuardSchedule[]>(initialSchedules);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setSchedules(initialSchedules);
+            setErrors([]);
+        }
+    }, [isOpen, initialSchedules]);
+
+    // Validate on the backend so timezone and overlap checks match what gets enforced
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            window.electron.instanceGuard?.validateSchedules(schedules)
+                .then(result => { if (!cancelled) setErrors(result || []); })
+                .catch(e => console.error('Failed to validate schedules', e));
+        }, 300);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [isOpen, schedules]);
+
+    const update = (id: string, patch: Partial<InstanceGuardSchedule>) => {
+        setSchedules(prev => prev.map(s => s.id === id ? { ...s, ...patch } : s));
+    };
+
+    const toggleDay = (schedule: InstanceGuardSchedule, day: number) => {
+        const days = schedule.days.includes(day)
+            ? schedule.days.filter(d => d !== day)
+            : [...schedule.days, day].sort((a, b) => a - b);
+        update(schedule.id, { days });
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            await onSave(schedules);
+            onClose();
+        } catch (e) {
+            setErrors([e instanceof Error ? e.message : String(e)]);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Scheduled Policies"
+            width="700px"
+            footer={
+                <>
+                    <NeonButton variant="ghost" size="sm" onClick={onClose}>Cancel</NeonButton>
+                    <NeonButton variant="primary" size="sm" onClick={handleSave} disabled={saving || errors.length > 0}>Save</NeonButton>
+                </>
+            }
+        >
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                <div style={{ fontSize: '0.8rem', color: 'var(--color-text-dim)' }}>
+                    While a schedule is active it replaces the whitelist and blacklist. "Allow only" closes every instance outside the listed worlds, "Deny" closes the listed worlds and leaves the rest to the regular rules.
+                </div>
+
+                <datalist id="instance-schedule-timezones">
+                    {COMMON_TIMEZONES.map(tz => <option key={tz} value={tz} />)}
+                </datalist>
+
+                {schedules.map(schedule => (
+                    <div key={schedule.id} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', padding: '0.75rem', background: 'rgba(255,255,255,0.03)', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.05)' }}>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                            <input type="checkbox" checked={schedule.enabled} onChange={e => update(schedule.id, { enabled: e.target.checked })} title="Enabled" />
+                            <input style={{ ...inputStyle, flex: 1 }} value={schedule.name} onChange={e => update(schedule.id, { name: e.target.value })} />
+                            <select style={inputStyle} value={schedule.policy} onChange={e => update(schedule.id, { policy: e.target.value as InstanceGuardSchedule['policy'] })}>
+                                <option value="ALLOW_ONLY">Allow only listed worlds</option>
+                                <option value="DENY">Deny listed worlds</option>
+                            </select>
+                            <button
+                                onClick={() => setSchedules(prev => prev.filter(s => s.id !== schedule.id))}
+                                style={{ background: 'none', border: 'none', color: 'var(--color-danger)', cursor: 'pointer' }}
+                                title="Remove schedule"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap', fontSize: '0.8rem' }}>
+                            {DAY_LABELS.map((label, day) => (
+                                <button
+                                    key={label}
+                                    onClick={() => toggleDay(schedule, day)}
+                                    style={{
+                                        ...inputStyle,
+                                        cursor: 'pointer',
+                                        background: schedule.days.includes(day) ? 'rgba(var(--primary-hue), 100%, 50%, 0.2)' : 'rgba(0,0,0,0.3)',
+                                        borderColor: schedule.days.includes(day) ? 'var(--color-primary)' : 'rgba(255,255,255,0.1)'
+                                    }}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                            <Clock size={14} style={{ marginLeft: '0.5rem', color: 'var(--color-text-dim)' }} />
+                            <input type="time" style={inputStyle} value={schedule.startTime} onChange={e => update(schedule.id, { startTime: e.target.value })} />
+                            <span>–</span>
+                            <input type="time" style={inputStyle} value={schedule.endTime} onChange={e => update(schedule.id, { endTime: e.target.value })} />
+                            <input
+                                style={{ ...inputStyle, width: '150px' }}
+                                list="instance-schedule-timezones"
+                                value={schedule.timezone}
+                                onChange={e => update(schedule.id, { timezone: e.target.value })}
+                                placeholder="Timezone"
+                            />
+                        </div>
+
+                        <ChipInput
+                            label="Worlds"
+                            value={schedule.worlds}
+                            onChange={worlds => update(schedule.id, { worlds })}
+                            placeholder="wrld_xxx, press Enter to add"
+                            color={schedule.policy === 'DENY' ? 'var(--color-danger)' : 'var(--color-success)'}
+                        />
+                    </div>
+                ))}
+
+                <NeonButton variant="secondary" size="sm" onClick={() => setSchedules(prev => [...prev, createSchedule()])} style={{ alignSelf: 'flex-start' }}>
+                    <Plus size={14} /> Add Schedule
+                </NeonButton>
+
+                {errors.length > 0 && (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '2px', padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                        {errors.map(err => <div key={err}>{err}</div>)}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
@@ -9,6 +9,18 @@ import { motion } from 'framer-motion';
 import { useConfirm } from '../../../context/ConfirmationContext';
 import { useNotificationStore } from '../../../stores/notificationStore';
 
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const DURATION_OPTIONS: { label: string; ms: number }[] = [
+  { label: 'Permanent', ms: 0 },
+  { label: '1 Hour', ms: HOUR },
+  { label: '1 Day', ms: DAY },
+  { label: '3 Days', ms: 3 * DAY },
+  { label: '7 Days', ms: 7 * DAY },
+  { label: '30 Days', ms: 30 * DAY },
+];
+
 interface BanUserDialogProps {
   isOpen: boolean;
   onClose: () => void;
@@ -25,6 +37,7 @@ export const BanUserDialog: React.FC<BanUserDialogProps> = ({ isOpen, onClose, u
     }
     return initial;
   });
+  const [durationMs, setDurationMs] = useState(0);
   const [isBanning, setIsBanning] = useState(false);
   const [progress, setProgress] = useState<{ current: number; total: number; failed: number } | null>(null);
   const [results, setResults] = useState<Array<{ groupId: string; groupName: string; success: boolean; error?: string }>>([]);
@@ -54,9 +67,12 @@ export const BanUserDialog: React.FC<BanUserDialogProps> = ({ isOpen, onClose, u
       if (!user) return;
       if (selectedGroupIds.size === 0) return;
       
+      const durationLabel = DURATION_OPTIONS.find(o => o.ms === durationMs)?.label ?? 'Permanent';
       const confirmed = await confirm({
           title: 'Confirm Ban',
-          message: `Are you sure you want to BAN ${user.displayName} from ${selectedGroupIds.size} groups? This cannot be easily undone.`,
+          message: durationMs > 0
+              ? `Are you sure you want to BAN ${user.displayName} from ${selectedGroupIds.size} groups for ${durationLabel.toLowerCase()}? They will be unbanned automatically when it expires.`
+              : `Are you sure you want to BAN ${user.displayName} from ${selectedGroupIds.size} groups? This cannot be easily undone.`,
           confirmLabel: 'Ban User',
           variant: 'danger'
       });
@@ -83,7 +99,7 @@ export const BanUserDialog: React.FC<BanUserDialogProps> = ({ isOpen, onClose, u
 
       for (const group of targets) {
           try {
-              const res = await window.electron.banUser(group.id, user.id);
+              const res = await window.electron.banUser(group.id, user.id, { durationMs, displayName: user.displayName });
               newResults.push({
                   groupId: group.id,
                   groupName: group.name,
@@ -176,6 +192,29 @@ export const BanUserDialog: React.FC<BanUserDialogProps> = ({ isOpen, onClose, u
                         ))}
                     </div>
 
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                        <h4 style={{ margin: 0, color: 'var(--color-text-dim)' }}>Duration</h4>
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                            {DURATION_OPTIONS.map(option => (
+                                <button
+                                    key={option.ms}
+                                    onClick={() => setDurationMs(option.ms)}
+                                    style={{
+                                        padding: '6px 10px',
+                                        borderRadius: '6px',
+                                        fontSize: '0.8rem',
+                                        cursor: 'pointer',
+                                        color: 'white',
+                                        background: durationMs === option.ms ? 'rgba(var(--primary-hue), 100%, 50%, 0.15)' : 'rgba(255,255,255,0.03)',
+                                        border: durationMs === option.ms ? '1px solid var(--color-primary)' : '1px solid rgba(255,255,255,0.1)'
+                                    }}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
                     <div style={{ display: 'flex', gap: '10px', marginTop: '1rem' }}>
                         <NeonButton variant="secondary" onClick={onClose} style={{ flex: 1 }}>
                             Cancel
@@ -217,7 +256,7 @@ export const BanUserDialog: React.FC<BanUserDialogProps> = ({ isOpen, onClose, u
                             <div key={r.groupId} style={{ fontSize: '0.8rem', display: 'flex', justifyContent: 'space-between', padding: '6px', background: 'rgba(0,0,0,0.2)', borderRadius: '4px' }}>
                                 <span>{r.groupName}</span>
                                 {r.success ? (
-                                    <span style={{ color: 'var(--color-success)', display: 'flex', alignItems: 'center', gap: '4px' }}><Check size={12}/> Banned</span>
+                                    <span style={{ color: 'var(--color-success)', display: 'flex', alignItems: 'center', gap: '4px' }}><Check size={12}/> {durationMs > 0 ? 'Temp Banned' : 'Banned'}</span>
                                 ) : (
                                     <span style={{ color: '#fca5a5', display: 'flex', alignItems: 'center', gap: '4px' }}><X size={12}/> {r.error}</span>
                                 )}
@@ -60,7 +60,7 @@ export const AutoModAlertOverlay: React.FC = () => {
             addAlert({
                 userId: data.userId,
                 displayName: data.displayName,
-                action: data.action as 'REJECT' | 'AUTO_BLOCK',
+                action: data.action as 'REJECT' | 'AUTO_BLOCK' | 'WATCHLIST',
                 reason: data.reason,
                 skipped: data.skipped,
                 ruleId: data.ruleId,
@@ -179,7 +179,7 @@ export const AutoModAlertOverlay: React.FC = () => {
                             }}>
                                 <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: alert.action === 'REJECT' ? '#fca5a5' : '#fde047', fontWeight: 'bold', fontSize: '0.9rem' }}>
                                     <ShieldAlert size={18} />
-                                    <span>{alert.action === 'REJECT' ? 'AutoMod Block' : 'AutoMod Warning'}</span>
+                                    <span>{alert.action === 'REJECT' ? 'AutoMod Block' : alert.action === 'WATCHLIST' ? 'Watchlist Hit' : 'AutoMod Warning'}</span>
                                 </div>
                                 <button 
                                     onClick={() => dismissAlert(alert.id)}
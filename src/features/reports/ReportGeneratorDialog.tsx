@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, Button, Textarea, Select } from '../../components/ui';
 import { Copy, FileText, Check } from 'lucide-react';
+import type { EvidenceItem, ReportFormat } from '../../types/electron';
 
 interface ReportTemplate {
     id: string;
@@ -9,19 +10,36 @@ interface ReportTemplate {
     type: string;
 }
 
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+    markdown: 'Markdown',
+    text: 'Plain Text (VRChat Support)',
+    html: 'HTML (Archive)',
+    discord: 'Discord Embed (JSON)'
+};
+
 interface ReportGeneratorProps {
     isOpen: boolean;
     onClose: () => void;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     context: any; // ReportContext
+    onAttach?: (content: string, templateName: string) => void; // Offers to keep the report, e.g. on a case
 }
 
-export const ReportGeneratorDialog: React.FC<ReportGeneratorProps> = ({ isOpen, onClose, context }) => {
+export const ReportGeneratorDialog: React.FC<ReportGeneratorProps> = ({ isOpen, onClose, context, onAttach }) => {
     const [templates, setTemplates] = useState<ReportTemplate[]>([]);
     const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
+    const [format, setFormat] = useState<ReportFormat>('markdown');
     const [generatedContent, setGeneratedContent] = useState('');
     const [loading, setLoading] = useState(false);
     const [copied, setCopied] = useState(false);
+    const [evidence, setEvidence] = useState<EvidenceItem[]>([]);
+    const [selectedEvidenceIds, setSelectedEvidenceIds] = useState<string[]>([]);
+
+    const targetId: string | undefined = context?.target?.id;
+    const reportContext = React.useMemo(
+        () => context && { ...context, evidenceIds: selectedEvidenceIds },
+        [context, selectedEvidenceIds]
+    );
 
     const loadTemplates = React.useCallback(async () => {
         try {
@@ -38,15 +56,15 @@ export const ReportGeneratorDialog: React.FC<ReportGeneratorProps> = ({ isOpen,
     const generateReport = React.useCallback(async () => {
         setLoading(true);
         try {
-            const result = await window.electron.report.generate(selectedTemplateId, context);
+            const result = await window.electron.report.generate(selectedTemplateId, reportContext, format);
             setGeneratedContent(result);
         } catch (err) {
             console.error('Failed to generate report', err);
-            setGeneratedContent('Error generating report');
+            setGeneratedContent(`Error generating report: ${err instanceof Error ? err.message : String(err)}`);
         } finally {
             setLoading(false);
         }
-    }, [selectedTemplateId, context]);
+    }, [selectedTemplateId, reportContext, format]);
 
     useEffect(() => {
         if (isOpen) {
@@ -55,10 +73,27 @@ export const ReportGeneratorDialog: React.FC<ReportGeneratorProps> = ({ isOpen,
     }, [isOpen, loadTemplates]);
 
     useEffect(() => {
-        if (selectedTemplateId && context) {
+        if (selectedTemplateId && reportContext) {
             generateReport();
         }
-    }, [selectedTemplateId, context, generateReport]);
+    }, [selectedTemplateId, reportContext, generateReport]);
+
+    // Evidence locker items for the target, whether attached to an action or a watchlist entry
+    useEffect(() => {
+        if (!isOpen || !targetId) return;
+        Promise.all([
+            window.electron.evidence.list({ targetUserId: targetId }),
+            window.electron.evidence.list({ subject: { type: 'WATCHLIST', id: targetId } })
+        ]).then(([byUser, byEntity]) => {
+            const merged = [...byUser, ...byEntity.filter(e => !byUser.some(u => u.id === e.id))];
+            setEvidence(merged);
+            setSelectedEvidenceIds(merged.map(e => e.id));
+        }).catch(err => console.error('Failed to load evidence', err));
+    }, [isOpen, targetId]);
+
+    const toggleEvidence = (id: string) => {
+        setSelectedEvidenceIds(prev => prev.includes(id) ? prev.filter(e => e !== id) : [...prev, id]);
+    };
 
     const handleCopy = () => {
         navigator.clipboard.writeText(generatedContent);
@@ -90,6 +125,18 @@ export const ReportGeneratorDialog: React.FC<ReportGeneratorProps> = ({ isOpen,
                                 ))}
                             </Select>
                         </div>
+                        <div className="w-1/4">
+                            <label className="text-xs font-semibold text-gray-400 mb-1 block">Format</label>
+                            <Select
+                                value={format}
+                                onChange={(e) => setFormat(e.target.value as ReportFormat)}
+                                className="w-full bg-black/20 border-white/10 text-sm"
+                            >
+                                {(Object.keys(FORMAT_LABELS) as ReportFormat[]).map(f => (
+                                    <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+                                ))}
+                            </Select>
+                        </div>
                         <div className="flex-1">
                             <label className="text-xs font-semibold text-gray-400 mb-1 block">Context Preview</label>
                             <div className="bg-black/20 p-2 rounded text-xs text-gray-400 font-mono h-[38px] overflow-hidden truncate">
@@ -98,6 +145,25 @@ export const ReportGeneratorDialog: React.FC<ReportGeneratorProps> = ({ isOpen,
                         </div>
                     </div>
 
+                    {evidence.length > 0 && (
+                        <div>
+                            <label className="text-xs font-semibold text-gray-400 mb-1 block">Evidence Locker</label>
+                            <div className="bg-black/20 p-2 rounded text-xs max-h-[96px] overflow-y-auto space-y-1">
+                                {evidence.map(item => (
+                                    <label key={item.id} className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedEvidenceIds.includes(item.id)}
+                                            onChange={() => toggleEvidence(item.id)}
+                                        />
+                                        <span className="truncate">{item.label}</span>
+                                        <span className="text-gray-500 ml-auto shrink-0">{item.subjectType} · {new Date(item.createdAt).toLocaleDateString()}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     <div>
                         <div className="flex justify-between items-center mb-1">
                             <label className="text-xs font-semibold text-gray-400">Generated Content</label>
@@ -121,6 +187,15 @@ export const ReportGeneratorDialog: React.FC<ReportGeneratorProps> = ({ isOpen,
 
                     <div className="flex justify-end gap-2">
                         <Button variant="ghost" onClick={onClose}>Close</Button>
+                        {onAttach && (
+                            <Button
+                                variant="ghost"
+                                disabled={loading || !generatedContent}
+                                onClick={() => onAttach(generatedContent, templates.find(t => t.id === selectedTemplateId)?.name || 'Report')}
+                            >
+                                Attach to Case
+                            </Button>
+                        )}
                         <Button onClick={() => window.open('https://help.vrchat.com/hc/en-us/requests/new', '_blank')}>
                             Open VRChat Help Desk
                         </Button>
@@ -2,6 +2,11 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useGroupStore } from '../../stores/groupStore';
 import { NeonButton } from '../../components/ui/NeonButton';
 import { ChevronDown, ChevronUp, Webhook } from 'lucide-react';
+import { WebhookRoutesSettings } from './WebhookRoutesSettings';
+import { WebhookDeliverySettings } from './WebhookDeliverySettings';
+import { GenericWebhookSettings } from './GenericWebhookSettings';
+import { WebhookDigestSettings } from './WebhookDigestSettings';
+import { WebhookTemplateSettings } from './WebhookTemplateSettings';
 
 // Inner card style for settings sections (used inside main GlassPanel)
 const innerCardStyle: React.CSSProperties = {
@@ -97,7 +102,7 @@ export const DiscordWebhookSettings: React.FC = () => {
                     <div>
                         <div style={{ color: 'white', fontWeight: 600, marginBottom: '0.25rem' }}>Webhook URL</div>
                         <div style={{ color: 'var(--color-text-dim)', fontSize: '0.9rem', marginBottom: '1rem' }}>
-                            Receive automated logs (Kicks, Bans, AutoMod Actions) in your Discord server.
+                            Receive automated logs (Kicks, Bans, AutoMod Actions) in your Discord server. Events without a route below are sent here.
                         </div>
                         
                         <div style={{ display: 'flex', gap: '0.5rem' }}>
@@ -153,6 +158,26 @@ export const DiscordWebhookSettings: React.FC = () => {
                             </ol>
                         </div>
                     )}
+
+                    <div style={{ borderTop: '1px solid rgba(255,255,255,0.05)', paddingTop: '1rem' }}>
+                        <WebhookRoutesSettings groupId={selectedGroup.id} />
+                    </div>
+
+                    <div style={{ borderTop: '1px solid rgba(255,255,255,0.05)', paddingTop: '1rem' }}>
+                        <WebhookTemplateSettings groupId={selectedGroup.id} />
+                    </div>
+
+                    <div style={{ borderTop: '1px solid rgba(255,255,255,0.05)', paddingTop: '1rem' }}>
+                        <WebhookDigestSettings groupId={selectedGroup.id} />
+                    </div>
+
+                    <div style={{ borderTop: '1px solid rgba(255,255,255,0.05)', paddingTop: '1rem' }}>
+                        <GenericWebhookSettings groupId={selectedGroup.id} />
+                    </div>
+
+                    <div style={{ borderTop: '1px solid rgba(255,255,255,0.05)', paddingTop: '1rem' }}>
+                        <WebhookDeliverySettings groupId={selectedGroup.id} />
+                    </div>
                 </div>
 
                 )}
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, Eye, EyeOff, Pencil, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { NeonButton } from '../../components/ui/NeonButton';
+import { WEBHOOK_CATEGORIES, WEBHOOK_CATEGORY_LABELS } from './webhookCategories';
+import type { GenericWebhookEndpoint, WebhookEventCategory } from '../../types/electron';
+
+const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid var(--border-color)',
+    color: 'white',
+    borderRadius: '6px',
+    outline: 'none',
+    fontSize: '0.85rem',
+};
+
+const iconButtonStyle: React.CSSProperties = {
+    background: 'none',
+    border: 'none',
+    color: 'var(--color-text-dim)',
+    cursor: 'pointer',
+    padding: '4px',
+};
+
+interface EndpointDraft {
+    id?: string;
+    name: string;
+    url: string;
+    enabled: boolean;
+    categories: WebhookEventCategory[];
+}
+
+const emptyDraft = (): EndpointDraft => ({ name: '', url: '', enabled: true, categories: [...WEBHOOK_CATEGORIES] });
+
+interface GenericWebhookSettingsProps {
+    groupId: string;
+}
+
+export const GenericWebhookSettings: React.FC<GenericWebhookSettingsProps> = ({ groupId }) => {
+    const [endpoints, setEndpoints] = useState<GenericWebhookEndpoint[]>([]);
+    const [draft, setDraft] = useState<EndpointDraft | null>(null);
+    const [revealed, setRevealed] = useState<string | null>(null);
+    const [status, setStatus] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        window.electron.genericWebhooks.list(groupId).then(setEndpoints).catch(e => console.error(e));
+    }, [groupId]);
+
+    const reload = () => window.electron.genericWebhooks.list(groupId).then(setEndpoints);
+
+    const showStatus = (message: string) => {
+        setStatus(message);
+        setTimeout(() => setStatus(''), 2000);
+    };
+
+    const toggleCategory = (category: WebhookEventCategory) => {
+        if (!draft) return;
+        setDraft({
+            ...draft,
+            categories: draft.categories.includes(category)
+                ? draft.categories.filter(c => c !== category)
+                : [...draft.categories, category]
+        });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setError(null);
+        try {
+            await window.electron.genericWebhooks.save(groupId, draft);
+            setDraft(null);
+            await reload();
+            showStatus('Endpoint saved!');
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleToggle = async (endpoint: GenericWebhookEndpoint) => {
+        try {
+            await window.electron.genericWebhooks.save(groupId, { ...endpoint, enabled: !endpoint.enabled });
+            await reload();
+        } catch (e) {
+            console.error(e);
+        }
+    };
+
+    const handleDelete = async (endpoint: GenericWebhookEndpoint) => {
+        if (!confirm(`Delete the "${endpoint.name}" endpoint?`)) return;
+        await window.electron.genericWebhooks.delete(groupId, endpoint.id);
+        await reload();
+    };
+
+    const handleRotate = async (endpoint: GenericWebhookEndpoint) => {
+        if (!confirm(`Generate a new signing secret for "${endpoint.name}"? Receivers using the old secret will reject deliveries until updated.`)) return;
+        await window.electron.genericWebhooks.rotateSecret(groupId, endpoint.id);
+        await reload();
+        setRevealed(endpoint.id);
+        showStatus('Secret rotated!');
+    };
+
+    const handleCopySecret = async (endpoint: GenericWebhookEndpoint) => {
+        await navigator.clipboard.writeText(endpoint.secret);
+        showStatus('Secret copied!');
+    };
+
+    const handleTest = async (endpoint: GenericWebhookEndpoint) => {
+        setStatus(`Testing ${endpoint.name}...`);
+        const result = await window.electron.genericWebhooks.test(groupId, endpoint.id);
+        if (result.ok) {
+            showStatus('Test Signal Sent!');
+        } else {
+            setStatus('Test Failed');
+            setError(result.error || 'Unknown error');
+        }
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            <div>
+                <div style={{ color: 'white', fontWeight: 600, marginBottom: '0.25rem' }}>HTTP Endpoints</div>
+                <div style={{ color: 'var(--color-text-dim)', fontSize: '0.9rem' }}>
+                    Post events as signed JSON to your own services. Each request carries an HMAC-SHA256 signature of the body made with the endpoint's secret.
+                </div>
+            </div>
+
+            {endpoints.map(endpoint => (
+                <div key={endpoint.id} style={{ display: 'flex', flexDirection: 'column', gap: '0.4rem', padding: '0.75rem', borderRadius: '8px', background: 'rgba(255,255,255,0.03)', border: '1px solid rgba(255,255,255,0.05)', opacity: endpoint.enabled ? 1 : 0.6 }}>
+                    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                        <input
+                            type="checkbox"
+                            checked={endpoint.enabled}
+                            onChange={() => handleToggle(endpoint)}
+                            title={endpoint.enabled ? 'Endpoint is on' : 'Endpoint is off'}
+                        />
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                            <div style={{ color: 'white', fontSize: '0.9rem' }}>{endpoint.name}</div>
+                            <div style={{ color: 'var(--color-text-dim)', fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{endpoint.url}</div>
+                        </div>
+                        <NeonButton variant="ghost" size="sm" onClick={() => handleTest(endpoint)}>Test</NeonButton>
+                        <button onClick={() => setDraft({ ...endpoint })} title="Edit" style={iconButtonStyle}>
+                            <Pencil size={16} />
+                        </button>
+                        <button onClick={() => handleDelete(endpoint)} title="Delete endpoint" style={iconButtonStyle}>
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', fontSize: '0.75rem', color: 'var(--color-text-dim)' }}>
+                        <span>Secret:</span>
+                        <code style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: 'white' }}>
+                            {revealed === endpoint.id ? endpoint.secret : '•'.repeat(24)}
+                        </code>
+                        <button onClick={() => setRevealed(revealed === endpoint.id ? null : endpoint.id)} title={revealed === endpoint.id ? 'Hide secret' : 'Show secret'} style={iconButtonStyle}>
+                            {revealed === endpoint.id ? <EyeOff size={14} /> : <Eye size={14} />}
+                        </button>
+                        <button onClick={() => handleCopySecret(endpoint)} title="Copy secret" style={iconButtonStyle}>
+                            <Copy size={14} />
+                        </button>
+                        <button onClick={() => handleRotate(endpoint)} title="Rotate secret" style={iconButtonStyle}>
+                            <RefreshCw size={14} />
+                        </button>
+                    </div>
+                    <div style={{ color: 'var(--color-text-dim)', fontSize: '0.75rem' }}>
+                        {endpoint.categories.length === WEBHOOK_CATEGORIES.length
+                            ? 'All events'
+                            : endpoint.categories.map(c => WEBHOOK_CATEGORY_LABELS[c]).join(', ')}
+                    </div>
+                </div>
+            ))}
+
+            {draft && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', padding: '0.75rem', borderRadius: '8px', border: '1px solid var(--color-primary)' }}>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                        <input style={{ ...inputStyle, width: '160px' }} value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Name" />
+                        <input style={{ ...inputStyle, flex: 1 }} value={draft.url} onChange={e => setDraft({ ...draft, url: e.target.value })} placeholder="https://example.com/hooks/group-guard" />
+                    </div>
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.4rem' }}>
+                        {WEBHOOK_CATEGORIES.map(category => {
+                            const active = draft.categories.includes(category);
+                            return (
+                                <button
+                                    key={category}
+                                    onClick={() => toggleCategory(category)}
+                                    style={{
+                                        padding: '2px 10px',
+                                        borderRadius: '999px',
+                                        fontSize: '0.75rem',
+                                        cursor: 'pointer',
+                                        border: `1px solid ${active ? 'var(--color-primary)' : 'rgba(255,255,255,0.1)'}`,
+                                        background: active ? 'rgba(168, 85, 247, 0.15)' : 'transparent',
+                                        color: active ? 'white' : 'var(--color-text-dim)'
+                                    }}
+                                >
+                                    {WEBHOOK_CATEGORY_LABELS[category]}
+                                </button>
+                            );
+                        })}
+                    </div>
+                    <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '0.5rem' }}>
+                        <NeonButton variant="ghost" size="sm" onClick={() => { setDraft(null); setError(null); }}>Cancel</NeonButton>
+                        <NeonButton variant="primary" size="sm" onClick={handleSave}>{draft.id ? 'Save Endpoint' : 'Add Endpoint'}</NeonButton>
+                    </div>
+                </div>
+            )}
+
+            {error && (
+                <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                    {error}
+                </div>
+            )}
+
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <NeonButton variant="ghost" size="sm" onClick={() => setDraft(emptyDraft())} disabled={!!draft}>
+                    <Plus size={14} /> Add Endpoint
+                </NeonButton>
+                {status && <span style={{ color: status.includes('Failed') ? 'var(--color-error)' : 'var(--color-success)', fontSize: '0.85rem' }}>{status}</span>}
+            </div>
+        </div>
+    );
+};
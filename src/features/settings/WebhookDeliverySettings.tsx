@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { NeonButton } from '../../components/ui/NeonButton';
+import type { QueuedWebhook } from '../../types/electron';
+
+interface WebhookDeliverySettingsProps {
+    groupId: string;
+}
+
+export const WebhookDeliverySettings: React.FC<WebhookDeliverySettingsProps> = ({ groupId }) => {
+    const [pending, setPending] = useState<QueuedWebhook[]>([]);
+    const [deadLetters, setDeadLetters] = useState<QueuedWebhook[]>([]);
+
+    useEffect(() => {
+        const load = () => window.electron.webhookQueue.get(groupId).then(queue => {
+            setPending(queue.pending);
+            setDeadLetters(queue.deadLetters);
+        }).catch(e => console.error(e));
+        load();
+        return window.electron.webhookQueue.onUpdated(data => {
+            if (data.groupId === groupId) load();
+        });
+    }, [groupId]);
+
+    const retrying = pending.filter(i => i.attempts > 0 || i.lastError);
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            <div>
+                <div style={{ color: 'white', fontWeight: 600, marginBottom: '0.25rem' }}>Delivery</div>
+                <div style={{ color: 'var(--color-text-dim)', fontSize: '0.9rem' }}>
+                    Events are queued and retried when Discord or an endpoint is rate limiting or unreachable.
+                    {pending.length > 0
+                        ? ` ${pending.length} waiting${retrying.length > 0 ? `, ${retrying.length} retrying` : ''}.`
+                        : ' Nothing waiting.'}
+                </div>
+            </div>
+
+            {deadLetters.length > 0 && (
+                <>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                        <div style={{ color: 'var(--color-error)', fontSize: '0.85rem', fontWeight: 600 }}>
+                            {deadLetters.length} failed {deadLetters.length === 1 ? 'delivery' : 'deliveries'}
+                        </div>
+                        <div style={{ display: 'flex', gap: '0.5rem' }}>
+                            <NeonButton variant="ghost" size="sm" onClick={() => window.electron.webhookQueue.discard(groupId)}>Discard All</NeonButton>
+                            <NeonButton variant="secondary" size="sm" onClick={() => window.electron.webhookQueue.retry(groupId)}>Re-send All</NeonButton>
+                        </div>
+                    </div>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.4rem', maxHeight: '240px', overflowY: 'auto' }}>
+                        {[...deadLetters].reverse().map(item => (
+                            <div key={item.id} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem 0.75rem', borderRadius: '6px', background: 'rgba(239,68,68,0.08)', fontSize: '0.8rem' }}>
+                                <div style={{ flex: 1, minWidth: 0 }}>
+                                    <div style={{ color: 'white', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{item.title}</div>
+                                    <div style={{ color: 'var(--color-text-dim)', fontSize: '0.75rem' }}>
+                                        {item.destinationLabel} · {new Date(item.createdAt).toLocaleString()} · {item.attempts} {item.attempts === 1 ? 'attempt' : 'attempts'}
+                                    </div>
+                                    {item.lastError && <div style={{ color: '#fca5a5', fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{item.lastError}</div>}
+                                </div>
+                                <button
+                                    onClick={() => window.electron.webhookQueue.retry(groupId, [item.id])}
+                                    title="Re-send"
+                                    style={{ background: 'none', border: 'none', color: 'var(--color-primary)', cursor: 'pointer', padding: '4px' }}
+                                >
+                                    <RotateCcw size={16} />
+                                </button>
+                                <button
+                                    onClick={() => window.electron.webhookQueue.discard(groupId, [item.id])}
+                                    title="Discard"
+                                    style={{ background: 'none', border: 'none', color: 'var(--color-text-dim)', cursor: 'pointer', padding: '4px' }}
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
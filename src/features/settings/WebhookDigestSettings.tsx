@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { NeonButton } from '../../components/ui/NeonButton';
+import type { WebhookDigestSettings as DigestSettings, WebhookRoute } from '../../types/electron';
+
+const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid var(--border-color)',
+    color: 'white',
+    borderRadius: '6px',
+    outline: 'none',
+    fontSize: '0.85rem',
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+interface WebhookDigestSettingsProps {
+    groupId: string;
+}
+
+export const WebhookDigestSettings: React.FC<WebhookDigestSettingsProps> = ({ groupId }) => {
+    const [settings, setSettings] = useState<DigestSettings | null>(null);
+    const [lastSentAt, setLastSentAt] = useState<number | undefined>();
+    const [routes, setRoutes] = useState<WebhookRoute[]>([]);
+    const [status, setStatus] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        window.electron.webhookDigest.get(groupId).then(data => {
+            setSettings(data.settings);
+            setLastSentAt(data.lastSentAt);
+        }).catch(e => console.error(e));
+        window.electron.webhook.getRoutes(groupId).then(setRoutes).catch(e => console.error(e));
+    }, [groupId]);
+
+    if (!settings) return null;
+
+    const update = (patch: Partial<DigestSettings>) => setSettings({ ...settings, ...patch });
+
+    const handleSave = async () => {
+        setStatus('');
+        setError(null);
+        try {
+            setSettings(await window.electron.webhookDigest.save(groupId, settings));
+            const data = await window.electron.webhookDigest.get(groupId);
+            setLastSentAt(data.lastSentAt);
+            setStatus('Digest saved!');
+            setTimeout(() => setStatus(''), 2000);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleSendNow = async () => {
+        setError(null);
+        setStatus('Building digest...');
+        try {
+            await window.electron.webhookDigest.sendNow(groupId);
+            setStatus('Digest Sent!');
+            setTimeout(() => setStatus(''), 2000);
+        } catch (e) {
+            setStatus('Send Failed');
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            <div>
+                <div style={{ color: 'white', fontWeight: 600, marginBottom: '0.25rem' }}>Digest</div>
+                <div style={{ color: 'var(--color-text-dim)', fontSize: '0.9rem' }}>
+                    Post one summary per hour or day with ban and kick counts, actions per module, top offenders, the busiest instances and new watchlist hits.
+                    {settings.enabled && lastSentAt ? ` Current period started ${new Date(lastSentAt).toLocaleString()}.` : ''}
+                </div>
+            </div>
+
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', fontSize: '0.85rem', color: 'var(--color-text-dim)' }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', color: 'white' }}>
+                    <input type="checkbox" checked={settings.enabled} onChange={e => update({ enabled: e.target.checked })} />
+                    Send a
+                </label>
+                <select style={inputStyle} value={settings.frequency} onChange={e => update({ frequency: e.target.value as DigestSettings['frequency'] })}>
+                    <option value="HOURLY">Hourly</option>
+                    <option value="DAILY">Daily</option>
+                </select>
+                <span>digest</span>
+                {settings.frequency === 'DAILY' && (
+                    <>
+                        <span>at</span>
+                        <select style={inputStyle} value={settings.hour} onChange={e => update({ hour: Number(e.target.value) })}>
+                            {HOURS.map(hour => <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>)}
+                        </select>
+                    </>
+                )}
+                <span>to</span>
+                <select style={inputStyle} value={settings.routeId || ''} onChange={e => update({ routeId: e.target.value || undefined })}>
+                    <option value="">Default webhook</option>
+                    {routes.map(route => <option key={route.id} value={route.id}>{route.name}</option>)}
+                </select>
+            </div>
+
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontSize: '0.85rem', color: 'var(--color-text-dim)' }}>
+                <input type="checkbox" checked={settings.digestOnly} onChange={e => update({ digestOnly: e.target.checked })} disabled={!settings.enabled} />
+                Digest only: stop posting individual ban, kick, AutoMod, Instance Guard and watchlist embeds to Discord (alerts that need a moderator, like strike limits and failed unbans, still post)
+            </label>
+
+            {error && (
+                <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                    {error}
+                </div>
+            )}
+
+            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '1rem', alignItems: 'center' }}>
+                {status && <span style={{ color: status.includes('Failed') ? 'var(--color-error)' : 'var(--color-success)', fontSize: '0.85rem' }}>{status}</span>}
+                <NeonButton variant="ghost" size="sm" onClick={handleSendNow}>Send Now</NeonButton>
+                <NeonButton variant="primary" size="sm" onClick={handleSave}>Save Digest</NeonButton>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { NeonButton } from '../../components/ui/NeonButton';
+import { WEBHOOK_CATEGORIES, WEBHOOK_CATEGORY_LABELS } from './webhookCategories';
+import type { WebhookEventCategory, WebhookEventType, WebhookRoute } from '../../types/electron';
+
+const SEVERITY_LABELS: Record<WebhookEventType, string> = {
+    INFO: 'Everything',
+    SUCCESS: 'Success and above',
+    WARNING: 'Warnings and errors',
+    ERROR: 'Errors only',
+};
+
+const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid var(--border-color)',
+    color: 'white',
+    borderRadius: '6px',
+    outline: 'none',
+    fontSize: '0.85rem',
+};
+
+interface WebhookRoutesSettingsProps {
+    groupId: string;
+}
+
+export const WebhookRoutesSettings: React.FC<WebhookRoutesSettingsProps> = ({ groupId }) => {
+    const [routes, setRoutes] = useState<WebhookRoute[]>([]);
+    const [savedIds, setSavedIds] = useState<string[]>([]);
+    const [status, setStatus] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        window.electron.webhook.getRoutes(groupId).then(loaded => {
+            setRoutes(loaded);
+            setSavedIds(loaded.map(r => r.id));
+        }).catch(e => console.error(e));
+    }, [groupId]);
+
+    const updateRoute = (id: string, patch: Partial<WebhookRoute>) => {
+        setRoutes(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+    };
+
+    const toggleCategory = (route: WebhookRoute, category: WebhookEventCategory) => {
+        updateRoute(route.id, {
+            categories: route.categories.includes(category)
+                ? route.categories.filter(c => c !== category)
+                : [...route.categories, category]
+        });
+    };
+
+    const handleAdd = () => {
+        setRoutes(prev => [...prev, {
+            id: crypto.randomUUID(),
+            name: `Route ${prev.length + 1}`,
+            url: '',
+            enabled: true,
+            categories: [],
+            minSeverity: 'INFO'
+        }]);
+    };
+
+    const handleSave = async () => {
+        setStatus('');
+        setError(null);
+        try {
+            const saved = await window.electron.webhook.setRoutes(groupId, routes);
+            setRoutes(saved);
+            setSavedIds(saved.map(r => r.id));
+            setStatus('Routes saved!');
+            setTimeout(() => setStatus(''), 2000);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleTest = async (route: WebhookRoute) => {
+        setStatus(`Testing ${route.name}...`);
+        try {
+            await window.electron.webhook.testRoute(groupId, route.id);
+            setStatus('Test Signal Sent!');
+            setTimeout(() => setStatus(''), 2000);
+        } catch (e) {
+            console.error(e);
+            setStatus('Test Failed');
+        }
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            <div>
+                <div style={{ color: 'white', fontWeight: 600, marginBottom: '0.25rem' }}>Routing</div>
+                <div style={{ color: 'var(--color-text-dim)', fontSize: '0.9rem' }}>
+                    Send event types to their own channels. Event types picked by a route no longer go to the default webhook, even while the route is switched off. Join/leave summaries are only sent to routes.
+                </div>
+            </div>
+
+            {routes.map(route => (
+                <div key={route.id} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', padding: '0.75rem', borderRadius: '8px', background: 'rgba(255,255,255,0.03)', border: '1px solid rgba(255,255,255,0.05)', opacity: route.enabled ? 1 : 0.6 }}>
+                    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                        <input
+                            type="checkbox"
+                            checked={route.enabled}
+                            onChange={e => updateRoute(route.id, { enabled: e.target.checked })}
+                            title={route.enabled ? 'Route is on' : 'Route is off'}
+                        />
+                        <input style={{ ...inputStyle, width: '160px' }} value={route.name} onChange={e => updateRoute(route.id, { name: e.target.value })} placeholder="Name" />
+                        <input
+                            type="password"
+                            style={{ ...inputStyle, flex: 1 }}
+                            value={route.url}
+                            onChange={e => updateRoute(route.id, { url: e.target.value })}
+                            placeholder="https://discord.com/api/webhooks/..."
+                        />
+                        <select
+                            style={inputStyle}
+                            value={route.minSeverity}
+                            onChange={e => updateRoute(route.id, { minSeverity: e.target.value as WebhookEventType })}
+                            title="Minimum severity"
+                        >
+                            {(Object.keys(SEVERITY_LABELS) as WebhookEventType[]).map(s => <option key={s} value={s}>{SEVERITY_LABELS[s]}</option>)}
+                        </select>
+                        <NeonButton variant="ghost" size="sm" onClick={() => handleTest(route)} disabled={!savedIds.includes(route.id)}>Test</NeonButton>
+                        <button
+                            onClick={() => setRoutes(prev => prev.filter(r => r.id !== route.id))}
+                            title="Remove route"
+                            style={{ background: 'none', border: 'none', color: 'var(--color-text-dim)', cursor: 'pointer', padding: '4px' }}
+                        >
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.4rem' }}>
+                        {WEBHOOK_CATEGORIES.map(category => {
+                            const active = route.categories.includes(category);
+                            return (
+                                <button
+                                    key={category}
+                                    onClick={() => toggleCategory(route, category)}
+                                    style={{
+                                        padding: '2px 10px',
+                                        borderRadius: '999px',
+                                        fontSize: '0.75rem',
+                                        cursor: 'pointer',
+                                        border: `1px solid ${active ? 'var(--color-primary)' : 'rgba(255,255,255,0.1)'}`,
+                                        background: active ? 'rgba(168, 85, 247, 0.15)' : 'transparent',
+                                        color: active ? 'white' : 'var(--color-text-dim)'
+                                    }}
+                                >
+                                    {WEBHOOK_CATEGORY_LABELS[category]}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            ))}
+
+            {error && (
+                <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                    {error}
+                </div>
+            )}
+
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <NeonButton variant="ghost" size="sm" onClick={handleAdd}>
+                    <Plus size={14} /> Add Route
+                </NeonButton>
+                <div style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
+                    {status && <span style={{ color: status.includes('Failed') ? 'var(--color-error)' : 'var(--color-success)', fontSize: '0.85rem' }}>{status}</span>}
+                    <NeonButton variant="primary" size="sm" onClick={handleSave}>Save Routes</NeonButton>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { NeonButton } from '../../components/ui/NeonButton';
+import { WEBHOOK_CATEGORIES, WEBHOOK_CATEGORY_LABELS } from './webhookCategories';
+import type { DiscordEmbedPreview, WebhookEmbedTemplate, WebhookEventCategory } from '../../types/electron';
+
+const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid var(--border-color)',
+    color: 'white',
+    borderRadius: '6px',
+    outline: 'none',
+    fontSize: '0.85rem',
+};
+
+const PLACEHOLDERS = [
+    '{{target.displayName}}', '{{target.id}}', '{{target.userIcon}}', '{{actor.displayName}}',
+    '{{rule.name}}', '{{world.name}}', '{{instance.id}}', '{{reason}}', '{{title}}', '{{description}}',
+    '{{severity}}', '{{formatDate timestamp "YYYY-MM-DD HH:mm"}}'
+];
+
+type Templates = Partial<Record<WebhookEventCategory, WebhookEmbedTemplate>>;
+
+const newTemplate = (): WebhookEmbedTemplate => ({
+    enabled: true,
+    title: '{{title}}',
+    description: '{{description}}',
+    color: '',
+    thumbnail: '{{target.userIcon}}',
+    fields: [],
+    includeEventFields: true
+});
+
+const EmbedPreview: React.FC<{ embed: DiscordEmbedPreview }> = ({ embed }) => (
+    <div style={{ display: 'flex', gap: '0.75rem', padding: '0.75rem', borderRadius: '4px', background: '#2b2d31', borderLeft: `4px solid #${(embed.color ?? 0x5865F2).toString(16).padStart(6, '0')}`, fontSize: '0.85rem' }}>
+        <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: '0.4rem' }}>
+            {embed.author && <div style={{ color: 'white', fontSize: '0.8rem', fontWeight: 600 }}>{embed.author.name}</div>}
+            <div style={{ color: 'white', fontWeight: 600 }}>{embed.title}</div>
+            {embed.description && <div style={{ color: '#dbdee1', whiteSpace: 'pre-wrap' }}>{embed.description}</div>}
+            {embed.fields && embed.fields.length > 0 && (
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+                    {embed.fields.map((field, i) => (
+                        <div key={i} style={{ flex: field.inline ? '1 1 30%' : '1 1 100%', minWidth: 0 }}>
+                            <div style={{ color: 'white', fontWeight: 600, fontSize: '0.8rem' }}>{field.name}</div>
+                            <div style={{ color: '#dbdee1', whiteSpace: 'pre-wrap', fontSize: '0.8rem' }}>{field.value}</div>
+                        </div>
+                    ))}
+                </div>
+            )}
+            {embed.footer && <div style={{ color: '#949ba4', fontSize: '0.75rem' }}>{embed.footer.text}</div>}
+        </div>
+        {embed.thumbnail && <img src={embed.thumbnail.url} alt="" style={{ width: '64px', height: '64px', objectFit: 'cover', borderRadius: '4px' }} />}
+    </div>
+);
+
+interface WebhookTemplateSettingsProps {
+    groupId: string;
+}
+
+export const WebhookTemplateSettings: React.FC<WebhookTemplateSettingsProps> = ({ groupId }) => {
+    const [templates, setTemplates] = useState<Templates>({});
+    const [category, setCategory] = useState<WebhookEventCategory>('BAN');
+    const [draft, setDraft] = useState<WebhookEmbedTemplate>(newTemplate);
+    const [preview, setPreview] = useState<DiscordEmbedPreview | null>(null);
+    const [status, setStatus] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        window.electron.webhook.getTemplates(groupId).then(loaded => {
+            setTemplates(loaded);
+            setCategory('BAN');
+            setDraft(loaded.BAN || newTemplate());
+            setPreview(null);
+        }).catch(e => console.error(e));
+    }, [groupId]);
+
+    const selectCategory = (next: WebhookEventCategory) => {
+        setCategory(next);
+        setDraft(templates[next] || newTemplate());
+        setPreview(null);
+        setError(null);
+    };
+
+    const update = (patch: Partial<WebhookEmbedTemplate>) => setDraft(prev => ({ ...prev, ...patch }));
+
+    const updateField = (index: number, patch: Partial<WebhookEmbedTemplate['fields'][number]>) => {
+        update({ fields: draft.fields.map((f, i) => i === index ? { ...f, ...patch } : f) });
+    };
+
+    const showStatus = (message: string) => {
+        setStatus(message);
+        setTimeout(() => setStatus(''), 2000);
+    };
+
+    const handlePreview = async () => {
+        setError(null);
+        try {
+            setPreview(await window.electron.webhook.previewTemplate(groupId, category, draft));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleSave = async () => {
+        setError(null);
+        try {
+            setTemplates(await window.electron.webhook.setTemplate(groupId, category, draft));
+            showStatus('Template saved!');
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleReset = async () => {
+        if (!confirm(`Go back to the default layout for ${WEBHOOK_CATEGORY_LABELS[category]}?`)) return;
+        setTemplates(await window.electron.webhook.setTemplate(groupId, category, null));
+        setDraft(newTemplate());
+        setPreview(null);
+        showStatus('Template removed');
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            <div>
+                <div style={{ color: 'white', fontWeight: 600, marginBottom: '0.25rem' }}>Embed Templates</div>
+                <div style={{ color: 'var(--color-text-dim)', fontSize: '0.9rem' }}>
+                    Customize the Discord embed for each event type. Uses the report template syntax, including {'{{#if}}'} and {'{{#each fields}}'} blocks.
+                </div>
+            </div>
+
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.4rem' }}>
+                {WEBHOOK_CATEGORIES.map(c => {
+                    const active = c === category;
+                    return (
+                        <button
+                            key={c}
+                            onClick={() => selectCategory(c)}
+                            style={{
+                                padding: '2px 10px',
+                                borderRadius: '999px',
+                                fontSize: '0.75rem',
+                                cursor: 'pointer',
+                                border: `1px solid ${active ? 'var(--color-primary)' : 'rgba(255,255,255,0.1)'}`,
+                                background: active ? 'rgba(168, 85, 247, 0.15)' : 'transparent',
+                                color: active ? 'white' : 'var(--color-text-dim)'
+                            }}
+                        >
+                            {WEBHOOK_CATEGORY_LABELS[c]}{templates[c]?.enabled ? ' •' : ''}
+                        </button>
+                    );
+                })}
+            </div>
+
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontSize: '0.85rem', color: 'white' }}>
+                <input type="checkbox" checked={draft.enabled} onChange={e => update({ enabled: e.target.checked })} />
+                Use this template for {WEBHOOK_CATEGORY_LABELS[category]}
+            </label>
+
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <input style={{ ...inputStyle, flex: 1 }} value={draft.title} onChange={e => update({ title: e.target.value })} placeholder="Title (empty keeps the default)" />
+                <input type="color" value={draft.color || '#5865f2'} onChange={e => update({ color: e.target.value })} title="Color" style={{ width: '40px', height: '34px', padding: 0, border: 'none', background: 'none', cursor: 'pointer' }} />
+                <input style={{ ...inputStyle, width: '100px' }} value={draft.color} onChange={e => update({ color: e.target.value })} placeholder="Severity" title="Empty uses the severity color" />
+            </div>
+            <textarea
+                style={{ ...inputStyle, minHeight: '80px', resize: 'vertical', fontFamily: 'monospace' }}
+                value={draft.description}
+                onChange={e => update({ description: e.target.value })}
+                placeholder="Description (empty keeps the default)"
+            />
+            <input style={inputStyle} value={draft.thumbnail} onChange={e => update({ thumbnail: e.target.value })} placeholder="Thumbnail URL, e.g. {{target.userIcon}}" />
+
+            {draft.fields.map((field, i) => (
+                <div key={i} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                    <input style={{ ...inputStyle, width: '160px' }} value={field.name} onChange={e => updateField(i, { name: e.target.value })} placeholder="Field name" />
+                    <input style={{ ...inputStyle, flex: 1 }} value={field.value} onChange={e => updateField(i, { value: e.target.value })} placeholder="Value, e.g. {{rule.name}}" />
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '0.3rem', fontSize: '0.8rem', color: 'var(--color-text-dim)' }}>
+                        <input type="checkbox" checked={field.inline} onChange={e => updateField(i, { inline: e.target.checked })} />
+                        Inline
+                    </label>
+                    <button
+                        onClick={() => update({ fields: draft.fields.filter((_, j) => j !== i) })}
+                        title="Remove field"
+                        style={{ background: 'none', border: 'none', color: 'var(--color-text-dim)', cursor: 'pointer', padding: '4px' }}
+                    >
+                        <Trash2 size={16} />
+                    </button>
+                </div>
+            ))}
+
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <NeonButton variant="ghost" size="sm" onClick={() => update({ fields: [...draft.fields, { name: '', value: '', inline: true }] })}>
+                    <Plus size={14} /> Add Field
+                </NeonButton>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontSize: '0.85rem', color: 'var(--color-text-dim)' }}>
+                    <input type="checkbox" checked={draft.includeEventFields} onChange={e => update({ includeEventFields: e.target.checked })} />
+                    Add the event's own fields after these
+                </label>
+            </div>
+
+            <div style={{ color: 'var(--color-text-dim)', fontSize: '0.75rem', fontFamily: 'monospace', lineHeight: 1.6 }}>
+                {PLACEHOLDERS.join('  ')}
+            </div>
+
+            {error && (
+                <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                    {error}
+                </div>
+            )}
+
+            {preview && <EmbedPreview embed={preview} />}
+
+            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '1rem', alignItems: 'center' }}>
+                {status && <span style={{ color: 'var(--color-success)', fontSize: '0.85rem' }}>{status}</span>}
+                {templates[category] && <NeonButton variant="ghost" size="sm" onClick={handleReset}>Reset to Default</NeonButton>}
+                <NeonButton variant="secondary" size="sm" onClick={handlePreview}>Preview</NeonButton>
+                <NeonButton variant="primary" size="sm" onClick={handleSave}>Save Template</NeonButton>
+            </div>
+        </div>
+    );
+};
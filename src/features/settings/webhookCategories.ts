@@ -0,0 +1,15 @@
+import type { WebhookEventCategory } from '../../types/electron';
+
+export const WEBHOOK_CATEGORY_LABELS: Record<WebhookEventCategory, string> = {
+    BAN: 'Bans',
+    KICK: 'Kicks',
+    AUTOMOD: 'AutoMod',
+    INSTANCE_GUARD: 'Instance Guard',
+    WATCHLIST: 'Watchlist Hits',
+    MEMBERSHIP: 'Join Requests & Roles',
+    JOIN_LEAVE: 'Join/Leave Summaries',
+    AUDIT: 'Audit Policies',
+    GENERAL: 'Other',
+};
+
+export const WEBHOOK_CATEGORIES = Object.keys(WEBHOOK_CATEGORY_LABELS) as WebhookEventCategory[];
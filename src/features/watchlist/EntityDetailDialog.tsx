@@ -4,6 +4,8 @@ import { GlassPanel } from '../../components/ui/GlassPanel';
 import { NeonButton } from '../../components/ui/NeonButton';
 import { Save, ShieldAlert, EyeOff, FileText, User, Users, Box } from 'lucide-react';
 import { ReportGeneratorDialog } from '../reports/ReportGeneratorDialog';
+import { EntityTimeline } from './components/EntityTimeline';
+import { EvidencePanel } from '../evidence/EvidencePanel';
 
 import type { WatchedEntity, ModerationTag } from './types';
 
@@ -246,6 +248,22 @@ export const EntityDetailDialog: React.FC<EntityDetailDialogProps> = ({
               />
             </div>
 
+            {/* Timeline */}
+            <div>
+              <label style={labelStyle}>Timeline</label>
+              <EntityTimeline entityId={entityId} />
+            </div>
+
+            {/* Evidence */}
+            <div>
+              <label style={labelStyle}>Evidence</label>
+              <EvidencePanel
+                subjectId={entityId}
+                subjectTypes={['WATCHLIST']}
+                targetUserId={entity.type === 'user' ? entityId : undefined}
+              />
+            </div>
+
             {/* Flags */}
             <div>
               <label style={labelStyle}>Flags</label>
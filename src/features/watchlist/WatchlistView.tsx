@@ -2,9 +2,11 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useConfirm } from '../../context/ConfirmationContext';
 import { GlassPanel } from '../../components/ui/GlassPanel';
 import { NeonButton } from '../../components/ui/NeonButton';
-import { Search, Plus, User, Users, Box, ShieldAlert, EyeOff, Edit, Trash, Tag, Filter, AlertTriangle, Settings } from 'lucide-react';
+import { Search, Plus, User, Users, Box, ShieldAlert, EyeOff, Edit, Trash, Tag, Filter, AlertTriangle, Settings, Upload, Download, Rss } from 'lucide-react';
 import { EntitySearchModal } from './dialogs/EntitySearchModal';
 import { TagManagerDialog } from './dialogs/TagManagerDialog';
+import { WatchlistImportDialog } from './dialogs/WatchlistImportDialog';
+import { WatchlistFeedsDialog } from './dialogs/WatchlistFeedsDialog';
 import { EntityDetailDialog } from './EntityDetailDialog';
 import type { WatchedEntity, ModerationTag } from './types';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -36,6 +38,8 @@ export const WatchlistView: React.FC = () => {
   
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isFeedsOpen, setIsFeedsOpen] = useState(false);
   
   useEffect(() => {
     loadData();
@@ -85,6 +89,16 @@ export const WatchlistView: React.FC = () => {
       setIsDetailOpen(true);
   };
 
+  const handleExport = async () => {
+      const json = await window.electron.watchlist.export();
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `watchlist-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+  };
+
   const handleCreate = () => {
       setIsAddModalOpen(true);
   };
@@ -206,9 +220,20 @@ export const WatchlistView: React.FC = () => {
                           />
                       </div>
                       
-                      <NeonButton onClick={handleCreate} size="sm" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
-                          <Plus size={16} /> Add
-                      </NeonButton>
+                      <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+                          <NeonButton onClick={() => setIsFeedsOpen(true)} size="sm" variant="ghost" title="Watchlist feeds">
+                              <Rss size={16} />
+                          </NeonButton>
+                          <NeonButton onClick={() => setIsImportOpen(true)} size="sm" variant="ghost" title="Import watchlist">
+                              <Upload size={16} />
+                          </NeonButton>
+                          <NeonButton onClick={handleExport} size="sm" variant="ghost" title="Export watchlist">
+                              <Download size={16} />
+                          </NeonButton>
+                          <NeonButton onClick={handleCreate} size="sm" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                              <Plus size={16} /> Add
+                          </NeonButton>
+                      </div>
                   </div>
                   
                   {/* Table Header */}
@@ -273,6 +298,11 @@ export const WatchlistView: React.FC = () => {
                                           <div style={{ fontSize: '0.65rem', color: 'var(--color-text-dim)', fontFamily: 'monospace' }}>
                                               {entity.id.substring(0, 30)}{entity.id.length > 30 ? '...' : ''}
                                           </div>
+                                          {entity.source && (
+                                              <div style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '0.65rem', color: 'var(--color-info)' }} title={`Synced ${new Date(entity.source.syncedAt).toLocaleString()}`}>
+                                                  <Rss size={10} /> {entity.source.feedName}
+                                              </div>
+                                          )}
                                       </div>
 
                                       {/* Type */}
@@ -341,14 +371,16 @@ export const WatchlistView: React.FC = () => {
                                           >
                                               <Edit size={12} />
                                           </NeonButton>
-                                          <NeonButton 
-                                              size="sm" 
-                                              variant="danger" 
-                                              onClick={(e) => handleDelete(entity.id, e)}
-                                              style={{ padding: '4px' }}
-                                          >
-                                              <Trash size={12} />
-                                          </NeonButton>
+                                          {!entity.source && (
+                                              <NeonButton 
+                                                  size="sm" 
+                                                  variant="danger" 
+                                                  onClick={(e) => handleDelete(entity.id, e)}
+                                                  style={{ padding: '4px' }}
+                                              >
+                                                  <Trash size={12} />
+                                              </NeonButton>
+                                          )}
                                       </div>
                                   </motion.div>
                               ))}
@@ -496,6 +528,16 @@ export const WatchlistView: React.FC = () => {
         onTagsChanged={loadData}
       />
 
+      <WatchlistImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+      />
+
+      <WatchlistFeedsDialog
+        open={isFeedsOpen}
+        onOpenChange={setIsFeedsOpen}
+      />
+
       <EntityDetailDialog 
         open={isDetailOpen} 
         onOpenChange={setIsDetailOpen}
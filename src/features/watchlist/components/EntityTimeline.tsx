@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { MessageSquare, Link2, Tag, Gauge, Flag, PlusCircle, Trash2, FileEdit } from 'lucide-react';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import type { WatchlistEvidenceRef, WatchlistTimelineEntry } from '../../../types/electron';
+
+interface EntityTimelineProps {
+    entityId: string;
+}
+
+interface EvidenceOption {
+    refId: string;
+    label: string;
+}
+
+const inputStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    background: 'rgba(0,0,0,0.4)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '6px',
+    color: 'white',
+    fontSize: '0.8rem',
+    outline: 'none',
+};
+
+const getEntryIcon = (type: WatchlistTimelineEntry['type']) => {
+    switch (type) {
+        case 'NOTE': return <MessageSquare size={14} />;
+        case 'EVIDENCE': return <Link2 size={14} />;
+        case 'TAGS': return <Tag size={14} />;
+        case 'PRIORITY': return <Gauge size={14} />;
+        case 'FLAGS': return <Flag size={14} />;
+        case 'CREATED': return <PlusCircle size={14} />;
+        case 'REMOVED': return <Trash2 size={14} />;
+        case 'NOTES_EDITED': return <FileEdit size={14} />;
+    }
+};
+
+const describeEntry = (entry: WatchlistTimelineEntry) => {
+    if (entry.type === 'EVIDENCE' && entry.evidence) {
+        if (entry.evidence.kind === 'LOCKER') return `Evidence attached: ${entry.evidence.label || entry.evidence.refId}`;
+        const kind = entry.evidence.kind === 'SESSION' ? 'Session' : 'AutoMod log';
+        return `${kind} ${entry.evidence.refId}${entry.evidence.label ? ` - ${entry.evidence.label}` : ''}`;
+    }
+    if (entry.type === 'NOTES_EDITED') return entry.text ? `Summary notes changed to: ${entry.text}` : 'Summary notes cleared';
+    return entry.text || '';
+};
+
+export const EntityTimeline: React.FC<EntityTimelineProps> = ({ entityId }) => {
+    const [entries, setEntries] = useState<WatchlistTimelineEntry[]>([]);
+    const [note, setNote] = useState('');
+    const [evidenceKind, setEvidenceKind] = useState<WatchlistEvidenceRef['kind']>('SESSION');
+    const [evidenceRef, setEvidenceRef] = useState('');
+    const [evidenceLabel, setEvidenceLabel] = useState('');
+    const [options, setOptions] = useState<EvidenceOption[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = () => window.electron.watchlist.getTimeline(entityId).then(setEntries);
+        load();
+        return window.electron.watchlist.onTimelineUpdated(data => {
+            if (data.entityId === entityId) load();
+        });
+    }, [entityId]);
+
+    // Suggest recent sessions, or AutoMod actions against this entity
+    useEffect(() => {
+        const loadOptions = async () => {
+            if (evidenceKind === 'SESSION') {
+                const sessions = await window.electron.database.getSessions() as { sessionId: string; worldName?: string; startTime: string }[];
+                setOptions(sessions.slice(0, 25).map(s => ({
+                    refId: s.sessionId,
+                    label: `${s.worldName || 'Unknown world'} · ${new Date(s.startTime).toLocaleString()}`
+                })));
+            } else {
+                const logs = await window.electron.automod.getHistory() as { id: string; userId: string; action: string; reason: string; timestamp: string }[];
+                setOptions(logs.filter(l => l.userId === entityId).slice(0, 25).map(l => ({
+                    refId: l.id,
+                    label: `${l.action} · ${new Date(l.timestamp).toLocaleString()} · ${l.reason}`
+                })));
+            }
+        };
+        loadOptions().catch(() => setOptions([]));
+    }, [evidenceKind, entityId]);
+
+    const run = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleAddNote = () => run(async () => {
+        await window.electron.watchlist.addNote(entityId, note);
+        setNote('');
+    });
+
+    const handleLinkEvidence = () => run(async () => {
+        await window.electron.watchlist.linkEvidence(entityId, { kind: evidenceKind, refId: evidenceRef, label: evidenceLabel });
+        setEvidenceRef('');
+        setEvidenceLabel('');
+    });
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <textarea
+                    value={note}
+                    onChange={e => setNote(e.target.value)}
+                    placeholder="Add a note for the next shift..."
+                    style={{ ...inputStyle, flex: 1, minHeight: '48px', resize: 'vertical' }}
+                />
+                <NeonButton size="sm" onClick={handleAddNote} disabled={!note.trim()}>Add Note</NeonButton>
+            </div>
+
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                <select style={inputStyle} value={evidenceKind} onChange={e => setEvidenceKind(e.target.value as WatchlistEvidenceRef['kind'])}>
+                    <option value="SESSION">Session</option>
+                    <option value="AUTOMOD_LOG">AutoMod log</option>
+                </select>
+                <input
+                    list={`evidence-options-${entityId}`}
+                    style={{ ...inputStyle, flex: 1 }}
+                    value={evidenceRef}
+                    onChange={e => setEvidenceRef(e.target.value)}
+                    placeholder={evidenceKind === 'SESSION' ? 'sess_...' : 'AutoMod log ID'}
+                />
+                <datalist id={`evidence-options-${entityId}`}>
+                    {options.map(o => <option key={o.refId} value={o.refId}>{o.label}</option>)}
+                </datalist>
+                <input style={{ ...inputStyle, width: '160px' }} value={evidenceLabel} onChange={e => setEvidenceLabel(e.target.value)} placeholder="Label (optional)" />
+                <NeonButton size="sm" variant="secondary" onClick={handleLinkEvidence} disabled={!evidenceRef.trim()}>Link</NeonButton>
+            </div>
+
+            {error && (
+                <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                    {error}
+                </div>
+            )}
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', maxHeight: '240px', overflowY: 'auto' }}>
+                {entries.length === 0 && (
+                    <div style={{ color: 'var(--color-text-dim)', fontSize: '0.8rem', fontStyle: 'italic' }}>No history yet.</div>
+                )}
+                {[...entries].reverse().map(entry => (
+                    <div key={entry.id} style={{ display: 'flex', gap: '0.75rem', padding: '0.5rem 0.75rem', background: 'rgba(255,255,255,0.03)', borderRadius: '6px', fontSize: '0.8rem' }}>
+                        <div style={{ color: entry.type === 'NOTE' ? 'var(--color-primary)' : 'var(--color-text-dim)', paddingTop: '2px' }}>
+                            {getEntryIcon(entry.type)}
+                        </div>
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                            <div style={{ color: 'white', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{describeEntry(entry)}</div>
+                            <div style={{ color: 'var(--color-text-dim)', fontSize: '0.7rem', marginTop: '2px' }}>
+                                {new Date(entry.timestamp).toLocaleString()} · {entry.authorName || entry.authorId || 'Unknown'}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
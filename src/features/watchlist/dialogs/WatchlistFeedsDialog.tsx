@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Modal } from '../../../components/ui/Modal';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import { useConfirm } from '../../../context/ConfirmationContext';
+import type { WatchlistFeed, WatchlistFeedChanges } from '../../../types/electron';
+
+interface WatchlistFeedsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: '0.8rem',
+};
+
+const emptyForm = { name: '', source: '', intervalMinutes: 60 };
+
+const ChangeList: React.FC<{ changes: WatchlistFeedChanges }> = ({ changes }) => {
+    const groups = [
+        { label: 'Added', items: changes.added, color: 'var(--color-success)' },
+        { label: 'Updated', items: changes.updated, color: 'var(--color-warning)' },
+        { label: 'Removed', items: changes.removed, color: 'var(--color-danger)' },
+    ].filter(g => g.items.length > 0);
+
+    if (groups.length === 0) {
+        return <div style={{ fontSize: '0.75rem', color: 'var(--color-text-dim)' }}>No changes since the previous sync.</div>;
+    }
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.75rem', maxHeight: '100px', overflowY: 'auto' }}>
+            {groups.map(g => (
+                <div key={g.label}>
+                    <span style={{ color: g.color, fontWeight: 600 }}>{g.label} ({g.items.length}): </span>
+                    <span style={{ color: 'var(--color-text-dim)' }}>{g.items.map(i => i.displayName).join(', ')}</span>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export const WatchlistFeedsDialog: React.FC<WatchlistFeedsDialogProps> = ({ open, onOpenChange }) => {
+    const [feeds, setFeeds] = useState<WatchlistFeed[]>([]);
+    const [form, setForm] = useState(emptyForm);
+    const [error, setError] = useState<string | null>(null);
+    const [syncing, setSyncing] = useState<string | null>(null);
+    const { confirm } = useConfirm();
+
+    useEffect(() => {
+        if (!open) return;
+        setError(null);
+        window.electron.watchlist.getFeeds().then(setFeeds);
+        return window.electron.watchlist.onFeedsUpdated(data => setFeeds(data.feeds));
+    }, [open]);
+
+    const run = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleAdd = () => run(async () => {
+        await window.electron.watchlist.saveFeed({ ...form, enabled: true });
+        setForm(emptyForm);
+    });
+
+    const handleToggle = (feed: WatchlistFeed) => run(() =>
+        window.electron.watchlist.saveFeed({ id: feed.id, name: feed.name, source: feed.source, intervalMinutes: feed.intervalMinutes, enabled: !feed.enabled })
+    );
+
+    const handleSync = (feed: WatchlistFeed) => run(async () => {
+        setSyncing(feed.id);
+        try {
+            await window.electron.watchlist.syncFeed(feed.id);
+        } finally {
+            setSyncing(null);
+        }
+    });
+
+    const handleDelete = async (feed: WatchlistFeed) => {
+        const confirmed = await confirm({
+            title: 'Remove Feed',
+            message: `Unsubscribe from "${feed.name}"? Its ${feed.entityCount} entities will be removed from the watchlist.`,
+            confirmLabel: 'Remove',
+            variant: 'danger'
+        });
+        if (confirmed) await run(() => window.electron.watchlist.deleteFeed(feed.id));
+    };
+
+    return (
+        <Modal
+            isOpen={open}
+            onClose={() => onOpenChange(false)}
+            title="Watchlist Feeds"
+            width="680px"
+        >
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', fontSize: '0.85rem' }}>
+                <div style={{ fontSize: '0.8rem', color: 'var(--color-text-dim)' }}>
+                    Subscribe to a watchlist another community publishes, as a URL or a local file in the export format. Feed entries are read-only and refreshed on the interval. Editing one saves a local copy that takes precedence.
+                </div>
+
+                {feeds.length === 0 && (
+                    <div style={{ padding: '1rem', textAlign: 'center', color: 'var(--color-text-dim)' }}>No feeds yet.</div>
+                )}
+
+                {feeds.map(feed => (
+                    <div key={feed.id} style={{ display: 'flex', flexDirection: 'column', gap: '0.4rem', padding: '0.75rem', background: 'rgba(255,255,255,0.03)', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.05)' }}>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                            <input type="checkbox" checked={feed.enabled} onChange={() => handleToggle(feed)} title="Enabled" />
+                            <div style={{ flex: 1, minWidth: 0 }}>
+                                <div style={{ fontWeight: 600 }}>{feed.name}</div>
+                                <div style={{ fontSize: '0.7rem', color: 'var(--color-text-dim)', fontFamily: 'monospace', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{feed.source}</div>
+                            </div>
+                            <NeonButton size="sm" variant="ghost" onClick={() => handleSync(feed)} disabled={!feed.enabled || syncing === feed.id} title="Sync now">
+                                <RefreshCw size={14} className={syncing === feed.id ? 'animate-spin' : undefined} />
+                            </NeonButton>
+                            <NeonButton size="sm" variant="ghost" onClick={() => handleDelete(feed)} title="Remove feed" style={{ color: 'var(--color-danger)' }}>
+                                <Trash2 size={14} />
+                            </NeonButton>
+                        </div>
+
+                        <div style={{ fontSize: '0.75rem', color: 'var(--color-text-dim)' }}>
+                            {feed.entityCount} entities · every {feed.intervalMinutes} min
+                            {feed.lastSyncAt && ` · synced ${new Date(feed.lastSyncAt).toLocaleString()}`}
+                            {feed.rejectedRows > 0 && ` · ${feed.rejectedRows} malformed rows skipped`}
+                        </div>
+                        {feed.lastError && (
+                            <div style={{ fontSize: '0.75rem', color: '#fca5a5' }}>Last sync failed: {feed.lastError}</div>
+                        )}
+                        {feed.enabled && feed.lastChanges && <ChangeList changes={feed.lastChanges} />}
+                    </div>
+                ))}
+
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                    <input style={{ ...inputStyle, width: '140px' }} placeholder="Name" value={form.name} onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))} />
+                    <input style={{ ...inputStyle, flex: 1 }} placeholder="https://... or C:\path\watchlist.json" value={form.source} onChange={e => setForm(prev => ({ ...prev, source: e.target.value }))} />
+                    <input
+                        type="number"
+                        min={5}
+                        style={{ ...inputStyle, width: '60px' }}
+                        title="Sync interval (minutes)"
+                        value={form.intervalMinutes}
+                        onChange={e => setForm(prev => ({ ...prev, intervalMinutes: Number(e.target.value) }))}
+                    />
+                    <NeonButton size="sm" onClick={handleAdd} disabled={!form.name.trim() || !form.source.trim()}>
+                        <Plus size={14} /> Subscribe
+                    </NeonButton>
+                </div>
+
+                {error && (
+                    <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                        {error}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Modal } from '../../../components/ui/Modal';
+import { NeonButton } from '../../../components/ui/NeonButton';
+import { useNotificationStore } from '../../../stores/notificationStore';
+import type { WatchlistImportMode, WatchlistImportPreview } from '../../../types/electron';
+
+interface WatchlistImportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+const MODES: { value: WatchlistImportMode; label: string; hint: string }[] = [
+    { value: 'MERGE_KEEP_OURS', label: 'Merge, keep ours', hint: 'Adds new entries. Entries we already track are left alone.' },
+    { value: 'MERGE_KEEP_THEIRS', label: 'Merge, keep theirs', hint: 'Adds new entries and overwrites ours where the file differs.' },
+    { value: 'MERGE_NEWEST', label: 'Merge, newest wins', hint: 'Adds new entries. Conflicts go to whichever side was updated last.' },
+    { value: 'REPLACE', label: 'Replace', hint: 'The file becomes the whole watchlist. Entries not in it are removed.' },
+];
+
+const inputStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '4px',
+    color: 'white',
+    fontSize: '0.8rem',
+};
+
+const listStyle: React.CSSProperties = {
+    margin: 0,
+    padding: '0.5rem 0.75rem',
+    listStyle: 'none',
+    background: 'rgba(255,255,255,0.03)',
+    borderRadius: '6px',
+    maxHeight: '120px',
+    overflowY: 'auto',
+    fontSize: '0.75rem',
+};
+
+const Section: React.FC<{ title: string; count: number; color: string; children: React.ReactNode }> = ({ title, count, color, children }) => {
+    if (count === 0) return null;
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+            <div style={{ fontSize: '0.8rem', fontWeight: 600, color }}>{title} ({count})</div>
+            <ul style={listStyle}>{children}</ul>
+        </div>
+    );
+};
+
+export const WatchlistImportDialog: React.FC<WatchlistImportDialogProps> = ({ open, onOpenChange }) => {
+    const [json, setJson] = useState('');
+    const [mode, setMode] = useState<WatchlistImportMode>('MERGE_KEEP_OURS');
+    const [preview, setPreview] = useState<WatchlistImportPreview | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [importing, setImporting] = useState(false);
+    const { addNotification } = useNotificationStore();
+
+    useEffect(() => {
+        if (open) {
+            setJson('');
+            setPreview(null);
+            setError(null);
+        }
+    }, [open]);
+
+    // Re-plan whenever the input or mode changes so the preview always matches what Import does
+    useEffect(() => {
+        if (!json.trim()) {
+            setPreview(null);
+            setError(null);
+            return;
+        }
+        let cancelled = false;
+        window.electron.watchlist.previewImport(json, mode)
+            .then(result => {
+                if (cancelled) return;
+                setPreview(result);
+                setError(null);
+            })
+            .catch(e => {
+                if (cancelled) return;
+                setPreview(null);
+                setError(e instanceof Error ? e.message : String(e));
+            });
+        return () => { cancelled = true; };
+    }, [json, mode]);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) setJson(await file.text());
+        e.target.value = '';
+    };
+
+    const handleImport = async () => {
+        setImporting(true);
+        try {
+            const result = await window.electron.watchlist.import(json, mode);
+            addNotification({
+                type: result.errors.length > 0 ? 'warning' : 'success',
+                title: 'Watchlist Imported',
+                message: `${result.adds.length} added, ${result.changes.length} updated${result.removals.length > 0 ? `, ${result.removals.length} removed` : ''}${result.errors.length > 0 ? `, ${result.errors.length} rows rejected` : ''}.`
+            });
+            onOpenChange(false);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const hasWork = !!preview && !preview.blocked && (preview.adds.length + preview.changes.length + preview.removals.length + preview.tagsAdded + preview.tagsUpdated) > 0;
+
+    return (
+        <Modal
+            isOpen={open}
+            onClose={() => onOpenChange(false)}
+            title="Import Watchlist"
+            width="640px"
+            footer={
+                <>
+                    <NeonButton variant="ghost" size="sm" onClick={() => onOpenChange(false)}>Cancel</NeonButton>
+                    <NeonButton variant="primary" size="sm" onClick={handleImport} disabled={!hasWork || importing}>Import</NeonButton>
+                </>
+            }
+        >
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', fontSize: '0.85rem' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                    <label style={{ ...inputStyle, display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}>
+                        <Upload size={14} /> Choose file
+                        <input type="file" accept=".json,application/json" onChange={handleFile} style={{ display: 'none' }} />
+                    </label>
+                    <span style={{ color: 'var(--color-text-dim)', fontSize: '0.8rem' }}>or paste an exported watchlist below</span>
+                </div>
+
+                <textarea
+                    value={json}
+                    onChange={e => setJson(e.target.value)}
+                    placeholder='{ "entities": { ... }, "tags": [ ... ] }'
+                    style={{ ...inputStyle, minHeight: '100px', fontFamily: 'monospace', resize: 'vertical' }}
+                />
+
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                    Mode
+                    <select style={inputStyle} value={mode} onChange={e => setMode(e.target.value as WatchlistImportMode)}>
+                        {MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                    </select>
+                    <span style={{ color: 'var(--color-text-dim)', fontSize: '0.75rem' }}>{MODES.find(m => m.value === mode)?.hint}</span>
+                </label>
+
+                {preview && (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                        <div style={{ fontSize: '0.8rem', color: 'var(--color-text-dim)' }}>
+                            {preview.adds.length} new, {preview.changes.length} updated, {preview.unchanged} unchanged
+                            {preview.removals.length > 0 && `, ${preview.removals.length} removed`}
+                            {(preview.tagsAdded > 0 || preview.tagsUpdated > 0) && ` · tags: ${preview.tagsAdded} new, ${preview.tagsUpdated} updated`}
+                        </div>
+
+                        <Section title="New" count={preview.adds.length} color="var(--color-success)">
+                            {preview.adds.map(a => <li key={a.id}>{a.displayName} <span style={{ opacity: 0.5 }}>{a.id}</span></li>)}
+                        </Section>
+                        <Section title="Conflicts" count={preview.conflicts.length} color="var(--color-warning)">
+                            {preview.conflicts.map(c => (
+                                <li key={c.id}>
+                                    {c.displayName} <span style={{ opacity: 0.5 }}>{c.fields.join(', ')}</span>
+                                    <span style={{ float: 'right', color: c.resolution === 'theirs' ? 'var(--color-warning)' : 'var(--color-text-dim)' }}>
+                                        {c.resolution === 'theirs' ? 'overwrite' : 'keep ours'}
+                                    </span>
+                                </li>
+                            ))}
+                        </Section>
+                        <Section title="Removed" count={preview.removals.length} color="var(--color-danger)">
+                            {preview.removals.map(r => <li key={r.id}>{r.displayName} <span style={{ opacity: 0.5 }}>{r.id}</span></li>)}
+                        </Section>
+                        <Section title="Rejected rows" count={preview.errors.length} color="var(--color-danger)">
+                            {preview.errors.map(e => (
+                                <li key={e.row}>Row {e.row + 1}{e.id ? ` (${e.id})` : ''}: {e.errors.join(', ')}</li>
+                            ))}
+                        </Section>
+
+                        {preview.blocked && (
+                            <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                                {preview.blocked}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {error && (
+                    <div style={{ padding: '0.5rem', borderRadius: '6px', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', fontSize: '0.8rem' }}>
+                        {error}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
@@ -8,6 +8,7 @@ export interface WatchedEntity {
   critical: boolean;
   silent: boolean;
   updatedAt?: number;
+  source?: { feedId: string; feedName: string; syncedAt: number };
 }
 
 export interface ModerationTag {
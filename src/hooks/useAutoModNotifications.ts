@@ -24,10 +24,11 @@ export const useAutoModNotifications = () => {
             }
 
             // Show Toast
+            const isWatchlistHit = data.action === 'WATCHLIST';
             addNotification({
                 type: 'automod',
-                title: 'AutoMod Triggered',
-                message: `${data.displayName} was ${data.action} due to ${data.reason}`,
+                title: isWatchlistHit ? 'Watchlist Hit' : 'AutoMod Triggered',
+                message: isWatchlistHit ? data.reason : `${data.displayName} was ${data.action} due to ${data.reason}`,
                 duration: 8000 // Slightly longer for automod alerts
             });
 
@@ -35,7 +36,7 @@ export const useAutoModNotifications = () => {
             useAutoModAlertStore.getState().addAlert({
                 userId: data.userId,
                 displayName: data.displayName,
-                action: data.action as 'REJECT' | 'AUTO_BLOCK',
+                action: data.action as 'REJECT' | 'AUTO_BLOCK' | 'WATCHLIST',
                 reason: data.reason,
             });
         });
@@ -4,7 +4,7 @@ export interface AutoModViolation {
   id: string; // unique ID
   userId: string;
   displayName: string;
-  action: 'REJECT' | 'AUTO_BLOCK';
+  action: 'REJECT' | 'AUTO_BLOCK' | 'WATCHLIST';
   reason: string;
   timestamp: number;
   skipped?: boolean;
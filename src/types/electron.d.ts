@@ -112,6 +112,43 @@ export interface AuditLogsResult {
   error?: string;
 }
 
+// Filters for the local audit log archive, dates are epoch milliseconds
+export interface AuditArchiveQuery {
+  actor?: string;
+  target?: string;
+  eventType?: string;
+  from?: number;
+  to?: number;
+  text?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditArchiveEntry {
+  id: string;
+  groupId: string;
+  createdAt: string | Date;
+  eventType: string;
+  actorId?: string | null;
+  actorDisplayName?: string | null;
+  targetId?: string | null;
+  targetDisplayName?: string | null;
+  description?: string | null;
+  data?: string | null;
+}
+
+export interface AuditSyncStatus {
+  groupId?: string;
+  syncing: boolean;
+  lastSyncAt?: number;
+  backfillComplete: boolean;
+  backfillOffset: number;
+  lastError?: string;
+  archived?: number; // New entries in the current/last run
+  count?: number;
+  oldest?: number;
+}
+
 export interface GroupMember {
   id: string; // "gmem_..."
   groupId: string;
@@ -243,19 +280,134 @@ export interface AutoModRule {
   id: number;
   name: string;
   enabled: boolean;
-  type: 'AGE_CHECK' | 'TRUST_CHECK' | 'KEYWORD_BLOCK' | 'WHITELIST_CHECK' | 'BAN_EVASION_CHECK' | 'AGE_VERIFICATION' | 'BLACKLISTED_GROUPS' | 'INSTANCE_18_GUARD' | 'INSTANCE_PERMISSION_GUARD' | 'CLOSE_ALL_INSTANCES';
+  type: 'AGE_CHECK' | 'TRUST_CHECK' | 'KEYWORD_BLOCK' | 'WHITELIST_CHECK' | 'BAN_EVASION_CHECK' | 'AGE_VERIFICATION' | 'BLACKLISTED_GROUPS' | 'INSTANCE_18_GUARD' | 'INSTANCE_PERMISSION_GUARD' | 'CLOSE_ALL_INSTANCES' | 'INSTANCE_SCHEDULE' | 'INSTANCE_POPULATION' | 'INSTANCE_CLOSE_GRACE' | 'AUDIT_POLICIES' | 'COMPOSITE';
   config: string;
   actionType: 'REJECT' | 'AUTO_BLOCK' | 'NOTIFY_ONLY';
   createdAt?: string;
+  shadow?: boolean;
   whitelistedUserIds?: string[];
   whitelistedGroupIds?: string[];
 }
 
+// Condition tree stored in the config of COMPOSITE rules
+export type TrustRank = 'visitor' | 'basic' | 'known' | 'trusted' | 'veteran' | 'legend';
+export type KeywordField = 'displayName' | 'bio' | 'status' | 'pronouns';
+export type KeywordMatchMode = 'PARTIAL' | 'WHOLE_WORD' | 'REGEX' | 'NORMALIZED';
+
+export type RuleCondition =
+  | { op: 'AND'; conditions: RuleCondition[] }
+  | { op: 'OR'; conditions: RuleCondition[] }
+  | { op: 'NOT'; condition: RuleCondition }
+  | { op: 'TRUST_BELOW'; rank: TrustRank }
+  | { op: 'AGE_UNVERIFIED' }
+  | { op: 'KEYWORD'; keywords: string[]; fields: KeywordField[]; matchMode?: KeywordMatchMode }
+  | { op: 'IN_GROUP'; groupIds: string[] };
+
+// Shadow rule verdicts compared against live verdicts
+export interface ShadowReportUser {
+  userId: string;
+  displayName: string;
+  timestamp: string;
+  reason: string;
+  liveAction?: string;
+}
+
+export interface ShadowRuleReport {
+  ruleId: number;
+  ruleName: string;
+  shadowHits: number;
+  agreed: number;
+  shadowOnly: ShadowReportUser[];
+  liveOnly: ShadowReportUser[];
+}
+
+export interface ShadowReport {
+  groupId: string;
+  since: string;
+  rules: ShadowRuleReport[];
+}
+
+// Draft rule replay against stored users
+export interface BacktestVerdict {
+  action: 'ALLOW' | 'REJECT' | 'AUTO_BLOCK' | 'NOTIFY_ONLY';
+  ruleName?: string;
+  reason?: string;
+}
+
+export interface BacktestChange {
+  userId: string;
+  displayName: string;
+  source: 'SCANNED_USER' | 'AUTOMOD_LOG';
+  change: 'NEWLY_REJECTED' | 'NEWLY_ALLOWED' | 'RULE_CHANGED';
+  before: BacktestVerdict;
+  after: BacktestVerdict;
+}
+
+export interface BacktestResult {
+  evaluated: number;
+  profilesMissing: number;
+  changes: BacktestChange[];
+}
+
+// Scheduled unban for a temporary group ban
+export interface TempBan {
+  groupId: string;
+  userId: string;
+  displayName?: string;
+  reason?: string;
+  bannedAt: number;
+  expiresAt: number;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: number;
+  failed?: boolean;
+}
+
+// Strike ladder
+export type StrikeSource = 'AUTOMOD' | 'KICK' | 'VOTE_KICK' | 'FLAG';
+
+export interface StrikeThreshold {
+  id: string;
+  points: number;
+  windowDays: number; // 0 = all strikes, fires once per user
+  action: 'BAN' | 'NOTIFY';
+}
+
+export interface StrikePolicy {
+  enabled: boolean;
+  points: Record<StrikeSource, number>;
+  decayDays: number;
+  thresholds: StrikeThreshold[];
+}
+
+export interface Strike {
+  id: string;
+  source: StrikeSource;
+  action: string;
+  reason: string;
+  points: number;
+  timestamp: number;
+}
+
+export interface StrikeRecord {
+  userId: string;
+  displayName: string;
+  strikes: Strike[];
+}
+
+export interface StrikeSummary {
+  userId: string;
+  displayName: string;
+  activePoints: number;
+  strikeCount: number;
+  lastStrikeAt: number;
+}
+
 // Instance Guard event type
 export interface InstanceGuardEvent {
   id: string;
   timestamp: number;
-  action: 'OPENED' | 'CLOSED' | 'AUTO_CLOSED' | 'INSTANCE_CLOSED';
+  action: 'OPENED' | 'CLOSED' | 'AUTO_CLOSED' | 'INSTANCE_CLOSED' | 'WARNED' | 'PENDING_CLOSE';
   worldId: string;
   worldName: string;
   instanceId: string;
@@ -273,6 +425,73 @@ export interface InstanceGuardEvent {
   worldCapacity?: number;
 }
 
+// Time-windowed world policy stored in the INSTANCE_SCHEDULE rule config
+export interface InstanceGuardSchedule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  days: number[]; // 0 = Sunday
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  timezone: string;
+  policy: 'ALLOW_ONLY' | 'DENY';
+  worlds: string[];
+}
+
+// User count / capacity rule stored in the INSTANCE_POPULATION rule config
+export interface InstancePopulationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  metric: 'USERS' | 'CAPACITY_PERCENT';
+  operator: 'LT' | 'GTE';
+  value: number;
+  minAgeMinutes: number;
+  accessTypes: string[]; // public, plus, members; empty = all
+  regions: string[]; // us, use, eu, jp; empty = all
+  action: 'CLOSE' | 'WARN';
+}
+
+// Permission Guard audit log policy stored in the AUDIT_POLICIES rule config
+export type AuditPolicyEvent = 'ROLE_ASSIGN' | 'MEMBER_REMOVE' | 'BAN' | 'SETTINGS_EDIT';
+
+export interface AuditPolicy {
+  id: string;
+  name: string;
+  enabled: boolean;
+  createdAt: number;
+  events: AuditPolicyEvent[];
+  exemptOwner: boolean;
+  exemptSelf: boolean;
+  exemptActorIds: string[];
+  rolePermissions: string[];
+  officeHours: { days: number[]; startTime: string; endTime: string; timezone: string } | null;
+  action: 'ALERT' | 'REVERT';
+}
+
+// Instance Guard close waiting out the INSTANCE_CLOSE_GRACE period
+export interface PendingClose {
+  key: string; // groupId:worldId:instanceId
+  groupId: string;
+  worldId: string;
+  worldName: string;
+  instanceId: string;
+  ownerId?: string;
+  ownerName?: string;
+  reason: string;
+  createdAt: number;
+  closeAt: number;
+}
+
+// Filters and paging for the persisted Instance Guard history
+export interface InstanceGuardHistoryQuery {
+  world?: string;
+  owner?: string;
+  actions?: InstanceGuardEvent['action'][];
+  limit?: number;
+  offset?: number;
+}
+
 // Type for Live Entity (used in instance monitoring)
 export interface LiveEntity {
   id: string;
@@ -389,6 +608,151 @@ export interface OscConfig {
   suppressChatboxSounds: boolean;
 }
 
+export type CaseStatus = 'OPEN' | 'INVESTIGATING' | 'ACTIONED' | 'CLOSED';
+export type CaseSourceType = 'AUTOMOD' | 'WATCHLIST' | 'VOTE_KICK' | 'MANUAL';
+
+export interface CaseTarget {
+  userId?: string;
+  displayName: string;
+}
+
+export interface CaseActivity {
+  id: string;
+  type: 'OPENED' | 'SOURCE' | 'STATUS' | 'ASSIGNED' | 'COMMENT' | 'ACTION' | 'EVIDENCE' | 'REPORT';
+  text: string;
+  timestamp: number;
+  authorId?: string;
+  authorName?: string;
+}
+
+export interface ModerationCase {
+  id: string;
+  number: number;
+  groupId: string;
+  title: string;
+  status: CaseStatus;
+  target?: CaseTarget;
+  assignee?: { id: string; displayName: string };
+  sources: { type: CaseSourceType; refId?: string; summary: string; timestamp: number }[];
+  evidenceIds: string[];
+  reports: { id: string; templateName: string; content: string; createdAt: number; authorName?: string }[];
+  activity: CaseActivity[];
+  createdAt: number;
+  updatedAt: number;
+  closedAt?: number;
+}
+
+export interface CaseSettings {
+  autoOpen: Record<Exclude<CaseSourceType, 'MANUAL'>, boolean>;
+}
+
+export type ReportFormat = 'markdown' | 'text' | 'html' | 'discord';
+
+export type WebhookEventType = 'SUCCESS' | 'WARNING' | 'ERROR' | 'INFO';
+export type WebhookEventCategory = 'BAN' | 'KICK' | 'AUTOMOD' | 'INSTANCE_GUARD' | 'WATCHLIST' | 'MEMBERSHIP' | 'JOIN_LEAVE' | 'AUDIT' | 'GENERAL';
+
+export interface GenericWebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  enabled: boolean;
+  categories: WebhookEventCategory[];
+  createdAt: number;
+}
+
+export interface WebhookDigestSettings {
+  enabled: boolean;
+  frequency: 'HOURLY' | 'DAILY';
+  hour: number;
+  routeId?: string;
+  digestOnly: boolean;
+}
+
+export interface QueuedWebhook {
+  id: string;
+  kind: string;
+  groupId: string;
+  routeId?: string;
+  destinationLabel: string;
+  title: string;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  failedAt?: number;
+}
+
+export interface WebhookRoute {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  categories: WebhookEventCategory[];
+  minSeverity: WebhookEventType;
+}
+
+export interface WebhookEmbedTemplate {
+  enabled: boolean;
+  title: string;
+  description: string;
+  color: string;
+  thumbnail: string;
+  fields: { name: string; value: string; inline: boolean }[];
+  includeEventFields: boolean;
+}
+
+export interface DiscordEmbedPreview {
+  title: string;
+  description?: string;
+  color?: number;
+  thumbnail?: { url: string };
+  author?: { name: string; icon_url?: string };
+  fields?: { name: string; value: string; inline?: boolean }[];
+  footer?: { text: string };
+  timestamp?: string;
+}
+
+export type EvidenceSubjectType = 'BAN' | 'KICK' | 'FLAG' | 'WATCHLIST';
+
+export interface EvidenceSubject {
+  type: EvidenceSubjectType;
+  id: string; // Target user ID, or the entity ID for watchlist entries
+  targetUserId?: string;
+  groupId?: string;
+}
+
+export interface EvidenceItem {
+  id: string;
+  groupId?: string;
+  subjectType: EvidenceSubjectType;
+  subjectId: string;
+  targetUserId?: string;
+  kind: 'FILE' | 'LOG_EXCERPT';
+  label: string;
+  fileName?: string;
+  storedName?: string;
+  sha256?: string;
+  size?: number;
+  excerpt?: { timestamp: string; type: string; text: string }[];
+  sessionId?: string;
+  createdById?: string;
+  createdByName?: string;
+  createdAt: string;
+}
+
+export type PlayerFlagSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface PlayerFlagDefinition {
+  id: string; // slug-style id
+  label: string;
+  description: string;
+  type: 'negative' | 'positive';
+  severity: PlayerFlagSeverity;
+  color: string; // Hex color
+  autoAction?: 'NONE' | 'KICK' | 'EXEMPT_AUTOMOD';
+}
+
 export interface WatchedEntity {
   id: string; // usr_..., grp_...
   type: 'user' | 'group' | 'avatar' | 'world';
@@ -400,6 +764,7 @@ export interface WatchedEntity {
   silent: boolean; // Flag for no notification
   createdAt?: number;
   updatedAt?: number;
+  source?: { feedId: string; feedName: string; syncedAt: number }; // Read-only entry from a subscribed feed
 }
 
 export interface ModerationTag {
@@ -409,6 +774,64 @@ export interface ModerationTag {
   color?: string; // Hex color
 }
 
+export type WatchlistImportMode = 'REPLACE' | 'MERGE_KEEP_OURS' | 'MERGE_KEEP_THEIRS' | 'MERGE_NEWEST';
+
+export interface WatchlistImportChange {
+  id: string;
+  displayName: string;
+  fields: string[];
+  resolution: 'ours' | 'theirs';
+}
+
+export interface WatchlistImportPreview {
+  mode: WatchlistImportMode;
+  adds: { id: string; displayName: string }[];
+  changes: WatchlistImportChange[];
+  conflicts: WatchlistImportChange[];
+  removals: { id: string; displayName: string }[];
+  unchanged: number;
+  tagsAdded: number;
+  tagsUpdated: number;
+  errors: { row: number; id?: string; errors: string[] }[];
+  blocked: string | null;
+}
+
+export interface WatchlistEvidenceRef {
+  kind: 'SESSION' | 'AUTOMOD_LOG' | 'LOCKER';
+  refId: string;
+  label?: string;
+}
+
+export interface WatchlistTimelineEntry {
+  id: string;
+  entityId: string;
+  timestamp: number;
+  type: 'CREATED' | 'NOTE' | 'NOTES_EDITED' | 'TAGS' | 'PRIORITY' | 'FLAGS' | 'EVIDENCE' | 'REMOVED';
+  authorId?: string;
+  authorName?: string;
+  text?: string;
+  evidence?: WatchlistEvidenceRef;
+}
+
+export interface WatchlistFeedChanges {
+  added: { id: string; displayName: string }[];
+  updated: { id: string; displayName: string }[];
+  removed: { id: string; displayName: string }[];
+}
+
+export interface WatchlistFeed {
+  id: string;
+  name: string;
+  source: string;
+  enabled: boolean;
+  intervalMinutes: number;
+  lastSyncAt?: number;
+  lastError?: string;
+  entityCount: number;
+  rejectedRows: number;
+  lastChanges?: WatchlistFeedChanges;
+}
+
 export interface GroupAnnouncementConfig {
   greetingEnabled: boolean;
   greetingMessage: string;
@@ -470,7 +893,7 @@ export interface ElectronAPI {
   onGroupsUpdated: (callback: (data: { groups: any[] }) => void) => () => void;
   onGroupsCacheReady: (callback: (data: { groupIds: string[] }) => void) => () => void;
   onGroupVerified: (callback: (data: { group: any }) => void) => () => void;
-  banUser: (groupId: string, userId: string) => Promise<{ success: boolean; error?: string }>;
+  banUser: (groupId: string, userId: string, options?: { durationMs?: number; displayName?: string }) => Promise<{ success: boolean; error?: string }>;
   unbanUser: (groupId: string, userId: string) => Promise<{ success: boolean; error?: string }>;
 
   // Role Management
@@ -481,6 +904,13 @@ export interface ElectronAPI {
   // Audit API
   getGroupAuditLogs: (groupId: string) => Promise<AuditLogsResult>;
 
+  auditArchive: {
+    search: (groupId: string, query: AuditArchiveQuery) => Promise<{ entries: AuditArchiveEntry[]; total: number }>;
+    sync: (groupId: string) => Promise<AuditSyncStatus>;
+    getSyncStatus: (groupId: string) => Promise<AuditSyncStatus>;
+    onSyncStatus: (callback: (data: AuditSyncStatus) => void) => () => void;
+  };
+
   // Worlds API
   getWorld: (worldId: string) => Promise<{ success: boolean; world?: { id: string; name: string; capacity?: number; imageUrl?: string; authorName?: string }; error?: string }>;
 
@@ -592,8 +1022,9 @@ export interface ElectronAPI {
     getRules: (groupId: string) => Promise<AutoModRule[]>;
     saveRule: (rule: AutoModRule, groupId: string) => Promise<AutoModRule>;
     deleteRule: (ruleId: number, groupId: string) => Promise<boolean>;
-    checkUser: (user: AutoModUserInput, groupId: string) => Promise<{ action: 'ALLOW' | 'REJECT' | 'AUTO_BLOCK' | 'NOTIFY_ONLY'; reason?: string; ruleName?: string }>;
-    onViolation: (callback: (data: { displayName: string; userId: string; action: string; reason: string; ruleId?: number; detectedGroupId?: string }) => void) => () => void;
+    validateKeywords: (keywords: string[], matchMode: KeywordMatchMode) => Promise<{ keyword: string; error: string }[]>;
+    checkUser: (user: AutoModUserInput, groupId: string) => Promise<{ action: 'ALLOW' | 'REJECT' | 'AUTO_BLOCK' | 'NOTIFY_ONLY'; reason?: string; ruleName?: string; matchedConditions?: string[] }>;
+    onViolation: (callback: (data: { displayName: string; userId: string; action: string; reason: string; ruleId?: number; detectedGroupId?: string; matchedConditions?: string[] }) => void) => () => void;
     testNotification: (groupId: string) => Promise<boolean>;
     addToWhitelist: (groupId: string, ruleId: number, target: { userId?: string; groupId?: string }) => Promise<boolean>;
     getWhitelistedEntities: (groupId: string) => Promise<{ users: { id: string; name: string; rules: string[] }[]; groups: { id: string; name: string; rules: string[] }[] }>;
@@ -607,12 +1038,18 @@ export interface ElectronAPI {
     scanGroupMembers: (groupId: string) => Promise<{ success: boolean; results?: ScanResult[]; error?: string }>;
     fetchMembers: (groupId: string) => Promise<{ success: boolean; members: { user: VRChatUser }[]; error?: string }>;
     evaluateMember: (args: { groupId: string; member: { user: VRChatUser } }) => Promise<ScanResult>;
+    getShadowReport: (groupId: string, windowHours: number) => Promise<ShadowReport>;
+    backtest: (groupId: string, rules: AutoModRule[]) => Promise<{ success: boolean; error?: string } & Partial<BacktestResult>>;
   };
 
   // Instance Guard API
   instanceGuard?: {
-    getHistory: (groupId: string) => Promise<InstanceGuardEvent[]>;
-    clearHistory: () => Promise<boolean>;
+    getHistory: (groupId: string, query?: InstanceGuardHistoryQuery) => Promise<{ events: InstanceGuardEvent[]; total: number }>;
+    clearHistory: (groupId: string) => Promise<boolean>;
+    validateSchedules: (schedules: InstanceGuardSchedule[]) => Promise<string[]>;
+    getPendingCloses: (groupId: string) => Promise<PendingClose[]>;
+    cancelPendingClose: (groupId: string, key: string) => Promise<boolean>;
+    onPendingUpdated: (callback: (data: PendingClose[]) => void) => () => void;
     onEvent: (callback: (data: InstanceGuardEvent) => void) => () => void;
   };
 
@@ -629,7 +1066,30 @@ export interface ElectronAPI {
   report: {
     getTemplates: () => Promise<{ id: string; name: string; content: string; type: string }[]>;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    generate: (templateId: string, context: any) => Promise<string>;
+    generate: (templateId: string, context: any, format?: ReportFormat) => Promise<string>;
+  };
+
+  // Case Management API
+  cases: {
+    list: (groupId: string) => Promise<ModerationCase[]>;
+    open: (input: { groupId: string; title?: string; target?: CaseTarget; source: { type: CaseSourceType; refId?: string; summary: string } }) => Promise<ModerationCase>;
+    setStatus: (id: string, status: CaseStatus) => Promise<ModerationCase>;
+    assign: (id: string, assignee: { id: string; displayName: string } | null) => Promise<ModerationCase>;
+    comment: (id: string, text: string) => Promise<ModerationCase>;
+    linkEvidence: (id: string, evidenceId: string, label: string, linked: boolean) => Promise<ModerationCase>;
+    attachReport: (id: string, templateName: string, content: string) => Promise<ModerationCase>;
+    getSettings: (groupId: string) => Promise<CaseSettings>;
+    setSettings: (groupId: string, settings: CaseSettings) => Promise<CaseSettings>;
+    onUpdated: (callback: (data: { groupId: string; caseId: string }) => void) => () => void;
+  };
+
+  // Evidence Locker API
+  evidence: {
+    list: (filter: { ids?: string[]; subject?: Pick<EvidenceSubject, 'type' | 'id'>; targetUserId?: string; groupId?: string }) => Promise<EvidenceItem[]>;
+    pickFiles: (subject: EvidenceSubject, label?: string) => Promise<EvidenceItem[]>;
+    captureLog: (subject: EvidenceSubject, userId: string, sessionId?: string, label?: string) => Promise<EvidenceItem>;
+    delete: (id: string) => Promise<boolean>;
+    open: (id: string) => Promise<boolean>;
   };
 
   // Discord RPC API
@@ -641,28 +1101,85 @@ export interface ElectronAPI {
     disconnect: () => Promise<{ success: boolean }>;
   };
 
+  // Temporary Ban API
+  tempBans: {
+    get: (groupId?: string) => Promise<TempBan[]>;
+    cancel: (groupId: string, userId: string) => Promise<boolean>;
+    retry: (groupId: string, userId: string) => Promise<boolean>;
+    onUpdated: (callback: (data: { bans: TempBan[] }) => void) => () => void;
+  };
+
+  // Strike Ladder API
+  strikes: {
+    getPolicy: (groupId: string) => Promise<StrikePolicy>;
+    setPolicy: (groupId: string, policy: StrikePolicy) => Promise<StrikePolicy>;
+    getOffenders: (groupId: string) => Promise<StrikeSummary[]>;
+    getUser: (groupId: string, userId: string) => Promise<StrikeRecord | null>;
+    clearUser: (groupId: string, userId: string) => Promise<boolean>;
+    onUpdated: (callback: (data: { groupId: string; userId: string }) => void) => () => void;
+  };
+
   // Discord Webhook API
   webhook: {
     getUrl: (groupId: string) => Promise<string>;
     setUrl: (groupId: string, url: string) => Promise<boolean>;
+    getRoutes: (groupId: string) => Promise<WebhookRoute[]>;
+    setRoutes: (groupId: string, routes: WebhookRoute[]) => Promise<WebhookRoute[]>;
+    testRoute: (groupId: string, routeId: string) => Promise<boolean>;
+    getTemplates: (groupId: string) => Promise<Partial<Record<WebhookEventCategory, WebhookEmbedTemplate>>>;
+    setTemplate: (groupId: string, category: WebhookEventCategory, template: WebhookEmbedTemplate | null) => Promise<Partial<Record<WebhookEventCategory, WebhookEmbedTemplate>>>;
+    previewTemplate: (groupId: string, category: WebhookEventCategory, template: WebhookEmbedTemplate) => Promise<DiscordEmbedPreview>;
     test: (groupId: string) => Promise<boolean>;
     testMock: (groupId: string) => Promise<boolean>;
   };
 
+  // Generic HTTP Webhooks API
+  genericWebhooks: {
+    list: (groupId: string) => Promise<GenericWebhookEndpoint[]>;
+    save: (groupId: string, endpoint: Pick<GenericWebhookEndpoint, 'name' | 'url' | 'enabled' | 'categories'> & { id?: string }) => Promise<GenericWebhookEndpoint>;
+    delete: (groupId: string, id: string) => Promise<boolean>;
+    rotateSecret: (groupId: string, id: string) => Promise<GenericWebhookEndpoint>;
+    test: (groupId: string, id: string) => Promise<{ ok: boolean; error?: string }>;
+  };
+
+  // Outbound Webhook Queue API
+  webhookDigest: {
+    get: (groupId: string) => Promise<{ settings: WebhookDigestSettings; lastSentAt?: number }>;
+    save: (groupId: string, settings: WebhookDigestSettings) => Promise<WebhookDigestSettings>;
+    sendNow: (groupId: string) => Promise<boolean>;
+  };
+
+  webhookQueue: {
+    get: (groupId: string) => Promise<{ pending: QueuedWebhook[]; deadLetters: QueuedWebhook[] }>;
+    retry: (groupId: string, ids?: string[]) => Promise<number>;
+    discard: (groupId: string, ids?: string[]) => Promise<number>;
+    onUpdated: (callback: (data: { groupId: string }) => void) => () => void;
+  };
+
   // Watchlist API
   watchlist: {
     getEntities: () => Promise<WatchedEntity[]>;
     getEntity: (id: string) => Promise<WatchedEntity | undefined>;
     saveEntity: (entity: Partial<WatchedEntity>) => Promise<WatchedEntity>;
     deleteEntity: (id: string) => Promise<boolean>;
+    getTimeline: (id: string) => Promise<WatchlistTimelineEntry[]>;
+    addNote: (entityId: string, text: string) => Promise<WatchlistTimelineEntry>;
+    linkEvidence: (entityId: string, evidence: WatchlistEvidenceRef) => Promise<WatchlistTimelineEntry>;
+    onTimelineUpdated: (callback: (data: { entityId: string }) => void) => () => void;
     getTags: () => Promise<ModerationTag[]>;
     saveTag: (tag: ModerationTag) => Promise<void>;
     deleteTag: (id: string) => Promise<void>;
-    import: (json: string) => Promise<boolean>;
+    previewImport: (json: string, mode: WatchlistImportMode) => Promise<WatchlistImportPreview>;
+    import: (json: string, mode: WatchlistImportMode) => Promise<WatchlistImportPreview>;
     export: () => Promise<string>;
     searchScannedUsers: (query: string) => Promise<ScannedUser[]>;
     getScannedUser: (userId: string) => Promise<ScannedUser | null>;
     onUpdate: (callback: (data: { entities: WatchedEntity[]; tags: ModerationTag[] }) => void) => () => void;
+    getFeeds: () => Promise<WatchlistFeed[]>;
+    saveFeed: (feed: Pick<WatchlistFeed, 'name' | 'source' | 'enabled' | 'intervalMinutes'> & { id?: string }) => Promise<WatchlistFeed>;
+    deleteFeed: (id: string) => Promise<boolean>;
+    syncFeed: (id: string) => Promise<WatchlistFeed | undefined>;
+    onFeedsUpdated: (callback: (data: { feeds: WatchlistFeed[] }) => void) => () => void;
   };
 
   // Staff API (shares data with AutoMod whitelist)
@@ -705,9 +1222,11 @@ export interface ElectronAPI {
 
   // Player Flags API
   playerFlags: {
-    getFlags: (userId: string) => Promise<string[]>;
-    setFlags: (userId: string, flagIds: string[]) => Promise<boolean>;
-    getDefinitions: () => Promise<{ id: string; label: string; description: string; type: 'negative' | 'positive'; color: string }[]>;
+    getFlags: (userId: string, groupId?: string) => Promise<string[]>;
+    setFlags: (userId: string, flagIds: string[], groupId?: string) => Promise<boolean>;
+    getDefinitions: (groupId?: string) => Promise<PlayerFlagDefinition[]>;
+    saveDefinitions: (groupId: string, flags: PlayerFlagDefinition[]) => Promise<PlayerFlagDefinition[]>;
+    resetDefinitions: (groupId: string) => Promise<PlayerFlagDefinition[]>;
   };
 
   // Debug API (developer tools)